@@ -112,6 +112,10 @@ function NotificationHandler({ children }: { children: React.ReactNode }) {
               }
               break;
 
+            case "trip_invite":
+              router.push("/trips");
+              break;
+
             default:
               console.log("Unknown notification type:", type);
               router.push("/notifications");
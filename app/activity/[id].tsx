@@ -14,19 +14,23 @@ import {
   View,
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
+import { ActivitySplits } from "../../components/ActivitySplits";
 import { ActivityStats } from "../../components/ActivityStats";
 import { CommentInput } from "../../components/CommentInput";
 import { CommentThread } from "../../components/CommentThread";
 import { RouteMap } from "../../components/RouteMap";
 import { theme } from "../../constants/theme";
+import { useActivity } from "../../contexts/ActivityContext";
 import { useAuth } from "../../contexts/AuthContext";
 import { useActivityDetails } from "../../hooks/useActivityDetails";
+import { ExportService } from "../../services/exportService";
 import { getActivityIcon, getActivityTypeLabel } from "../../utils/activity";
 
 export default function ActivityDetailScreen() {
   const { id } = useLocalSearchParams();
   const router = useRouter();
   const { user } = useAuth();
+  const { activities, getFullRoutes } = useActivity();
 
   const {
     activity,
@@ -48,6 +52,41 @@ export default function ActivityDetailScreen() {
     cancelReply,
   } = useActivityDetails(id as string);
 
+  const exportFile = async (format: "gpx" | "tcx" | "fit") => {
+    const ownActivity = activities.find((a) => a.id === id);
+    if (!ownActivity) return;
+
+    try {
+      const [fullActivity] = await getFullRoutes([ownActivity]);
+      if (format === "fit") {
+        const { uri } = await ExportService.exportActivityAsFIT(fullActivity);
+        await ExportService.shareFile(uri, "application/vnd.ant.fit");
+      } else if (format === "tcx") {
+        const { uri } = await ExportService.exportActivitiesAsTCX([
+          fullActivity,
+        ]);
+        await ExportService.shareFile(uri, "application/vnd.garmin.tcx+xml");
+      } else {
+        const { uri } = await ExportService.exportActivitiesAsGPX([
+          fullActivity,
+        ]);
+        await ExportService.shareFile(uri, "application/gpx+xml");
+      }
+    } catch (error) {
+      console.error("Error exporting activity:", error);
+      Alert.alert("Export Failed", "Could not export this activity");
+    }
+  };
+
+  const handleExport = () => {
+    Alert.alert("Export Activity", "Choose a file format", [
+      { text: "GPX", onPress: () => exportFile("gpx") },
+      { text: "TCX", onPress: () => exportFile("tcx") },
+      { text: "FIT", onPress: () => exportFile("fit") },
+      { text: "Cancel", style: "cancel" },
+    ]);
+  };
+
   if (loading) {
     return (
       <SafeAreaView style={styles.loadingContainer}>
@@ -139,7 +178,17 @@ export default function ActivityDetailScreen() {
             )}
 
             {/* Route Map */}
-            <RouteMap route={activity.route || []} />
+            <RouteMap
+              route={activity.route || []}
+              activityType={activity.type}
+            />
+
+            {/* Splits & Laps */}
+            <ActivitySplits
+              splits={activity.splits}
+              laps={activity.laps}
+              unit={activity.split_unit}
+            />
 
             {/* Action Buttons */}
             <View style={styles.actions}>
@@ -170,6 +219,22 @@ export default function ActivityDetailScreen() {
                 />
                 <Text style={styles.actionText}>Share</Text>
               </TouchableOpacity>
+
+              {activity.user_id === user?.id &&
+                activity.route &&
+                activity.route.length > 0 && (
+                  <TouchableOpacity
+                    style={styles.actionButton}
+                    onPress={handleExport}
+                  >
+                    <Ionicons
+                      name="download-outline"
+                      size={24}
+                      color={theme.colors.navy}
+                    />
+                    <Text style={styles.actionText}>Export</Text>
+                  </TouchableOpacity>
+                )}
             </View>
           </View>
 
@@ -21,7 +21,7 @@ import { useSettings } from "../contexts/SettingsContext";
 
 export default function EditActivityScreen() {
   const { activityId } = useLocalSearchParams();
-  const { activities, updateActivity } = useActivity();
+  const { activities, updateActivity, getFullRoutes } = useActivity();
   const { formatDistance, settings } = useSettings();
   const router = useRouter();
 
@@ -30,6 +30,10 @@ export default function EditActivityScreen() {
   const [name, setName] = useState(activity?.name || "");
   const [notes, setNotes] = useState(activity?.notes || "");
   const [route, setRoute] = useState(activity?.route || []);
+  // The activity only holds a simplified route, so it is saved back only
+  // when edited - otherwise the full-resolution track is left alone
+  const [routeEdited, setRouteEdited] = useState(false);
+  const [fullRouteLoaded, setFullRouteLoaded] = useState(false);
   const [distance, setDistance] = useState(activity?.distance || 0);
   const [photos, setPhotos] = useState<string[]>(activity?.photos || []);
   const [showMap, setShowMap] = useState(false);
@@ -69,11 +73,12 @@ export default function EditActivityScreen() {
       averageSpeed = distance / 1000 / (updatedDuration / 3600);
     }
 
+    const { route: _displayRoute, ...activityData } = activity;
     const updatedActivity = {
-      ...activity,
+      ...activityData,
       name: name.trim(),
       notes: notes.trim(),
-      route,
+      ...(routeEdited ? { route } : {}),
       distance,
       duration: updatedDuration,
       photos,
@@ -91,9 +96,27 @@ export default function EditActivityScreen() {
     }
   };
 
+  // Edits start from the full track so saving doesn't replace it with the preview
+  const openRouteEditor = async () => {
+    if (!activity) return;
+    if (!fullRouteLoaded && !routeEdited) {
+      try {
+        const [fullActivity] = await getFullRoutes([activity]);
+        setRoute(fullActivity.route);
+        setFullRouteLoaded(true);
+      } catch (error) {
+        console.error("Error loading full route:", error);
+        Alert.alert("Error", "Could not load the full route to edit");
+        return;
+      }
+    }
+    setShowMap(true);
+  };
+
   const handleRouteUpdate = (newRoute: any[], newDistance: number) => {
     setRoute(newRoute);
     setDistance(newDistance);
+    setRouteEdited(true);
   };
 
   const handleCameraCapture = (uri: string) => {
@@ -165,7 +188,7 @@ export default function EditActivityScreen() {
         <Text style={styles.label}>Distance: {formatDistance(distance)}</Text>
         <TouchableOpacity
           style={styles.mapButton}
-          onPress={() => setShowMap(true)}
+          onPress={openRouteEditor}
         >
           <Ionicons name="map" size={20} color={theme.colors.forest} />
           <Text style={styles.mapButtonText}>
@@ -3,6 +3,7 @@ import DateTimePicker from "@react-native-community/datetimepicker";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import React, { useEffect, useState } from "react";
 import {
+  ActivityIndicator,
   Alert,
   Image,
   Platform,
@@ -17,10 +18,14 @@ import {
 import { SafeAreaView } from "react-native-safe-area-context";
 import { CoverPhotoModal } from "../components/CoverPhotoModal";
 import { FriendSelectionModal } from "../components/FriendSelectionModal";
+import { TripMergeModal } from "../components/TripMergeModal";
+import { TripSplitModal } from "../components/TripSplitModal";
+import { TripUndoBanner } from "../components/TripUndoBanner";
 import { theme } from "../constants/theme";
 import { useAuth } from "../contexts/AuthContext";
 import { useFriends } from "../contexts/FriendsContext";
-import { useTrips } from "../contexts/TripContext";
+import { TripParticipant, useTrips } from "../contexts/TripContext";
+import { TripNameService } from "../services/tripNameService";
 import { normalizeDate } from "../utils/date";
 
 export default function EditTripScreen() {
@@ -41,8 +46,11 @@ export default function EditTripScreen() {
   const [showEndDatePicker, setShowEndDatePicker] = useState(false);
   const [showFriendModal, setShowFriendModal] = useState(false);
   const [saving, setSaving] = useState(false);
-  const [allowFriendsToEdit, setAllowFriendsToEdit] = useState(true);
+  const [suggestingName, setSuggestingName] = useState(false);
+  const [friendRoles, setFriendRoles] = useState<Record<string, TripParticipant["role"]>>({});
   const [datesLocked, setDatesLocked] = useState(false);
+  const [showMergeModal, setShowMergeModal] = useState(false);
+  const [showSplitModal, setShowSplitModal] = useState(false);
 
   // Cover photo state
   const [showPhotoModal, setShowPhotoModal] = useState(false);
@@ -51,6 +59,7 @@ export default function EditTripScreen() {
   const [coverPhotoPosition, setCoverPhotoPosition] = useState({ x: 0, y: 0 });
 
   const acceptedFriends = friends.filter((f) => f.status === "accepted");
+  const isOwner = trip?.created_by === user?.id;
 
   useEffect(() => {
     if (!trip) return;
@@ -60,7 +69,17 @@ export default function EditTripScreen() {
     const normalizedEnd = normalizeDate(trip.end_date);
     setStartDate(normalizedStart);
     setEndDate(normalizedEnd);
-    setTaggedFriends(trip.tagged_friends || []);
+    // Pending invites stay listed so the owner can see who hasn't joined yet
+    const participants = trip.participants || [];
+    setTaggedFriends(
+      participants.length > 0 ? participants.map((p) => p.user_id) : trip.tagged_friends || []
+    );
+    setFriendRoles(
+      participants.reduce((acc, p) => ({ ...acc, [p.user_id]: p.role }), {} as Record<
+        string,
+        TripParticipant["role"]
+      >)
+    );
     setDatesLocked(trip.dates_locked || false);
     setCoverPhoto(trip.cover_photo || null);
     setCoverPhotoPosition(trip.cover_photo_position || { x: 0, y: 0 });
@@ -165,6 +184,28 @@ export default function EditTripScreen() {
     return `${tagged[0].displayName || tagged[0].username} and ${tagged.length - 1} others`;
   };
 
+  const handleSuggestName = async () => {
+    setSuggestingName(true);
+    try {
+      const suggestion = await TripNameService.suggestName({
+        items: trip.items,
+        start_date: startDate,
+        end_date: endDate,
+      });
+
+      if (suggestion) {
+        setName(suggestion.slice(0, 50));
+      } else {
+        Alert.alert(
+          "No Suggestion",
+          "Couldn't find place names for this trip. Add spots or activities with locations first."
+        );
+      }
+    } finally {
+      setSuggestingName(false);
+    }
+  };
+
   const handleSelectCoverPhoto = () => {
     const tripPhotos: string[] = [];
     trip.items.forEach((item) => {
@@ -217,7 +258,15 @@ export default function EditTripScreen() {
         name: name.trim(),
         start_date: normalizedStart,
         end_date: normalizedEnd,
-        tagged_friends: taggedFriends,
+        // Only the owner can change who's on the trip
+        ...(isOwner && {
+          participants: taggedFriends.map((friendId) => ({
+            user_id: friendId,
+            role: friendRoles[friendId] || "editor",
+            status:
+              trip.participants?.find((p) => p.user_id === friendId)?.status || "pending",
+          })),
+        }),
         cover_photo: coverPhoto,
         cover_photo_position: coverPhotoPosition,
         dates_locked: datesLocked,
@@ -269,6 +318,16 @@ export default function EditTripScreen() {
     }
   };
 
+  const toggleFriendRole = (friendId: string) => {
+    setFriendRoles({
+      ...friendRoles,
+      [friendId]: friendRoles[friendId] === "viewer" ? "editor" : "viewer",
+    });
+  };
+
+  const isPending = (friendId: string) =>
+    trip.participants?.find((p) => p.user_id === friendId)?.status === "pending";
+
   const onStartDateChange = (event: any, selectedDate?: Date) => {
     setShowStartDatePicker(false);
     if (selectedDate) {
@@ -314,9 +373,25 @@ export default function EditTripScreen() {
       </View>
 
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        <TripUndoBanner tripId={trip.id} />
+
         {/* Trip Name */}
         <View style={styles.section}>
-          <Text style={styles.label}>Trip Name</Text>
+          <View style={styles.labelRow}>
+            <Text style={[styles.label, styles.labelInRow]}>Trip Name</Text>
+            <TouchableOpacity
+              style={styles.suggestButton}
+              onPress={handleSuggestName}
+              disabled={suggestingName}
+            >
+              {suggestingName ? (
+                <ActivityIndicator size="small" color={theme.colors.forest} />
+              ) : (
+                <Ionicons name="refresh" size={16} color={theme.colors.forest} />
+              )}
+              <Text style={styles.suggestButtonText}>Name from places</Text>
+            </TouchableOpacity>
+          </View>
           <TextInput
             style={styles.input}
             value={name}
@@ -434,49 +509,99 @@ export default function EditTripScreen() {
         </View>
 
         {/* Tagged Friends */}
-        <View style={styles.section}>
-          <Text style={styles.label}>Share with Friends</Text>
-
-          <TouchableOpacity style={styles.tagFriendsButton} onPress={() => setShowFriendModal(true)}>
-            <View style={styles.tagFriendsContent}>
-              <Ionicons name="people-outline" size={24} color={theme.colors.forest} />
-              <View style={styles.tagFriendsInfo}>
-                <Text style={styles.tagFriendsLabel}>Tagged Friends</Text>
-                <Text style={styles.tagFriendsValue}>{getTaggedFriendNames()}</Text>
-              </View>
-              <View style={styles.tagFriendsBadge}>
-                <Text style={styles.tagFriendsBadgeText}>{taggedFriends.length}</Text>
+        {isOwner && (
+          <View style={styles.section}>
+            <Text style={styles.label}>Share with Friends</Text>
+
+            <TouchableOpacity style={styles.tagFriendsButton} onPress={() => setShowFriendModal(true)}>
+              <View style={styles.tagFriendsContent}>
+                <Ionicons name="people-outline" size={24} color={theme.colors.forest} />
+                <View style={styles.tagFriendsInfo}>
+                  <Text style={styles.tagFriendsLabel}>Tagged Friends</Text>
+                  <Text style={styles.tagFriendsValue}>{getTaggedFriendNames()}</Text>
+                </View>
+                <View style={styles.tagFriendsBadge}>
+                  <Text style={styles.tagFriendsBadgeText}>{taggedFriends.length}</Text>
+                </View>
               </View>
-            </View>
-          </TouchableOpacity>
+            </TouchableOpacity>
 
-          <View style={styles.permissionRow}>
-            <Text style={styles.permissionText}>Allow friends to edit trip</Text>
-            <Switch
-              value={allowFriendsToEdit}
-              onValueChange={setAllowFriendsToEdit}
-              trackColor={{ false: theme.colors.borderGray, true: theme.colors.forest }}
-              thumbColor={allowFriendsToEdit ? theme.colors.white : theme.colors.lightGray}
-            />
+            {taggedFriends.length > 0 && (
+              <View style={styles.taggedFriendsList}>
+                {acceptedFriends
+                  .filter((f) => taggedFriends.includes(f.id))
+                  .map((friend) => {
+                    const role = friendRoles[friend.id] || "editor";
+                    return (
+                      <View key={friend.id} style={styles.permissionRow}>
+                        <View style={styles.permissionInfo}>
+                          <Text style={styles.permissionText}>
+                            {friend.displayName || friend.username}
+                          </Text>
+                          {isPending(friend.id) && (
+                            <Text style={styles.pendingText}>Invite pending</Text>
+                          )}
+                        </View>
+                        <TouchableOpacity
+                          style={[styles.roleButton, role === "editor" && styles.roleButtonEditor]}
+                          onPress={() => toggleFriendRole(friend.id)}
+                        >
+                          <Ionicons
+                            name={role === "editor" ? "create-outline" : "eye-outline"}
+                            size={14}
+                            color={role === "editor" ? theme.colors.white : theme.colors.forest}
+                          />
+                          <Text
+                            style={[
+                              styles.roleButtonText,
+                              role === "editor" && styles.roleButtonTextEditor,
+                            ]}
+                          >
+                            {role === "editor" ? "Editor" : "Viewer"}
+                          </Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity onPress={() => toggleFriend(friend.id)}>
+                          <Ionicons name="close-circle" size={20} color={theme.colors.gray} />
+                        </TouchableOpacity>
+                      </View>
+                    );
+                  })}
+                <Text style={styles.roleHint}>
+                  Editors can add and remove items and change dates. Viewers can comment and chat.
+                </Text>
+              </View>
+            )}
           </View>
+        )}
 
-          {taggedFriends.length > 0 && (
-            <View style={styles.taggedFriendsList}>
-              {acceptedFriends
-                .filter((f) => taggedFriends.includes(f.id))
-                .map((friend) => (
-                  <View key={friend.id} style={styles.taggedFriendChip}>
-                    <Text style={styles.taggedFriendName}>
-                      {friend.displayName || friend.username}
-                    </Text>
-                    <TouchableOpacity onPress={() => toggleFriend(friend.id)}>
-                      <Ionicons name="close-circle" size={18} color={theme.colors.white} />
-                    </TouchableOpacity>
-                  </View>
-                ))}
-            </View>
-          )}
-        </View>
+        {/* Merge & Split */}
+        {isOwner && (
+          <View style={styles.section}>
+            <Text style={styles.label}>Merge & Split</Text>
+
+            <TouchableOpacity style={styles.tagFriendsButton} onPress={() => setShowMergeModal(true)}>
+              <View style={styles.tagFriendsContent}>
+                <Ionicons name="git-merge-outline" size={24} color={theme.colors.forest} />
+                <View style={styles.tagFriendsInfo}>
+                  <Text style={styles.tagFriendsValue}>Merge Another Trip In</Text>
+                  <Text style={styles.tagFriendsLabel}>Combine two of your trips into this one</Text>
+                </View>
+                <Ionicons name="chevron-forward" size={20} color={theme.colors.gray} />
+              </View>
+            </TouchableOpacity>
+
+            <TouchableOpacity style={styles.tagFriendsButton} onPress={() => setShowSplitModal(true)}>
+              <View style={styles.tagFriendsContent}>
+                <Ionicons name="cut-outline" size={24} color={theme.colors.forest} />
+                <View style={styles.tagFriendsInfo}>
+                  <Text style={styles.tagFriendsValue}>Split Trip</Text>
+                  <Text style={styles.tagFriendsLabel}>Move a date range or some items to a new trip</Text>
+                </View>
+                <Ionicons name="chevron-forward" size={20} color={theme.colors.gray} />
+              </View>
+            </TouchableOpacity>
+          </View>
+        )}
 
         {/* Trip Info */}
         <View style={styles.infoSection}>
@@ -541,6 +666,18 @@ export default function EditTripScreen() {
         onToggleFriend={toggleFriend}
       />
 
+      <TripMergeModal
+        visible={showMergeModal}
+        onClose={() => setShowMergeModal(false)}
+        trip={trip}
+      />
+
+      <TripSplitModal
+        visible={showSplitModal}
+        onClose={() => setShowSplitModal(false)}
+        trip={trip}
+      />
+
       <CoverPhotoModal
         visible={showPhotoModal}
         onClose={() => setShowPhotoModal(false)}
@@ -627,6 +764,25 @@ const styles = StyleSheet.create({
     color: theme.colors.navy,
     marginBottom: 10,
   },
+  labelRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 10,
+  },
+  labelInRow: {
+    marginBottom: 0,
+  },
+  suggestButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  suggestButtonText: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: theme.colors.forest,
+  },
   input: {
     backgroundColor: theme.colors.offWhite,
     borderRadius: 8,
@@ -836,30 +992,46 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     marginBottom: 15,
   },
+  permissionInfo: {
+    flex: 1,
+  },
   permissionText: {
     fontSize: 14,
     color: theme.colors.navy,
-    flex: 1,
   },
-  taggedFriendsList: {
-    flexDirection: "row",
-    flexWrap: "wrap",
-    marginTop: 10,
+  pendingText: {
+    fontSize: 12,
+    color: theme.colors.burntOrange,
+    marginTop: 2,
   },
-  taggedFriendChip: {
+  roleButton: {
     flexDirection: "row",
     alignItems: "center",
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: theme.colors.forest,
+    marginRight: 10,
+    gap: 4,
+  },
+  roleButtonEditor: {
     backgroundColor: theme.colors.forest,
-    paddingHorizontal: 12,
-    paddingVertical: 6,
-    borderRadius: 20,
-    marginRight: 8,
-    marginBottom: 8,
   },
-  taggedFriendName: {
+  roleButtonText: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: theme.colors.forest,
+  },
+  roleButtonTextEditor: {
     color: theme.colors.white,
-    fontSize: 14,
-    marginRight: 6,
+  },
+  roleHint: {
+    fontSize: 12,
+    color: theme.colors.gray,
+  },
+  taggedFriendsList: {
+    marginTop: 10,
   },
   infoSection: {
     backgroundColor: theme.colors.white,
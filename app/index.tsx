@@ -33,6 +33,7 @@ import { useFriends } from "../contexts/FriendsContext";
 import { useLocation } from "../contexts/LocationContext";
 import { useSettings } from "../contexts/SettingsContext";
 import { supabase } from "../lib/supabase";
+import { AutoBackupService } from "../services/autoBackupService";
 import { MemoryNotificationService } from "../services/memoryNotificationService";
 import { useWishlist } from "../contexts/WishlistContext";
 import { useTrips } from "../contexts/TripContext";
@@ -68,7 +69,13 @@ export default function DashboardScreen() {
   const refreshProfile = authContext.refreshProfile;
 
   const { savedSpots, location, getLocation } = useLocation();
-  const { activities } = useActivity();
+  const {
+    activities,
+    interruptedSession,
+    resumeInterruptedSession,
+    saveInterruptedSession,
+    discardInterruptedSession,
+  } = useActivity();
   const { formatDistance, formatSpeed, settings, getMapTileUrl } =
     useSettings();
   const { friendRequests } = useFriends();
@@ -98,6 +105,50 @@ export default function DashboardScreen() {
   AsyncStorage.removeItem("offlineMode");
 }, []);
 
+  // Offer to recover an activity that was being tracked when the app closed
+  useEffect(() => {
+    if (!interruptedSession) return;
+    const { state } = interruptedSession;
+
+    Alert.alert(
+      "Unfinished Activity",
+      `Your ${state.activityType} started ${new Date(
+        state.startTime
+      ).toLocaleString()} (${formatDistance(
+        state.distance
+      )}) was interrupted. What would you like to do?`,
+      [
+        {
+          text: "Discard",
+          style: "destructive",
+          onPress: () => discardInterruptedSession(),
+        },
+        {
+          text: "Save",
+          onPress: async () => {
+            try {
+              await saveInterruptedSession();
+              Alert.alert("Saved", "Your interrupted activity was saved.");
+            } catch (error) {
+              console.error("Error saving interrupted activity:", error);
+              Alert.alert(
+                "Save Failed",
+                "We couldn't save the activity. We'll ask again next time."
+              );
+            }
+          },
+        },
+        {
+          text: "Resume",
+          onPress: () => {
+            resumeInterruptedSession();
+            router.push("/track-activity");
+          },
+        },
+      ]
+    );
+  }, [interruptedSession]);
+
   // Sidebar animation
   const sidebarAnimation = useRef(new Animated.Value(-width * 0.75)).current;
 
@@ -283,6 +334,7 @@ export default function DashboardScreen() {
     if (user) {
       MemoryNotificationService.initialize(user.id);
       MemoryNotificationService.initializeForegroundChecks(user.id);
+      AutoBackupService.initialize();
 
       fetchNotificationCount();
 
@@ -27,7 +27,8 @@ interface Notification {
     | "trip_shared"
     | "memory"
     | "proximity_alert"
-    | "trip_message";
+    | "trip_message"
+    | "trip_invite";
 
   title: string;
   message: string;
@@ -319,6 +320,7 @@ export default function NotificationsScreen() {
         router.push("/friends-feed");
         break;
       case "trip_shared":
+      case "trip_invite":
         router.push("/trips");
         break;
       case "achievement":
@@ -349,6 +351,7 @@ export default function NotificationsScreen() {
       memory: "calendar",
       proximity_alert: "navigate-circle",
       trip_message: "chatbubbles",
+      trip_invite: "mail-unread",
     };
     return icons[type] || "notifications";
   };
@@ -366,6 +369,7 @@ export default function NotificationsScreen() {
       memory: "#9C27B0",
       proximity_alert: theme.colors.burntOrange,
       trip_message: theme.colors.forest,
+      trip_invite: theme.colors.forest,
     };
     return colors[type] || theme.colors.gray;
   };
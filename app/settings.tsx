@@ -1,8 +1,6 @@
 import { Ionicons } from "@expo/vector-icons";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import * as Application from "expo-application";
-import * as DocumentPicker from "expo-document-picker";
-import * as FileSystem from "expo-file-system";
 import * as Location from "expo-location";
 import { Stack, useRouter } from "expo-router";
 import { useEffect, useState } from "react";
@@ -10,214 +8,94 @@ import {
   ActivityIndicator,
   Alert,
   Image,
-  Modal,
   ScrollView,
   StyleSheet,
   Switch,
   Text,
-  TextInput,
   TouchableOpacity,
   View,
 } from "react-native";
+import { ExportModal } from "../components/ExportModal";
+import { HistoryImportModal } from "../components/HistoryImportModal";
+import { ImportPreviewModal } from "../components/ImportPreviewModal";
+import { PassphraseModal } from "../components/PassphraseModal";
+import { PlacesImportModal } from "../components/PlacesImportModal";
 import { theme } from "../constants/theme";
-import { useActivity } from "../contexts/ActivityContext";
+import { Activity, useActivity } from "../contexts/ActivityContext";
 import { useAuth } from "../contexts/AuthContext";
 import { useFriends } from "../contexts/FriendsContext";
+import { useJournal } from "../contexts/JournalContext";
 import { useLocation } from "../contexts/LocationContext";
 import { useSettings } from "../contexts/SettingsContext";
+import { Trip, useTrips } from "../contexts/TripContext";
 import { useWishlist } from "../contexts/WishlistContext";
+import { usePassphrasePrompt } from "../hooks/usePassphrasePrompt";
 import { supabase } from "../lib/supabase";
+import {
+  BackupArchive,
+  BackupService,
+  RestoreMode,
+  RestoreSummary,
+} from "../services/backupService";
+import {
+  AUTO_BACKUP_KEEP_OPTIONS,
+  AutoBackupService,
+  AutoBackupStatus,
+  DEFAULT_AUTO_BACKUP_KEEP,
+} from "../services/autoBackupService";
+import { ExportService } from "../services/exportService";
+import {
+  LocationHistory,
+  LocationHistoryService,
+  ProposedTrip,
+} from "../services/locationHistoryService";
+import {
+  ImportedSpot,
+  ImportedWishlistItem,
+  ImportPreview,
+  ImportService,
+  PlacesImportSource,
+} from "../services/importService";
+import { MemoryNotificationService } from "../services/memoryNotificationService";
+import { getSplitUnit } from "../utils/splits";
 import { Linking } from "react-native";
 import { Platform } from "react-native";
 
-// Export Modal Component (keeping your existing modal)
-const ExportModal = ({
-  visible,
-  onClose,
-  onExport,
-}: {
-  visible: boolean;
-  onClose: () => void;
-  onExport: (format: "json" | "csv", method: "share" | "email") => void;
-}) => {
-  const [selectedFormat, setSelectedFormat] = useState<"json" | "csv">("json");
-  const [emailAddress, setEmailAddress] = useState("");
-  const [showEmailInput, setShowEmailInput] = useState(false);
-
-  const exportFormats = [
-    {
-      id: "json",
-      name: "JSON Backup",
-      description: "Complete backup with all data",
-      icon: "code-outline",
-      color: theme.colors.forest,
-    },
-    {
-      id: "csv",
-      name: "CSV Export",
-      description: "Spreadsheet format for analysis",
-      icon: "grid-outline",
-      color: theme.colors.navy,
-    },
-  ];
-
-  const handleExport = () => {
-    if (showEmailInput && !emailAddress.trim()) {
-      Alert.alert("Email Required", "Please enter an email address");
-      return;
-    }
-    onExport(selectedFormat, showEmailInput ? "email" : "share");
-    onClose();
-  };
-
-  return (
-    <Modal
-      visible={visible}
-      animationType="slide"
-      transparent={true}
-      onRequestClose={onClose}
-    >
-      <View style={styles.modalOverlay}>
-        <View style={styles.modalContent}>
-          <View style={styles.modalHeader}>
-            <Text style={styles.modalTitle}>Export Data</Text>
-            <TouchableOpacity onPress={onClose}>
-              <Ionicons name="close" size={24} color={theme.colors.gray} />
-            </TouchableOpacity>
-          </View>
-
-          <Text style={styles.modalSubtitle}>Choose export format:</Text>
-
-          {exportFormats.map((format) => (
-            <TouchableOpacity
-              key={format.id}
-              style={[
-                styles.formatOption,
-                selectedFormat === format.id && styles.formatOptionSelected,
-              ]}
-              onPress={() => setSelectedFormat(format.id as any)}
-            >
-              <View
-                style={[
-                  styles.formatIcon,
-                  { backgroundColor: format.color + "20" },
-                ]}
-              >
-                <Ionicons
-                  name={format.icon as any}
-                  size={24}
-                  color={format.color}
-                />
-              </View>
-              <View style={styles.formatInfo}>
-                <Text style={styles.formatName}>{format.name}</Text>
-                <Text style={styles.formatDescription}>
-                  {format.description}
-                </Text>
-              </View>
-              {selectedFormat === format.id && (
-                <Ionicons
-                  name="checkmark-circle"
-                  size={24}
-                  color={theme.colors.forest}
-                />
-              )}
-            </TouchableOpacity>
-          ))}
-
-          <View style={styles.exportMethodSection}>
-            <Text style={styles.modalSubtitle}>Export via:</Text>
-
-            <View style={styles.methodButtons}>
-              <TouchableOpacity
-                style={[
-                  styles.methodButton,
-                  !showEmailInput && styles.methodButtonActive,
-                ]}
-                onPress={() => setShowEmailInput(false)}
-              >
-                <Ionicons
-                  name="share-social"
-                  size={20}
-                  color={
-                    !showEmailInput ? theme.colors.white : theme.colors.gray
-                  }
-                />
-                <Text
-                  style={[
-                    styles.methodButtonText,
-                    !showEmailInput && styles.methodButtonTextActive,
-                  ]}
-                >
-                  Share
-                </Text>
-              </TouchableOpacity>
-
-              <TouchableOpacity
-                style={[
-                  styles.methodButton,
-                  showEmailInput && styles.methodButtonActive,
-                ]}
-                onPress={() => setShowEmailInput(true)}
-              >
-                <Ionicons
-                  name="mail"
-                  size={20}
-                  color={
-                    showEmailInput ? theme.colors.white : theme.colors.gray
-                  }
-                />
-                <Text
-                  style={[
-                    styles.methodButtonText,
-                    showEmailInput && styles.methodButtonTextActive,
-                  ]}
-                >
-                  Email
-                </Text>
-              </TouchableOpacity>
-            </View>
-
-            {showEmailInput && (
-              <TextInput
-                style={styles.emailInput}
-                placeholder="Enter email address"
-                value={emailAddress}
-                onChangeText={setEmailAddress}
-                keyboardType="email-address"
-                autoCapitalize="none"
-                autoCorrect={false}
-                placeholderTextColor={theme.colors.lightGray}
-              />
-            )}
-          </View>
-
-          <TouchableOpacity style={styles.exportButton} onPress={handleExport}>
-            <Ionicons
-              name="download-outline"
-              size={20}
-              color={theme.colors.white}
-            />
-            <Text style={styles.exportButtonText}>Export</Text>
-          </TouchableOpacity>
-        </View>
-      </View>
-    </Modal>
-  );
-};
-
 export default function SettingsScreen() {
   const router = useRouter();
   const { user, profile, signOut } = useAuth();
-  const { savedSpots } = useLocation();
-  const { activities } = useActivity();
-  const { wishlistItems } = useWishlist();
+  const { savedSpots, saveManualLocation, refreshSpots } = useLocation();
+  const { activities, importActivity, refreshActivities } = useActivity();
+  const { wishlistItems, addWishlistItem, refreshWishlist } = useWishlist();
+  const { trips, refreshTrips } = useTrips();
+  const { refreshEntries } = useJournal();
   const { settings, updateSettings } = useSettings();
   const { privacySettings, updatePrivacySettings, friends } = useFriends();
 
   const [showExportModal, setShowExportModal] = useState(false);
-  const [isExporting, setIsExporting] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
+  const [restoreStatus, setRestoreStatus] = useState("");
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(
+    null
+  );
+  const [isImportingFile, setIsImportingFile] = useState(false);
+  const [placesImport, setPlacesImport] = useState<PlacesImportSource | null>(
+    null
+  );
+  const [isReadingPlaces, setIsReadingPlaces] = useState(false);
+  const [historyImport, setHistoryImport] = useState<{
+    history: LocationHistory;
+    proposals: ProposedTrip[];
+  } | null>(null);
+  const [isReadingHistory, setIsReadingHistory] = useState(false);
+  const [isAcceptingHistory, setIsAcceptingHistory] = useState(false);
+  const [historyStatus, setHistoryStatus] = useState("");
+  const [autoBackupStatus, setAutoBackupStatus] = useState<AutoBackupStatus>(
+    {}
+  );
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const [autoBackupEncrypted, setAutoBackupEncrypted] = useState(false);
+  const { requestPassphrase, passphraseModalProps } = usePassphrasePrompt();
 
   const [homeLocation, setHomeLocation] = useState<{
     latitude: number;
@@ -230,6 +108,11 @@ export default function SettingsScreen() {
     loadHomeLocation();
   }, [user]);
 
+  useEffect(() => {
+    AutoBackupService.getStatus().then(setAutoBackupStatus);
+    AutoBackupService.isEncrypted().then(setAutoBackupEncrypted);
+  }, []);
+
   const loadHomeLocation = async () => {
     if (!user) return;
 
@@ -441,108 +324,382 @@ export default function SettingsScreen() {
     await updatePrivacySettings({ [key]: value });
   };
 
-  const handleExport = async (
-    format: "json" | "csv",
-    method: "share" | "email"
-  ) => {
-    setIsExporting(true);
+  const toggleAutoBackup = async (enabled: boolean) => {
+    await updateSetting("autoBackupEnabled", enabled);
+    await AutoBackupService.configure(enabled);
+  };
+
+  const chooseBackupFrequency = () => {
+    Alert.alert("Backup Frequency", "How often should backups be made?", [
+      {
+        text: "Daily",
+        onPress: () => updateSetting("autoBackupFrequency", "daily"),
+      },
+      {
+        text: "Weekly",
+        onPress: () => updateSetting("autoBackupFrequency", "weekly"),
+      },
+      { text: "Cancel", style: "cancel" },
+    ]);
+  };
+
+  const toggleAutoBackupEncryption = async (enabled: boolean) => {
+    if (!enabled) {
+      await AutoBackupService.setPassphrase(null);
+      setAutoBackupEncrypted(false);
+      return;
+    }
+
+    const passphrase = await requestPassphrase("create");
+    if (!passphrase) return;
+
     try {
-      let content: string;
-      let filename: string;
+      await AutoBackupService.setPassphrase(passphrase);
+      setAutoBackupEncrypted(true);
+    } catch (error) {
+      console.error("Error saving backup passphrase:", error);
+      Alert.alert("Error", "Could not turn on backup encryption");
+    }
+  };
 
-      if (format === "json") {
-        const exportData = {
-          exportDate: new Date().toISOString(),
-          settings,
-          savedSpots,
-          activities,
-          wishlistItems,
-        };
-        content = JSON.stringify(exportData, null, 2);
-        filename = `explorable_backup_${
-          new Date().toISOString().split("T")[0]
-        }.json`;
-      } else {
-        // Simple CSV export for activities
-        const csvHeader = "Name,Type,Distance,Duration,Date\n";
-        const csvRows = activities
-          .map(
-            (a) =>
-              `"${a.name}","${a.type}","${a.distance}","${a.duration}","${a.startTime}"`
-          )
-          .join("\n");
-        content = csvHeader + csvRows;
-        filename = `explorable_activities_${
-          new Date().toISOString().split("T")[0]
-        }.csv`;
-      }
+  const chooseBackupKeep = () => {
+    Alert.alert(
+      "Backups to Keep",
+      "Older backups are deleted once this many are stored on your device. Only the newest backup keeps copies of your photos.",
+      [
+        ...AUTO_BACKUP_KEEP_OPTIONS.map((count) => ({
+          text: `${count} backups`,
+          onPress: () => updateSetting("autoBackupKeep", count),
+        })),
+        { text: "Cancel", style: "cancel" as const },
+      ]
+    );
+  };
 
-      // Copy to clipboard as a simple solution
-      const Clipboard = await import("expo-clipboard");
-      await Clipboard.setStringAsync(content);
+  const handleBackupNow = async () => {
+    if (!user) return;
 
-      Alert.alert(
-        "Export Complete",
-        `Your ${format.toUpperCase()} data has been copied to clipboard.\n\nFilename: ${filename}\n\nPaste it into Notes or any text app to save it.`,
-        [{ text: "OK" }]
-      );
+    setIsBackingUp(true);
+    try {
+      setAutoBackupStatus(await AutoBackupService.runBackup(user.id, settings));
     } catch (error) {
-      console.error("Export error:", error);
-      Alert.alert("Export Failed", "Could not export your data");
+      Alert.alert("Backup Failed", "Could not create a backup right now");
+      setAutoBackupStatus(await AutoBackupService.getStatus());
     } finally {
-      setIsExporting(false);
+      setIsBackingUp(false);
     }
   };
 
-  // Simple import handler
+  const getAutoBackupDescription = () => {
+    if (autoBackupStatus.lastSuccessAt) {
+      const date = new Date(autoBackupStatus.lastSuccessAt);
+      return `Last backup ${date.toLocaleDateString()} ${date.toLocaleTimeString(
+        [],
+        { hour: "numeric", minute: "2-digit" }
+      )} · ${autoBackupStatus.lastSize}`;
+    }
+    return autoBackupStatus.lastError
+      ? `Last attempt failed: ${autoBackupStatus.lastError}`
+      : "No backups yet";
+  };
+
   const handleImport = async () => {
-    try {
-      setIsImporting(true);
+    if (!user) {
+      Alert.alert("Sign In Required", "Sign in to restore a backup");
+      return;
+    }
 
-      const result = await DocumentPicker.getDocumentAsync({
-        type: "application/json",
-        copyToCacheDirectory: true,
-      });
+    setIsImporting(true);
+    const archive = await ExportService.importBackup(() =>
+      requestPassphrase()
+    );
+    setIsImporting(false);
+    if (!archive) return;
+
+    const { tables } = archive;
+    const photoCount = Object.keys(archive.manifest.files).length;
+    const counts = [
+      `${tables.activities.length} activities`,
+      `${tables.locations.length} places`,
+      `${tables.wishlist_items.length} wishlist items`,
+      `${tables.trips.length} trips`,
+      `${tables.journal_entries.length} journal entries`,
+      `${photoCount} photos`,
+    ].join(", ");
 
-      // Check if user cancelled
-      if (result.canceled || !result.assets || result.assets.length === 0) {
-        setIsImporting(false);
-        return;
+    Alert.alert(
+      "Restore Backup",
+      `Backup from ${new Date(
+        archive.exportDate
+      ).toLocaleDateString()} contains ${counts}.\n\nMerge adds anything you don't already have. Replace swaps your current data for the backup's.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Merge", onPress: () => restoreBackup(archive, "merge") },
+        {
+          text: "Replace",
+          style: "destructive",
+          onPress: () =>
+            Alert.alert(
+              "Replace All Data?",
+              "Your current activities, places, wishlist, trips and journal will be permanently deleted.",
+              [
+                { text: "Cancel", style: "cancel" },
+                {
+                  text: "Replace",
+                  style: "destructive",
+                  onPress: () => restoreBackup(archive, "replace"),
+                },
+              ]
+            ),
+        },
+      ]
+    );
+  };
+
+  const restoreBackup = async (archive: BackupArchive, mode: RestoreMode) => {
+    if (!user) return;
+
+    setIsImporting(true);
+    const labels = {
+      photos: "photos",
+      activities: "activities",
+      locations: "places",
+      wishlist_items: "wishlist",
+      trips: "trips",
+      trip_items: "trip items",
+      trip_tags: "tagged friends",
+      journal_entries: "journal",
+    };
+
+    try {
+      const summary = await BackupService.restoreArchive(
+        archive,
+        user.id,
+        mode,
+        ({ stage, completed, total }) =>
+          setRestoreStatus(
+            `Restoring ${labels[stage]} (${completed}/${total})`
+          )
+      );
+
+      if (archive.settings) {
+        await updateSettings(archive.settings);
       }
+      await Promise.all([
+        refreshActivities(),
+        refreshSpots(),
+        refreshWishlist(),
+        refreshTrips(),
+        refreshEntries(),
+      ]);
+
+      Alert.alert("Restore Complete", formatRestoreSummary(summary));
+    } catch (error) {
+      console.error("Restore error:", error);
+      Alert.alert("Restore Failed", "Could not restore the backup");
+    } finally {
+      setIsImporting(false);
+      setRestoreStatus("");
+    }
+  };
 
-      // Get the first selected file
-      const file = result.assets[0];
-      const content = await FileSystem.readAsStringAsync(file.uri);
-      const data = JSON.parse(content);
+  const formatRestoreSummary = (summary: RestoreSummary) => {
+    const line = (
+      label: string,
+      { created, skipped, failed }: RestoreSummary["photos"]
+    ) =>
+      `${label}: ${created} added, ${skipped} already saved` +
+      (failed > 0 ? `, ${failed} failed` : "");
+
+    return [
+      line("Activities", summary.tables.activities),
+      line("Places", summary.tables.locations),
+      line("Wishlist", summary.tables.wishlist_items),
+      line("Trips", summary.tables.trips),
+      line("Journal", summary.tables.journal_entries),
+      line("Photos", summary.photos),
+    ].join("\n");
+  };
 
-      // Basic validation
-      if (data.exportDate && data.settings) {
-        Alert.alert(
-          "Import Backup",
-          `Import backup from ${new Date(
-            data.exportDate
-          ).toLocaleDateString()}?`,
-          [
-            { text: "Cancel", style: "cancel" },
-            {
-              text: "Import",
-              onPress: async () => {
-                Alert.alert("Success", "Data imported successfully!");
-              },
-            },
-          ]
-        );
-      } else {
-        Alert.alert(
-          "Invalid File",
-          "This doesn't appear to be a valid backup file"
+  const handleImportActivityFile = async () => {
+    try {
+      setIsImportingFile(true);
+      const result = await ImportService.importActivityFile(
+        getSplitUnit(settings.units)
+      );
+      if (!result) return;
+
+      setImportPreview(
+        ImportService.buildPreview(
+          result.fileName,
+          result.parsed,
+          activities,
+          savedSpots,
+          wishlistItems
+        )
+      );
+    } catch (error) {
+      console.error("Activity file import error:", error);
+      Alert.alert(
+        "Import Failed",
+        "Could not read this file. Please choose a GPX, TCX, FIT, GeoJSON, KML or KMZ file."
+      );
+    } finally {
+      setIsImportingFile(false);
+    }
+  };
+
+  const handleConfirmImport = async (
+    importedActivities: Activity[],
+    importedSpots: ImportedSpot[],
+    importedWishlist: ImportedWishlistItem[]
+  ) => {
+    setIsImportingFile(true);
+    let savedActivities = 0;
+    let savedPlaces = 0;
+    let savedWishlist = 0;
+    let failed = 0;
+
+    for (const activity of importedActivities) {
+      try {
+        await importActivity(activity);
+        savedActivities++;
+      } catch (error) {
+        console.error("Error importing activity:", error);
+        failed++;
+      }
+    }
+
+    for (const spot of importedSpots) {
+      try {
+        await saveManualLocation(
+          spot.name,
+          spot.location,
+          spot.description,
+          [],
+          spot.category,
+          spot.visitDate
         );
+        savedPlaces++;
+      } catch (error) {
+        console.error("Error importing place:", error);
+        failed++;
       }
+    }
+
+    for (const item of importedWishlist) {
+      try {
+        await addWishlistItem(item);
+        savedWishlist++;
+      } catch (error) {
+        console.error("Error importing wishlist item:", error);
+        failed++;
+      }
+    }
+
+    setIsImportingFile(false);
+    setImportPreview(null);
+    setPlacesImport(null);
+
+    const imported = [
+      savedActivities > 0 &&
+        `${savedActivities} ${savedActivities === 1 ? "activity" : "activities"}`,
+      savedPlaces > 0 && `${savedPlaces} ${savedPlaces === 1 ? "place" : "places"}`,
+      savedWishlist > 0 &&
+        `${savedWishlist} wishlist ${savedWishlist === 1 ? "item" : "items"}`,
+    ].filter(Boolean);
+
+    Alert.alert(
+      "Import Complete",
+      `Imported ${imported.length > 0 ? imported.join(", ") : "nothing"}.${
+        failed > 0 ? `\n\n${failed} could not be saved.` : ""
+      }`
+    );
+  };
+
+  const handleImportLocationHistory = async () => {
+    try {
+      setIsReadingHistory(true);
+      const history = await LocationHistoryService.importHistoryFiles(
+        activities,
+        getSplitUnit(settings.units)
+      );
+      if (!history) return;
+
+      const home = user
+        ? await MemoryNotificationService.getHomeLocation(user.id)
+        : null;
+      setHistoryImport({
+        history,
+        proposals: await LocationHistoryService.proposeTrips(
+          history,
+          trips,
+          home
+        ),
+      });
+    } catch (error: any) {
+      console.error("Location history import error:", error);
+      Alert.alert(
+        "Import Failed",
+        error?.message ||
+          "Could not read this file. Please choose your Google Takeout location history."
+      );
+    } finally {
+      setIsReadingHistory(false);
+    }
+  };
+
+  const handleAcceptHistoryTrips = async (accepted: Trip[]) => {
+    if (!user || !historyImport) return;
+
+    setIsAcceptingHistory(true);
+    try {
+      const summary = await LocationHistoryService.acceptTrips(
+        user.id,
+        accepted,
+        historyImport.history,
+        savedSpots,
+        ({ stage, completed, total }) =>
+          setHistoryStatus(`Saving ${stage} (${completed + 1}/${total})...`)
+      );
+
+      await Promise.all([refreshSpots(), refreshActivities(), refreshTrips()]);
+      setHistoryImport(null);
+
+      Alert.alert(
+        "History Imported",
+        `Added ${summary.trips} ${summary.trips === 1 ? "trip" : "trips"}, ${
+          summary.spots
+        } new ${summary.spots === 1 ? "place" : "places"} and ${
+          summary.activities
+        } ${summary.activities === 1 ? "activity" : "activities"}.` +
+          (summary.visits > 0
+            ? ` ${summary.visits} visits were added to places you'd already saved.`
+            : "") +
+          (summary.failed > 0 ? `\n\n${summary.failed} could not be saved.` : "")
+      );
     } catch (error) {
-      console.error("Import error:", error);
-      Alert.alert("Import Failed", "Could not import the file");
+      console.error("Error accepting history trips:", error);
+      Alert.alert("Import Failed", "Failed to save the selected trips.");
     } finally {
-      setIsImporting(false);
+      setIsAcceptingHistory(false);
+      setHistoryStatus("");
+    }
+  };
+
+  const handleImportPlacesFile = async () => {
+    try {
+      setIsReadingPlaces(true);
+      const source = await ImportService.importPlacesFile();
+      if (source) setPlacesImport(source);
+    } catch (error) {
+      console.error("Places import error:", error);
+      Alert.alert(
+        "Import Failed",
+        "Could not read this file. Please choose a Google Takeout Saved Places file or a CSV with coordinates."
+      );
+    } finally {
+      setIsReadingPlaces(false);
     }
   };
 
@@ -1150,7 +1307,6 @@ export default function SettingsScreen() {
           <TouchableOpacity
             style={styles.settingItem}
             onPress={() => setShowExportModal(true)}
-            disabled={isExporting}
           >
             <View style={styles.settingLeft}>
               <Ionicons
@@ -1160,7 +1316,32 @@ export default function SettingsScreen() {
               />
               <Text style={styles.settingLabel}>Export Data</Text>
             </View>
-            {isExporting ? (
+            <Ionicons
+              name="chevron-forward"
+              size={20}
+              color={theme.colors.lightGray}
+            />
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.settingItem}
+            onPress={handleImport}
+            disabled={isImporting}
+          >
+            <View style={styles.settingLeft}>
+              <Ionicons
+                name="cloud-upload-outline"
+                size={22}
+                color={theme.colors.gray}
+              />
+              <View style={styles.settingTextContainer}>
+                <Text style={styles.settingLabel}>Import Backup</Text>
+                {restoreStatus !== "" && (
+                  <Text style={styles.settingDescription}>{restoreStatus}</Text>
+                )}
+              </View>
+            </View>
+            {isImporting ? (
               <ActivityIndicator size="small" color={theme.colors.forest} />
             ) : (
               <Ionicons
@@ -1173,18 +1354,219 @@ export default function SettingsScreen() {
 
           <TouchableOpacity
             style={styles.settingItem}
-            onPress={handleImport}
-            disabled={isImporting}
+            onPress={handleImportActivityFile}
+            disabled={isImportingFile}
           >
             <View style={styles.settingLeft}>
               <Ionicons
-                name="cloud-upload-outline"
+                name="navigate-outline"
                 size={22}
                 color={theme.colors.gray}
               />
-              <Text style={styles.settingLabel}>Import Backup</Text>
+              <View style={styles.settingTextContainer}>
+                <Text style={styles.settingLabel}>
+                  Import Activities & Places
+                </Text>
+                <Text style={styles.settingDescription}>
+                  GPX, TCX, FIT, GeoJSON, KML or KMZ - tracks become activities, points become places
+                </Text>
+              </View>
             </View>
-            {isImporting ? (
+            {isImportingFile && !importPreview && !placesImport ? (
+              <ActivityIndicator size="small" color={theme.colors.forest} />
+            ) : (
+              <Ionicons
+                name="chevron-forward"
+                size={20}
+                color={theme.colors.lightGray}
+              />
+            )}
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.settingItem}
+            onPress={handleImportPlacesFile}
+            disabled={isReadingPlaces || isImportingFile}
+          >
+            <View style={styles.settingLeft}>
+              <Ionicons
+                name="star-outline"
+                size={22}
+                color={theme.colors.gray}
+              />
+              <View style={styles.settingTextContainer}>
+                <Text style={styles.settingLabel}>Import Saved Places</Text>
+                <Text style={styles.settingDescription}>
+                  Google Takeout Saved Places or a CSV with coordinates
+                </Text>
+              </View>
+            </View>
+            {isReadingPlaces ? (
+              <ActivityIndicator size="small" color={theme.colors.forest} />
+            ) : (
+              <Ionicons
+                name="chevron-forward"
+                size={20}
+                color={theme.colors.lightGray}
+              />
+            )}
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.settingItem}
+            onPress={handleImportLocationHistory}
+            disabled={isReadingHistory || isAcceptingHistory}
+          >
+            <View style={styles.settingLeft}>
+              <Ionicons
+                name="footsteps-outline"
+                size={22}
+                color={theme.colors.gray}
+              />
+              <View style={styles.settingTextContainer}>
+                <Text style={styles.settingLabel}>Import Location History</Text>
+                <Text style={styles.settingDescription}>
+                  Find past trips in your Google Takeout timeline
+                </Text>
+              </View>
+            </View>
+            {isReadingHistory ? (
+              <ActivityIndicator size="small" color={theme.colors.forest} />
+            ) : (
+              <Ionicons
+                name="chevron-forward"
+                size={20}
+                color={theme.colors.lightGray}
+              />
+            )}
+          </TouchableOpacity>
+
+          <View style={styles.settingItem}>
+            <View style={styles.settingLeft}>
+              <Ionicons
+                name="time-outline"
+                size={22}
+                color={theme.colors.gray}
+              />
+              <View style={styles.settingTextContainer}>
+                <Text style={styles.settingLabel}>Automatic Backups</Text>
+                <Text style={styles.settingDescription}>
+                  {getAutoBackupDescription()}
+                </Text>
+              </View>
+            </View>
+            <Switch
+              value={settings.autoBackupEnabled === true}
+              onValueChange={toggleAutoBackup}
+              trackColor={{
+                false: theme.colors.borderGray,
+                true: theme.colors.forest,
+              }}
+              thumbColor={
+                settings.autoBackupEnabled
+                  ? theme.colors.white
+                  : theme.colors.lightGray
+              }
+            />
+          </View>
+
+          {settings.autoBackupEnabled && (
+            <>
+              <TouchableOpacity
+                style={styles.settingItem}
+                onPress={chooseBackupFrequency}
+              >
+                <View style={styles.settingLeft}>
+                  <Ionicons
+                    name="repeat-outline"
+                    size={22}
+                    color={theme.colors.gray}
+                  />
+                  <Text style={styles.settingLabel}>Backup Frequency</Text>
+                </View>
+                <View style={styles.settingRight}>
+                  <Text style={styles.settingValue}>
+                    {settings.autoBackupFrequency === "daily"
+                      ? "Daily"
+                      : "Weekly"}
+                  </Text>
+                  <Ionicons
+                    name="chevron-forward"
+                    size={20}
+                    color={theme.colors.lightGray}
+                  />
+                </View>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={styles.settingItem}
+                onPress={chooseBackupKeep}
+              >
+                <View style={styles.settingLeft}>
+                  <Ionicons
+                    name="layers-outline"
+                    size={22}
+                    color={theme.colors.gray}
+                  />
+                  <Text style={styles.settingLabel}>Backups to Keep</Text>
+                </View>
+                <View style={styles.settingRight}>
+                  <Text style={styles.settingValue}>
+                    {settings.autoBackupKeep || DEFAULT_AUTO_BACKUP_KEEP}
+                  </Text>
+                  <Ionicons
+                    name="chevron-forward"
+                    size={20}
+                    color={theme.colors.lightGray}
+                  />
+                </View>
+              </TouchableOpacity>
+
+              <View style={styles.settingItem}>
+                <View style={styles.settingLeft}>
+                  <Ionicons
+                    name="lock-closed-outline"
+                    size={22}
+                    color={theme.colors.gray}
+                  />
+                  <View style={styles.settingTextContainer}>
+                    <Text style={styles.settingLabel}>Encrypt Backups</Text>
+                    <Text style={styles.settingDescription}>
+                      You'll need the passphrase to restore them
+                    </Text>
+                  </View>
+                </View>
+                <Switch
+                  value={autoBackupEncrypted}
+                  onValueChange={toggleAutoBackupEncryption}
+                  trackColor={{
+                    false: theme.colors.borderGray,
+                    true: theme.colors.forest,
+                  }}
+                  thumbColor={
+                    autoBackupEncrypted
+                      ? theme.colors.white
+                      : theme.colors.lightGray
+                  }
+                />
+              </View>
+            </>
+          )}
+
+          <TouchableOpacity
+            style={styles.settingItem}
+            onPress={handleBackupNow}
+            disabled={isBackingUp}
+          >
+            <View style={styles.settingLeft}>
+              <Ionicons
+                name="save-outline"
+                size={22}
+                color={theme.colors.gray}
+              />
+              <Text style={styles.settingLabel}>Back Up Now</Text>
+            </View>
+            {isBackingUp ? (
               <ActivityIndicator size="small" color={theme.colors.forest} />
             ) : (
               <Ionicons
@@ -1333,11 +1715,37 @@ export default function SettingsScreen() {
         </View>
       </ScrollView>
 
-      {/* Export Modal */}
       <ExportModal
         visible={showExportModal}
         onClose={() => setShowExportModal(false)}
-        onExport={handleExport}
+      />
+
+      <PassphraseModal {...passphraseModalProps} />
+
+      <ImportPreviewModal
+        visible={importPreview !== null}
+        preview={importPreview}
+        importing={isImportingFile}
+        onClose={() => setImportPreview(null)}
+        onConfirm={handleConfirmImport}
+      />
+
+      <PlacesImportModal
+        visible={placesImport !== null}
+        source={placesImport}
+        importing={isImportingFile}
+        onClose={() => setPlacesImport(null)}
+        onConfirm={(spots, wishlist) => handleConfirmImport([], spots, wishlist)}
+      />
+
+      <HistoryImportModal
+        visible={historyImport !== null}
+        history={historyImport?.history || null}
+        proposals={historyImport?.proposals || []}
+        importing={isAcceptingHistory}
+        status={historyStatus}
+        onClose={() => setHistoryImport(null)}
+        onConfirm={handleAcceptHistoryTrips}
       />
     </View>
   );
@@ -1538,128 +1946,4 @@ const styles = StyleSheet.create({
     color: theme.colors.lightGray,
     marginTop: 4,
   },
-  // Modal styles
-  modalOverlay: {
-    flex: 1,
-    backgroundColor: "rgba(0, 0, 0, 0.5)",
-    justifyContent: "flex-end",
-  },
-  modalContent: {
-    backgroundColor: "white",
-    borderTopLeftRadius: 20,
-    borderTopRightRadius: 20,
-    padding: 20,
-    maxHeight: "80%",
-  },
-  modalHeader: {
-    flexDirection: "row",
-    justifyContent: "space-between",
-    alignItems: "center",
-    marginBottom: 20,
-  },
-  modalTitle: {
-    fontSize: 20,
-    fontWeight: "600",
-    color: theme.colors.navy,
-  },
-  modalSubtitle: {
-    fontSize: 14,
-    color: theme.colors.gray,
-    marginBottom: 15,
-    marginTop: 10,
-  },
-  formatOption: {
-    flexDirection: "row",
-    alignItems: "center",
-    padding: 15,
-    backgroundColor: theme.colors.offWhite,
-    borderRadius: 12,
-    marginBottom: 10,
-    borderWidth: 2,
-    borderColor: "transparent",
-  },
-  formatOptionSelected: {
-    borderColor: theme.colors.forest,
-    backgroundColor: theme.colors.forest + "10",
-  },
-  formatIcon: {
-    width: 44,
-    height: 44,
-    borderRadius: 22,
-    alignItems: "center",
-    justifyContent: "center",
-    marginRight: 15,
-  },
-  formatInfo: {
-    flex: 1,
-  },
-  formatName: {
-    fontSize: 16,
-    fontWeight: "600",
-    color: theme.colors.navy,
-  },
-  formatDescription: {
-    fontSize: 12,
-    color: theme.colors.gray,
-    marginTop: 2,
-  },
-  exportMethodSection: {
-    marginTop: 20,
-    paddingTop: 20,
-    borderTopWidth: 1,
-    borderTopColor: theme.colors.borderGray,
-  },
-  methodButtons: {
-    flexDirection: "row",
-    marginBottom: 15,
-  },
-  methodButton: {
-    flex: 1,
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "center",
-    paddingVertical: 12,
-    marginHorizontal: 5,
-    backgroundColor: theme.colors.offWhite,
-    borderRadius: 8,
-    borderWidth: 1,
-    borderColor: theme.colors.borderGray,
-  },
-  methodButtonActive: {
-    backgroundColor: theme.colors.forest,
-    borderColor: theme.colors.forest,
-  },
-  methodButtonText: {
-    marginLeft: 8,
-    fontSize: 14,
-    fontWeight: "600",
-    color: theme.colors.gray,
-  },
-  methodButtonTextActive: {
-    color: "white",
-  },
-  emailInput: {
-    backgroundColor: theme.colors.offWhite,
-    borderWidth: 1,
-    borderColor: theme.colors.borderGray,
-    borderRadius: 8,
-    padding: 12,
-    fontSize: 16,
-    color: theme.colors.navy,
-  },
-  exportButton: {
-    backgroundColor: theme.colors.forest,
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "center",
-    paddingVertical: 14,
-    borderRadius: 8,
-    marginTop: 20,
-  },
-  exportButtonText: {
-    color: "white",
-    fontSize: 16,
-    fontWeight: "600",
-    marginLeft: 8,
-  },
 });
@@ -1,8 +1,9 @@
 // statistics.tsx - Updated with Settings Integration
 import { Ionicons } from "@expo/vector-icons";
 import { Stack } from "expo-router";
-import React, { useMemo, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import {
+    Alert,
     Dimensions,
     ScrollView,
     StyleSheet,
@@ -11,10 +12,17 @@ import {
     View,
 } from "react-native";
 import { LineChart, PieChart, ProgressChart } from "react-native-chart-kit";
+import ViewShot from "react-native-view-shot";
+import { YearInReviewCard } from "../components/YearInReviewCard";
 import { theme } from "../constants/theme";
 import { useActivity } from "../contexts/ActivityContext";
+import { useAuth } from "../contexts/AuthContext";
 import { useLocation } from "../contexts/LocationContext";
 import { useSettings } from "../contexts/SettingsContext";
+import { useTrips } from "../contexts/TripContext";
+import { MemoryNotificationService } from "../services/memoryNotificationService";
+import { TripShareService } from "../services/shareService";
+import { calculateYearInReview, getTripYears } from "../utils/tripRecap";
 
 const { width } = Dimensions.get("window");
 
@@ -171,9 +179,13 @@ const AchievementBadge = ({
 export default function StatisticsScreen() {
   const { activities } = useActivity();
   const { savedSpots } = useLocation();
+  const { trips } = useTrips();
+  const { user } = useAuth();
   const {
+    settings,
     formatDistance,
     formatSpeed,
+    formatElevation,
     convertDistance,
     getDistanceUnit,
     getSpeedUnit,
@@ -184,6 +196,51 @@ export default function StatisticsScreen() {
   const [selectedMetric, setSelectedMetric] = useState<
     "distance" | "duration" | "activities"
   >("distance");
+  const [home, setHome] = useState<{
+    latitude: number;
+    longitude: number;
+  } | null>(null);
+  const [reviewYear, setReviewYear] = useState<number | null>(null);
+  const [sharingReview, setSharingReview] = useState(false);
+  const reviewCardRef = useRef<ViewShot>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    MemoryNotificationService.getHomeLocation(user.id).then(setHome);
+  }, [user?.id]);
+
+  const tripYears = useMemo(() => getTripYears(trips), [trips]);
+  const selectedYear = reviewYear ?? tripYears[0];
+  const yearReview = useMemo(
+    () =>
+      selectedYear !== undefined
+        ? calculateYearInReview(trips, selectedYear, home)
+        : null,
+    [trips, selectedYear, home]
+  );
+
+  const handleShareReview = async (format: "image" | "html") => {
+    if (!yearReview) return;
+
+    setSharingReview(true);
+    try {
+      const options = { units: settings.units, home };
+      if (format === "image") {
+        await TripShareService.shareYearInReviewAsImage(
+          yearReview,
+          reviewCardRef,
+          options
+        );
+      } else {
+        await TripShareService.shareYearInReviewAsHTML(yearReview, options);
+      }
+    } catch (error) {
+      console.error("Error sharing year in review:", error);
+      Alert.alert("Share Failed", "Unable to share your year in review");
+    } finally {
+      setSharingReview(false);
+    }
+  };
 
   // Calculate statistics
   const stats = useMemo(() => {
@@ -196,6 +253,10 @@ export default function StatisticsScreen() {
       (sum, act) => sum + act.duration,
       0
     );
+    const totalElevationGain = activities.reduce(
+      (sum, act) => sum + (act.elevationGain || 0),
+      0
+    );
     const totalActivities = activities.length;
     const totalLocations = savedSpots.length;
 
@@ -284,6 +345,13 @@ export default function StatisticsScreen() {
         (max, act) => (act.maxSpeed > max.maxSpeed ? act : max),
         { maxSpeed: 0, startTime: new Date() }
       ),
+      mostClimbing: activities.reduce(
+        (max, act) =>
+          (act.elevationGain || 0) > max.elevationGain
+            ? { elevationGain: act.elevationGain || 0, startTime: act.startTime }
+            : max,
+        { elevationGain: 0, startTime: new Date() }
+      ),
       mostProductiveDay: (() => {
         const dayCount: Record<string, number> = {};
         activities.forEach((act) => {
@@ -403,6 +471,7 @@ export default function StatisticsScreen() {
     return {
       totalDistance,
       totalDuration,
+      totalElevationGain,
       totalActivities,
       totalLocations,
       avgDistance,
@@ -588,9 +657,82 @@ export default function StatisticsScreen() {
             </Text>
             <Text style={styles.smallStatLabel}>Duration</Text>
           </View>
+          {stats.totalElevationGain > 0 && (
+            <View style={styles.smallStatCard}>
+              <Ionicons name="trending-up" size={20} color="#795548" />
+              <Text style={styles.smallStatNumber}>
+                {formatElevation(stats.totalElevationGain)}
+              </Text>
+              <Text style={styles.smallStatLabel}>Climbed</Text>
+            </View>
+          )}
         </View>
       </View>
 
+      {/* Year in Review */}
+      {yearReview && (
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={[styles.sectionTitle, styles.sectionTitleInline]}>
+              Trips in Review
+            </Text>
+            <View style={styles.periodSelector}>
+              {tripYears.slice(0, 3).map((year) => (
+                <TouchableOpacity
+                  key={year}
+                  style={[
+                    styles.periodButton,
+                    selectedYear === year && styles.periodButtonActive,
+                  ]}
+                  onPress={() => setReviewYear(year)}
+                >
+                  <Text
+                    style={[
+                      styles.periodButtonText,
+                      selectedYear === year && styles.periodButtonTextActive,
+                    ]}
+                  >
+                    {year}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+          <ViewShot
+            ref={reviewCardRef}
+            options={{ format: "jpg", quality: 0.9 }}
+          >
+            <YearInReviewCard review={yearReview} />
+          </ViewShot>
+          <View style={styles.reviewActions}>
+            <TouchableOpacity
+              style={styles.reviewButton}
+              onPress={() => handleShareReview("image")}
+              disabled={sharingReview}
+            >
+              <Ionicons name="image-outline" size={18} color="#fff" />
+              <Text style={styles.reviewButtonText}>Share Image</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.reviewButton, styles.reviewButtonSecondary]}
+              onPress={() => handleShareReview("html")}
+              disabled={sharingReview}
+            >
+              <Ionicons
+                name="code-slash-outline"
+                size={18}
+                color={theme.colors.forest}
+              />
+              <Text
+                style={[styles.reviewButtonText, styles.reviewButtonTextSecondary]}
+              >
+                Share as Web Page
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
       {/* Progress Rings */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Progress Overview</Text>
@@ -759,6 +901,26 @@ export default function StatisticsScreen() {
             ).toLocaleDateString()}
             color={theme.colors.burntOrange}
           />
+          {stats.personalRecords.mostClimbing.elevationGain > 0 && (
+            <PersonalRecordCard
+              title="Most Climbing"
+              value={
+                formatElevation(
+                  stats.personalRecords.mostClimbing.elevationGain
+                ).split(" ")[0]
+              }
+              unit={
+                formatElevation(
+                  stats.personalRecords.mostClimbing.elevationGain
+                ).split(" ")[1] || ""
+              }
+              icon="trending-up"
+              date={new Date(
+                stats.personalRecords.mostClimbing.startTime
+              ).toLocaleDateString()}
+              color="#795548"
+            />
+          )}
           <PersonalRecordCard
             title="Most Active Day"
             value={stats.personalRecords.mostProductiveDay.count.toString()}
@@ -917,6 +1079,37 @@ const styles = StyleSheet.create({
     color: theme.colors.navy,
     marginBottom: 15,
   },
+  sectionTitleInline: {
+    marginBottom: 0,
+  },
+  reviewActions: {
+    flexDirection: "row",
+    marginTop: 15,
+    gap: 10,
+  },
+  reviewButton: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: theme.colors.forest,
+    paddingVertical: 12,
+    borderRadius: 10,
+    gap: 6,
+  },
+  reviewButtonSecondary: {
+    backgroundColor: theme.colors.white,
+    borderWidth: 1,
+    borderColor: theme.colors.forest,
+  },
+  reviewButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#fff",
+  },
+  reviewButtonTextSecondary: {
+    color: theme.colors.forest,
+  },
   periodSelector: {
     flexDirection: "row",
     backgroundColor: theme.colors.offWhite,
@@ -10,6 +10,7 @@ import {
   Linking,
   ScrollView,
   StyleSheet,
+  Switch,
   Text,
   TextInput,
   TouchableOpacity,
@@ -68,19 +69,23 @@ const getWeatherIcon = (code: number) => {
 
 export default function TrackActivityScreen() {
   const router = useRouter();
-  const { formatDistance, formatSpeed, settings } = useSettings();
+  const { formatDistance, formatSpeed, settings, updateSettings } =
+    useSettings();
   const {
     isTracking,
     isPaused,
+    isAutoPaused,
     currentDistance,
     currentDuration,
     currentSpeed,
     currentRoute,
+    lapCount,
     location: currentLocation,
     gpsStatus,
     startTracking,
     pauseTracking,
     resumeTracking,
+    markLap,
     stopTracking,
     loading,
     error,
@@ -225,6 +230,10 @@ export default function TrackActivityScreen() {
     resumeTracking();
   };
 
+  const handleLap = () => {
+    markLap();
+  };
+
   const handleStop = () => {
     setFinalDistance(currentDistance);
     setFinalDuration(currentDuration);
@@ -374,6 +383,12 @@ export default function TrackActivityScreen() {
     }
   };
 
+  const handleToggleAutoPause = (enabled: boolean) => {
+    updateSettings({
+      autoPause: { ...settings.autoPause, [selectedActivity]: enabled },
+    });
+  };
+
   const handleRemovePhoto = (index: number) => {
     const newPhotos = photos.filter((_, i) => i !== index);
     setPhotos(newPhotos);
@@ -660,6 +675,13 @@ export default function TrackActivityScreen() {
             </View>
           )}
 
+          {!isPaused && isAutoPaused && (
+            <View style={[styles.pausedBanner, styles.autoPausedBanner]}>
+              <Ionicons name="hand-left" size={20} color="white" />
+              <Text style={styles.pausedBannerText}>AUTO-PAUSED</Text>
+            </View>
+          )}
+
           <View style={styles.primaryStat}>
             <Text style={styles.primaryStatLabel}>Distance</Text>
             <Text style={styles.primaryStatValue}>
@@ -827,6 +849,17 @@ export default function TrackActivityScreen() {
               </TouchableOpacity>
             )}
 
+            <TouchableOpacity
+              style={[styles.lapButton, isPaused && styles.buttonDisabled]}
+              onPress={handleLap}
+              disabled={isPaused}
+            >
+              <Ionicons name="flag" size={28} color={theme.colors.forest} />
+              <Text style={styles.lapButtonText}>
+                {lapCount > 0 ? `Lap ${lapCount + 1}` : "Lap"}
+              </Text>
+            </TouchableOpacity>
+
             <TouchableOpacity style={styles.stopButton} onPress={handleStop}>
               <Ionicons name="stop" size={32} color="white" />
               <Text style={styles.controlButtonText}>Finish</Text>
@@ -875,6 +908,28 @@ export default function TrackActivityScreen() {
         ))}
       </View>
 
+      <View style={styles.autoPauseRow}>
+        <View style={styles.autoPauseTextContainer}>
+          <Text style={styles.autoPauseLabel}>Auto-pause</Text>
+          <Text style={styles.autoPauseDescription}>
+            Stop the timer when you stop moving
+          </Text>
+        </View>
+        <Switch
+          value={settings.autoPause?.[selectedActivity] ?? false}
+          onValueChange={handleToggleAutoPause}
+          trackColor={{
+            false: theme.colors.borderGray,
+            true: theme.colors.forest,
+          }}
+          thumbColor={
+            settings.autoPause?.[selectedActivity]
+              ? theme.colors.white
+              : theme.colors.lightGray
+          }
+        />
+      </View>
+
       <View style={styles.disclaimerContainer}>
         <Ionicons
           name="information-circle-outline"
@@ -1093,6 +1148,9 @@ const styles = StyleSheet.create({
     borderRadius: 8,
     marginBottom: 20,
   },
+  autoPausedBanner: {
+    backgroundColor: theme.colors.navy,
+  },
   pausedBannerText: {
     color: "white",
     fontSize: 16,
@@ -1251,6 +1309,22 @@ const styles = StyleSheet.create({
     alignItems: "center",
     justifyContent: "center",
   },
+  lapButton: {
+    backgroundColor: "white",
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    borderWidth: 2,
+    borderColor: theme.colors.forest,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  lapButtonText: {
+    color: theme.colors.forest,
+    fontSize: 12,
+    marginTop: 4,
+    fontWeight: "600",
+  },
   stopButton: {
     backgroundColor: theme.colors.navy,
     width: 80,
@@ -1447,6 +1521,28 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: "600",
   },
+  autoPauseRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "white",
+    marginHorizontal: 20,
+    marginTop: 10,
+    padding: 15,
+    borderRadius: 12,
+  },
+  autoPauseTextContainer: {
+    flex: 1,
+  },
+  autoPauseLabel: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: theme.colors.navy,
+  },
+  autoPauseDescription: {
+    fontSize: 12,
+    color: theme.colors.gray,
+    marginTop: 2,
+  },
   disclaimerContainer: {
     flexDirection: "row",
     backgroundColor: theme.colors.lightGray + "20",
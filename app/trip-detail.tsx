@@ -19,31 +19,34 @@ import { SafeAreaView } from "react-native-safe-area-context";
 import { WebView } from "react-native-webview";
 import { theme } from "../constants/theme";
 import { useSettings } from "../contexts/SettingsContext";
-import { useTrips } from "../contexts/TripContext";
+import { canEditTrip, TripItem, useTrips } from "../contexts/TripContext";
 import { useJournal } from "../contexts/JournalContext";
 import { useFocusEffect } from "@react-navigation/native";
+import { RealtimePostgresDeletePayload } from "@supabase/supabase-js";
 import { Modal, Linking } from "react-native";
 import * as Clipboard from "expo-clipboard";
+import * as ImagePicker from "expo-image-picker";
 import ViewShot from "react-native-view-shot";
+import { MemoryNotificationService } from "../services/memoryNotificationService";
 import { TripShareService } from "../services/shareService";
+import {
+  CHAT_REACTIONS,
+  TripChatService,
+  TripMessage,
+  TripMessageReaction,
+} from "../services/tripChatService";
 import ImageViewer from "../components/ImageViewer";
+import { TripChecklist } from "../components/TripChecklist";
+import { TripExpenses } from "../components/TripExpenses";
+import { TripItinerary } from "../components/TripItinerary";
+import { TripTimeline } from "../components/TripTimeline";
 import { useAuth } from "../contexts/AuthContext";
 import { supabase } from "../lib/supabase";
+import { generateReplayLayer, ReplayEvent } from "../utils/mapHelpers";
+import { getWeatherIcon } from "../utils/weather";
 
 const { width: SCREEN_WIDTH } = Dimensions.get("window");
 
-interface TripMessage {
-  id: string;
-  trip_id: string;
-  user_id: string;
-  message: string;
-  created_at: string;
-  user?: {
-    username: string;
-    avatar_url: string;
-  };
-}
-
 const getWeatherForLocation = async (
   lat: number,
   lon: number,
@@ -96,17 +99,6 @@ const getWeatherForLocation = async (
   }
 };
 
-const getWeatherIcon = (code: number) => {
-  if (code === 0) return "sunny";
-  if (code <= 3) return "partly-sunny";
-  if (code <= 48) return "cloudy";
-  if (code <= 67) return "rainy";
-  if (code <= 77) return "snow";
-  if (code <= 82) return "rainy";
-  if (code >= 95) return "thunderstorm";
-  return "cloudy";
-};
-
 const generateTripMapHTML = (tripActivities: any[], tripSpots: any[]) => {
   let centerLat = 47.6062;
   let centerLng = -122.3321;
@@ -142,6 +134,56 @@ const generateTripMapHTML = (tripActivities: any[], tripSpots: any[]) => {
     centerLng = allPoints.reduce((sum, p) => sum + p.lng, 0) / allPoints.length;
   }
 
+  // Spots appear when saved, photos when each visit was logged
+  const replayEvents: ReplayEvent[] = [];
+  tripSpots.forEach((spot) => {
+    if (!spot.location) return;
+    const place = {
+      latitude: spot.location.latitude,
+      longitude: spot.location.longitude,
+    };
+    replayEvents.push({
+      ...place,
+      time: spot.displayDate,
+      kind: "spot",
+      label: spot.name || "Saved Spot",
+    });
+
+    const visits = (spot.visits || []).filter(
+      (visit: any) => visit.photos?.length > 0,
+    );
+    if (visits.length > 0) {
+      visits.forEach((visit: any) =>
+        replayEvents.push({
+          ...place,
+          time: visit.date,
+          kind: "photo",
+          label: `📸 ${spot.name || "Saved Spot"}`,
+          photo: visit.photos[0],
+        }),
+      );
+    } else if (spot.photos?.length > 0) {
+      replayEvents.push({
+        ...place,
+        time: spot.displayDate,
+        kind: "photo",
+        label: `📸 ${spot.name || "Saved Spot"}`,
+        photo: spot.photos[0],
+      });
+    }
+  });
+
+  const replayLayer = generateReplayLayer(
+    tripActivities
+      .filter((activity) => activity.route?.length > 0)
+      .map((activity) => ({
+        route: activity.route,
+        startTime: activity.startTime || activity.start_time,
+        duration: activity.duration,
+      })),
+    replayEvents,
+  );
+
   return `
     <!DOCTYPE html>
     <html>
@@ -155,10 +197,12 @@ const generateTripMapHTML = (tripActivities: any[], tripSpots: any[]) => {
         .trip-popup { text-align: center; }
         .trip-popup b { font-size: 14px; }
         .trip-popup .type { color: #666; font-size: 11px; margin-top: 4px; }
+        ${replayLayer?.style || ""}
       </style>
     </head>
     <body>
       <div id="map"></div>
+      ${replayLayer?.controls || ""}
       <script>
         var map = L.map('map').setView([${centerLat}, ${centerLng}], 11);
         
@@ -231,6 +275,20 @@ const generateTripMapHTML = (tripActivities: any[], tripSpots: any[]) => {
           var group = new L.featureGroup(markers);
           map.fitBounds(group.getBounds().pad(0.15));
         }
+
+        // The replay draws its own spots and routes, so the static ones step back
+        var spotMarkers = markers.filter(function (m) { return !m.setLatLngs; });
+        var routeLines = markers.filter(function (m) { return !!m.setLatLngs; });
+        window.beforeReplay = function () {
+          map.closePopup();
+          spotMarkers.forEach(function (m) { map.removeLayer(m); });
+          routeLines.forEach(function (m) { m.setStyle({ opacity: 0.25 }); });
+        };
+        window.afterReplay = function () {
+          spotMarkers.forEach(function (m) { m.addTo(map); });
+          routeLines.forEach(function (m) { m.setStyle({ opacity: 0.7 }); });
+        };
+        ${replayLayer?.script || ""}
       </script>
     </body>
     </html>
@@ -243,10 +301,15 @@ export default function TripDetailScreen() {
   const { trips, removeFromTrip, refreshTrips } = useTrips();
   const { entries, updateEntry, refreshEntries } = useJournal();
 
-  const [activeTab, setActiveTab] = useState<"spots" | "photos" | "chat">(
-    "spots",
+  const [activeTab, setActiveTab] = useState<
+    "spots" | "plan" | "photos" | "costs" | "chat"
+  >("spots");
+  const [planView, setPlanView] = useState<"itinerary" | "packing">(
+    "itinerary"
+  );
+  const [spotsView, setSpotsView] = useState<"list" | "timeline" | "map">(
+    "list",
   );
-  const [showMap, setShowMap] = useState(false);
   const [weatherData, setWeatherData] = useState<any>(null);
   const [loadingWeather, setLoadingWeather] = useState(false);
   const { settings } = useSettings();
@@ -274,6 +337,12 @@ export default function TripDetailScreen() {
   const [loadingMessages, setLoadingMessages] = useState(false);
   const chatListRef = useRef<FlatList>(null);
   const [userProfiles, setUserProfiles] = useState<Record<string, any>>({});
+  const [reactions, setReactions] = useState<TripMessageReaction[]>([]);
+  const [replyingTo, setReplyingTo] = useState<TripMessage | null>(null);
+  const [pendingPhoto, setPendingPhoto] = useState<string | null>(null);
+  const [actionMessage, setActionMessage] = useState<TripMessage | null>(null);
+  // Members currently looking at the chat, who don't need a push
+  const chatPresence = useRef<Set<string>>(new Set());
 
   const trip = trips.find((t) => t.id === tripId);
 
@@ -296,6 +365,9 @@ export default function TripDetailScreen() {
     user &&
     (trip.created_by === user.id || trip.tagged_friends?.includes(user.id));
 
+  // Viewers can still chat but not change the trip
+  const canEdit = trip && user && canEditTrip(trip, user.id);
+
   const tripActivities = trip
     ? trip.items
         .filter((item) => item.type === "activity")
@@ -357,7 +429,7 @@ export default function TripDetailScreen() {
   useEffect(() => {
     if (trip && canAccessChat && activeTab === "chat") {
       loadMessages();
-      subscribeToMessages();
+      return subscribeToMessages();
     }
   }, [trip?.id, canAccessChat, activeTab]);
   // Add this useEffect after your existing useEffects
@@ -411,17 +483,26 @@ export default function TripDetailScreen() {
 
     setLoadingMessages(true);
     try {
-      const { data, error } = await supabase
-        .from("trip_messages")
-        .select("*")
-        .eq("trip_id", tripId)
-        .order("created_at", { ascending: true });
+      const [data, messageReactions] = await Promise.all([
+        TripChatService.getMessages(tripId),
+        TripChatService.getReactions(tripId),
+      ]);
 
-      if (error) throw error;
+      setMessages(data);
+      setReactions(messageReactions);
 
-      setMessages(data || []);
+      const lastMessage = data[data.length - 1];
+      if (user && lastMessage) {
+        TripChatService.markRead(tripId, user.id, lastMessage);
+      }
 
-      const userIds = [...new Set((data || []).map((m) => m.user_id))];
+      // Our own profile is needed to sign push notifications
+      const userIds = [
+        ...new Set([
+          ...(user ? [user.id] : []),
+          ...data.map((m) => m.user_id),
+        ]),
+      ];
       await loadUserProfiles(userIds);
     } catch (error) {
       console.error("Error loading messages:", error);
@@ -456,8 +537,16 @@ export default function TripDetailScreen() {
   };
 
   const subscribeToMessages = () => {
-    const subscription = supabase
-      .channel(`trip_messages_${tripId}`)
+    const subscription = supabase.channel(`trip_messages_${tripId}`, {
+      config: { presence: { key: user?.id } },
+    });
+
+    subscription
+      .on("presence", { event: "sync" }, () => {
+        chatPresence.current = new Set(
+          Object.keys(subscription.presenceState()),
+        );
+      })
       .on(
         "postgres_changes",
         {
@@ -470,6 +559,9 @@ export default function TripDetailScreen() {
           const newMsg = payload.new as TripMessage;
           setMessages((prev) => [...prev, newMsg]);
 
+          // Still on the chat, so this one counts as read
+          if (user) TripChatService.markRead(newMsg.trip_id, user.id, newMsg);
+
           if (!userProfiles[newMsg.user_id]) {
             await loadUserProfiles([newMsg.user_id]);
           }
@@ -479,7 +571,41 @@ export default function TripDetailScreen() {
           }, 100);
         },
       )
-      .subscribe();
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "trip_message_reactions",
+          filter: `trip_id=eq.${tripId}`,
+        },
+        (payload) => {
+          const added = payload.new as TripMessageReaction;
+          setReactions((prev) =>
+            prev.some((r) => r.id === added.id) ? prev : [...prev, added],
+          );
+        },
+      )
+      // Realtime can't filter deletes, so every trip's reaction deletes
+      // arrive here. They're small id-only messages and we accept the
+      // traffic - ids that aren't on this chat are simply not found
+      .on(
+        "postgres_changes",
+        {
+          event: "DELETE",
+          schema: "public",
+          table: "trip_message_reactions",
+        },
+        (payload: RealtimePostgresDeletePayload<{ id: string }>) => {
+          const removedId = payload.old.id;
+          setReactions((prev) => prev.filter((r) => r.id !== removedId));
+        },
+      )
+      .subscribe(async (status) => {
+        if (status === "SUBSCRIBED" && user) {
+          await subscription.track({ user_id: user.id });
+        }
+      });
 
     return () => {
       subscription.unsubscribe();
@@ -487,18 +613,40 @@ export default function TripDetailScreen() {
   };
 
   const sendMessage = async () => {
-    if (!newMessage.trim() || !user || !tripId || sendingMessage) return;
+    if (
+      (!newMessage.trim() && !pendingPhoto) ||
+      !user ||
+      !tripId ||
+      !trip ||
+      sendingMessage
+    ) {
+      return;
+    }
+
+    const outgoing = {
+      text: newMessage,
+      photoUri: pendingPhoto,
+      replyTo: replyingTo?.id,
+    };
 
     setSendingMessage(true);
     try {
-      const { error } = await supabase.from("trip_messages").insert({
-        trip_id: tripId,
-        user_id: user.id,
-        message: newMessage.trim(),
-      });
-
-      if (error) throw error;
+      await TripChatService.sendMessage(tripId, user.id, outgoing);
       setNewMessage("");
+      setPendingPhoto(null);
+      setReplyingTo(null);
+
+      const awayMembers = [trip.created_by, ...(trip.tagged_friends || [])]
+        .filter((id) => id !== user.id && !chatPresence.current.has(id));
+      if (awayMembers.length > 0) {
+        TripChatService.notifyAwayMembers(
+          tripId,
+          trip.name,
+          userProfiles[user.id]?.username || "A friend",
+          outgoing,
+          awayMembers,
+        );
+      }
     } catch (error) {
       console.error("Error sending message:", error);
       Alert.alert("Error", "Failed to send message");
@@ -507,6 +655,49 @@ export default function TripDetailScreen() {
     }
   };
 
+  const pickChatPhoto = async () => {
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      quality: 0.8,
+    });
+
+    if (!result.canceled && result.assets?.[0]) {
+      setPendingPhoto(result.assets[0].uri);
+    }
+  };
+
+  const handleReaction = async (message: TripMessage, emoji: string) => {
+    if (!user) return;
+    setActionMessage(null);
+
+    try {
+      const added = await TripChatService.toggleReaction(
+        message.trip_id,
+        message.id,
+        user.id,
+        emoji,
+        reactions,
+      );
+
+      setReactions((prev) =>
+        added
+          ? prev.some((r) => r.id === added.id)
+            ? prev
+            : [...prev, added]
+          : prev.filter(
+              (r) =>
+                !(
+                  r.message_id === message.id &&
+                  r.user_id === user.id &&
+                  r.emoji === emoji
+                ),
+            ),
+      );
+    } catch (error) {
+      console.error("Error reacting to message:", error);
+    }
+  };
+
   // Journal entry functions
   const handleLinkJournalEntry = async (entryId: string) => {
     const success = await updateEntry(entryId, { trip_id: tripId });
@@ -872,6 +1063,18 @@ export default function TripDetailScreen() {
     setShowItemDetail(true);
   };
 
+  const handleTimelineItemPress = (item: TripItem) => {
+    if (item.type === "activity") {
+      handleActivityPress(
+        tripActivities.find((a) => a.tripItemId === item.id) || item.data,
+      );
+    } else {
+      handleSpotPress(
+        processedSpots.find((s) => s.tripItemId === item.id) || item.data,
+      );
+    }
+  };
+
   const getDaysCount = () => {
     const start =
       trip.start_date instanceof Date
@@ -897,6 +1100,9 @@ export default function TripDetailScreen() {
       const shareOptions = {
         units: settings?.units || "metric",
         includeLink: false,
+        home: user
+          ? await MemoryNotificationService.getHomeLocation(user.id)
+          : null,
       };
 
       switch (shareType) {
@@ -1151,22 +1357,47 @@ export default function TripDetailScreen() {
         </View>
       )}
 
-      {/* Map Toggle */}
-      <TouchableOpacity
-        style={styles.mapToggleButton}
-        onPress={() => setShowMap(!showMap)}
-      >
-        <Ionicons
-          name={showMap ? "list" : "map"}
-          size={20}
-          color={theme.colors.forest}
-        />
-        <Text style={styles.mapToggleText}>
-          {showMap ? "Show List" : "Show Map"}
-        </Text>
-      </TouchableOpacity>
+      {/* View Toggle */}
+      <View style={styles.viewToggleRow}>
+        <TouchableOpacity
+          style={[styles.mapToggleButton, styles.viewToggleButton]}
+          onPress={() =>
+            setSpotsView(spotsView === "timeline" ? "list" : "timeline")
+          }
+        >
+          <Ionicons
+            name={spotsView === "timeline" ? "list" : "time-outline"}
+            size={20}
+            color={theme.colors.forest}
+          />
+          <Text style={styles.mapToggleText}>
+            {spotsView === "timeline" ? "Show List" : "Day by Day"}
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.mapToggleButton, styles.viewToggleButton]}
+          onPress={() => setSpotsView(spotsView === "map" ? "list" : "map")}
+        >
+          <Ionicons
+            name={spotsView === "map" ? "list" : "map"}
+            size={20}
+            color={theme.colors.forest}
+          />
+          <Text style={styles.mapToggleText}>
+            {spotsView === "map" ? "Show List" : "Show Map"}
+          </Text>
+        </TouchableOpacity>
+      </View>
 
-      {showMap ? (
+      {spotsView === "timeline" ? (
+        <TripTimeline
+          trip={trip}
+          journalEntries={tripJournalEntries}
+          weather={weatherData?.daily}
+          onItemPress={handleTimelineItemPress}
+          onJournalPress={handleJournalEntryPress}
+        />
+      ) : spotsView === "map" ? (
         <View style={styles.inlineMapContainer}>
           <WebView
             source={{
@@ -1235,7 +1466,7 @@ export default function TripDetailScreen() {
                       </Text>
                     )}
                   </View>
-                  {trip.created_by === user?.id && (
+                  {canEdit && (
                     <TouchableOpacity
                       onPress={(e) => {
                         e.stopPropagation();
@@ -1318,7 +1549,7 @@ export default function TripDetailScreen() {
                         </Text>
                       )}
                     </View>
-                    {trip.created_by === user?.id && (
+                    {canEdit && (
                       <TouchableOpacity
                         onPress={(e) => {
                           e.stopPropagation();
@@ -1568,6 +1799,30 @@ export default function TripDetailScreen() {
           renderItem={({ item }) => {
             const isOwnMessage = item.user_id === user?.id;
             const profile = userProfiles[item.user_id];
+            const repliedTo = item.reply_to
+              ? messages.find((m) => m.id === item.reply_to)
+              : undefined;
+
+            // Group reactions by emoji, keeping whether we're one of them
+            const messageReactions = reactions
+              .filter((r) => r.message_id === item.id)
+              .reduce(
+                (acc, r) => {
+                  const entry = acc.find((e) => e.emoji === r.emoji);
+                  if (entry) {
+                    entry.count++;
+                    entry.mine = entry.mine || r.user_id === user?.id;
+                  } else {
+                    acc.push({
+                      emoji: r.emoji,
+                      count: 1,
+                      mine: r.user_id === user?.id,
+                    });
+                  }
+                  return acc;
+                },
+                [] as { emoji: string; count: number; mine: boolean }[],
+              );
 
             return (
               <View
@@ -1594,44 +1849,159 @@ export default function TripDetailScreen() {
                 )}
                 <View
                   style={[
-                    styles.messageBubble,
-                    isOwnMessage
-                      ? styles.messageBubbleOwn
-                      : styles.messageBubbleOther,
+                    styles.messageColumn,
+                    isOwnMessage && styles.messageColumnOwn,
                   ]}
                 >
-                  {!isOwnMessage && (
-                    <Text style={styles.messageUsername}>
-                      {profile?.username || "Unknown"}
-                    </Text>
-                  )}
-                  <Text
-                    style={[
-                      styles.messageText,
-                      isOwnMessage
-                        ? styles.messageTextOwn
-                        : styles.messageTextOther,
-                    ]}
-                  >
-                    {item.message}
-                  </Text>
-                  <Text
+                  <TouchableOpacity
                     style={[
-                      styles.messageTime,
+                      styles.messageBubble,
                       isOwnMessage
-                        ? styles.messageTimeOwn
-                        : styles.messageTimeOther,
+                        ? styles.messageBubbleOwn
+                        : styles.messageBubbleOther,
                     ]}
+                    activeOpacity={0.8}
+                    onLongPress={() => setActionMessage(item)}
                   >
-                    {formatMessageTime(item.created_at)}
-                  </Text>
+                    {!isOwnMessage && (
+                      <Text style={styles.messageUsername}>
+                        {profile?.username || "Unknown"}
+                      </Text>
+                    )}
+                    {item.reply_to && (
+                      <View
+                        style={[
+                          styles.messageQuote,
+                          isOwnMessage && styles.messageQuoteOwn,
+                        ]}
+                      >
+                        <Text
+                          style={[
+                            styles.messageQuoteAuthor,
+                            isOwnMessage && styles.messageTextOwn,
+                          ]}
+                        >
+                          {repliedTo
+                            ? userProfiles[repliedTo.user_id]?.username ||
+                              "Unknown"
+                            : "Deleted message"}
+                        </Text>
+                        {repliedTo && (
+                          <Text
+                            style={[
+                              styles.messageQuoteText,
+                              isOwnMessage && styles.messageTextOwn,
+                            ]}
+                            numberOfLines={2}
+                          >
+                            {repliedTo.message || "📷 Photo"}
+                          </Text>
+                        )}
+                      </View>
+                    )}
+                    {item.photo_url && (
+                      <TouchableOpacity
+                        onPress={() => {
+                          setCurrentSpotImages([item.photo_url!]);
+                          setSelectedImageIndex(0);
+                          setShowImageViewer(true);
+                        }}
+                        onLongPress={() => setActionMessage(item)}
+                      >
+                        <Image
+                          source={{ uri: item.photo_url }}
+                          style={styles.messagePhoto}
+                        />
+                      </TouchableOpacity>
+                    )}
+                    {!!item.message && (
+                      <Text
+                        style={[
+                          styles.messageText,
+                          isOwnMessage
+                            ? styles.messageTextOwn
+                            : styles.messageTextOther,
+                        ]}
+                      >
+                        {item.message}
+                      </Text>
+                    )}
+                    <Text
+                      style={[
+                        styles.messageTime,
+                        isOwnMessage
+                          ? styles.messageTimeOwn
+                          : styles.messageTimeOther,
+                      ]}
+                    >
+                      {formatMessageTime(item.created_at)}
+                    </Text>
+                  </TouchableOpacity>
+                  {messageReactions.length > 0 && (
+                    <View style={styles.reactionRow}>
+                      {messageReactions.map((reaction) => (
+                        <TouchableOpacity
+                          key={reaction.emoji}
+                          style={[
+                            styles.reactionChip,
+                            reaction.mine && styles.reactionChipMine,
+                          ]}
+                          onPress={() => handleReaction(item, reaction.emoji)}
+                        >
+                          <Text style={styles.reactionText}>
+                            {reaction.emoji}
+                            {reaction.count > 1 ? ` ${reaction.count}` : ""}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  )}
                 </View>
               </View>
             );
           }}
         />
 
+        {(replyingTo || pendingPhoto) && (
+          <View style={styles.composerPreview}>
+            {pendingPhoto && (
+              <Image
+                source={{ uri: pendingPhoto }}
+                style={styles.composerPhoto}
+              />
+            )}
+            <View style={styles.composerPreviewInfo}>
+              {replyingTo && (
+                <>
+                  <Text style={styles.messageQuoteAuthor}>
+                    Replying to{" "}
+                    {userProfiles[replyingTo.user_id]?.username || "Unknown"}
+                  </Text>
+                  <Text style={styles.messageQuoteText} numberOfLines={1}>
+                    {replyingTo.message || "📷 Photo"}
+                  </Text>
+                </>
+              )}
+            </View>
+            <TouchableOpacity
+              onPress={() => {
+                setReplyingTo(null);
+                setPendingPhoto(null);
+              }}
+            >
+              <Ionicons name="close-circle" size={22} color={theme.colors.gray} />
+            </TouchableOpacity>
+          </View>
+        )}
+
         <View style={styles.chatInputContainer}>
+          <TouchableOpacity
+            style={styles.attachButton}
+            onPress={pickChatPhoto}
+            disabled={sendingMessage}
+          >
+            <Ionicons name="image-outline" size={24} color={theme.colors.forest} />
+          </TouchableOpacity>
           <TextInput
             style={styles.chatInput}
             value={newMessage}
@@ -1644,19 +2014,66 @@ export default function TripDetailScreen() {
           <TouchableOpacity
             style={[
               styles.sendButton,
-              (!newMessage.trim() || sendingMessage) &&
+              ((!newMessage.trim() && !pendingPhoto) || sendingMessage) &&
                 styles.sendButtonDisabled,
             ]}
             onPress={sendMessage}
-            disabled={!newMessage.trim() || sendingMessage}
+            disabled={(!newMessage.trim() && !pendingPhoto) || sendingMessage}
           >
             <Ionicons
               name="send"
               size={20}
-              color={newMessage.trim() && !sendingMessage ? "white" : "#ccc"}
+              color={
+                (newMessage.trim() || pendingPhoto) && !sendingMessage
+                  ? "white"
+                  : "#ccc"
+              }
             />
           </TouchableOpacity>
         </View>
+
+        <Modal
+          visible={!!actionMessage}
+          transparent
+          animationType="fade"
+          onRequestClose={() => setActionMessage(null)}
+        >
+          <TouchableOpacity
+            style={styles.modalOverlay}
+            activeOpacity={1}
+            onPress={() => setActionMessage(null)}
+          >
+            <View style={styles.messageActions}>
+              <View style={styles.messageActionsReactions}>
+                {CHAT_REACTIONS.map((emoji) => (
+                  <TouchableOpacity
+                    key={emoji}
+                    style={styles.messageActionsEmoji}
+                    onPress={() =>
+                      actionMessage && handleReaction(actionMessage, emoji)
+                    }
+                  >
+                    <Text style={styles.messageActionsEmojiText}>{emoji}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <TouchableOpacity
+                style={styles.messageActionsReply}
+                onPress={() => {
+                  setReplyingTo(actionMessage);
+                  setActionMessage(null);
+                }}
+              >
+                <Ionicons
+                  name="arrow-undo-outline"
+                  size={20}
+                  color={theme.colors.navy}
+                />
+                <Text style={styles.messageActionsReplyText}>Reply</Text>
+              </TouchableOpacity>
+            </View>
+          </TouchableOpacity>
+        </Modal>
       </KeyboardAvoidingView>
     );
   };
@@ -2081,16 +2498,18 @@ export default function TripDetailScreen() {
               color={theme.colors.navy}
             />
           </TouchableOpacity>
-          <TouchableOpacity
-            style={styles.editButton}
-            onPress={() => router.push(`/edit-trip?tripId=${trip.id}`)}
-          >
-            <Ionicons
-              name="create-outline"
-              size={24}
-              color={theme.colors.navy}
-            />
-          </TouchableOpacity>
+          {canEdit && (
+            <TouchableOpacity
+              style={styles.editButton}
+              onPress={() => router.push(`/edit-trip?tripId=${trip.id}`)}
+            >
+              <Ionicons
+                name="create-outline"
+                size={24}
+                color={theme.colors.navy}
+              />
+            </TouchableOpacity>
+          )}
         </View>
       </View>
 
@@ -2117,6 +2536,32 @@ export default function TripDetailScreen() {
           </Text>
         </TouchableOpacity>
 
+        <TouchableOpacity
+          style={[styles.tab, activeTab === "plan" && styles.tabActive]}
+          onPress={() => setActiveTab("plan")}
+        >
+          <Ionicons
+            name="calendar"
+            size={20}
+            color={
+              activeTab === "plan" ? theme.colors.forest : theme.colors.gray
+            }
+          />
+          <Text
+            style={[
+              styles.tabText,
+              activeTab === "plan" && styles.tabTextActive,
+            ]}
+          >
+            Plan
+          </Text>
+          {(trip.itinerary?.length || 0) > 0 && (
+            <View style={styles.tabBadge}>
+              <Text style={styles.tabBadgeText}>{trip.itinerary!.length}</Text>
+            </View>
+          )}
+        </TouchableOpacity>
+
         <TouchableOpacity
           style={[styles.tab, activeTab === "photos" && styles.tabActive]}
           onPress={() => setActiveTab("photos")}
@@ -2143,6 +2588,27 @@ export default function TripDetailScreen() {
           )}
         </TouchableOpacity>
 
+        <TouchableOpacity
+          style={[styles.tab, activeTab === "costs" && styles.tabActive]}
+          onPress={() => setActiveTab("costs")}
+        >
+          <Ionicons
+            name="wallet"
+            size={20}
+            color={
+              activeTab === "costs" ? theme.colors.forest : theme.colors.gray
+            }
+          />
+          <Text
+            style={[
+              styles.tabText,
+              activeTab === "costs" && styles.tabTextActive,
+            ]}
+          >
+            Costs
+          </Text>
+        </TouchableOpacity>
+
         <TouchableOpacity
           style={[styles.tab, activeTab === "chat" && styles.tabActive]}
           onPress={() => setActiveTab("chat")}
@@ -2175,7 +2641,40 @@ export default function TripDetailScreen() {
 
       {/* Tab Content */}
       {activeTab === "spots" && renderSpotsTab()}
+      {activeTab === "plan" && (
+        <View style={styles.planContainer}>
+          <View style={styles.planToggle}>
+            {(["itinerary", "packing"] as const).map((view) => (
+              <TouchableOpacity
+                key={view}
+                style={[
+                  styles.planToggleButton,
+                  planView === view && styles.planToggleButtonActive,
+                ]}
+                onPress={() => setPlanView(view)}
+              >
+                <Text
+                  style={[
+                    styles.planToggleText,
+                    planView === view && styles.planToggleTextActive,
+                  ]}
+                >
+                  {view === "itinerary" ? "Itinerary" : "Packing"}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {planView === "itinerary" ? (
+            <TripItinerary trip={trip} canEdit={!!canEdit} />
+          ) : (
+            <TripChecklist trip={trip} canEdit={!!canEdit} />
+          )}
+        </View>
+      )}
       {activeTab === "photos" && renderPhotosTab()}
+      {activeTab === "costs" && (
+        <TripExpenses trip={trip} canEdit={!!canEdit} />
+      )}
       {activeTab === "chat" && renderChatTab()}
 
       <ItemDetailModal />
@@ -2277,6 +2776,35 @@ const styles = StyleSheet.create({
   tabTextActive: {
     color: theme.colors.forest,
   },
+  planContainer: {
+    flex: 1,
+  },
+  planToggle: {
+    flexDirection: "row",
+    marginHorizontal: 15,
+    marginTop: 15,
+    backgroundColor: theme.colors.borderGray,
+    borderRadius: 8,
+    padding: 2,
+  },
+  planToggleButton: {
+    flex: 1,
+    paddingVertical: 8,
+    alignItems: "center",
+    borderRadius: 6,
+  },
+  planToggleButtonActive: {
+    backgroundColor: theme.colors.white,
+  },
+  planToggleText: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: theme.colors.gray,
+  },
+  planToggleTextActive: {
+    color: theme.colors.forest,
+    fontWeight: "600",
+  },
   tabBadge: {
     backgroundColor: theme.colors.burntOrange,
     borderRadius: 10,
@@ -2376,6 +2904,15 @@ const styles = StyleSheet.create({
     borderColor: theme.colors.forest,
     gap: 8,
   },
+  viewToggleRow: {
+    flexDirection: "row",
+    margin: 15,
+    gap: 10,
+  },
+  viewToggleButton: {
+    flex: 1,
+    margin: 0,
+  },
   mapToggleText: {
     fontSize: 14,
     fontWeight: "600",
@@ -2715,8 +3252,14 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: "600",
   },
-  messageBubble: {
+  messageColumn: {
     maxWidth: "75%",
+    alignItems: "flex-start",
+  },
+  messageColumnOwn: {
+    alignItems: "flex-end",
+  },
+  messageBubble: {
     padding: 12,
     borderRadius: 18,
   },
@@ -2755,6 +3298,107 @@ const styles = StyleSheet.create({
   messageTimeOther: {
     color: theme.colors.gray,
   },
+  messagePhoto: {
+    width: SCREEN_WIDTH * 0.55,
+    height: SCREEN_WIDTH * 0.55,
+    borderRadius: 12,
+    marginBottom: 6,
+  },
+  messageQuote: {
+    borderLeftWidth: 3,
+    borderLeftColor: theme.colors.forest,
+    paddingLeft: 8,
+    marginBottom: 6,
+  },
+  messageQuoteOwn: {
+    borderLeftColor: "rgba(255,255,255,0.7)",
+  },
+  messageQuoteAuthor: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: theme.colors.forest,
+  },
+  messageQuoteText: {
+    fontSize: 13,
+    color: theme.colors.gray,
+  },
+  reactionRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginTop: 4,
+    gap: 4,
+  },
+  reactionChip: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 12,
+    backgroundColor: theme.colors.offWhite,
+    borderWidth: 1,
+    borderColor: theme.colors.borderGray,
+  },
+  reactionChipMine: {
+    borderColor: theme.colors.forest,
+    backgroundColor: theme.colors.forest + "15",
+  },
+  reactionText: {
+    fontSize: 13,
+    color: theme.colors.navy,
+  },
+  messageActions: {
+    backgroundColor: "#fff",
+    borderRadius: 16,
+    padding: 12,
+    marginHorizontal: 30,
+    marginBottom: 60,
+  },
+  messageActionsReactions: {
+    flexDirection: "row",
+    justifyContent: "space-around",
+    paddingBottom: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderGray,
+  },
+  messageActionsEmoji: {
+    padding: 6,
+  },
+  messageActionsEmojiText: {
+    fontSize: 26,
+  },
+  messageActionsReply: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingTop: 12,
+    gap: 8,
+  },
+  messageActionsReplyText: {
+    fontSize: 16,
+    color: theme.colors.navy,
+  },
+  composerPreview: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 15,
+    paddingVertical: 8,
+    backgroundColor: theme.colors.offWhite,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.borderGray,
+    gap: 10,
+  },
+  composerPhoto: {
+    width: 44,
+    height: 44,
+    borderRadius: 6,
+  },
+  composerPreviewInfo: {
+    flex: 1,
+  },
+  attachButton: {
+    width: 40,
+    height: 40,
+    alignItems: "center",
+    justifyContent: "center",
+    marginRight: 6,
+  },
   emptyChatContainer: {
     flex: 1,
     alignItems: "center",
@@ -1,6 +1,7 @@
 import { Ionicons } from "@expo/vector-icons";
 import { useRouter } from "expo-router";
-import { useEffect, useState } from "react";
+import { useFocusEffect } from "@react-navigation/native";
+import { useCallback, useEffect, useState } from "react";
 import {
   Alert,
   FlatList,
@@ -14,13 +15,15 @@ import {
   TextInput,
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
+import { TripUndoBanner } from "../components/TripUndoBanner";
 import { theme } from "../constants/theme";
 import { useAuth } from "../contexts/AuthContext";
 import { useFriends } from "../contexts/FriendsContext";
-import { Trip, useTrips } from "../contexts/TripContext";
+import { getTripRole, Trip, useTrips } from "../contexts/TripContext";
 import { useActivity } from "../contexts/ActivityContext";
 import { useLocation } from "../contexts/LocationContext";
 import { useJournal } from "../contexts/JournalContext";
+import { TripChatService } from "../services/tripChatService";
 
 const MergeSuggestions = ({
   onMerge,
@@ -90,6 +93,58 @@ const MergeSuggestions = ({
   );
 };
 
+const TripInvites = () => {
+  const { tripInvites, respondToInvite } = useTrips();
+  const { friends } = useFriends();
+
+  const getFriendName = (friendId: string) => {
+    const friend = friends.find((f) => f.id === friendId);
+    return friend?.displayName || friend?.username || "A friend";
+  };
+
+  if (tripInvites.length === 0) return null;
+
+  return (
+    <View style={inviteStyles.container}>
+      <View style={mergeStyles.headerLeft}>
+        <Ionicons name="mail-unread" size={20} color={theme.colors.forest} />
+        <Text style={mergeStyles.title}>Trip Invites</Text>
+      </View>
+
+      {tripInvites.map((invite) => (
+        <View key={invite.trip_id} style={inviteStyles.card}>
+          <View style={mergeStyles.info}>
+            <Text style={inviteStyles.tripName} numberOfLines={1}>
+              {invite.trip_name}
+            </Text>
+            <Text style={inviteStyles.detail}>
+              {getFriendName(invite.invited_by)} invited you as{" "}
+              {invite.role === "editor" ? "an editor" : "a viewer"}
+            </Text>
+            <Text style={inviteStyles.detail}>
+              {invite.start_date.toLocaleDateString()} -{" "}
+              {invite.end_date.toLocaleDateString()}
+            </Text>
+          </View>
+          <TouchableOpacity
+            style={inviteStyles.declineButton}
+            onPress={() => respondToInvite(invite.trip_id, false)}
+          >
+            <Ionicons name="close" size={18} color={theme.colors.gray} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={mergeStyles.button}
+            onPress={() => respondToInvite(invite.trip_id, true)}
+          >
+            <Ionicons name="checkmark" size={16} color="white" />
+            <Text style={mergeStyles.buttonText}>Join</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+    </View>
+  );
+};
+
 export default function TripsScreen() {
   const router = useRouter();
   const { user } = useAuth();
@@ -111,6 +166,7 @@ export default function TripsScreen() {
   const [showMergeModal, setShowMergeModal] = useState(false);
   const [tripToMerge, setTripToMerge] = useState<Trip | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
+  const [unreadCounts, setUnreadCounts] = useState<Record<string, number>>({});
 
   const userId = user?.id || "default-user";
   const myTrips = getMyTrips();
@@ -121,6 +177,17 @@ export default function TripsScreen() {
     return entries.filter((e) => e.trip_id === tripId).length;
   };
 
+  // Refreshed on focus so counts drop after reading a chat
+  useFocusEffect(
+    useCallback(() => {
+      if (!user) return;
+      TripChatService.getUnreadCounts(
+        trips.map((t) => t.id),
+        user.id,
+      ).then(setUnreadCounts);
+    }, [trips, user?.id]),
+  );
+
   useEffect(() => {
     const testClustering = async () => {
       await triggerAutoDetection();
@@ -308,6 +375,14 @@ export default function TripsScreen() {
                 <Ionicons name="sparkles" size={14} color="#fff" />
               </View>
             )}
+            {unreadCounts[trip.id] > 0 && (
+              <View style={styles.unreadBadge}>
+                <Ionicons name="chatbubble" size={12} color="#fff" />
+                <Text style={styles.sharedBadgeText}>
+                  {unreadCounts[trip.id]}
+                </Text>
+              </View>
+            )}
           </View>
 
           <Text style={styles.tripDates}>
@@ -347,6 +422,7 @@ export default function TripsScreen() {
             <View style={styles.sharedInfo}>
               <Text style={styles.sharedByText}>
                 Created by {getFriendName(trip.created_by)}
+                {getTripRole(trip, user?.id) === "viewer" && " · View only"}
               </Text>
               <TouchableOpacity
                 style={styles.mergeButton}
@@ -424,6 +500,12 @@ export default function TripsScreen() {
         )}
       </View>
 
+      {/* Pending Invites */}
+      <TripInvites />
+
+      {/* Undo the last merge or split */}
+      <TripUndoBanner />
+
       {/* Merge Suggestions */}
       <MergeSuggestions onMerge={handleSmartMerge} />
 
@@ -690,6 +772,15 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     marginLeft: 8,
   },
+  unreadBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: theme.colors.burntOrange,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    marginLeft: 8,
+  },
   sharedBadgeText: {
     color: "#fff",
     fontSize: 11,
@@ -974,3 +1065,37 @@ const mergeStyles = StyleSheet.create({
     padding: 4,
   },
 });
+
+const inviteStyles = StyleSheet.create({
+  container: {
+    backgroundColor: theme.colors.forest + "10",
+    marginHorizontal: 15,
+    marginTop: 15,
+    padding: 15,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.forest + "30",
+  },
+  card: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "white",
+    padding: 12,
+    borderRadius: 8,
+    marginTop: 8,
+  },
+  tripName: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: theme.colors.navy,
+    marginBottom: 2,
+  },
+  detail: {
+    fontSize: 12,
+    color: theme.colors.gray,
+  },
+  declineButton: {
+    padding: 6,
+    marginRight: 6,
+  },
+});
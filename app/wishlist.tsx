@@ -21,15 +21,12 @@ import {
   CategoryType,
 } from "../constants/categories";
 import { theme } from "../constants/theme";
+import { PRIORITY_LEVELS } from "../constants/wishlist";
 import { useLocation } from "../contexts/LocationContext";
+import { useTrips } from "../contexts/TripContext";
 import { useWishlist } from "../contexts/WishlistContext";
 
 const { width } = Dimensions.get("window");
-const PRIORITY_LEVELS = [
-  { value: 1, label: "Must See", color: "#FF6B6B", icon: "flame" },
-  { value: 2, label: "Want to See", color: "#4ECDC4", icon: "star" },
-  { value: 3, label: "Maybe Someday", color: "#95A5A6", icon: "time" },
-];
 
 export const AddWishlistModal = ({
   visible,
@@ -463,6 +460,7 @@ export default function WishlistScreen() {
     convertToVisited,
   } = useWishlist();
   const { location, getLocation, saveManualLocation } = useLocation();
+  const { refreshTrips } = useTrips();
   const [viewMode, setViewMode] = useState<"list" | "map">("list");
   const [selectedPriority, setSelectedPriority] = useState<number | "all">(
     "all"
@@ -535,8 +533,9 @@ export default function WishlistScreen() {
               item.category
             );
 
-            // Remove from wishlist
-            await removeWishlistItem(item.id);
+            // Remove from wishlist and tick off any planned trip stops
+            await convertToVisited(item.id);
+            await refreshTrips();
 
             Alert.alert(
               "Success",
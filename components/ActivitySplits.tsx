@@ -0,0 +1,177 @@
+import React, { useState } from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { theme } from "../constants/theme";
+import { useSettings } from "../contexts/SettingsContext";
+import { ActivitySplit, SplitUnit } from "../utils/splits";
+
+interface ActivitySplitsProps {
+  splits?: ActivitySplit[];
+  laps?: ActivitySplit[];
+  unit?: SplitUnit;
+}
+
+const formatPace = (secondsPerUnit: number): string => {
+  if (!secondsPerUnit || !isFinite(secondsPerUnit)) return "--";
+  const minutes = Math.floor(secondsPerUnit / 60);
+  const seconds = Math.round(secondsPerUnit % 60);
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
+const formatSplitTime = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.round(seconds % 60);
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, "0")}:${secs
+      .toString()
+      .padStart(2, "0")}`;
+  }
+  return `${minutes}:${secs.toString().padStart(2, "0")}`;
+};
+
+export function ActivitySplits({
+  splits = [],
+  laps = [],
+  unit = "km",
+}: ActivitySplitsProps) {
+  const { formatDistance, formatElevation } = useSettings();
+  const [showLaps, setShowLaps] = useState(laps.length > 0);
+
+  if (splits.length === 0 && laps.length === 0) {
+    return null;
+  }
+
+  const rows = showLaps && laps.length > 0 ? laps : splits;
+  const fastestPace = Math.min(
+    ...rows.filter((r) => r.pace > 0).map((r) => r.pace)
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>{showLaps ? "Laps" : "Splits"}</Text>
+        {splits.length > 0 && laps.length > 0 && (
+          <View style={styles.toggle}>
+            {[false, true].map((lapsView) => (
+              <TouchableOpacity
+                key={lapsView ? "laps" : "splits"}
+                style={[
+                  styles.toggleButton,
+                  showLaps === lapsView && styles.toggleButtonActive,
+                ]}
+                onPress={() => setShowLaps(lapsView)}
+              >
+                <Text
+                  style={[
+                    styles.toggleText,
+                    showLaps === lapsView && styles.toggleTextActive,
+                  ]}
+                >
+                  {lapsView ? "Laps" : "Splits"}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+      </View>
+
+      <View style={[styles.row, styles.headerRow]}>
+        <Text style={[styles.cell, styles.indexCell, styles.headerText]}>
+          {showLaps ? "Lap" : unit}
+        </Text>
+        <Text style={[styles.cell, styles.headerText]}>Distance</Text>
+        <Text style={[styles.cell, styles.headerText]}>Time</Text>
+        <Text style={[styles.cell, styles.headerText]}>Pace /{unit}</Text>
+        <Text style={[styles.cell, styles.headerText]}>Elev</Text>
+      </View>
+
+      {rows.map((split) => (
+        <View key={split.index} style={styles.row}>
+          <Text style={[styles.cell, styles.indexCell]}>{split.index}</Text>
+          <Text style={styles.cell}>{formatDistance(split.distance)}</Text>
+          <Text style={styles.cell}>{formatSplitTime(split.duration)}</Text>
+          <Text
+            style={[
+              styles.cell,
+              split.pace === fastestPace && styles.fastestText,
+            ]}
+          >
+            {formatPace(split.pace)}
+          </Text>
+          <Text style={styles.cell}>
+            {split.elevationGain - split.elevationLoss >= 0 ? "+" : "-"}
+            {formatElevation(
+              Math.abs(split.elevationGain - split.elevationLoss)
+            )}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: theme.colors.navy,
+  },
+  toggle: {
+    flexDirection: "row",
+    backgroundColor: theme.colors.offWhite,
+    borderRadius: 15,
+    padding: 2,
+  },
+  toggleButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 13,
+  },
+  toggleButtonActive: {
+    backgroundColor: theme.colors.forest,
+  },
+  toggleText: {
+    fontSize: 12,
+    color: theme.colors.gray,
+  },
+  toggleTextActive: {
+    color: "white",
+    fontWeight: "600",
+  },
+  row: {
+    flexDirection: "row",
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderGray,
+  },
+  headerRow: {
+    paddingVertical: 6,
+  },
+  cell: {
+    flex: 1,
+    fontSize: 13,
+    color: theme.colors.navy,
+    textAlign: "center",
+  },
+  indexCell: {
+    flex: 0.5,
+  },
+  headerText: {
+    fontSize: 11,
+    color: theme.colors.gray,
+    fontWeight: "600",
+  },
+  fastestText: {
+    color: theme.colors.forest,
+    fontWeight: "bold",
+  },
+});
@@ -5,6 +5,7 @@ import { theme } from "../constants/theme";
 import { useSettings } from "../contexts/SettingsContext";
 import { Activity } from "../types/activity";
 import { formatDuration } from "../utils/activity";
+import { calculateElevationStats } from "../utils/elevation";
 
 interface ActivityStatsProps {
   activity: Activity;
@@ -27,7 +28,15 @@ function StatItem({ icon, value, label }: StatItemProps) {
 }
 
 export function ActivityStats({ activity }: ActivityStatsProps) {
-  const { formatDistance, formatSpeed } = useSettings();
+  const { formatDistance, formatSpeed, formatElevation } = useSettings();
+
+  // Activities that haven't been backfilled yet still have their altitude points
+  const routeElevation =
+    activity.elevation_gain == null
+      ? calculateElevationStats(activity.route || [])
+      : null;
+  const elevationGain = activity.elevation_gain ?? routeElevation?.gain;
+  const elevationLoss = activity.elevation_loss ?? routeElevation?.loss;
 
   return (
     <View style={styles.statsGrid}>
@@ -38,9 +47,17 @@ export function ActivityStats({ activity }: ActivityStatsProps) {
       />
       <StatItem
         icon="time"
-        value={formatDuration(activity.duration)}
-        label="Duration"
+        value={formatDuration(activity.moving_time ?? activity.duration)}
+        label={activity.moving_time !== undefined ? "Moving Time" : "Duration"}
       />
+      {activity.elapsed_time &&
+      activity.elapsed_time > (activity.moving_time ?? activity.duration) ? (
+        <StatItem
+          icon="hourglass-outline"
+          value={formatDuration(activity.elapsed_time)}
+          label="Elapsed Time"
+        />
+      ) : null}
       {activity.average_speed ? (
         <StatItem
           icon="speedometer-outline"
@@ -48,11 +65,25 @@ export function ActivityStats({ activity }: ActivityStatsProps) {
           label="Avg Speed"
         />
       ) : null}
-      {activity.elevation_gain ? (
+      {elevationGain ? (
         <StatItem
           icon="trending-up"
-          value={`${activity.elevation_gain.toFixed(0)}m`}
-          label="Elevation"
+          value={formatElevation(elevationGain)}
+          label="Elevation Gain"
+        />
+      ) : null}
+      {elevationLoss ? (
+        <StatItem
+          icon="trending-down"
+          value={formatElevation(elevationLoss)}
+          label="Elevation Loss"
+        />
+      ) : null}
+      {activity.max_altitude != null ? (
+        <StatItem
+          icon="analytics-outline"
+          value={formatElevation(activity.max_altitude)}
+          label="Max Altitude"
         />
       ) : null}
     </View>
@@ -0,0 +1,397 @@
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { EXPENSE_CATEGORIES, ExpenseCategory } from "../constants/expenses";
+import { theme } from "../constants/theme";
+import { TripItem } from "../contexts/TripContext";
+import { NewTripExpense } from "../services/expenseService";
+
+export interface ExpenseMember {
+  id: string;
+  name: string;
+}
+
+interface ExpenseModalProps {
+  visible: boolean;
+  members: ExpenseMember[];
+  tripItems: TripItem[];
+  defaultPayer: string;
+  defaultCurrency: string;
+  onClose: () => void;
+  onSave: (expense: NewTripExpense) => Promise<void>;
+}
+
+export function ExpenseModal({
+  visible,
+  members,
+  tripItems,
+  defaultPayer,
+  defaultCurrency,
+  onClose,
+  onSave,
+}: ExpenseModalProps) {
+  const [description, setDescription] = useState("");
+  const [amount, setAmount] = useState("");
+  const [currency, setCurrency] = useState(defaultCurrency);
+  const [category, setCategory] = useState<ExpenseCategory>("food");
+  const [paidBy, setPaidBy] = useState(defaultPayer);
+  const [participants, setParticipants] = useState<string[]>([]);
+  const [tripItemId, setTripItemId] = useState<string | undefined>();
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    setDescription("");
+    setAmount("");
+    setCurrency(defaultCurrency);
+    setCategory("food");
+    setPaidBy(defaultPayer);
+    setParticipants(members.map((m) => m.id));
+    setTripItemId(undefined);
+  }, [visible]);
+
+  const parsedAmount = parseFloat(amount.replace(",", "."));
+  const canSave =
+    description.trim().length > 0 &&
+    parsedAmount > 0 &&
+    participants.length > 0 &&
+    /^[A-Za-z]{3}$/.test(currency.trim());
+
+  const toggleParticipant = (id: string) => {
+    setParticipants((prev) =>
+      prev.includes(id) ? prev.filter((p) => p !== id) : [...prev, id]
+    );
+  };
+
+  const handleSave = async () => {
+    if (!canSave) return;
+
+    setSaving(true);
+    try {
+      await onSave({
+        description: description.trim(),
+        amount: parsedAmount,
+        currency: currency.trim().toUpperCase(),
+        category,
+        paid_by: paidBy,
+        participants,
+        trip_item_id: tripItemId,
+        spent_at: new Date(),
+      });
+      onClose();
+    } catch (error) {
+      console.error("Error saving expense:", error);
+      Alert.alert("Error", "Failed to save expense");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const share =
+    parsedAmount > 0 && participants.length > 0
+      ? (parsedAmount / participants.length).toFixed(2)
+      : null;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Add Expense</Text>
+            <TouchableOpacity onPress={onClose} disabled={saving}>
+              <Ionicons name="close" size={24} color={theme.colors.gray} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView
+            style={styles.content}
+            keyboardShouldPersistTaps="handled"
+          >
+            <TextInput
+              style={styles.input}
+              value={description}
+              onChangeText={setDescription}
+              placeholder="What was it for?"
+              placeholderTextColor={theme.colors.lightGray}
+            />
+
+            <View style={styles.amountRow}>
+              <TextInput
+                style={[styles.input, styles.amountInput]}
+                value={amount}
+                onChangeText={setAmount}
+                placeholder="0.00"
+                placeholderTextColor={theme.colors.lightGray}
+                keyboardType="decimal-pad"
+              />
+              <TextInput
+                style={[styles.input, styles.currencyInput]}
+                value={currency}
+                onChangeText={(text) => setCurrency(text.toUpperCase())}
+                placeholder="USD"
+                placeholderTextColor={theme.colors.lightGray}
+                autoCapitalize="characters"
+                maxLength={3}
+              />
+            </View>
+
+            <Text style={styles.label}>Category</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              {EXPENSE_CATEGORIES.map((option) => {
+                const selected = category === option.id;
+                return (
+                  <TouchableOpacity
+                    key={option.id}
+                    style={[
+                      styles.chip,
+                      selected && {
+                        backgroundColor: option.color,
+                        borderColor: option.color,
+                      },
+                    ]}
+                    onPress={() => setCategory(option.id)}
+                  >
+                    <Ionicons
+                      name={option.icon}
+                      size={14}
+                      color={selected ? theme.colors.white : option.color}
+                    />
+                    <Text
+                      style={[styles.chipText, selected && styles.chipTextActive]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+
+            <Text style={styles.label}>Paid by</Text>
+            <View style={styles.chipWrap}>
+              {members.map((member) => (
+                <TouchableOpacity
+                  key={member.id}
+                  style={[
+                    styles.chip,
+                    paidBy === member.id && styles.chipActive,
+                  ]}
+                  onPress={() => setPaidBy(member.id)}
+                >
+                  <Text
+                    style={[
+                      styles.chipText,
+                      paidBy === member.id && styles.chipTextActive,
+                    ]}
+                  >
+                    {member.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.label}>
+              Split between{share ? ` (${share} ${currency} each)` : ""}
+            </Text>
+            <View style={styles.chipWrap}>
+              {members.map((member) => {
+                const selected = participants.includes(member.id);
+                return (
+                  <TouchableOpacity
+                    key={member.id}
+                    style={[styles.chip, selected && styles.chipActive]}
+                    onPress={() => toggleParticipant(member.id)}
+                  >
+                    <Ionicons
+                      name={selected ? "checkmark" : "add"}
+                      size={14}
+                      color={selected ? theme.colors.white : theme.colors.gray}
+                    />
+                    <Text
+                      style={[styles.chipText, selected && styles.chipTextActive]}
+                    >
+                      {member.name}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            {tripItems.length > 0 && (
+              <>
+                <Text style={styles.label}>For (optional)</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                  {tripItems.map((item) => {
+                    const selected = tripItemId === item.id;
+                    return (
+                      <TouchableOpacity
+                        key={item.id}
+                        style={[styles.chip, selected && styles.chipActive]}
+                        onPress={() =>
+                          setTripItemId(selected ? undefined : item.id)
+                        }
+                      >
+                        <Ionicons
+                          name={item.type === "activity" ? "fitness" : "location"}
+                          size={14}
+                          color={
+                            selected ? theme.colors.white : theme.colors.gray
+                          }
+                        />
+                        <Text
+                          style={[
+                            styles.chipText,
+                            selected && styles.chipTextActive,
+                          ]}
+                          numberOfLines={1}
+                        >
+                          {item.data?.name || "Unnamed"}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </ScrollView>
+              </>
+            )}
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[
+              styles.saveButton,
+              (!canSave || saving) && styles.buttonDisabled,
+            ]}
+            onPress={handleSave}
+            disabled={!canSave || saving}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color={theme.colors.white} />
+            ) : (
+              <Text style={styles.saveButtonText}>Add Expense</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  container: {
+    backgroundColor: theme.colors.white,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: "90%",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderGray,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "600",
+    color: theme.colors.navy,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingTop: 15,
+  },
+  input: {
+    backgroundColor: theme.colors.offWhite,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: theme.colors.navy,
+    borderWidth: 1,
+    borderColor: theme.colors.borderGray,
+    marginBottom: 10,
+  },
+  amountRow: {
+    flexDirection: "row",
+    gap: 10,
+  },
+  amountInput: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: "600",
+  },
+  currencyInput: {
+    width: 80,
+    textAlign: "center",
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: theme.colors.navy,
+    marginTop: 10,
+    marginBottom: 8,
+  },
+  chipWrap: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  chip: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: theme.colors.offWhite,
+    borderWidth: 1,
+    borderColor: theme.colors.borderGray,
+    marginRight: 8,
+    marginBottom: 8,
+    gap: 4,
+    maxWidth: 180,
+  },
+  chipActive: {
+    backgroundColor: theme.colors.forest,
+    borderColor: theme.colors.forest,
+  },
+  chipText: {
+    fontSize: 13,
+    color: theme.colors.navy,
+  },
+  chipTextActive: {
+    color: theme.colors.white,
+    fontWeight: "600",
+  },
+  saveButton: {
+    backgroundColor: theme.colors.forest,
+    margin: 20,
+    padding: 15,
+    borderRadius: 10,
+    alignItems: "center",
+  },
+  saveButtonText: {
+    color: theme.colors.white,
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
@@ -6,6 +6,7 @@ import {
     Modal,
     ScrollView,
     StyleSheet,
+    Switch,
     Text,
     TextInput,
     TouchableOpacity,
@@ -13,34 +14,46 @@ import {
 } from 'react-native';
 import { theme } from '../constants/theme';
 import { useActivity } from '../contexts/ActivityContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useJournal } from '../contexts/JournalContext';
 import { useLocation } from '../contexts/LocationContext';
 import { useSettings } from '../contexts/SettingsContext';
+import { useTrips } from '../contexts/TripContext';
 import { useWishlist } from '../contexts/WishlistContext';
+import { usePassphrasePrompt } from '../hooks/usePassphrasePrompt';
+import { BackupProgress, BackupService, RestoreMode } from '../services/backupService';
 import { ExportService } from '../services/exportService';
+import { PassphraseModal } from './PassphraseModal';
 
 interface ExportModalProps {
   visible: boolean;
   onClose: () => void;
 }
 
-type ExportFormat = 'backup' | 'gpx' | 'csv' | 'email';
+type ExportFormat = 'backup' | 'gpx' | 'tcx' | 'geojson' | 'kml' | 'csv' | 'email';
 
 export const ExportModal: React.FC<ExportModalProps> = ({ visible, onClose }) => {
-  const { savedSpots } = useLocation();
-  const { activities } = useActivity();
-  const { wishlistItems } = useWishlist();
-  const { settings } = useSettings();
+  const { user } = useAuth();
+  const { savedSpots, refreshSpots } = useLocation();
+  const { activities, getFullRoutes, refreshActivities } = useActivity();
+  const { wishlistItems, refreshWishlist } = useWishlist();
+  const { settings, updateSettings } = useSettings();
+  const { refreshTrips } = useTrips();
+  const { refreshEntries } = useJournal();
   
   const [isExporting, setIsExporting] = useState(false);
   const [selectedFormat, setSelectedFormat] = useState<ExportFormat>('backup');
   const [emailAddress, setEmailAddress] = useState('');
+  const [encryptBackup, setEncryptBackup] = useState(false);
+  const [compressKML, setCompressKML] = useState(true);
+  const { requestPassphrase, passphraseModalProps } = usePassphrasePrompt();
   const [exportStatus, setExportStatus] = useState<string>('');
 
   const formatOptions = [
     {
       id: 'backup' as ExportFormat,
       title: 'Full Backup',
-      subtitle: 'Complete app data in JSON format',
+      subtitle: 'Trips, journal, photos and everything else',
       icon: 'save',
       color: theme.colors.forest,
     },
@@ -51,6 +64,27 @@ export const ExportModal: React.FC<ExportModalProps> = ({ visible, onClose }) =>
       icon: 'navigate',
       color: theme.colors.navy,
     },
+    {
+      id: 'tcx' as ExportFormat,
+      title: 'TCX Workouts',
+      subtitle: 'Activities with laps for training platforms',
+      icon: 'stopwatch',
+      color: '#00897B',
+    },
+    {
+      id: 'geojson' as ExportFormat,
+      title: 'GeoJSON Map',
+      subtitle: 'Spots, wishlist and routes for web maps and GIS',
+      icon: 'map',
+      color: '#3F51B5',
+    },
+    {
+      id: 'kml' as ExportFormat,
+      title: 'Google Earth (KML/KMZ)',
+      subtitle: 'Spots, wishlist and routes for Earth and My Maps',
+      icon: 'earth',
+      color: '#1E88E5',
+    },
     {
       id: 'csv' as ExportFormat,
       title: 'CSV Spreadsheet',
@@ -79,6 +113,13 @@ export const ExportModal: React.FC<ExportModalProps> = ({ visible, onClose }) =>
         case 'gpx':
           await exportGPX();
           break;
+        case 'tcx':
+          await exportTCX();
+          break;
+        case 'geojson':
+        case 'kml':
+          await exportMap(selectedFormat);
+          break;
         case 'csv':
           await exportCSV();
           break;
@@ -95,17 +136,36 @@ export const ExportModal: React.FC<ExportModalProps> = ({ visible, onClose }) =>
     }
   };
 
+  const showBackupProgress = ({ stage, completed, total }: BackupProgress) => {
+    setExportStatus(
+      stage === 'photos'
+        ? `Backing up photos (${completed}/${total})...`
+        : `Backing up ${stage.replace('_', ' ')}...`
+    );
+  };
+
+  // undefined when not encrypting, null when the user backed out
+  const getBackupPassphrase = async (): Promise<string | null | undefined> => {
+    if (!encryptBackup) return undefined;
+    return requestPassphrase('create');
+  };
+
   const exportFullBackup = async () => {
+    if (!user) return;
+
+    const passphrase = await getBackupPassphrase();
+    if (passphrase === null) return;
+
     setExportStatus('Creating backup file...');
     const { uri, filename } = await ExportService.createBackup(
+      user.id,
       settings,
-      savedSpots,
-      activities,
-      wishlistItems
+      showBackupProgress,
+      passphrase
     );
 
     setExportStatus('Preparing to share...');
-    await ExportService.shareFile(uri, 'application/json');
+    await ExportService.shareFile(uri, 'application/zip');
     
     Alert.alert(
       'Backup Complete',
@@ -127,7 +187,9 @@ export const ExportModal: React.FC<ExportModalProps> = ({ visible, onClose }) =>
     }
 
     setExportStatus(`Exporting ${trackedActivities.length} activities with GPS tracks...`);
-    const { uri, filename } = await ExportService.exportActivitiesAsGPX(trackedActivities);
+    const { uri, filename } = await ExportService.exportActivitiesAsGPX(
+      await getFullRoutes(trackedActivities)
+    );
 
     setExportStatus('Preparing to share...');
     await ExportService.shareFile(uri, 'application/gpx+xml');
@@ -139,6 +201,60 @@ export const ExportModal: React.FC<ExportModalProps> = ({ visible, onClose }) =>
     );
   };
 
+  const exportTCX = async () => {
+    const trackedActivities = activities.filter(a => a.route && a.route.length > 0);
+    if (trackedActivities.length === 0) {
+      Alert.alert('No GPS Tracks', 'None of your activities have GPS tracking data.');
+      return;
+    }
+
+    setExportStatus(`Exporting ${trackedActivities.length} activities with laps...`);
+    const { uri, filename } = await ExportService.exportActivitiesAsTCX(
+      await getFullRoutes(trackedActivities)
+    );
+
+    setExportStatus('Preparing to share...');
+    await ExportService.shareFile(uri, 'application/vnd.garmin.tcx+xml');
+
+    Alert.alert(
+      'TCX Export Complete',
+      `Exported ${trackedActivities.length} activities to "${filename}".\n\nLaps and splits are included for training platforms.`,
+      [{ text: 'OK', onPress: onClose }]
+    );
+  };
+
+  const exportMap = async (format: 'geojson' | 'kml') => {
+    const trackedActivities = activities.filter(a => a.route && a.route.length > 1);
+    if (savedSpots.length === 0 && wishlistItems.length === 0 && trackedActivities.length === 0) {
+      Alert.alert('Nothing to Export', 'Save some spots, wishlist places or activities first.');
+      return;
+    }
+
+    setExportStatus('Loading routes...');
+    const routes = await getFullRoutes(trackedActivities);
+
+    setExportStatus('Creating map file...');
+    const { uri, filename } = format === 'geojson'
+      ? await ExportService.exportMapAsGeoJSON(savedSpots, wishlistItems, routes)
+      : await ExportService.exportMapAsKML(savedSpots, wishlistItems, routes, compressKML);
+
+    setExportStatus('Preparing to share...');
+    await ExportService.shareFile(
+      uri,
+      format === 'geojson'
+        ? 'application/geo+json'
+        : compressKML
+          ? 'application/vnd.google-earth.kmz'
+          : 'application/vnd.google-earth.kml+xml'
+    );
+
+    Alert.alert(
+      'Map Export Complete',
+      `Exported ${savedSpots.length} spots, ${wishlistItems.length} wishlist places and ${trackedActivities.length} routes to "${filename}".`,
+      [{ text: 'OK', onPress: onClose }]
+    );
+  };
+
   const exportCSV = async () => {
     setExportStatus('Creating CSV files...');
     const { spotsUri, activitiesUri } = await ExportService.exportAsCSV(savedSpots, activities);
@@ -166,12 +282,17 @@ export const ExportModal: React.FC<ExportModalProps> = ({ visible, onClose }) =>
       return;
     }
 
+    if (!user) return;
+
+    const passphrase = await getBackupPassphrase();
+    if (passphrase === null) return;
+
     setExportStatus('Creating backup...');
     const { uri, filename } = await ExportService.createBackup(
+      user.id,
       settings,
-      savedSpots,
-      activities,
-      wishlistItems
+      showBackupProgress,
+      passphrase
     );
 
     setExportStatus('Composing email...');
@@ -180,38 +301,60 @@ export const ExportModal: React.FC<ExportModalProps> = ({ visible, onClose }) =>
   };
 
   const handleImport = async () => {
+    if (!user) return;
+
+    const archive = await ExportService.importBackup(() => requestPassphrase());
+    if (!archive) return;
+
+    const restore = async (mode: RestoreMode) => {
+      setIsExporting(true);
+      try {
+        const summary = await BackupService.restoreArchive(
+          archive,
+          user.id,
+          mode,
+          ({ stage, completed, total }) =>
+            setExportStatus(`Restoring ${stage.replace('_', ' ')} (${completed}/${total})...`)
+        );
+
+        if (archive.settings) {
+          await updateSettings(archive.settings);
+        }
+        await Promise.all([
+          refreshActivities(),
+          refreshSpots(),
+          refreshWishlist(),
+          refreshTrips(),
+          refreshEntries(),
+        ]);
+
+        const { activities: a, locations: l, wishlist_items: w, trips: t } = summary.tables;
+        const all = [...Object.values(summary.tables), summary.photos];
+        const skipped = all.reduce((sum, counts) => sum + counts.skipped, 0);
+        const failed = all.reduce((sum, counts) => sum + counts.failed, 0);
+        Alert.alert(
+          'Import Successful',
+          `Added ${a.created} activities, ${l.created} spots, ${w.created} wishlist items and ${t.created} trips.\n` +
+            `Skipped ${skipped} already saved` +
+            (failed > 0 ? `, ${failed} failed.` : '.'),
+          [{ text: 'OK', onPress: onClose }]
+        );
+      } catch (error) {
+        console.error('Restore error:', error);
+        Alert.alert('Import Failed', 'Failed to restore backup data.');
+      } finally {
+        setIsExporting(false);
+        setExportStatus('');
+      }
+    };
+
     Alert.alert(
       'Import Backup',
-      'This will replace all your current data with the backup. Are you sure?',
+      'Merge the backup with your current data, or replace your current data with it?',
       [
         { text: 'Cancel', style: 'cancel' },
-        {
-          text: 'Import',
-          style: 'destructive',
-          onPress: async () => {
-            setIsExporting(true);
-            setExportStatus('Selecting backup file...');
-            
-            const data = await ExportService.importBackup();
-            if (data) {
-              setExportStatus('Restoring data...');
-              const success = await ExportService.restoreFromBackup(data);
-              
-              if (success) {
-                Alert.alert(
-                  'Import Successful',
-                  'Your data has been restored. Please restart the app for changes to take effect.',
-                  [{ text: 'OK', onPress: onClose }]
-                );
-              } else {
-                Alert.alert('Import Failed', 'Failed to restore backup data.');
-              }
-            }
-            
-            setIsExporting(false);
-            setExportStatus('');
-          },
-        },
+        { text: 'Merge', onPress: () => restore('merge') },
+        { text: 'Replace', style: 'destructive', onPress: () => restore('replace') },
       ]
     );
   };
@@ -316,6 +459,44 @@ export const ExportModal: React.FC<ExportModalProps> = ({ visible, onClose }) =>
               </View>
             )}
 
+            {/* Encryption for backup files */}
+            {(selectedFormat === 'backup' || selectedFormat === 'email') && (
+              <View style={styles.encryptRow}>
+                <Ionicons name="lock-closed-outline" size={20} color={theme.colors.gray} />
+                <View style={styles.encryptText}>
+                  <Text style={styles.encryptTitle}>Encrypt with a passphrase</Text>
+                  <Text style={styles.encryptSubtitle}>
+                    Keeps the locations in your backup private
+                  </Text>
+                </View>
+                <Switch
+                  value={encryptBackup}
+                  onValueChange={setEncryptBackup}
+                  trackColor={{ false: theme.colors.borderGray, true: theme.colors.forest }}
+                  thumbColor={encryptBackup ? theme.colors.white : theme.colors.lightGray}
+                />
+              </View>
+            )}
+
+            {/* KMZ is what Google Earth saves; plain KML suits text editors and GIS */}
+            {selectedFormat === 'kml' && (
+              <View style={styles.encryptRow}>
+                <Ionicons name="archive-outline" size={20} color={theme.colors.gray} />
+                <View style={styles.encryptText}>
+                  <Text style={styles.encryptTitle}>Compress as KMZ</Text>
+                  <Text style={styles.encryptSubtitle}>
+                    Turn off for a plain .kml file
+                  </Text>
+                </View>
+                <Switch
+                  value={compressKML}
+                  onValueChange={setCompressKML}
+                  trackColor={{ false: theme.colors.borderGray, true: theme.colors.forest }}
+                  thumbColor={compressKML ? theme.colors.white : theme.colors.lightGray}
+                />
+              </View>
+            )}
+
             {/* Export Status */}
             {isExporting && (
               <View style={styles.statusContainer}>
@@ -355,6 +536,8 @@ export const ExportModal: React.FC<ExportModalProps> = ({ visible, onClose }) =>
           </ScrollView>
         </View>
       </View>
+
+      <PassphraseModal {...passphraseModalProps} />
     </Modal>
   );
 };
@@ -485,6 +668,29 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: theme.colors.navy,
   },
+  encryptRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 20,
+    marginTop: 15,
+    padding: 12,
+    backgroundColor: theme.colors.offWhite,
+    borderRadius: 12,
+  },
+  encryptText: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  encryptTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: theme.colors.navy,
+  },
+  encryptSubtitle: {
+    fontSize: 12,
+    color: theme.colors.gray,
+    marginTop: 2,
+  },
   statusContainer: {
     flexDirection: 'row',
     alignItems: 'center',
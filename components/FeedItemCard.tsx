@@ -92,6 +92,7 @@ export function FeedItemCard({
     userName: string;
   } | null>(null);
   const [showLikesModal, setShowLikesModal] = useState(false);
+  const [replayingRoute, setReplayingRoute] = useState(false);
 
   // Handle both old format (string[]) and new format (LikeInfo[])
   const likes: LikeInfo[] = item.data.likes.map((like: string | LikeInfo) => {
@@ -531,11 +532,21 @@ export function FeedItemCard({
             <View style={styles.miniMapContainer}>
               <WebView
                 source={{
-                  html: generateMiniMapHTML(item.data.route, item.data.name),
+                  html: generateMiniMapHTML(
+                    item.data.route,
+                    item.data.name,
+                    item.data.type,
+                    replayingRoute
+                      ? {
+                          startTime: item.data.startTime,
+                          duration: item.data.duration,
+                        }
+                      : undefined
+                  ),
                 }}
                 style={styles.miniMap}
                 scrollEnabled={false}
-                pointerEvents="none"
+                pointerEvents={replayingRoute ? "auto" : "none"}
               />
               <TouchableOpacity
                 style={styles.mapOverlay}
@@ -543,6 +554,16 @@ export function FeedItemCard({
               >
                 <Ionicons name="expand" size={20} color="white" />
               </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.mapOverlay, styles.replayOverlay]}
+                onPress={() => setReplayingRoute(!replayingRoute)}
+              >
+                <Ionicons
+                  name={replayingRoute ? "stop" : "play"}
+                  size={18}
+                  color="white"
+                />
+              </TouchableOpacity>
             </View>
           )}
 
@@ -1188,6 +1209,9 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     alignItems: "center",
   },
+  replayOverlay: {
+    right: 48,
+  },
   // Liked By Section
   likedBySection: {
     flexDirection: "row",
@@ -0,0 +1,353 @@
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { theme } from "../constants/theme";
+import { Trip } from "../contexts/TripContext";
+import {
+  LocationHistory,
+  ProposedTrip,
+} from "../services/locationHistoryService";
+
+interface HistoryImportModalProps {
+  visible: boolean;
+  history: LocationHistory | null;
+  proposals: ProposedTrip[];
+  importing?: boolean;
+  status?: string;
+  onClose: () => void;
+  onConfirm: (trips: Trip[]) => void;
+}
+
+// Less likely trips are listed but left for the user to opt in
+const MIN_SELECTED_CONFIDENCE = 0.5;
+
+const formatRange = (start: Date, end: Date) => {
+  const from = new Date(start);
+  const to = new Date(end);
+  const options: Intl.DateTimeFormatOptions = {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  };
+  return from.toDateString() === to.toDateString()
+    ? from.toLocaleDateString(undefined, options)
+    : `${from.toLocaleDateString(undefined, options)} – ${to.toLocaleDateString(
+        undefined,
+        options
+      )}`;
+};
+
+export function HistoryImportModal({
+  visible,
+  history,
+  proposals,
+  importing = false,
+  status,
+  onClose,
+  onConfirm,
+}: HistoryImportModalProps) {
+  const [selected, setSelected] = useState<number[]>([]);
+
+  // Trips overlapping ones already saved are left for the user to opt in
+  useEffect(() => {
+    setSelected(
+      proposals
+        .map((p, i) =>
+          p.overlapsWith || p.confidence < MIN_SELECTED_CONFIDENCE ? -1 : i
+        )
+        .filter((i) => i >= 0)
+    );
+  }, [proposals]);
+
+  if (!history) return null;
+
+  const toggle = (index: number) => {
+    setSelected((prev) =>
+      prev.includes(index) ? prev.filter((i) => i !== index) : [...prev, index]
+    );
+  };
+
+  const allSelected = selected.length === proposals.length;
+  const skippedTotal =
+    history.skipped.home + history.skipped.short + history.skipped.duplicates;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <View style={styles.headerText}>
+              <Text style={styles.title}>Trips From Your History</Text>
+              <Text style={styles.subtitle}>
+                {history.spots.length} visits and {history.activities.length}{" "}
+                activities found
+                {skippedTotal > 0 ? ` · ${skippedTotal} skipped` : ""}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose} disabled={importing}>
+              <Ionicons name="close" size={24} color={theme.colors.gray} />
+            </TouchableOpacity>
+          </View>
+
+          {proposals.length > 0 && (
+            <View style={styles.toolbar}>
+              <Text style={styles.toolbarText}>
+                Only places and activities in accepted trips are saved
+              </Text>
+              <TouchableOpacity
+                onPress={() =>
+                  setSelected(allSelected ? [] : proposals.map((_, i) => i))
+                }
+                disabled={importing}
+              >
+                <Text style={styles.toolbarAction}>
+                  {allSelected ? "Select None" : "Select All"}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          <ScrollView style={styles.list}>
+            {proposals.map(({ trip, confidence, overlapsWith }, index) => {
+              const items = trip.items || [];
+              const spotCount = items.filter((i) => i.type === "spot").length;
+              const activityCount = items.length - spotCount;
+              const checked = selected.includes(index);
+
+              return (
+                <TouchableOpacity
+                  key={trip.id}
+                  style={styles.item}
+                  onPress={() => toggle(index)}
+                  disabled={importing}
+                >
+                  <View style={styles.itemIcon}>
+                    <Ionicons
+                      name="airplane"
+                      size={18}
+                      color={theme.colors.forest}
+                    />
+                  </View>
+                  <View style={styles.itemInfo}>
+                    <Text style={styles.itemName} numberOfLines={1}>
+                      {trip.name}
+                    </Text>
+                    <Text style={styles.itemDetails}>
+                      {formatRange(trip.start_date, trip.end_date)}
+                    </Text>
+                    <Text style={styles.itemDetails}>
+                      {spotCount} {spotCount === 1 ? "visit" : "visits"} ·{" "}
+                      {activityCount}{" "}
+                      {activityCount === 1 ? "activity" : "activities"} ·{" "}
+                      <Text
+                        style={
+                          confidence < MIN_SELECTED_CONFIDENCE
+                            ? styles.lowConfidence
+                            : styles.highConfidence
+                        }
+                      >
+                        {Math.round(confidence * 100)}% likely
+                      </Text>
+                    </Text>
+                    {overlapsWith && (
+                      <Text style={styles.overlapText} numberOfLines={1}>
+                        Overlaps "{overlapsWith}"
+                      </Text>
+                    )}
+                  </View>
+                  <Ionicons
+                    name={checked ? "checkbox" : "square-outline"}
+                    size={24}
+                    color={checked ? theme.colors.forest : theme.colors.gray}
+                  />
+                </TouchableOpacity>
+              );
+            })}
+
+            {proposals.length === 0 && (
+              <View style={styles.emptyState}>
+                <Text style={styles.emptyText}>No trips found</Text>
+                <Text style={styles.emptySubtext}>
+                  Nothing in this history looks like a trip away from home
+                </Text>
+              </View>
+            )}
+          </ScrollView>
+
+          {importing && status ? (
+            <Text style={styles.statusText}>{status}</Text>
+          ) : null}
+
+          <TouchableOpacity
+            style={[
+              styles.importButton,
+              (selected.length === 0 || importing) && styles.buttonDisabled,
+            ]}
+            onPress={() =>
+              onConfirm(
+                [...selected].sort((a, b) => a - b).map((i) => proposals[i].trip)
+              )
+            }
+            disabled={selected.length === 0 || importing}
+          >
+            {importing ? (
+              <ActivityIndicator size="small" color={theme.colors.white} />
+            ) : (
+              <Text style={styles.importButtonText}>
+                Accept {selected.length} trip{selected.length === 1 ? "" : "s"}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+  },
+  container: {
+    backgroundColor: theme.colors.white,
+    borderRadius: 20,
+    maxHeight: "85%",
+    marginHorizontal: 20,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderGray,
+  },
+  headerText: {
+    flex: 1,
+    marginRight: 10,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "600",
+    color: theme.colors.navy,
+  },
+  subtitle: {
+    fontSize: 13,
+    color: theme.colors.gray,
+    marginTop: 2,
+  },
+  toolbar: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    backgroundColor: theme.colors.offWhite,
+  },
+  toolbarText: {
+    flex: 1,
+    fontSize: 12,
+    color: theme.colors.gray,
+    marginRight: 10,
+  },
+  toolbarAction: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: theme.colors.forest,
+  },
+  list: {
+    paddingHorizontal: 20,
+    maxHeight: 420,
+  },
+  item: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderGray,
+  },
+  itemIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: theme.colors.forest + "20",
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: 12,
+  },
+  itemInfo: {
+    flex: 1,
+    marginRight: 10,
+  },
+  itemName: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: theme.colors.navy,
+  },
+  itemDetails: {
+    fontSize: 13,
+    color: theme.colors.gray,
+    marginTop: 2,
+  },
+  highConfidence: {
+    color: theme.colors.forest,
+  },
+  lowConfidence: {
+    color: theme.colors.gray,
+    fontStyle: "italic",
+  },
+  overlapText: {
+    fontSize: 12,
+    color: theme.colors.burntOrange,
+    marginTop: 2,
+  },
+  emptyState: {
+    alignItems: "center",
+    padding: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: theme.colors.gray,
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: theme.colors.lightGray,
+    textAlign: "center",
+  },
+  statusText: {
+    fontSize: 13,
+    color: theme.colors.gray,
+    textAlign: "center",
+    marginTop: 12,
+  },
+  importButton: {
+    backgroundColor: theme.colors.forest,
+    margin: 20,
+    padding: 15,
+    borderRadius: 10,
+    alignItems: "center",
+  },
+  importButtonText: {
+    color: theme.colors.white,
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
@@ -0,0 +1,410 @@
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { categories } from "../constants/categories";
+import { theme } from "../constants/theme";
+import { getPriorityLevel } from "../constants/wishlist";
+import { Activity } from "../contexts/ActivityContext";
+import { useSettings } from "../contexts/SettingsContext";
+import {
+  ImportedSpot,
+  ImportedWishlistItem,
+  ImportPreview,
+} from "../services/importService";
+import { formatDuration, getActivityIcon } from "../utils/activity";
+
+interface ImportPreviewModalProps {
+  visible: boolean;
+  preview: ImportPreview | null;
+  importing?: boolean;
+  onClose: () => void;
+  onConfirm: (
+    activities: Activity[],
+    spots: ImportedSpot[],
+    wishlist: ImportedWishlistItem[]
+  ) => void;
+}
+
+export function ImportPreviewModal({
+  visible,
+  preview,
+  importing = false,
+  onClose,
+  onConfirm,
+}: ImportPreviewModalProps) {
+  const { formatDistance } = useSettings();
+  const [selectedActivities, setSelectedActivities] = useState<number[]>([]);
+  const [selectedSpots, setSelectedSpots] = useState<number[]>([]);
+  const [selectedWishlist, setSelectedWishlist] = useState<number[]>([]);
+
+  // Everything new starts selected; duplicates have to be opted in
+  useEffect(() => {
+    if (!preview) return;
+    setSelectedActivities(
+      preview.activities
+        .map((c, i) => (c.duplicateOf ? -1 : i))
+        .filter((i) => i >= 0)
+    );
+    setSelectedSpots(
+      preview.spots.map((c, i) => (c.duplicateOf ? -1 : i)).filter((i) => i >= 0)
+    );
+    setSelectedWishlist(
+      preview.wishlist
+        .map((c, i) => (c.duplicateOf ? -1 : i))
+        .filter((i) => i >= 0)
+    );
+  }, [preview]);
+
+  if (!preview) return null;
+
+  const toggle = (
+    index: number,
+    setSelected: React.Dispatch<React.SetStateAction<number[]>>
+  ) => {
+    setSelected((prev) =>
+      prev.includes(index) ? prev.filter((i) => i !== index) : [...prev, index]
+    );
+  };
+
+  const duplicateCount =
+    preview.activities.filter((c) => c.duplicateOf).length +
+    preview.spots.filter((c) => c.duplicateOf).length +
+    preview.wishlist.filter((c) => c.duplicateOf).length;
+  const selectedCount =
+    selectedActivities.length + selectedSpots.length + selectedWishlist.length;
+
+  const handleConfirm = () => {
+    onConfirm(
+      selectedActivities.map((i) => preview.activities[i].item),
+      selectedSpots.map((i) => preview.spots[i].item),
+      selectedWishlist.map((i) => preview.wishlist[i].item)
+    );
+  };
+
+  const renderCheckbox = (checked: boolean) => (
+    <Ionicons
+      name={checked ? "checkbox" : "square-outline"}
+      size={24}
+      color={checked ? theme.colors.forest : theme.colors.gray}
+    />
+  );
+
+  const renderDuplicate = (duplicateOf?: string) =>
+    duplicateOf ? (
+      <Text style={styles.duplicateText} numberOfLines={1}>
+        Already saved as "{duplicateOf}"
+      </Text>
+    ) : null;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <View style={styles.headerText}>
+              <Text style={styles.title}>Import Preview</Text>
+              <Text style={styles.subtitle} numberOfLines={1}>
+                {preview.fileName}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose} disabled={importing}>
+              <Ionicons name="close" size={24} color={theme.colors.gray} />
+            </TouchableOpacity>
+          </View>
+
+          {duplicateCount > 0 && (
+            <View style={styles.notice}>
+              <Ionicons
+                name="copy-outline"
+                size={16}
+                color={theme.colors.burntOrange}
+              />
+              <Text style={styles.noticeText}>
+                {duplicateCount} item{duplicateCount === 1 ? "" : "s"} look
+                like duplicates and won't be imported unless selected
+              </Text>
+            </View>
+          )}
+
+          <ScrollView style={styles.list}>
+            {preview.activities.length > 0 && (
+              <Text style={styles.sectionTitle}>
+                Activities ({preview.activities.length})
+              </Text>
+            )}
+            {preview.activities.map(({ item, duplicateOf }, index) => (
+              <TouchableOpacity
+                key={`activity-${index}`}
+                style={styles.item}
+                onPress={() => toggle(index, setSelectedActivities)}
+              >
+                <View style={styles.itemIcon}>
+                  <Ionicons
+                    name={getActivityIcon(item.type) as any}
+                    size={20}
+                    color={theme.colors.forest}
+                  />
+                </View>
+                <View style={styles.itemInfo}>
+                  <Text style={styles.itemName} numberOfLines={1}>
+                    {item.name}
+                  </Text>
+                  <Text style={styles.itemDetails}>
+                    {new Date(item.startTime).toLocaleDateString()} ·{" "}
+                    {formatDistance(item.distance)} ·{" "}
+                    {formatDuration(item.duration)}
+                  </Text>
+                  {renderDuplicate(duplicateOf)}
+                </View>
+                {renderCheckbox(selectedActivities.includes(index))}
+              </TouchableOpacity>
+            ))}
+
+            {preview.spots.length > 0 && (
+              <Text style={styles.sectionTitle}>
+                Places ({preview.spots.length})
+              </Text>
+            )}
+            {preview.spots.map(({ item, duplicateOf }, index) => {
+              const category = categories[item.category] || categories.other;
+              return (
+                <TouchableOpacity
+                  key={`spot-${index}`}
+                  style={styles.item}
+                  onPress={() => toggle(index, setSelectedSpots)}
+                >
+                  <View
+                    style={[
+                      styles.itemIcon,
+                      { backgroundColor: category.color + "20" },
+                    ]}
+                  >
+                    <Ionicons
+                      name={category.icon}
+                      size={20}
+                      color={category.color}
+                    />
+                  </View>
+                  <View style={styles.itemInfo}>
+                    <Text style={styles.itemName} numberOfLines={1}>
+                      {item.name}
+                    </Text>
+                    <Text style={styles.itemDetails}>{category.label}</Text>
+                    {renderDuplicate(duplicateOf)}
+                  </View>
+                  {renderCheckbox(selectedSpots.includes(index))}
+                </TouchableOpacity>
+              );
+            })}
+
+            {preview.wishlist.length > 0 && (
+              <Text style={styles.sectionTitle}>
+                Wishlist ({preview.wishlist.length})
+              </Text>
+            )}
+            {preview.wishlist.map(({ item, duplicateOf }, index) => {
+              const category = categories[item.category] || categories.other;
+              const priority = getPriorityLevel(item.priority);
+              return (
+                <TouchableOpacity
+                  key={`wishlist-${index}`}
+                  style={styles.item}
+                  onPress={() => toggle(index, setSelectedWishlist)}
+                >
+                  <View
+                    style={[
+                      styles.itemIcon,
+                      { backgroundColor: priority.color + "20" },
+                    ]}
+                  >
+                    <Ionicons
+                      name={priority.icon}
+                      size={20}
+                      color={priority.color}
+                    />
+                  </View>
+                  <View style={styles.itemInfo}>
+                    <Text style={styles.itemName} numberOfLines={1}>
+                      {item.name}
+                    </Text>
+                    <Text style={styles.itemDetails}>
+                      {priority.label} · {category.label}
+                    </Text>
+                    {renderDuplicate(duplicateOf)}
+                  </View>
+                  {renderCheckbox(selectedWishlist.includes(index))}
+                </TouchableOpacity>
+              );
+            })}
+
+            {preview.activities.length === 0 &&
+              preview.spots.length === 0 &&
+              preview.wishlist.length === 0 && (
+              <View style={styles.emptyState}>
+                <Text style={styles.emptyText}>Nothing to import</Text>
+                <Text style={styles.emptySubtext}>
+                  This file has no tracks or places
+                </Text>
+              </View>
+            )}
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[
+              styles.importButton,
+              (selectedCount === 0 || importing) && styles.buttonDisabled,
+            ]}
+            onPress={handleConfirm}
+            disabled={selectedCount === 0 || importing}
+          >
+            {importing ? (
+              <ActivityIndicator size="small" color={theme.colors.white} />
+            ) : (
+              <Text style={styles.importButtonText}>
+                Import {selectedCount} item{selectedCount === 1 ? "" : "s"}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+  },
+  container: {
+    backgroundColor: theme.colors.white,
+    borderRadius: 20,
+    maxHeight: "80%",
+    marginHorizontal: 20,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderGray,
+  },
+  headerText: {
+    flex: 1,
+    marginRight: 10,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "600",
+    color: theme.colors.navy,
+  },
+  subtitle: {
+    fontSize: 13,
+    color: theme.colors.gray,
+    marginTop: 2,
+  },
+  notice: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: theme.colors.burntOrange + "15",
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+  },
+  noticeText: {
+    flex: 1,
+    fontSize: 13,
+    color: theme.colors.burntOrange,
+    marginLeft: 8,
+  },
+  list: {
+    paddingHorizontal: 20,
+    maxHeight: 420,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: theme.colors.gray,
+    marginTop: 16,
+    marginBottom: 4,
+    textTransform: "uppercase",
+  },
+  item: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderGray,
+  },
+  itemIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: theme.colors.forest + "20",
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: 12,
+  },
+  itemInfo: {
+    flex: 1,
+    marginRight: 10,
+  },
+  itemName: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: theme.colors.navy,
+  },
+  itemDetails: {
+    fontSize: 13,
+    color: theme.colors.gray,
+    marginTop: 2,
+  },
+  duplicateText: {
+    fontSize: 12,
+    color: theme.colors.burntOrange,
+    marginTop: 2,
+  },
+  emptyState: {
+    alignItems: "center",
+    padding: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: theme.colors.gray,
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: theme.colors.lightGray,
+    textAlign: "center",
+  },
+  importButton: {
+    backgroundColor: theme.colors.forest,
+    margin: 20,
+    padding: 15,
+    borderRadius: 10,
+    alignItems: "center",
+  },
+  importButtonText: {
+    color: theme.colors.white,
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
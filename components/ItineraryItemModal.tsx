@@ -0,0 +1,503 @@
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { CategoryType, getCategoryById } from "../constants/categories";
+import { theme } from "../constants/theme";
+import { getPriorityLevel } from "../constants/wishlist";
+import { NewItineraryItem } from "../contexts/TripContext";
+import { useWishlist, WishlistItem } from "../contexts/WishlistContext";
+import { ItineraryDay } from "../utils/itinerary";
+import { CategorySelector } from "./CategorySelector";
+import { LocationPickerModal } from "./LocationPickerModal";
+
+interface ItineraryItemModalProps {
+  visible: boolean;
+  days: ItineraryDay[];
+  initialDay?: string;
+  onClose: () => void;
+  onSave: (item: NewItineraryItem) => Promise<void>;
+}
+
+type Source = "wishlist" | "new";
+
+const TIME_PATTERN = /^([01]?\d|2[0-3]):[0-5]\d$/;
+
+export function ItineraryItemModal({
+  visible,
+  days,
+  initialDay,
+  onClose,
+  onSave,
+}: ItineraryItemModalProps) {
+  const { wishlistItems } = useWishlist();
+
+  const [source, setSource] = useState<Source>("wishlist");
+  const [search, setSearch] = useState("");
+  const [wishlistItem, setWishlistItem] = useState<WishlistItem | null>(null);
+  const [name, setName] = useState("");
+  const [category, setCategory] = useState<CategoryType>("other");
+  const [location, setLocation] = useState<{
+    latitude: number;
+    longitude: number;
+  } | null>(null);
+  const [showLocationPicker, setShowLocationPicker] = useState(false);
+  const [day, setDay] = useState("");
+  const [time, setTime] = useState("");
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    setSource(wishlistItems.length > 0 ? "wishlist" : "new");
+    setSearch("");
+    setWishlistItem(null);
+    setName("");
+    setCategory("other");
+    setLocation(null);
+    setDay(initialDay || days[0]?.day || "");
+    setTime("");
+    setNotes("");
+  }, [visible]);
+
+  const filteredWishlist = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return wishlistItems
+      .filter(
+        (item) =>
+          !query ||
+          item.name.toLowerCase().includes(query) ||
+          item.category.toLowerCase().includes(query)
+      )
+      .sort((a, b) => a.priority - b.priority);
+  }, [wishlistItems, search]);
+
+  const canSave =
+    !!day && (source === "wishlist" ? !!wishlistItem : name.trim().length > 0);
+
+  const handleSave = async () => {
+    if (!canSave) return;
+
+    if (time.trim() && !TIME_PATTERN.test(time.trim())) {
+      Alert.alert("Invalid Time", "Enter a time like 9:30 or 14:00");
+      return;
+    }
+
+    const base =
+      source === "wishlist" && wishlistItem
+        ? {
+            name: wishlistItem.name,
+            location: wishlistItem.location,
+            category: wishlistItem.category,
+            wishlist_item_id: wishlistItem.id,
+          }
+        : {
+            name: name.trim(),
+            location: location || undefined,
+            category,
+          };
+
+    setSaving(true);
+    try {
+      await onSave({
+        ...base,
+        day,
+        time: time.trim() ? time.trim().padStart(5, "0") : undefined,
+        notes: notes.trim() || wishlistItem?.notes || undefined,
+      });
+      onClose();
+    } catch (error) {
+      // The trip context has already told the user
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Add to Itinerary</Text>
+            <TouchableOpacity onPress={onClose} disabled={saving}>
+              <Ionicons name="close" size={24} color={theme.colors.gray} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView
+            style={styles.content}
+            keyboardShouldPersistTaps="handled"
+          >
+            <View style={styles.sourceToggle}>
+              {(["wishlist", "new"] as Source[]).map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[
+                    styles.sourceOption,
+                    source === option && styles.sourceOptionActive,
+                  ]}
+                  onPress={() => setSource(option)}
+                >
+                  <Ionicons
+                    name={option === "wishlist" ? "heart" : "add-circle"}
+                    size={16}
+                    color={
+                      source === option ? theme.colors.white : theme.colors.gray
+                    }
+                  />
+                  <Text
+                    style={[
+                      styles.sourceText,
+                      source === option && styles.sourceTextActive,
+                    ]}
+                  >
+                    {option === "wishlist" ? "From Wishlist" : "New Place"}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {source === "wishlist" ? (
+              <>
+                <TextInput
+                  style={styles.input}
+                  value={search}
+                  onChangeText={setSearch}
+                  placeholder="Search your wishlist"
+                  placeholderTextColor={theme.colors.lightGray}
+                />
+                <View style={styles.wishlist}>
+                  {filteredWishlist.length === 0 ? (
+                    <Text style={styles.emptyText}>
+                      {wishlistItems.length === 0
+                        ? "Your wishlist is empty"
+                        : "No matching places"}
+                    </Text>
+                  ) : (
+                    filteredWishlist.slice(0, 20).map((item) => {
+                      const priority = getPriorityLevel(item.priority);
+                      const selected = wishlistItem?.id === item.id;
+                      return (
+                        <TouchableOpacity
+                          key={item.id}
+                          style={[
+                            styles.wishlistItem,
+                            selected && styles.wishlistItemSelected,
+                          ]}
+                          onPress={() => setWishlistItem(item)}
+                        >
+                          <Ionicons
+                            name={priority.icon}
+                            size={18}
+                            color={priority.color}
+                          />
+                          <View style={styles.wishlistInfo}>
+                            <Text style={styles.wishlistName} numberOfLines={1}>
+                              {item.name}
+                            </Text>
+                            <Text style={styles.wishlistMeta}>
+                              {getCategoryById(item.category).label} ·{" "}
+                              {priority.label}
+                            </Text>
+                          </View>
+                          {selected && (
+                            <Ionicons
+                              name="checkmark-circle"
+                              size={22}
+                              color={theme.colors.forest}
+                            />
+                          )}
+                        </TouchableOpacity>
+                      );
+                    })
+                  )}
+                </View>
+              </>
+            ) : (
+              <>
+                <TextInput
+                  style={styles.input}
+                  value={name}
+                  onChangeText={setName}
+                  placeholder="Place name"
+                  placeholderTextColor={theme.colors.lightGray}
+                />
+                <TouchableOpacity
+                  style={styles.locationButton}
+                  onPress={() => setShowLocationPicker(true)}
+                >
+                  <Ionicons
+                    name={location ? "location" : "location-outline"}
+                    size={18}
+                    color={theme.colors.forest}
+                  />
+                  <Text style={styles.locationText}>
+                    {location
+                      ? `${location.latitude.toFixed(4)}, ${location.longitude.toFixed(4)}`
+                      : "Pick on map (optional)"}
+                  </Text>
+                </TouchableOpacity>
+                <CategorySelector selected={category} onSelect={setCategory} />
+              </>
+            )}
+
+            <Text style={styles.label}>Day</Text>
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={styles.dayList}
+            >
+              {days.map((option) => (
+                <TouchableOpacity
+                  key={option.day}
+                  style={[
+                    styles.dayChip,
+                    day === option.day && styles.dayChipActive,
+                  ]}
+                  onPress={() => setDay(option.day)}
+                >
+                  <Text
+                    style={[
+                      styles.dayChipText,
+                      day === option.day && styles.dayChipTextActive,
+                    ]}
+                  >
+                    {option.date.toLocaleDateString("en-US", {
+                      weekday: "short",
+                      month: "short",
+                      day: "numeric",
+                    })}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+
+            <Text style={styles.label}>Time (optional)</Text>
+            <TextInput
+              style={styles.input}
+              value={time}
+              onChangeText={setTime}
+              placeholder="e.g. 9:30"
+              placeholderTextColor={theme.colors.lightGray}
+              keyboardType="numbers-and-punctuation"
+              maxLength={5}
+            />
+
+            <Text style={styles.label}>Notes (optional)</Text>
+            <TextInput
+              style={[styles.input, styles.notesInput]}
+              value={notes}
+              onChangeText={setNotes}
+              placeholder="Tickets, reservations, what to bring..."
+              placeholderTextColor={theme.colors.lightGray}
+              multiline
+            />
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[
+              styles.saveButton,
+              (!canSave || saving) && styles.buttonDisabled,
+            ]}
+            onPress={handleSave}
+            disabled={!canSave || saving}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color={theme.colors.white} />
+            ) : (
+              <Text style={styles.saveButtonText}>Add to Day</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <LocationPickerModal
+        visible={showLocationPicker}
+        onClose={() => setShowLocationPicker(false)}
+        onLocationSelect={(latitude, longitude) => {
+          setLocation({ latitude, longitude });
+          setShowLocationPicker(false);
+        }}
+        initialLatitude={location?.latitude}
+        initialLongitude={location?.longitude}
+      />
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  container: {
+    backgroundColor: theme.colors.white,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: "90%",
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderGray,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "600",
+    color: theme.colors.navy,
+  },
+  content: {
+    paddingHorizontal: 20,
+    paddingTop: 15,
+  },
+  sourceToggle: {
+    flexDirection: "row",
+    backgroundColor: theme.colors.offWhite,
+    borderRadius: 10,
+    padding: 4,
+    marginBottom: 15,
+  },
+  sourceOption: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 8,
+    borderRadius: 8,
+    gap: 6,
+  },
+  sourceOptionActive: {
+    backgroundColor: theme.colors.forest,
+  },
+  sourceText: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: theme.colors.gray,
+  },
+  sourceTextActive: {
+    color: theme.colors.white,
+  },
+  input: {
+    backgroundColor: theme.colors.offWhite,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: theme.colors.navy,
+    borderWidth: 1,
+    borderColor: theme.colors.borderGray,
+    marginBottom: 10,
+  },
+  notesInput: {
+    minHeight: 70,
+    textAlignVertical: "top",
+  },
+  wishlist: {
+    marginBottom: 10,
+  },
+  wishlistItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    gap: 10,
+  },
+  wishlistItemSelected: {
+    backgroundColor: theme.colors.forest + "15",
+  },
+  wishlistInfo: {
+    flex: 1,
+  },
+  wishlistName: {
+    fontSize: 15,
+    fontWeight: "500",
+    color: theme.colors.navy,
+  },
+  wishlistMeta: {
+    fontSize: 12,
+    color: theme.colors.gray,
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: theme.colors.lightGray,
+    textAlign: "center",
+    paddingVertical: 20,
+  },
+  locationButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    gap: 8,
+    marginBottom: 5,
+  },
+  locationText: {
+    fontSize: 14,
+    color: theme.colors.forest,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: theme.colors.navy,
+    marginTop: 10,
+    marginBottom: 8,
+  },
+  dayList: {
+    marginBottom: 5,
+  },
+  dayChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: theme.colors.offWhite,
+    borderWidth: 1,
+    borderColor: theme.colors.borderGray,
+    marginRight: 8,
+  },
+  dayChipActive: {
+    backgroundColor: theme.colors.forest,
+    borderColor: theme.colors.forest,
+  },
+  dayChipText: {
+    fontSize: 13,
+    color: theme.colors.navy,
+  },
+  dayChipTextActive: {
+    color: theme.colors.white,
+    fontWeight: "600",
+  },
+  saveButton: {
+    backgroundColor: theme.colors.forest,
+    margin: 20,
+    padding: 15,
+    borderRadius: 10,
+    alignItems: "center",
+  },
+  saveButtonText: {
+    color: theme.colors.white,
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
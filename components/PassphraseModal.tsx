@@ -0,0 +1,235 @@
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect, useState } from "react";
+import {
+  Modal,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { theme } from "../constants/theme";
+
+export type PassphraseMode = "create" | "enter";
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+interface PassphraseModalProps {
+  visible: boolean;
+  mode: PassphraseMode;
+  onSubmit: (passphrase: string) => void;
+  onCancel: () => void;
+}
+
+export function PassphraseModal({
+  visible,
+  mode,
+  onSubmit,
+  onCancel,
+}: PassphraseModalProps) {
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [showPassphrase, setShowPassphrase] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (visible) {
+      setPassphrase("");
+      setConfirmation("");
+      setShowPassphrase(false);
+      setError("");
+    }
+  }, [visible]);
+
+  const handleSubmit = () => {
+    if (mode === "create") {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`);
+        return;
+      }
+      if (passphrase !== confirmation) {
+        setError("Passphrases don't match");
+        return;
+      }
+    } else if (!passphrase) {
+      setError("Enter the passphrase for this backup");
+      return;
+    }
+
+    onSubmit(passphrase);
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="fade"
+      transparent={true}
+      onRequestClose={onCancel}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <Ionicons
+              name="lock-closed"
+              size={22}
+              color={theme.colors.forest}
+            />
+            <Text style={styles.title}>
+              {mode === "create" ? "Encrypt Backup" : "Encrypted Backup"}
+            </Text>
+          </View>
+
+          <Text style={styles.message}>
+            {mode === "create"
+              ? "Choose a passphrase. You'll need it to restore this backup - it can't be recovered if you forget it."
+              : "This backup is encrypted. Enter the passphrase it was created with."}
+          </Text>
+
+          <View style={styles.inputRow}>
+            <TextInput
+              style={styles.input}
+              placeholder="Passphrase"
+              value={passphrase}
+              onChangeText={(text) => {
+                setPassphrase(text);
+                setError("");
+              }}
+              secureTextEntry={!showPassphrase}
+              autoCapitalize="none"
+              autoCorrect={false}
+              autoFocus
+              placeholderTextColor={theme.colors.lightGray}
+            />
+            <TouchableOpacity
+              onPress={() => setShowPassphrase(!showPassphrase)}
+              style={styles.visibilityButton}
+            >
+              <Ionicons
+                name={showPassphrase ? "eye-off-outline" : "eye-outline"}
+                size={20}
+                color={theme.colors.gray}
+              />
+            </TouchableOpacity>
+          </View>
+
+          {mode === "create" && (
+            <TextInput
+              style={[styles.input, styles.confirmInput]}
+              placeholder="Confirm passphrase"
+              value={confirmation}
+              onChangeText={(text) => {
+                setConfirmation(text);
+                setError("");
+              }}
+              secureTextEntry={!showPassphrase}
+              autoCapitalize="none"
+              autoCorrect={false}
+              placeholderTextColor={theme.colors.lightGray}
+            />
+          )}
+
+          {error !== "" && <Text style={styles.errorText}>{error}</Text>}
+
+          <View style={styles.buttons}>
+            <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.submitButton} onPress={handleSubmit}>
+              <Text style={styles.submitButtonText}>
+                {mode === "create" ? "Encrypt" : "Unlock"}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+  },
+  container: {
+    backgroundColor: theme.colors.white,
+    borderRadius: 20,
+    marginHorizontal: 20,
+    padding: 20,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "600",
+    color: theme.colors.navy,
+    marginLeft: 10,
+  },
+  message: {
+    fontSize: 14,
+    color: theme.colors.gray,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  inputRow: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  input: {
+    flex: 1,
+    backgroundColor: theme.colors.offWhite,
+    borderWidth: 1,
+    borderColor: theme.colors.borderGray,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: theme.colors.navy,
+  },
+  confirmInput: {
+    flex: 0,
+    marginTop: 10,
+  },
+  visibilityButton: {
+    padding: 10,
+    marginLeft: 4,
+  },
+  errorText: {
+    fontSize: 13,
+    color: theme.colors.burntOrange,
+    marginTop: 10,
+  },
+  buttons: {
+    flexDirection: "row",
+    marginTop: 20,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 10,
+    alignItems: "center",
+    marginRight: 8,
+    backgroundColor: theme.colors.offWhite,
+  },
+  cancelButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: theme.colors.gray,
+  },
+  submitButton: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 10,
+    alignItems: "center",
+    marginLeft: 8,
+    backgroundColor: theme.colors.forest,
+  },
+  submitButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: theme.colors.white,
+  },
+});
@@ -0,0 +1,619 @@
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { categories } from "../constants/categories";
+import { theme } from "../constants/theme";
+import { useLocation } from "../contexts/LocationContext";
+import { useWishlist } from "../contexts/WishlistContext";
+import {
+  CsvColumnMapping,
+  CsvField,
+  ImportedSpot,
+  ImportedWishlistItem,
+  ImportService,
+  PlaceCandidate,
+  PlacesImportSource,
+} from "../services/importService";
+
+type PlaceDestination = "spot" | "wishlist";
+
+const CSV_FIELDS: { field: CsvField; label: string; required: boolean }[] = [
+  { field: "name", label: "Name", required: true },
+  { field: "latitude", label: "Latitude", required: true },
+  { field: "longitude", label: "Longitude", required: true },
+  { field: "description", label: "Description", required: false },
+  { field: "category", label: "Category", required: false },
+  { field: "date", label: "Visit date", required: false },
+];
+
+interface PlacesImportModalProps {
+  visible: boolean;
+  source: PlacesImportSource | null;
+  importing?: boolean;
+  onClose: () => void;
+  onConfirm: (spots: ImportedSpot[], wishlist: ImportedWishlistItem[]) => void;
+}
+
+export function PlacesImportModal({
+  visible,
+  source,
+  importing = false,
+  onClose,
+  onConfirm,
+}: PlacesImportModalProps) {
+  const { savedSpots } = useLocation();
+  const { wishlistItems } = useWishlist();
+  const [step, setStep] = useState<"mapping" | "review">("review");
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+  const [places, setPlaces] = useState<ImportedSpot[]>([]);
+  const [skipped, setSkipped] = useState(0);
+  const [destinations, setDestinations] = useState<PlaceDestination[]>([]);
+  const [selected, setSelected] = useState<number[]>([]);
+
+  const candidates: PlaceCandidate[] = useMemo(
+    () => ImportService.buildPlacesPreview(places, savedSpots, wishlistItems),
+    // Existing data is only compared when the file's places change
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [places]
+  );
+
+  const showPlaces = (newPlaces: ImportedSpot[]) => {
+    setPlaces(newPlaces);
+    setDestinations(newPlaces.map(() => "spot"));
+    setStep("review");
+  };
+
+  useEffect(() => {
+    if (!source) return;
+    setSkipped(0);
+
+    if (source.type === "csv") {
+      setMapping(ImportService.guessCsvMapping(source.headers));
+      setPlaces([]);
+      setStep("mapping");
+    } else {
+      showPlaces(source.places);
+    }
+  }, [source]);
+
+  // New places start selected unless they look like duplicates
+  useEffect(() => {
+    setSelected(
+      candidates.map((c, i) => (c.duplicateOf ? -1 : i)).filter((i) => i >= 0)
+    );
+  }, [candidates]);
+
+  if (!source) return null;
+
+  const getDuplicate = (candidate: PlaceCandidate, index: number) =>
+    destinations[index] === "wishlist"
+      ? candidate.wishlistDuplicateOf
+      : candidate.duplicateOf;
+
+  const setAllDestinations = (destination: PlaceDestination) => {
+    setDestinations(candidates.map(() => destination));
+    setSelected(
+      candidates
+        .map((c, i) =>
+          (destination === "wishlist" ? c.wishlistDuplicateOf : c.duplicateOf)
+            ? -1
+            : i
+        )
+        .filter((i) => i >= 0)
+    );
+  };
+
+  const toggleDestination = (index: number) => {
+    setDestinations((prev) =>
+      prev.map((d, i) =>
+        i === index ? (d === "spot" ? "wishlist" : "spot") : d
+      )
+    );
+  };
+
+  const toggleSelected = (index: number) => {
+    setSelected((prev) =>
+      prev.includes(index) ? prev.filter((i) => i !== index) : [...prev, index]
+    );
+  };
+
+  const handleApplyMapping = () => {
+    if (source.type !== "csv") return;
+    const result = ImportService.mapCsvRows(source.rows, mapping);
+    setSkipped(result.skipped);
+    showPlaces(result.places);
+  };
+
+  const handleConfirm = () => {
+    const chosen = [...selected].sort((a, b) => a - b);
+    onConfirm(
+      chosen
+        .filter((i) => destinations[i] === "spot")
+        .map((i) => candidates[i].item),
+      chosen
+        .filter((i) => destinations[i] === "wishlist")
+        .map((i) => {
+          const { name, location, description, category } = candidates[i].item;
+          return { name, location, description, category, priority: 2 };
+        })
+    );
+  };
+
+  const mappingComplete = CSV_FIELDS.every(
+    ({ field, required }) => !required || mapping[field] !== undefined
+  );
+  const duplicateCount = candidates.filter((c, i) => getDuplicate(c, i)).length;
+  const allDestination = destinations.every((d) => d === "wishlist")
+    ? "wishlist"
+    : destinations.every((d) => d === "spot")
+    ? "spot"
+    : null;
+
+  const renderMapping = () => {
+    if (source.type !== "csv") return null;
+    const sample = source.rows[0] || [];
+
+    return (
+      <>
+        <ScrollView style={styles.list}>
+          <Text style={styles.hint}>
+            Choose the column for each field. {source.rows.length} row
+            {source.rows.length === 1 ? "" : "s"} found.
+          </Text>
+          {CSV_FIELDS.map(({ field, label, required }) => (
+            <View key={field} style={styles.mappingField}>
+              <Text style={styles.mappingLabel}>
+                {label}
+                {required ? " *" : ""}
+              </Text>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                {!required && (
+                  <TouchableOpacity
+                    style={[
+                      styles.chip,
+                      mapping[field] === undefined && styles.chipSelected,
+                    ]}
+                    onPress={() =>
+                      setMapping((prev) => ({ ...prev, [field]: undefined }))
+                    }
+                  >
+                    <Text
+                      style={[
+                        styles.chipText,
+                        mapping[field] === undefined && styles.chipTextSelected,
+                      ]}
+                    >
+                      None
+                    </Text>
+                  </TouchableOpacity>
+                )}
+                {source.headers.map((header, index) => (
+                  <TouchableOpacity
+                    key={`${field}-${index}`}
+                    style={[
+                      styles.chip,
+                      mapping[field] === index && styles.chipSelected,
+                    ]}
+                    onPress={() =>
+                      setMapping((prev) => ({ ...prev, [field]: index }))
+                    }
+                  >
+                    <Text
+                      style={[
+                        styles.chipText,
+                        mapping[field] === index && styles.chipTextSelected,
+                      ]}
+                    >
+                      {header || `Column ${index + 1}`}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+              {mapping[field] !== undefined && (
+                <Text style={styles.sampleText} numberOfLines={1}>
+                  e.g. {sample[mapping[field] as number] || "(empty)"}
+                </Text>
+              )}
+            </View>
+          ))}
+        </ScrollView>
+
+        <TouchableOpacity
+          style={[styles.importButton, !mappingComplete && styles.buttonDisabled]}
+          onPress={handleApplyMapping}
+          disabled={!mappingComplete}
+        >
+          <Text style={styles.importButtonText}>Continue</Text>
+        </TouchableOpacity>
+      </>
+    );
+  };
+
+  const renderReview = () => (
+    <>
+      {candidates.length > 0 && (
+        <View style={styles.destinationBar}>
+          <Text style={styles.destinationLabel}>Send all to</Text>
+          {(["spot", "wishlist"] as PlaceDestination[]).map((destination) => (
+            <TouchableOpacity
+              key={destination}
+              style={[
+                styles.chip,
+                allDestination === destination && styles.chipSelected,
+              ]}
+              onPress={() => setAllDestinations(destination)}
+            >
+              <Text
+                style={[
+                  styles.chipText,
+                  allDestination === destination && styles.chipTextSelected,
+                ]}
+              >
+                {destination === "spot" ? "Saved Spots" : "Wishlist"}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {(duplicateCount > 0 || skipped > 0) && (
+        <View style={styles.notice}>
+          <Ionicons
+            name="copy-outline"
+            size={16}
+            color={theme.colors.burntOrange}
+          />
+          <Text style={styles.noticeText}>
+            {duplicateCount > 0 &&
+              `${duplicateCount} place${
+                duplicateCount === 1 ? "" : "s"
+              } look like duplicates and won't be imported unless selected. `}
+            {skipped > 0 &&
+              `${skipped} row${
+                skipped === 1 ? " was" : "s were"
+              } skipped for missing names or coordinates.`}
+          </Text>
+        </View>
+      )}
+
+      <ScrollView style={styles.list}>
+        {candidates.map((candidate, index) => {
+          const { item } = candidate;
+          const category = categories[item.category] || categories.other;
+          const destination = destinations[index];
+          const duplicate = getDuplicate(candidate, index);
+
+          return (
+            <TouchableOpacity
+              key={`place-${index}`}
+              style={styles.item}
+              onPress={() => toggleSelected(index)}
+            >
+              <View
+                style={[
+                  styles.itemIcon,
+                  { backgroundColor: category.color + "20" },
+                ]}
+              >
+                <Ionicons name={category.icon} size={20} color={category.color} />
+              </View>
+              <View style={styles.itemInfo}>
+                <Text style={styles.itemName} numberOfLines={1}>
+                  {item.name}
+                </Text>
+                <Text style={styles.itemDetails}>{category.label}</Text>
+                {duplicate && (
+                  <Text style={styles.duplicateText} numberOfLines={1}>
+                    {destination === "wishlist"
+                      ? `Already on your wishlist as "${duplicate}"`
+                      : `Already saved as "${duplicate}"`}
+                  </Text>
+                )}
+              </View>
+              <TouchableOpacity
+                style={styles.destinationToggle}
+                onPress={() => toggleDestination(index)}
+              >
+                <Ionicons
+                  name={destination === "spot" ? "location" : "heart"}
+                  size={14}
+                  color={theme.colors.forest}
+                />
+                <Text style={styles.destinationToggleText}>
+                  {destination === "spot" ? "Spot" : "Wishlist"}
+                </Text>
+              </TouchableOpacity>
+              <Ionicons
+                name={selected.includes(index) ? "checkbox" : "square-outline"}
+                size={24}
+                color={
+                  selected.includes(index)
+                    ? theme.colors.forest
+                    : theme.colors.gray
+                }
+              />
+            </TouchableOpacity>
+          );
+        })}
+
+        {candidates.length === 0 && (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyText}>No places found</Text>
+            <Text style={styles.emptySubtext}>
+              {source.type === "csv"
+                ? "Check that the name and coordinate columns are right"
+                : "This file has no places with coordinates"}
+            </Text>
+          </View>
+        )}
+      </ScrollView>
+
+      <View style={styles.footerButtons}>
+        {source.type === "csv" && (
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => setStep("mapping")}
+            disabled={importing}
+          >
+            <Text style={styles.backButtonText}>Columns</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          style={[
+            styles.importButton,
+            styles.footerImportButton,
+            (selected.length === 0 || importing) && styles.buttonDisabled,
+          ]}
+          onPress={handleConfirm}
+          disabled={selected.length === 0 || importing}
+        >
+          {importing ? (
+            <ActivityIndicator size="small" color={theme.colors.white} />
+          ) : (
+            <Text style={styles.importButtonText}>
+              Import {selected.length} place{selected.length === 1 ? "" : "s"}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={true}
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <View style={styles.headerText}>
+              <Text style={styles.title}>
+                {step === "mapping" ? "Match Columns" : "Import Places"}
+              </Text>
+              <Text style={styles.subtitle} numberOfLines={1}>
+                {source.fileName}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={onClose} disabled={importing}>
+              <Ionicons name="close" size={24} color={theme.colors.gray} />
+            </TouchableOpacity>
+          </View>
+
+          {step === "mapping" ? renderMapping() : renderReview()}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+  },
+  container: {
+    backgroundColor: theme.colors.white,
+    borderRadius: 20,
+    maxHeight: "85%",
+    marginHorizontal: 20,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderGray,
+  },
+  headerText: {
+    flex: 1,
+    marginRight: 10,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "600",
+    color: theme.colors.navy,
+  },
+  subtitle: {
+    fontSize: 13,
+    color: theme.colors.gray,
+    marginTop: 2,
+  },
+  hint: {
+    fontSize: 14,
+    color: theme.colors.gray,
+    marginTop: 16,
+  },
+  mappingField: {
+    marginTop: 16,
+  },
+  mappingLabel: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: theme.colors.navy,
+    marginBottom: 8,
+  },
+  sampleText: {
+    fontSize: 12,
+    color: theme.colors.gray,
+    marginTop: 6,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.colors.borderGray,
+    marginRight: 8,
+  },
+  chipSelected: {
+    backgroundColor: theme.colors.forest,
+    borderColor: theme.colors.forest,
+  },
+  chipText: {
+    fontSize: 13,
+    color: theme.colors.navy,
+  },
+  chipTextSelected: {
+    color: theme.colors.white,
+  },
+  destinationBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderGray,
+  },
+  destinationLabel: {
+    fontSize: 14,
+    color: theme.colors.gray,
+    marginRight: 10,
+  },
+  notice: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: theme.colors.burntOrange + "15",
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+  },
+  noticeText: {
+    flex: 1,
+    fontSize: 13,
+    color: theme.colors.burntOrange,
+    marginLeft: 8,
+  },
+  list: {
+    paddingHorizontal: 20,
+    maxHeight: 420,
+  },
+  item: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderGray,
+  },
+  itemIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: 12,
+  },
+  itemInfo: {
+    flex: 1,
+    marginRight: 10,
+  },
+  itemName: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: theme.colors.navy,
+  },
+  itemDetails: {
+    fontSize: 13,
+    color: theme.colors.gray,
+    marginTop: 2,
+  },
+  duplicateText: {
+    fontSize: 12,
+    color: theme.colors.burntOrange,
+    marginTop: 2,
+  },
+  destinationToggle: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: theme.colors.forest + "15",
+    marginRight: 10,
+  },
+  destinationToggleText: {
+    fontSize: 12,
+    fontWeight: "500",
+    color: theme.colors.forest,
+    marginLeft: 4,
+  },
+  emptyState: {
+    alignItems: "center",
+    padding: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: theme.colors.gray,
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: theme.colors.lightGray,
+    textAlign: "center",
+  },
+  footerButtons: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  backButton: {
+    marginLeft: 20,
+    paddingVertical: 15,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+    backgroundColor: theme.colors.offWhite,
+  },
+  backButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: theme.colors.gray,
+  },
+  footerImportButton: {
+    flex: 1,
+  },
+  importButton: {
+    backgroundColor: theme.colors.forest,
+    margin: 20,
+    padding: 15,
+    borderRadius: 10,
+    alignItems: "center",
+  },
+  importButtonText: {
+    color: theme.colors.white,
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
@@ -3,17 +3,23 @@ import { StyleSheet, Text, View } from "react-native";
 import { WebView } from "react-native-webview";
 import { theme } from "../constants/theme";
 import { RoutePoint } from "../types/activity";
+import { simplifyRouteForActivity } from "../utils/routeSimplification";
 
 interface RouteMapProps {
   route: RoutePoint[];
+  activityType?: string;
   height?: number;
   title?: string;
 }
 
-const generateRouteMapHTML = (route: RoutePoint[]): string => {
+const generateRouteMapHTML = (
+  route: RoutePoint[],
+  activityType: string
+): string => {
   if (!route || route.length === 0) return "";
 
-  const coordinates = route
+  // Full-resolution tracks can have tens of thousands of points
+  const coordinates = simplifyRouteForActivity(route, activityType)
     .map((p) => `[${p.latitude}, ${p.longitude}]`)
     .join(",");
 
@@ -53,7 +59,12 @@ const generateRouteMapHTML = (route: RoutePoint[]): string => {
   `;
 };
 
-export function RouteMap({ route, height = 200, title = "Route" }: RouteMapProps) {
+export function RouteMap({
+  route,
+  activityType = "other",
+  height = 200,
+  title = "Route",
+}: RouteMapProps) {
   if (!route || route.length === 0) {
     return null;
   }
@@ -63,7 +74,7 @@ export function RouteMap({ route, height = 200, title = "Route" }: RouteMapProps
       {title && <Text style={styles.title}>{title}</Text>}
       <WebView
         style={[styles.map, { height }]}
-        source={{ html: generateRouteMapHTML(route) }}
+        source={{ html: generateRouteMapHTML(route, activityType) }}
         scrollEnabled={false}
         scalesPageToFit={false}
       />
@@ -0,0 +1,797 @@
+import { Ionicons } from "@expo/vector-icons";
+import { RealtimePostgresDeletePayload } from "@supabase/supabase-js";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { ChecklistTemplate } from "../constants/checklists";
+import { theme } from "../constants/theme";
+import { useAuth } from "../contexts/AuthContext";
+import { Trip } from "../contexts/TripContext";
+import { supabase } from "../lib/supabase";
+import { ChecklistItem, ChecklistService } from "../services/checklistService";
+
+interface TripChecklistProps {
+  trip: Trip;
+  canEdit: boolean;
+}
+
+const sortItems = (items: ChecklistItem[]) =>
+  [...items].sort((a, b) => a.position - b.position);
+
+export function TripChecklist({ trip, canEdit }: TripChecklistProps) {
+  const { user } = useAuth();
+  const [items, setItems] = useState<ChecklistItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [templates, setTemplates] = useState<ChecklistTemplate[]>([]);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [applyingTemplate, setApplyingTemplate] = useState<string | null>(null);
+  const [newItemText, setNewItemText] = useState("");
+  const [showSaveTemplate, setShowSaveTemplate] = useState(false);
+  const [templateName, setTemplateName] = useState("");
+  const [savingTemplate, setSavingTemplate] = useState(false);
+
+  const loadChecklist = async () => {
+    try {
+      setItems(await ChecklistService.getChecklist(trip.id));
+    } catch (error) {
+      console.error("Error loading checklist:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadChecklist();
+
+    const upsertItem = (payload: any) => {
+      const changed = ChecklistService.transformItem(payload.new);
+      setItems((prev) =>
+        sortItems([...prev.filter((item) => item.id !== changed.id), changed])
+      );
+    };
+
+    const subscription = supabase
+      .channel(`trip_checklist_${trip.id}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "trip_checklist_items",
+          filter: `trip_id=eq.${trip.id}`,
+        },
+        upsertItem
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "trip_checklist_items",
+          filter: `trip_id=eq.${trip.id}`,
+        },
+        upsertItem
+      )
+      // Realtime can't filter deletes and they only carry the id, so every
+      // trip's checklist deletes arrive here. That's one small message per
+      // removed item, which we accept over tracking deletes another way -
+      // ids that aren't on this list remove nothing
+      .on(
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "trip_checklist_items" },
+        (payload: RealtimePostgresDeletePayload<{ id: string }>) => {
+          const removedId = payload.old.id;
+          setItems((prev) => prev.filter((item) => item.id !== removedId));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [trip.id]);
+
+  useEffect(() => {
+    if (!user) return;
+    ChecklistService.getTemplates(user.id).then(setTemplates);
+  }, [user?.id]);
+
+  const checkerIds = useMemo(
+    () =>
+      Array.from(
+        new Set(
+          items
+            .map((item) => item.checked_by)
+            .filter((id): id is string => !!id && id !== user?.id)
+        )
+      ),
+    [items, user?.id]
+  );
+
+  useEffect(() => {
+    const missing = checkerIds.filter((id) => !names[id]);
+    if (missing.length === 0) return;
+
+    supabase
+      .from("profiles")
+      .select("id, username")
+      .in("id", missing)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Error loading checklist profiles:", error);
+          return;
+        }
+        const loaded: Record<string, string> = {};
+        (data || []).forEach((profile) => {
+          loaded[profile.id] = profile.username;
+        });
+        setNames((prev) => ({ ...prev, ...loaded }));
+      });
+  }, [checkerIds.join(",")]);
+
+  const suggested = useMemo(
+    () => ChecklistService.suggestTemplates(trip, templates),
+    [trip.items, templates]
+  );
+
+  const groups = useMemo(() => {
+    const byName = new Map<string, ChecklistItem[]>();
+    items.forEach((item) => {
+      const group = item.group_name || "Other";
+      byName.set(group, [...(byName.get(group) || []), item]);
+    });
+    return Array.from(byName.entries());
+  }, [items]);
+
+  const checkedCount = items.filter((item) => item.checked_at).length;
+
+  const nameFor = (userId: string) =>
+    userId === user?.id ? "you" : names[userId] || "a friend";
+
+  const handleToggle = async (item: ChecklistItem) => {
+    if (!canEdit || !user) return;
+
+    const checked = !item.checked_at;
+    setItems((prev) =>
+      prev.map((i) =>
+        i.id === item.id
+          ? {
+              ...i,
+              checked_by: checked ? user.id : null,
+              checked_at: checked ? new Date() : null,
+            }
+          : i
+      )
+    );
+
+    try {
+      await ChecklistService.setChecked(item.id, user.id, checked);
+    } catch (error) {
+      console.error("Error updating checklist item:", error);
+      setItems((prev) => prev.map((i) => (i.id === item.id ? item : i)));
+    }
+  };
+
+  const handleDelete = (item: ChecklistItem) => {
+    if (!canEdit) return;
+
+    Alert.alert("Remove Item", `Remove "${item.text}" from the list?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Remove",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await ChecklistService.deleteItem(item.id);
+            setItems((prev) => prev.filter((i) => i.id !== item.id));
+          } catch (error) {
+            console.error("Error deleting checklist item:", error);
+            Alert.alert("Error", "Failed to remove item");
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleAddItem = async () => {
+    if (!user || !newItemText.trim()) return;
+
+    try {
+      const added = await ChecklistService.addItem(
+        trip.id,
+        user.id,
+        newItemText,
+        items
+      );
+      setItems((prev) =>
+        prev.some((i) => i.id === added.id) ? prev : sortItems([...prev, added])
+      );
+      setNewItemText("");
+    } catch (error) {
+      console.error("Error adding checklist item:", error);
+      Alert.alert("Error", "Failed to add item");
+    }
+  };
+
+  const handleApplyTemplate = async (template: ChecklistTemplate) => {
+    if (!user) return;
+
+    setApplyingTemplate(template.id);
+    try {
+      const added = await ChecklistService.instantiateTemplate(
+        trip.id,
+        user.id,
+        template,
+        items
+      );
+      setItems((prev) => {
+        const ids = new Set(prev.map((i) => i.id));
+        return sortItems([...prev, ...added.filter((i) => !ids.has(i.id))]);
+      });
+      setShowTemplates(false);
+      if (added.length === 0) {
+        Alert.alert(
+          "Already Added",
+          `Everything from ${template.name} is already on the list.`
+        );
+      }
+    } catch (error) {
+      console.error("Error applying checklist template:", error);
+      Alert.alert("Error", "Failed to add template");
+    } finally {
+      setApplyingTemplate(null);
+    }
+  };
+
+  const handleDeleteTemplate = (template: ChecklistTemplate) => {
+    if (template.builtIn) return;
+
+    Alert.alert("Delete Template", `Delete "${template.name}"?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await ChecklistService.deleteTemplate(template.id);
+            setTemplates((prev) => prev.filter((t) => t.id !== template.id));
+          } catch (error) {
+            console.error("Error deleting checklist template:", error);
+            Alert.alert("Error", "Failed to delete template");
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!user || !templateName.trim() || items.length === 0) return;
+
+    setSavingTemplate(true);
+    try {
+      const saved = await ChecklistService.saveTemplate(user.id, {
+        name: templateName.trim(),
+        icon: "list",
+        items: items.map((item) => item.text),
+      });
+      setTemplates((prev) => [...prev, saved]);
+      setShowSaveTemplate(false);
+      setTemplateName("");
+    } catch (error) {
+      console.error("Error saving checklist template:", error);
+      Alert.alert("Error", "Failed to save template");
+    } finally {
+      setSavingTemplate(false);
+    }
+  };
+
+  const renderTemplate = (template: ChecklistTemplate) => (
+    <TouchableOpacity
+      key={template.id}
+      style={styles.templateRow}
+      onPress={() => handleApplyTemplate(template)}
+      onLongPress={() => handleDeleteTemplate(template)}
+      disabled={applyingTemplate !== null}
+    >
+      <Ionicons name={template.icon} size={22} color={theme.colors.forest} />
+      <View style={styles.templateInfo}>
+        <Text style={styles.templateName}>{template.name}</Text>
+        <Text style={styles.templateMeta} numberOfLines={1}>
+          {template.items.length} items
+          {!template.builtIn ? " · Saved by you" : ""}
+        </Text>
+      </View>
+      {applyingTemplate === template.id ? (
+        <ActivityIndicator size="small" color={theme.colors.forest} />
+      ) : (
+        <Ionicons name="add" size={20} color={theme.colors.gray} />
+      )}
+    </TouchableOpacity>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.loading}>
+        <ActivityIndicator size="large" color={theme.colors.forest} />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      style={styles.container}
+      showsVerticalScrollIndicator={false}
+      keyboardShouldPersistTaps="handled"
+    >
+      <View style={styles.summary}>
+        <View style={styles.summaryHeader}>
+          <View style={styles.summaryText}>
+            <Text style={styles.summaryTitle}>
+              {items.length === 0
+                ? "Nothing to pack yet"
+                : `${checkedCount} of ${items.length} packed`}
+            </Text>
+            <Text style={styles.summarySubtitle}>
+              {items.length === 0
+                ? "Start from a template or add your own items"
+                : "Everyone on the trip can tick items off"}
+            </Text>
+          </View>
+          {canEdit && (
+            <TouchableOpacity
+              style={styles.templatesButton}
+              onPress={() => setShowTemplates(true)}
+            >
+              <Ionicons name="copy-outline" size={16} color={theme.colors.white} />
+              <Text style={styles.templatesButtonText}>Templates</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        {items.length > 0 && (
+          <View style={styles.progressTrack}>
+            <View
+              style={[
+                styles.progressFill,
+                { width: `${(checkedCount / items.length) * 100}%` },
+              ]}
+            />
+          </View>
+        )}
+        {canEdit && suggested.length > 0 && items.length === 0 && (
+          <View style={styles.suggestions}>
+            {suggested.map((template) => (
+              <TouchableOpacity
+                key={template.id}
+                style={styles.suggestionChip}
+                onPress={() => handleApplyTemplate(template)}
+                disabled={applyingTemplate !== null}
+              >
+                <Ionicons
+                  name={template.icon}
+                  size={14}
+                  color={theme.colors.forest}
+                />
+                <Text style={styles.suggestionText}>{template.name}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+      </View>
+
+      {groups.map(([group, groupItems]) => (
+        <View key={group} style={styles.group}>
+          <Text style={styles.groupTitle}>{group}</Text>
+          {groupItems.map((item) => (
+            <TouchableOpacity
+              key={item.id}
+              style={styles.itemRow}
+              onPress={() => handleToggle(item)}
+              onLongPress={() => handleDelete(item)}
+              disabled={!canEdit}
+              activeOpacity={0.7}
+            >
+              <Ionicons
+                name={item.checked_at ? "checkbox" : "square-outline"}
+                size={22}
+                color={
+                  item.checked_at ? theme.colors.forest : theme.colors.lightGray
+                }
+              />
+              <View style={styles.itemInfo}>
+                <Text
+                  style={[styles.itemText, item.checked_at && styles.itemChecked]}
+                >
+                  {item.text}
+                </Text>
+                {item.checked_by && (
+                  <Text style={styles.itemMeta}>
+                    Packed by {nameFor(item.checked_by)}
+                  </Text>
+                )}
+              </View>
+            </TouchableOpacity>
+          ))}
+        </View>
+      ))}
+
+      {canEdit && (
+        <View style={styles.addRow}>
+          <TextInput
+            style={styles.addInput}
+            value={newItemText}
+            onChangeText={setNewItemText}
+            placeholder="Add an item"
+            placeholderTextColor={theme.colors.lightGray}
+            onSubmitEditing={handleAddItem}
+            returnKeyType="done"
+          />
+          <TouchableOpacity
+            style={[
+              styles.addButton,
+              !newItemText.trim() && styles.buttonDisabled,
+            ]}
+            onPress={handleAddItem}
+            disabled={!newItemText.trim()}
+          >
+            <Ionicons name="add" size={20} color={theme.colors.white} />
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {canEdit && items.length > 0 && (
+        <TouchableOpacity
+          style={styles.saveTemplateLink}
+          onPress={() => setShowSaveTemplate(true)}
+        >
+          <Ionicons name="bookmark-outline" size={16} color={theme.colors.forest} />
+          <Text style={styles.saveTemplateText}>Save list as template</Text>
+        </TouchableOpacity>
+      )}
+
+      <Modal
+        visible={showTemplates}
+        animationType="slide"
+        transparent={true}
+        onRequestClose={() => setShowTemplates(false)}
+      >
+        <View style={styles.overlay}>
+          <View style={styles.modal}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>Add from Template</Text>
+              <TouchableOpacity onPress={() => setShowTemplates(false)}>
+                <Ionicons name="close" size={24} color={theme.colors.gray} />
+              </TouchableOpacity>
+            </View>
+            <ScrollView style={styles.modalContent}>
+              {suggested.length > 0 && (
+                <>
+                  <Text style={styles.modalSection}>Suggested for this trip</Text>
+                  {suggested.map(renderTemplate)}
+                  <Text style={styles.modalSection}>All templates</Text>
+                </>
+              )}
+              {templates.map(renderTemplate)}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal
+        visible={showSaveTemplate}
+        animationType="fade"
+        transparent={true}
+        onRequestClose={() => setShowSaveTemplate(false)}
+      >
+        <View style={styles.dialogOverlay}>
+          <View style={styles.dialog}>
+            <Text style={styles.modalTitle}>Save as Template</Text>
+            <TextInput
+              style={styles.dialogInput}
+              value={templateName}
+              onChangeText={setTemplateName}
+              placeholder="Template name"
+              placeholderTextColor={theme.colors.lightGray}
+              autoFocus
+            />
+            <View style={styles.dialogButtons}>
+              <TouchableOpacity
+                style={styles.dialogCancel}
+                onPress={() => setShowSaveTemplate(false)}
+                disabled={savingTemplate}
+              >
+                <Text style={styles.dialogCancelText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.dialogSave,
+                  (!templateName.trim() || savingTemplate) &&
+                    styles.buttonDisabled,
+                ]}
+                onPress={handleSaveTemplate}
+                disabled={!templateName.trim() || savingTemplate}
+              >
+                {savingTemplate ? (
+                  <ActivityIndicator size="small" color={theme.colors.white} />
+                ) : (
+                  <Text style={styles.dialogSaveText}>Save</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 15,
+  },
+  loading: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  summary: {
+    backgroundColor: theme.colors.white,
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 15,
+  },
+  summaryHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: 10,
+    gap: 10,
+  },
+  summaryText: {
+    flex: 1,
+  },
+  summaryTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: theme.colors.navy,
+  },
+  summarySubtitle: {
+    fontSize: 13,
+    color: theme.colors.gray,
+    marginTop: 2,
+  },
+  templatesButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: theme.colors.forest,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    gap: 4,
+  },
+  templatesButtonText: {
+    color: theme.colors.white,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: theme.colors.borderGray,
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: "100%",
+    backgroundColor: theme.colors.forest,
+  },
+  suggestions: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  suggestionChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.colors.forest,
+    gap: 4,
+  },
+  suggestionText: {
+    fontSize: 13,
+    color: theme.colors.forest,
+    fontWeight: "500",
+  },
+  group: {
+    backgroundColor: theme.colors.white,
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 10,
+  },
+  groupTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: theme.colors.navy,
+    marginBottom: 5,
+  },
+  itemRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.borderGray,
+    gap: 12,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemText: {
+    fontSize: 15,
+    color: theme.colors.navy,
+  },
+  itemChecked: {
+    color: theme.colors.gray,
+    textDecorationLine: "line-through",
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: theme.colors.gray,
+    marginTop: 2,
+  },
+  addRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 10,
+    marginBottom: 10,
+  },
+  addInput: {
+    flex: 1,
+    backgroundColor: theme.colors.white,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 15,
+    color: theme.colors.navy,
+    borderWidth: 1,
+    borderColor: theme.colors.borderGray,
+  },
+  addButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: theme.colors.forest,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  saveTemplateLink: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: 12,
+    marginBottom: 20,
+    gap: 6,
+  },
+  saveTemplateText: {
+    fontSize: 14,
+    color: theme.colors.forest,
+    fontWeight: "500",
+  },
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "flex-end",
+  },
+  modal: {
+    backgroundColor: theme.colors.white,
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    maxHeight: "80%",
+  },
+  modalHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderGray,
+  },
+  modalTitle: {
+    fontSize: 20,
+    fontWeight: "600",
+    color: theme.colors.navy,
+  },
+  modalContent: {
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+  },
+  modalSection: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: theme.colors.gray,
+    textTransform: "uppercase",
+    marginTop: 15,
+    marginBottom: 5,
+  },
+  templateRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderGray,
+    gap: 12,
+  },
+  templateInfo: {
+    flex: 1,
+  },
+  templateName: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: theme.colors.navy,
+  },
+  templateMeta: {
+    fontSize: 12,
+    color: theme.colors.gray,
+    marginTop: 2,
+  },
+  dialogOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+    padding: 30,
+  },
+  dialog: {
+    backgroundColor: theme.colors.white,
+    borderRadius: 12,
+    padding: 20,
+  },
+  dialogInput: {
+    backgroundColor: theme.colors.offWhite,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: theme.colors.navy,
+    borderWidth: 1,
+    borderColor: theme.colors.borderGray,
+    marginTop: 15,
+  },
+  dialogButtons: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    marginTop: 20,
+    gap: 10,
+  },
+  dialogCancel: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+  },
+  dialogCancelText: {
+    fontSize: 16,
+    color: theme.colors.gray,
+  },
+  dialogSave: {
+    backgroundColor: theme.colors.forest,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+    minWidth: 80,
+    alignItems: "center",
+  },
+  dialogSaveText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: theme.colors.white,
+  },
+});
@@ -0,0 +1,417 @@
+import { Ionicons } from "@expo/vector-icons";
+import { RealtimePostgresDeletePayload } from "@supabase/supabase-js";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { DEFAULT_CURRENCY, getExpenseCategory } from "../constants/expenses";
+import { theme } from "../constants/theme";
+import { useAuth } from "../contexts/AuthContext";
+import { Trip } from "../contexts/TripContext";
+import { supabase } from "../lib/supabase";
+import { ExpenseService, TripExpense } from "../services/expenseService";
+import { ExpenseMember, ExpenseModal } from "./ExpenseModal";
+
+interface TripExpensesProps {
+  trip: Trip;
+  canEdit: boolean;
+}
+
+export function TripExpenses({ trip, canEdit }: TripExpensesProps) {
+  const { user } = useAuth();
+  const [expenses, setExpenses] = useState<TripExpense[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [showAddModal, setShowAddModal] = useState(false);
+
+  const memberIds = useMemo(
+    () =>
+      Array.from(
+        new Set([
+          trip.created_by,
+          ...(trip.tagged_friends || []),
+          ...expenses.flatMap((e) => [e.paid_by, ...e.participants]),
+        ])
+      ).filter(Boolean),
+    [trip.created_by, trip.tagged_friends, expenses]
+  );
+
+  const nameFor = (userId: string) =>
+    userId === user?.id ? "You" : names[userId] || "Friend";
+
+  const members: ExpenseMember[] = [trip.created_by, ...(trip.tagged_friends || [])]
+    .filter((id, i, all) => id && all.indexOf(id) === i)
+    .map((id) => ({ id, name: nameFor(id) }));
+
+  const loadExpenses = async () => {
+    try {
+      setExpenses(await ExpenseService.getExpenses(trip.id));
+    } catch (error) {
+      console.error("Error loading expenses:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadExpenses();
+
+    const subscription = supabase
+      .channel(`trip_expenses_${trip.id}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "trip_expenses",
+          filter: `trip_id=eq.${trip.id}`,
+        },
+        () => {
+          loadExpenses();
+        }
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "trip_expenses",
+          filter: `trip_id=eq.${trip.id}`,
+        },
+        () => {
+          loadExpenses();
+        }
+      )
+      // Realtime can't filter deletes by trip, so every trip's expense
+      // deletes arrive here. Each is a small id-only message, a cost we
+      // accept - ids that aren't on this list remove nothing
+      .on(
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "trip_expenses" },
+        (payload: RealtimePostgresDeletePayload<{ id: string }>) => {
+          const removedId = payload.old.id;
+          setExpenses((prev) => prev.filter((expense) => expense.id !== removedId));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [trip.id]);
+
+  useEffect(() => {
+    const missing = memberIds.filter((id) => !names[id]);
+    if (missing.length === 0) return;
+
+    supabase
+      .from("profiles")
+      .select("id, username")
+      .in("id", missing)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Error loading member profiles:", error);
+          return;
+        }
+        const loaded: Record<string, string> = {};
+        (data || []).forEach((profile) => {
+          loaded[profile.id] = profile.username;
+        });
+        setNames((prev) => ({ ...prev, ...loaded }));
+      });
+  }, [memberIds.join(",")]);
+
+  const balances = useMemo(
+    () => ExpenseService.calculateBalances(expenses),
+    [expenses]
+  );
+  const settlements = useMemo(
+    () => ExpenseService.settleUp(balances),
+    [balances]
+  );
+  const totals = useMemo(() => {
+    const sums: Record<string, number> = {};
+    expenses.forEach((e) => {
+      sums[e.currency] = (sums[e.currency] || 0) + e.amount;
+    });
+    return sums;
+  }, [expenses]);
+
+  const handleDelete = (expense: TripExpense) => {
+    if (!canEdit) return;
+    if (expense.created_by !== user?.id && trip.created_by !== user?.id) {
+      Alert.alert(
+        "Can't Delete",
+        "Only the person who added this expense or the trip owner can delete it."
+      );
+      return;
+    }
+
+    Alert.alert("Delete Expense", `Delete "${expense.description}"?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await ExpenseService.deleteExpense(expense.id);
+            setExpenses((prev) => prev.filter((e) => e.id !== expense.id));
+          } catch (error) {
+            console.error("Error deleting expense:", error);
+            Alert.alert("Error", "Failed to delete expense");
+          }
+        },
+      },
+    ]);
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loading}>
+        <ActivityIndicator size="large" color={theme.colors.forest} />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
+      <View style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.cardTitle}>Total Spent</Text>
+          {canEdit && user && (
+            <TouchableOpacity
+              style={styles.addButton}
+              onPress={() => setShowAddModal(true)}
+            >
+              <Ionicons name="add" size={18} color={theme.colors.white} />
+              <Text style={styles.addButtonText}>Add</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        {Object.keys(totals).length === 0 ? (
+          <Text style={styles.emptyText}>
+            No expenses yet. Track gas, campsites and food here and see who
+            owes whom.
+          </Text>
+        ) : (
+          Object.entries(totals).map(([currency, total]) => (
+            <Text key={currency} style={styles.totalText}>
+              {ExpenseService.formatAmount(total, currency)}
+            </Text>
+          ))
+        )}
+      </View>
+
+      {expenses.length > 0 && (
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Balances</Text>
+          {settlements.length === 0 ? (
+            <Text style={styles.settledText}>Everyone is settled up</Text>
+          ) : (
+            settlements.map((s, i) => (
+              <View key={`${s.currency}-${i}`} style={styles.settlementRow}>
+                <Text style={styles.settlementText}>
+                  <Text style={styles.settlementName}>{nameFor(s.from)}</Text>
+                  {s.from === user?.id ? " owe " : " owes "}
+                  <Text style={styles.settlementName}>{nameFor(s.to)}</Text>
+                </Text>
+                <Text style={styles.settlementAmount}>
+                  {ExpenseService.formatAmount(s.amount, s.currency)}
+                </Text>
+              </View>
+            ))
+          )}
+        </View>
+      )}
+
+      {expenses.map((expense) => {
+        const category = getExpenseCategory(expense.category);
+        const linked = expense.trip_item_id
+          ? trip.items?.find((item) => item.id === expense.trip_item_id)
+          : undefined;
+
+        return (
+          <TouchableOpacity
+            key={expense.id}
+            style={styles.expenseRow}
+            onLongPress={() => handleDelete(expense)}
+            activeOpacity={0.7}
+          >
+            <View
+              style={[
+                styles.expenseIcon,
+                { backgroundColor: category.color + "20" },
+              ]}
+            >
+              <Ionicons name={category.icon} size={20} color={category.color} />
+            </View>
+            <View style={styles.expenseInfo}>
+              <Text style={styles.expenseName} numberOfLines={1}>
+                {expense.description}
+              </Text>
+              <Text style={styles.expenseMeta} numberOfLines={1}>
+                {nameFor(expense.paid_by)} paid · split{" "}
+                {expense.participants.length}{" "}
+                {expense.participants.length === 1 ? "way" : "ways"} ·{" "}
+                {expense.spent_at.toLocaleDateString()}
+              </Text>
+              {linked && (
+                <Text style={styles.expenseLink} numberOfLines={1}>
+                  For {linked.data?.name || "a trip item"}
+                </Text>
+              )}
+            </View>
+            <Text style={styles.expenseAmount}>
+              {ExpenseService.formatAmount(expense.amount, expense.currency)}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+
+      {user && (
+        <ExpenseModal
+          visible={showAddModal}
+          members={members}
+          tripItems={trip.items || []}
+          defaultPayer={user.id}
+          defaultCurrency={expenses[0]?.currency || DEFAULT_CURRENCY}
+          onClose={() => setShowAddModal(false)}
+          onSave={async (expense) => {
+            const saved = await ExpenseService.addExpense(
+              trip.id,
+              user.id,
+              expense
+            );
+            setExpenses((prev) =>
+              prev.some((e) => e.id === saved.id) ? prev : [saved, ...prev]
+            );
+          }}
+        />
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 15,
+  },
+  loading: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  card: {
+    backgroundColor: theme.colors.white,
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 15,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: theme.colors.navy,
+    marginBottom: 8,
+  },
+  addButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: theme.colors.forest,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    gap: 4,
+  },
+  addButtonText: {
+    color: theme.colors.white,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  totalText: {
+    fontSize: 24,
+    fontWeight: "bold",
+    color: theme.colors.forest,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: theme.colors.gray,
+  },
+  settledText: {
+    fontSize: 14,
+    color: theme.colors.forest,
+  },
+  settlementRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: 8,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.borderGray,
+  },
+  settlementText: {
+    flex: 1,
+    fontSize: 14,
+    color: theme.colors.gray,
+  },
+  settlementName: {
+    fontWeight: "600",
+    color: theme.colors.navy,
+  },
+  settlementAmount: {
+    fontSize: 15,
+    fontWeight: "600",
+    color: theme.colors.burntOrange,
+  },
+  expenseRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: theme.colors.white,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  expenseIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: 12,
+  },
+  expenseInfo: {
+    flex: 1,
+    marginRight: 10,
+  },
+  expenseName: {
+    fontSize: 15,
+    fontWeight: "500",
+    color: theme.colors.navy,
+  },
+  expenseMeta: {
+    fontSize: 12,
+    color: theme.colors.gray,
+    marginTop: 2,
+  },
+  expenseLink: {
+    fontSize: 12,
+    color: theme.colors.forest,
+    marginTop: 2,
+  },
+  expenseAmount: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: theme.colors.navy,
+  },
+});
@@ -0,0 +1,354 @@
+import { Ionicons } from "@expo/vector-icons";
+import React, { useState } from "react";
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { getCategoryById } from "../constants/categories";
+import { theme } from "../constants/theme";
+import { ItineraryItem, Trip, useTrips } from "../contexts/TripContext";
+import { toDayKey } from "../utils/date";
+import {
+  findCompletingItem,
+  getItineraryDays,
+  getItineraryStatus,
+} from "../utils/itinerary";
+import { ItineraryItemModal } from "./ItineraryItemModal";
+
+interface TripItineraryProps {
+  trip: Trip;
+  canEdit: boolean;
+}
+
+export function TripItinerary({ trip, canEdit }: TripItineraryProps) {
+  const { addItineraryItem, updateItineraryItem, removeItineraryItem } =
+    useTrips();
+  const [addingToDay, setAddingToDay] = useState<string | null>(null);
+
+  const days = getItineraryDays(trip);
+  const itinerary = trip.itinerary || [];
+  const today = toDayKey(new Date());
+  const firstDay = toDayKey(trip.start_date);
+  const lastDay = toDayKey(trip.end_date);
+  const doneCount = itinerary.filter(
+    (item) => getItineraryStatus(item, trip) === "done"
+  ).length;
+
+  const handleToggle = (item: ItineraryItem) => {
+    if (!canEdit) return;
+
+    const matched = findCompletingItem(item, trip);
+    if (matched && !item.completed_at) {
+      Alert.alert(
+        "Already Visited",
+        `"${item.name}" matches ${matched.data?.name || "an item"} in this trip.`
+      );
+      return;
+    }
+
+    updateItineraryItem(trip.id, item.id, {
+      completed_at: item.completed_at ? null : new Date(),
+    });
+  };
+
+  const handleRemove = (item: ItineraryItem) => {
+    if (!canEdit) return;
+
+    Alert.alert("Remove from Itinerary", `Remove "${item.name}"?`, [
+      { text: "Cancel", style: "cancel" },
+      {
+        text: "Remove",
+        style: "destructive",
+        onPress: () => removeItineraryItem(trip.id, item.id),
+      },
+    ]);
+  };
+
+  const renderItem = (item: ItineraryItem) => {
+    const status = getItineraryStatus(item, trip);
+    const matched = !item.completed_at ? findCompletingItem(item, trip) : null;
+    const category = item.category ? getCategoryById(item.category) : null;
+
+    return (
+      <TouchableOpacity
+        key={item.id}
+        style={styles.itemRow}
+        onLongPress={() => handleRemove(item)}
+        activeOpacity={0.7}
+      >
+        <TouchableOpacity
+          onPress={() => handleToggle(item)}
+          disabled={!canEdit}
+          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+        >
+          <Ionicons
+            name={
+              status === "done"
+                ? "checkmark-circle"
+                : status === "missed"
+                  ? "alert-circle-outline"
+                  : "ellipse-outline"
+            }
+            size={24}
+            color={
+              status === "done"
+                ? theme.colors.forest
+                : status === "missed"
+                  ? theme.colors.burntOrange
+                  : theme.colors.lightGray
+            }
+          />
+        </TouchableOpacity>
+        <View style={styles.itemInfo}>
+          <View style={styles.itemTitleRow}>
+            {item.time && <Text style={styles.itemTime}>{item.time}</Text>}
+            <Text
+              style={[styles.itemName, status === "done" && styles.itemDone]}
+              numberOfLines={1}
+            >
+              {item.name}
+            </Text>
+          </View>
+          {(category || item.wishlist_item_id) && (
+            <Text style={styles.itemMeta}>
+              {category?.label}
+              {category && item.wishlist_item_id ? " · " : ""}
+              {item.wishlist_item_id ? "From wishlist" : ""}
+            </Text>
+          )}
+          {item.notes && (
+            <Text style={styles.itemNotes} numberOfLines={2}>
+              {item.notes}
+            </Text>
+          )}
+          {matched && (
+            <Text style={styles.matchedText} numberOfLines={1}>
+              Visited as {matched.data?.name || "a trip item"}
+            </Text>
+          )}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
+      <View style={styles.summary}>
+        <View style={styles.summaryText}>
+          <Text style={styles.summaryTitle}>
+            {itinerary.length === 0
+              ? "Nothing planned yet"
+              : `${doneCount} of ${itinerary.length} done`}
+          </Text>
+          <Text style={styles.summarySubtitle}>
+            {itinerary.length === 0
+              ? "Plan each day from your wishlist or new places"
+              : "Visited spots and activities tick off matching plans"}
+          </Text>
+        </View>
+        {itinerary.length > 0 && (
+          <View style={styles.progressTrack}>
+            <View
+              style={[
+                styles.progressFill,
+                { width: `${(doneCount / itinerary.length) * 100}%` },
+              ]}
+            />
+          </View>
+        )}
+      </View>
+
+      {days.map(({ day, date, items }) => {
+        const inTrip = day >= firstDay && day <= lastDay;
+        return (
+          <View
+            key={day}
+            style={[styles.day, day === today && styles.dayToday]}
+          >
+            <View style={styles.dayHeader}>
+              <View style={styles.dayTitleRow}>
+                <Text style={styles.dayTitle}>
+                  {date.toLocaleDateString("en-US", {
+                    weekday: "long",
+                    month: "short",
+                    day: "numeric",
+                  })}
+                </Text>
+                {day === today && (
+                  <View style={styles.todayBadge}>
+                    <Text style={styles.todayBadgeText}>Today</Text>
+                  </View>
+                )}
+                {!inTrip && (
+                  <Text style={styles.outsideText}>Outside trip dates</Text>
+                )}
+              </View>
+              {canEdit && (
+                <TouchableOpacity
+                  onPress={() => setAddingToDay(day)}
+                  hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                >
+                  <Ionicons
+                    name="add-circle-outline"
+                    size={24}
+                    color={theme.colors.forest}
+                  />
+                </TouchableOpacity>
+              )}
+            </View>
+
+            {items.length > 0 ? (
+              items.map(renderItem)
+            ) : (
+              <Text style={styles.emptyDay}>No plans</Text>
+            )}
+          </View>
+        );
+      })}
+
+      <ItineraryItemModal
+        visible={addingToDay !== null}
+        days={days}
+        initialDay={addingToDay || undefined}
+        onClose={() => setAddingToDay(null)}
+        onSave={async (item) => {
+          await addItineraryItem(trip.id, item);
+        }}
+      />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 15,
+  },
+  summary: {
+    backgroundColor: theme.colors.white,
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 15,
+  },
+  summaryText: {
+    marginBottom: 10,
+  },
+  summaryTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: theme.colors.navy,
+  },
+  summarySubtitle: {
+    fontSize: 13,
+    color: theme.colors.gray,
+    marginTop: 2,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: theme.colors.borderGray,
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: "100%",
+    backgroundColor: theme.colors.forest,
+  },
+  day: {
+    backgroundColor: theme.colors.white,
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 10,
+  },
+  dayToday: {
+    borderWidth: 2,
+    borderColor: theme.colors.forest,
+  },
+  dayHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 5,
+  },
+  dayTitleRow: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  dayTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: theme.colors.navy,
+  },
+  todayBadge: {
+    backgroundColor: theme.colors.forest,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+  },
+  todayBadgeText: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: theme.colors.white,
+  },
+  outsideText: {
+    fontSize: 12,
+    color: theme.colors.burntOrange,
+  },
+  emptyDay: {
+    fontSize: 14,
+    color: theme.colors.lightGray,
+    paddingVertical: 5,
+  },
+  itemRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.borderGray,
+    gap: 12,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemTitleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+  },
+  itemTime: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: theme.colors.forest,
+  },
+  itemName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: "500",
+    color: theme.colors.navy,
+  },
+  itemDone: {
+    color: theme.colors.gray,
+    textDecorationLine: "line-through",
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: theme.colors.gray,
+    marginTop: 2,
+  },
+  itemNotes: {
+    fontSize: 13,
+    color: theme.colors.gray,
+    marginTop: 4,
+  },
+  matchedText: {
+    fontSize: 12,
+    color: theme.colors.forest,
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,187 @@
+import { Ionicons } from "@expo/vector-icons";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { theme } from "../constants/theme";
+import { useJournal } from "../contexts/JournalContext";
+import { Trip, useTrips } from "../contexts/TripContext";
+
+interface TripMergeModalProps {
+  visible: boolean;
+  onClose: () => void;
+  trip: Trip;
+}
+
+const formatRange = (trip: Trip) => {
+  const options: Intl.DateTimeFormatOptions = { month: "short", day: "numeric" };
+  const start = new Date(trip.start_date).toLocaleDateString("en-US", options);
+  const end = new Date(trip.end_date).toLocaleDateString("en-US", {
+    ...options,
+    year: "numeric",
+  });
+  return `${start} - ${end}`;
+};
+
+export function TripMergeModal({ visible, onClose, trip }: TripMergeModalProps) {
+  const { getMyTrips, mergeTrips, undoLastTripEdit } = useTrips();
+  const { refreshEntries } = useJournal();
+  const [merging, setMerging] = useState<string | null>(null);
+
+  const otherTrips = getMyTrips()
+    .filter((t) => t.id !== trip.id)
+    .sort((a, b) => new Date(b.start_date).getTime() - new Date(a.start_date).getTime());
+
+  const merge = async (source: Trip) => {
+    setMerging(source.id);
+    const merged = await mergeTrips(trip.id, source.id);
+    setMerging(null);
+    if (!merged) return;
+
+    // Journal entries follow their trip
+    await refreshEntries();
+    onClose();
+    Alert.alert("Trips Merged", `${source.name} is now part of ${trip.name}`, [
+      { text: "Undo", onPress: undo },
+      { text: "OK" },
+    ]);
+  };
+
+  const undo = async () => {
+    if (await undoLastTripEdit()) await refreshEntries();
+  };
+
+  const confirmMerge = (source: Trip) => {
+    Alert.alert(
+      "Merge Trips",
+      `Move everything from "${source.name}" into "${trip.name}"? "${source.name}" will be removed.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Merge", onPress: () => merge(source) },
+      ]
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Merge a Trip In</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color={theme.colors.gray} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.tripList}>
+            {otherTrips.length === 0 ? (
+              <View style={styles.emptyState}>
+                <Text style={styles.emptyText}>No other trips</Text>
+                <Text style={styles.emptySubtext}>Only trips you created can be merged</Text>
+              </View>
+            ) : (
+              otherTrips.map((other) => (
+                <TouchableOpacity
+                  key={other.id}
+                  style={styles.tripItem}
+                  onPress={() => confirmMerge(other)}
+                  disabled={merging !== null}
+                >
+                  <View style={styles.tripInfo}>
+                    <Text style={styles.tripName} numberOfLines={1}>
+                      {other.name}
+                    </Text>
+                    <Text style={styles.tripMeta}>
+                      {formatRange(other)} · {other.items.length}{" "}
+                      {other.items.length === 1 ? "item" : "items"}
+                    </Text>
+                  </View>
+                  {merging === other.id ? (
+                    <ActivityIndicator size="small" color={theme.colors.forest} />
+                  ) : (
+                    <Ionicons name="git-merge-outline" size={22} color={theme.colors.forest} />
+                  )}
+                </TouchableOpacity>
+              ))
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+  },
+  container: {
+    backgroundColor: theme.colors.white,
+    borderRadius: 20,
+    maxHeight: "70%",
+    marginHorizontal: 20,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderGray,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "600",
+    color: theme.colors.navy,
+  },
+  tripList: {
+    padding: 20,
+    maxHeight: 400,
+  },
+  emptyState: {
+    alignItems: "center",
+    padding: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: theme.colors.gray,
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: theme.colors.lightGray,
+    textAlign: "center",
+  },
+  tripItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderGray + "30",
+  },
+  tripInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  tripName: {
+    fontSize: 16,
+    fontWeight: "500",
+    color: theme.colors.navy,
+  },
+  tripMeta: {
+    fontSize: 14,
+    color: theme.colors.gray,
+    marginTop: 2,
+  },
+});
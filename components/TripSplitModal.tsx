@@ -0,0 +1,332 @@
+import { Ionicons } from "@expo/vector-icons";
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { theme } from "../constants/theme";
+import { useJournal } from "../contexts/JournalContext";
+import { Trip, TripSplit, useTrips } from "../contexts/TripContext";
+import { buildTripTimeline } from "../utils/timeline";
+
+type SplitMode = "date" | "items";
+
+interface TripSplitModalProps {
+  visible: boolean;
+  onClose: () => void;
+  trip: Trip;
+}
+
+export function TripSplitModal({ visible, onClose, trip }: TripSplitModalProps) {
+  const { splitTrip, undoLastTripEdit } = useTrips();
+  const { refreshEntries } = useJournal();
+  const [mode, setMode] = useState<SplitMode>("date");
+  const [splitDay, setSplitDay] = useState<string | null>(null);
+  const [selectedItems, setSelectedItems] = useState<string[]>([]);
+  const [name, setName] = useState("");
+  const [splitting, setSplitting] = useState(false);
+
+  const days = useMemo(() => buildTripTimeline(trip), [trip]);
+
+  useEffect(() => {
+    if (!visible) return;
+    setMode("date");
+    setSplitDay(null);
+    setSelectedItems([]);
+    setName(`${trip.name} (Part 2)`);
+  }, [visible, trip.name]);
+
+  const toggleItem = (itemId: string) => {
+    setSelectedItems((prev) =>
+      prev.includes(itemId) ? prev.filter((id) => id !== itemId) : [...prev, itemId]
+    );
+  };
+
+  const formatDay = (date: Date) =>
+    date.toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric" });
+
+  const canSplit = mode === "date" ? splitDay !== null : selectedItems.length > 0;
+
+  const undo = async () => {
+    if (await undoLastTripEdit()) await refreshEntries();
+  };
+
+  const handleSplit = async () => {
+    const day = days.find((d) => d.day === splitDay);
+    if (mode === "date" && !day) return;
+
+    const split: TripSplit =
+      mode === "date" ? { date: day!.date } : { itemIds: selectedItems };
+
+    setSplitting(true);
+    const newTripId = await splitTrip(trip.id, split, name.trim() || undefined);
+    setSplitting(false);
+    if (!newTripId) return;
+
+    // Journal entries follow their trip
+    await refreshEntries();
+    onClose();
+    Alert.alert("Trip Split", `${name.trim() || "The new trip"} is now its own trip`, [
+      { text: "Undo", onPress: undo },
+      { text: "OK" },
+    ]);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={true} onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Split Trip</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color={theme.colors.gray} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.modeToggle}>
+            {(["date", "items"] as SplitMode[]).map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.modeButton, mode === option && styles.modeButtonActive]}
+                onPress={() => setMode(option)}
+              >
+                <Text style={[styles.modeText, mode === option && styles.modeTextActive]}>
+                  {option === "date" ? "By Date" : "By Items"}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <ScrollView style={styles.body}>
+            {mode === "date" ? (
+              <>
+                <Text style={styles.hint}>
+                  Everything from the chosen day onwards moves to the new trip
+                </Text>
+                <View style={styles.dayChips}>
+                  {days.slice(1).map((day) => (
+                    <TouchableOpacity
+                      key={day.day}
+                      style={[styles.dayChip, splitDay === day.day && styles.dayChipActive]}
+                      onPress={() => setSplitDay(day.day)}
+                    >
+                      <Text
+                        style={[styles.dayChipText, splitDay === day.day && styles.dayChipTextActive]}
+                      >
+                        {formatDay(day.date)}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                {days.length < 2 && (
+                  <Text style={styles.emptyText}>This trip only covers one day</Text>
+                )}
+              </>
+            ) : (
+              <>
+                <Text style={styles.hint}>Selected items move to the new trip</Text>
+                {days.map((day) =>
+                  day.entries.map((entry) => {
+                    const selected = selectedItems.includes(entry.item.id);
+                    return (
+                      <TouchableOpacity
+                        key={entry.item.id}
+                        style={styles.itemRow}
+                        onPress={() => toggleItem(entry.item.id)}
+                      >
+                        <View style={styles.itemInfo}>
+                          <Text style={styles.itemName} numberOfLines={1}>
+                            {entry.item.data?.name ||
+                              (entry.item.type === "activity" ? "Unnamed Activity" : "Unnamed Spot")}
+                          </Text>
+                          <Text style={styles.itemDate}>{formatDay(entry.time)}</Text>
+                        </View>
+                        <Ionicons
+                          name={selected ? "checkbox" : "square-outline"}
+                          size={24}
+                          color={selected ? theme.colors.forest : theme.colors.gray}
+                        />
+                      </TouchableOpacity>
+                    );
+                  })
+                )}
+              </>
+            )}
+
+            <Text style={styles.label}>New Trip Name</Text>
+            <TextInput
+              style={styles.input}
+              value={name}
+              onChangeText={setName}
+              placeholder="Enter trip name"
+              placeholderTextColor={theme.colors.lightGray}
+            />
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[styles.splitButton, (!canSplit || splitting) && styles.splitButtonDisabled]}
+            onPress={handleSplit}
+            disabled={!canSplit || splitting}
+          >
+            {splitting ? (
+              <ActivityIndicator size="small" color={theme.colors.white} />
+            ) : (
+              <Text style={styles.splitButtonText}>Split Trip</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0, 0, 0, 0.5)",
+    justifyContent: "center",
+  },
+  container: {
+    backgroundColor: theme.colors.white,
+    borderRadius: 20,
+    maxHeight: "80%",
+    marginHorizontal: 20,
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    padding: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderGray,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: "600",
+    color: theme.colors.navy,
+  },
+  modeToggle: {
+    flexDirection: "row",
+    marginHorizontal: 20,
+    marginTop: 15,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: theme.colors.forest,
+    overflow: "hidden",
+  },
+  modeButton: {
+    flex: 1,
+    paddingVertical: 8,
+    alignItems: "center",
+  },
+  modeButtonActive: {
+    backgroundColor: theme.colors.forest,
+  },
+  modeText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: theme.colors.forest,
+  },
+  modeTextActive: {
+    color: theme.colors.white,
+  },
+  body: {
+    padding: 20,
+    maxHeight: 400,
+  },
+  hint: {
+    fontSize: 13,
+    color: theme.colors.gray,
+    marginBottom: 12,
+  },
+  dayChips: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  dayChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: theme.colors.borderGray,
+  },
+  dayChipActive: {
+    backgroundColor: theme.colors.forest,
+    borderColor: theme.colors.forest,
+  },
+  dayChipText: {
+    fontSize: 13,
+    color: theme.colors.navy,
+  },
+  dayChipTextActive: {
+    color: theme.colors.white,
+    fontWeight: "600",
+  },
+  emptyText: {
+    fontSize: 14,
+    color: theme.colors.lightGray,
+    textAlign: "center",
+    paddingVertical: 20,
+  },
+  itemRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.borderGray + "30",
+  },
+  itemInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  itemName: {
+    fontSize: 15,
+    fontWeight: "500",
+    color: theme.colors.navy,
+  },
+  itemDate: {
+    fontSize: 12,
+    color: theme.colors.gray,
+    marginTop: 2,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: theme.colors.navy,
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: theme.colors.borderGray,
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 16,
+    color: theme.colors.navy,
+    marginBottom: 30,
+  },
+  splitButton: {
+    backgroundColor: theme.colors.forest,
+    margin: 20,
+    padding: 15,
+    borderRadius: 8,
+    alignItems: "center",
+  },
+  splitButtonDisabled: {
+    opacity: 0.5,
+  },
+  splitButtonText: {
+    color: theme.colors.white,
+    fontSize: 16,
+    fontWeight: "600",
+  },
+});
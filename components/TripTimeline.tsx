@@ -0,0 +1,333 @@
+import { Ionicons } from "@expo/vector-icons";
+import React, { useMemo } from "react";
+import { StyleSheet, Text, TouchableOpacity, View } from "react-native";
+import { getCategoryById } from "../constants/categories";
+import { theme } from "../constants/theme";
+import { JournalEntry } from "../contexts/JournalContext";
+import { useSettings } from "../contexts/SettingsContext";
+import { Trip, TripItem } from "../contexts/TripContext";
+import { formatDuration, getActivityIcon } from "../utils/activity";
+import { toDayKey } from "../utils/date";
+import { buildTripTimeline, TimelineEntry } from "../utils/timeline";
+import { DailyWeatherData, getWeatherIcon } from "../utils/weather";
+
+// Hops shorter than this are walking around the same place, not travel
+const MIN_LEG_METERS = 100;
+
+interface TripTimelineProps {
+  trip: Trip;
+  journalEntries: JournalEntry[];
+  weather?: DailyWeatherData | null;
+  onItemPress: (item: TripItem) => void;
+  onJournalPress: (entry: JournalEntry) => void;
+}
+
+export function TripTimeline({
+  trip,
+  journalEntries,
+  weather,
+  onItemPress,
+  onJournalPress,
+}: TripTimelineProps) {
+  const { settings, formatDistance, formatElevation } = useSettings();
+  const tempSymbol = settings.units === "imperial" ? "°F" : "°C";
+  const today = toDayKey(new Date());
+
+  const days = useMemo(
+    () => buildTripTimeline(trip, journalEntries, weather),
+    [trip, journalEntries, weather]
+  );
+
+  const formatTime = (date: Date) =>
+    date.toLocaleTimeString("en-US", { hour: "numeric", minute: "2-digit" });
+
+  const renderEntry = (entry: TimelineEntry) => {
+    const data = entry.item.data || {};
+    const isActivity = entry.item.type === "activity";
+    const category = !isActivity
+      ? getCategoryById(data.category || "other")
+      : null;
+    const color = category ? category.color : theme.colors.forest;
+
+    return (
+      <View key={entry.item.id}>
+        {entry.leg && entry.leg.distance >= MIN_LEG_METERS && (
+          <View style={styles.legRow}>
+            <View style={styles.legLine} />
+            <Ionicons name="car-outline" size={14} color={theme.colors.gray} />
+            <Text style={styles.legText}>
+              {formatDistance(entry.leg.distance, 1)}
+              {entry.leg.gap > 0 &&
+                ` · ${formatDuration(Math.round(entry.leg.gap / 60000) * 60)}`}
+            </Text>
+          </View>
+        )}
+        <TouchableOpacity
+          style={styles.entryRow}
+          onPress={() => onItemPress(entry.item)}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.entryTime}>{formatTime(entry.time)}</Text>
+          <View style={[styles.entryIcon, { backgroundColor: color + "20" }]}>
+            <Ionicons
+              name={
+                (isActivity ? getActivityIcon(data.type) : category!.icon) as any
+              }
+              size={18}
+              color={color}
+            />
+          </View>
+          <View style={styles.entryInfo}>
+            <Text style={styles.entryName} numberOfLines={1}>
+              {data.name || (isActivity ? "Unnamed Activity" : "Unnamed Spot")}
+            </Text>
+            {isActivity && (entry.distance > 0 || entry.elevationGain > 0) && (
+              <Text style={styles.entryMeta}>
+                {entry.distance > 0 ? formatDistance(entry.distance, 1) : ""}
+                {entry.distance > 0 && entry.elevationGain > 0 ? " · " : ""}
+                {entry.elevationGain > 0
+                  ? `↑ ${formatElevation(entry.elevationGain)}`
+                  : ""}
+              </Text>
+            )}
+          </View>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {days.map((day, index) => (
+        <View
+          key={day.day}
+          style={[styles.day, day.day === today && styles.dayToday]}
+        >
+          <View style={styles.dayHeader}>
+            <View style={styles.dayTitleBlock}>
+              <Text style={styles.dayLabel}>Day {index + 1}</Text>
+              <Text style={styles.dayTitle}>
+                {day.date.toLocaleDateString("en-US", {
+                  weekday: "long",
+                  month: "short",
+                  day: "numeric",
+                })}
+              </Text>
+            </View>
+            {day.weather && (
+              <View style={styles.weather}>
+                <Ionicons
+                  name={getWeatherIcon(day.weather.weatherCode) as any}
+                  size={22}
+                  color={theme.colors.forest}
+                />
+                <Text style={styles.weatherText}>
+                  {Math.round(day.weather.temperatureMax)}
+                  {tempSymbol}/{Math.round(day.weather.temperatureMin)}
+                  {tempSymbol}
+                </Text>
+              </View>
+            )}
+          </View>
+
+          {(day.activityDistance > 0 ||
+            day.travelDistance >= MIN_LEG_METERS ||
+            day.elevationGain > 0) && (
+            <View style={styles.dayStats}>
+              {day.activityDistance > 0 && (
+                <View style={styles.dayStat}>
+                  <Ionicons name="footsteps" size={14} color={theme.colors.gray} />
+                  <Text style={styles.dayStatText}>
+                    {formatDistance(day.activityDistance, 1)}
+                  </Text>
+                </View>
+              )}
+              {day.travelDistance >= MIN_LEG_METERS && (
+                <View style={styles.dayStat}>
+                  <Ionicons name="car" size={14} color={theme.colors.gray} />
+                  <Text style={styles.dayStatText}>
+                    {formatDistance(day.travelDistance, 0)}
+                  </Text>
+                </View>
+              )}
+              {day.elevationGain > 0 && (
+                <View style={styles.dayStat}>
+                  <Ionicons
+                    name="trending-up"
+                    size={14}
+                    color={theme.colors.gray}
+                  />
+                  <Text style={styles.dayStatText}>
+                    {formatElevation(day.elevationGain)}
+                  </Text>
+                </View>
+              )}
+            </View>
+          )}
+
+          {day.entries.length === 0 && day.journal.length === 0 ? (
+            <Text style={styles.emptyDay}>Nothing recorded</Text>
+          ) : (
+            day.entries.map(renderEntry)
+          )}
+
+          {day.journal.map((entry) => (
+            <TouchableOpacity
+              key={entry.id}
+              style={styles.journalRow}
+              onPress={() => onJournalPress(entry)}
+              activeOpacity={0.7}
+            >
+              <Ionicons name="book" size={16} color="#9C27B0" />
+              <View style={styles.entryInfo}>
+                <Text style={styles.journalTitle} numberOfLines={1}>
+                  {entry.mood ? `${entry.mood} ` : ""}
+                  {entry.title || "Untitled Entry"}
+                </Text>
+                {!!entry.content && (
+                  <Text style={styles.journalContent} numberOfLines={2}>
+                    {entry.content}
+                  </Text>
+                )}
+              </View>
+            </TouchableOpacity>
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 15,
+    paddingBottom: 15,
+  },
+  day: {
+    backgroundColor: theme.colors.white,
+    borderRadius: 12,
+    padding: 15,
+    marginBottom: 10,
+  },
+  dayToday: {
+    borderWidth: 2,
+    borderColor: theme.colors.forest,
+  },
+  dayHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  dayTitleBlock: {
+    flex: 1,
+  },
+  dayLabel: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: theme.colors.forest,
+    textTransform: "uppercase",
+  },
+  dayTitle: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: theme.colors.navy,
+  },
+  weather: {
+    alignItems: "center",
+  },
+  weatherText: {
+    fontSize: 12,
+    color: theme.colors.gray,
+    marginTop: 2,
+  },
+  dayStats: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    marginTop: 8,
+    gap: 15,
+  },
+  dayStat: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+  },
+  dayStatText: {
+    fontSize: 13,
+    color: theme.colors.gray,
+  },
+  emptyDay: {
+    fontSize: 14,
+    color: theme.colors.lightGray,
+    paddingTop: 10,
+  },
+  legRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingLeft: 70,
+    paddingVertical: 4,
+    gap: 6,
+  },
+  legLine: {
+    position: "absolute",
+    left: 83,
+    top: 0,
+    bottom: 0,
+    width: 2,
+    backgroundColor: theme.colors.borderGray,
+  },
+  legText: {
+    fontSize: 12,
+    color: theme.colors.gray,
+  },
+  entryRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 8,
+    gap: 10,
+  },
+  entryTime: {
+    width: 60,
+    fontSize: 12,
+    color: theme.colors.gray,
+    textAlign: "right",
+  },
+  entryIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entryName: {
+    fontSize: 15,
+    fontWeight: "500",
+    color: theme.colors.navy,
+  },
+  entryMeta: {
+    fontSize: 12,
+    color: theme.colors.gray,
+    marginTop: 2,
+  },
+  journalRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    marginTop: 8,
+    padding: 10,
+    borderRadius: 8,
+    backgroundColor: "#9C27B0" + "10",
+    gap: 10,
+  },
+  journalTitle: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: theme.colors.navy,
+  },
+  journalContent: {
+    fontSize: 13,
+    color: theme.colors.gray,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,85 @@
+import { Ionicons } from "@expo/vector-icons";
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { theme } from "../constants/theme";
+import { useJournal } from "../contexts/JournalContext";
+import { useTrips } from "../contexts/TripContext";
+
+interface TripUndoBannerProps {
+  tripId?: string; // Only show for edits that touched this trip
+}
+
+// Offers undo for the last merge or split until either trip is changed
+export function TripUndoBanner({ tripId }: TripUndoBannerProps) {
+  const { lastTripEdit, undoLastTripEdit, dismissLastTripEdit } = useTrips();
+  const { refreshEntries } = useJournal();
+  const [undoing, setUndoing] = useState(false);
+
+  if (!lastTripEdit) return null;
+  if (tripId && !lastTripEdit.tripIds.includes(tripId)) return null;
+
+  const handleUndo = async () => {
+    setUndoing(true);
+    // Journal entries move with their trips
+    if (await undoLastTripEdit()) await refreshEntries();
+    setUndoing(false);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Ionicons name="git-merge-outline" size={18} color={theme.colors.forest} />
+      <Text style={styles.label} numberOfLines={2}>
+        {lastTripEdit.label}
+      </Text>
+      {undoing ? (
+        <ActivityIndicator size="small" color={theme.colors.forest} />
+      ) : (
+        <>
+          <TouchableOpacity style={styles.undoButton} onPress={handleUndo}>
+            <Text style={styles.undoText}>Undo</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={dismissLastTripEdit}>
+            <Ionicons name="close" size={18} color={theme.colors.gray} />
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: theme.colors.forest + "10",
+    marginHorizontal: 15,
+    marginTop: 15,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: theme.colors.forest + "30",
+    gap: 10,
+  },
+  label: {
+    flex: 1,
+    fontSize: 14,
+    color: theme.colors.navy,
+  },
+  undoButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    backgroundColor: theme.colors.forest,
+  },
+  undoText: {
+    color: theme.colors.white,
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
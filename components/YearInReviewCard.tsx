@@ -0,0 +1,206 @@
+import { Ionicons } from "@expo/vector-icons";
+import React from "react";
+import { StyleSheet, Text, View } from "react-native";
+import { getCategoryById } from "../constants/categories";
+import { theme } from "../constants/theme";
+import { useSettings } from "../contexts/SettingsContext";
+import { formatDuration } from "../utils/activity";
+import { YearInReview } from "../utils/tripRecap";
+
+interface YearInReviewCardProps {
+  review: YearInReview;
+}
+
+// Rendered inside a ViewShot, so it sticks to plain views with solid backgrounds
+export function YearInReviewCard({ review }: YearInReviewCardProps) {
+  const { formatDistance, formatElevation } = useSettings();
+
+  const stats = [
+    { label: review.tripCount === 1 ? "Trip" : "Trips", value: `${review.tripCount}` },
+    { label: "Days Away", value: `${review.days}` },
+    { label: "Spots", value: `${review.spotCount}` },
+    { label: "Distance", value: formatDistance(review.distance, 0) },
+    { label: "Moving", value: formatDuration(review.movingTime) },
+    { label: "Climbed", value: formatElevation(review.elevationGain) },
+  ];
+
+  const highlights = [
+    review.longestTrip && {
+      icon: "trophy",
+      title: "Longest trip",
+      detail: `${review.longestTrip.name} · ${review.longestTrip.days} days`,
+    },
+    review.furthestFromHome && {
+      icon: "navigate",
+      title: "Furthest from home",
+      detail: `${review.furthestFromHome.name} · ${formatDistance(
+        review.furthestFromHome.distance,
+        0
+      )}`,
+    },
+    review.topRatedSpot && {
+      icon: "star",
+      title: "Top rated spot",
+      detail: `${review.topRatedSpot.name} · ${review.topRatedSpot.rating}/5`,
+    },
+    review.busiestDay && {
+      icon: "flame",
+      title: "Busiest day",
+      detail: `${review.busiestDay.date.toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+      })} · ${review.busiestDay.itemCount} stops`,
+    },
+  ].filter(Boolean) as { icon: string; title: string; detail: string }[];
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <Text style={styles.year}>{review.year}</Text>
+        <Text style={styles.subtitle}>Trips in Review</Text>
+      </View>
+
+      <View style={styles.statsGrid}>
+        {stats.map((stat) => (
+          <View key={stat.label} style={styles.stat}>
+            <Text style={styles.statValue}>{stat.value}</Text>
+            <Text style={styles.statLabel}>{stat.label}</Text>
+          </View>
+        ))}
+      </View>
+
+      {review.categories.length > 0 && (
+        <View style={styles.categories}>
+          {review.categories.map((id) => {
+            const category = getCategoryById(id);
+            return (
+              <View
+                key={id}
+                style={[
+                  styles.categoryChip,
+                  { backgroundColor: category.color + "20" },
+                ]}
+              >
+                <Ionicons name={category.icon} size={12} color={category.color} />
+                <Text style={[styles.categoryText, { color: category.color }]}>
+                  {category.label}
+                </Text>
+              </View>
+            );
+          })}
+        </View>
+      )}
+
+      {highlights.map((highlight) => (
+        <View key={highlight.title} style={styles.highlight}>
+          <Ionicons
+            name={highlight.icon as any}
+            size={20}
+            color={theme.colors.burntOrange}
+          />
+          <View style={styles.highlightText}>
+            <Text style={styles.highlightTitle}>{highlight.title}</Text>
+            <Text style={styles.highlightDetail} numberOfLines={1}>
+              {highlight.detail}
+            </Text>
+          </View>
+        </View>
+      ))}
+
+      <Text style={styles.brand}>🌲 ExplorAble</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: theme.colors.white,
+    borderRadius: 16,
+    overflow: "hidden",
+    borderWidth: 1,
+    borderColor: theme.colors.borderGray,
+  },
+  header: {
+    backgroundColor: theme.colors.forest,
+    paddingVertical: 20,
+    alignItems: "center",
+  },
+  year: {
+    fontSize: 36,
+    fontWeight: "bold",
+    color: theme.colors.white,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: theme.colors.white,
+    opacity: 0.9,
+  },
+  statsGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    paddingVertical: 10,
+  },
+  stat: {
+    width: "33.33%",
+    alignItems: "center",
+    paddingVertical: 8,
+  },
+  statValue: {
+    fontSize: 18,
+    fontWeight: "bold",
+    color: theme.colors.forest,
+  },
+  statLabel: {
+    fontSize: 11,
+    color: theme.colors.gray,
+    marginTop: 2,
+  },
+  categories: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    paddingHorizontal: 15,
+    marginBottom: 10,
+    gap: 6,
+  },
+  categoryChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    gap: 4,
+  },
+  categoryText: {
+    fontSize: 11,
+    fontWeight: "600",
+  },
+  highlight: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginHorizontal: 15,
+    marginBottom: 8,
+    padding: 10,
+    borderRadius: 10,
+    backgroundColor: theme.colors.offWhite,
+    gap: 10,
+  },
+  highlightText: {
+    flex: 1,
+  },
+  highlightTitle: {
+    fontSize: 12,
+    color: theme.colors.gray,
+  },
+  highlightDetail: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: theme.colors.navy,
+  },
+  brand: {
+    textAlign: "center",
+    fontSize: 14,
+    fontWeight: "600",
+    color: theme.colors.forest,
+    paddingVertical: 12,
+  },
+});
@@ -0,0 +1,125 @@
+import { ActivityType } from '../contexts/ActivityContext';
+import { CategoryType } from './categories';
+
+export interface ChecklistTemplate {
+  id: string;
+  name: string;
+  icon: any;
+  activityType?: ActivityType; // Suggested for trips with this kind of activity
+  category?: CategoryType; // Suggested for trips with spots in this category
+  items: string[];
+  builtIn?: boolean; // Shipped with the app rather than saved by the user
+}
+
+export const BUILT_IN_CHECKLISTS: ChecklistTemplate[] = [
+  {
+    id: 'camping',
+    name: 'Camping',
+    icon: 'bonfire',
+    category: 'camping',
+    items: [
+      'Tent',
+      'Sleeping bag',
+      'Sleeping pad',
+      'Headlamp',
+      'Stove and fuel',
+      'Lighter',
+      'Cookware and utensils',
+      'Water filter',
+      'Food',
+      'Camp chairs',
+      'First aid kit',
+      'Trash bags',
+    ],
+    builtIn: true,
+  },
+  {
+    id: 'climbing',
+    name: 'Climbing',
+    icon: 'trending-up',
+    activityType: 'climb',
+    category: 'climbing',
+    items: [
+      'Harness',
+      'Climbing shoes',
+      'Chalk bag',
+      'Helmet',
+      'Belay device',
+      'Locking carabiners',
+      'Rope',
+      'Quickdraws',
+      'Guidebook',
+      'Tape',
+    ],
+    builtIn: true,
+  },
+  {
+    id: 'water',
+    name: 'On the Water',
+    icon: 'water',
+    activityType: 'paddleboard',
+    category: 'water',
+    items: [
+      'PFD',
+      'Paddle',
+      'Leash',
+      'Pump',
+      'Dry bag',
+      'Sunscreen',
+      'Towel',
+      'Change of clothes',
+    ],
+    builtIn: true,
+  },
+  {
+    id: 'beach',
+    name: 'Beach Day',
+    icon: 'umbrella',
+    category: 'beach',
+    items: ['Swimsuit', 'Towel', 'Sunscreen', 'Sunglasses', 'Umbrella', 'Water', 'Snacks'],
+    builtIn: true,
+  },
+  {
+    id: 'hike',
+    name: 'Hiking',
+    icon: 'trail-sign',
+    activityType: 'hike',
+    category: 'trail',
+    items: [
+      'Backpack',
+      'Water',
+      'Snacks',
+      'Map or offline navigation',
+      'Rain jacket',
+      'Extra layer',
+      'Sun protection',
+      'Headlamp',
+      'First aid kit',
+    ],
+    builtIn: true,
+  },
+  {
+    id: 'bike',
+    name: 'Cycling',
+    icon: 'bicycle',
+    activityType: 'bike',
+    items: ['Helmet', 'Spare tube', 'Pump', 'Multi-tool', 'Water bottles', 'Lights', 'Lock', 'Gloves'],
+    builtIn: true,
+  },
+  {
+    id: 'run',
+    name: 'Running',
+    icon: 'speedometer',
+    activityType: 'run',
+    items: ['Running shoes', 'Watch', 'Water', 'Gels', 'Anti-chafe balm'],
+    builtIn: true,
+  },
+  {
+    id: 'walk',
+    name: 'Walking',
+    icon: 'walk',
+    activityType: 'walk',
+    items: ['Comfortable shoes', 'Water', 'Phone', 'Light jacket'],
+    builtIn: true,
+  },
+];
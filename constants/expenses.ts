@@ -0,0 +1,31 @@
+export type ExpenseCategory =
+  | 'gas'
+  | 'lodging'
+  | 'food'
+  | 'activities'
+  | 'gear'
+  | 'transport'
+  | 'other';
+
+export interface ExpenseCategoryInfo {
+  id: ExpenseCategory;
+  label: string;
+  icon: any;
+  color: string;
+}
+
+export const EXPENSE_CATEGORIES: ExpenseCategoryInfo[] = [
+  { id: 'gas', label: 'Gas', icon: 'car', color: '#cc5500' },
+  { id: 'lodging', label: 'Lodging', icon: 'bed', color: '#6B5B95' },
+  { id: 'food', label: 'Food', icon: 'restaurant', color: '#E8A33D' },
+  { id: 'activities', label: 'Activities', icon: 'ticket', color: '#2d5a3d' },
+  { id: 'gear', label: 'Gear', icon: 'construct', color: '#4A6FA5' },
+  { id: 'transport', label: 'Transport', icon: 'airplane', color: '#4ECDC4' },
+  { id: 'other', label: 'Other', icon: 'pricetag', color: '#95A5A6' },
+];
+
+export const getExpenseCategory = (id: ExpenseCategory): ExpenseCategoryInfo => {
+  return EXPENSE_CATEGORIES.find((c) => c.id === id) || EXPENSE_CATEGORIES[EXPENSE_CATEGORIES.length - 1];
+};
+
+export const DEFAULT_CURRENCY = 'USD';
@@ -0,0 +1,17 @@
+export interface PriorityLevel {
+  value: number;
+  label: string;
+  color: string;
+  icon: any;
+}
+
+// 1 = Must See, 2 = Want to See, 3 = Maybe Someday
+export const PRIORITY_LEVELS: PriorityLevel[] = [
+  { value: 1, label: 'Must See', color: '#FF6B6B', icon: 'flame' },
+  { value: 2, label: 'Want to See', color: '#4ECDC4', icon: 'star' },
+  { value: 3, label: 'Maybe Someday', color: '#95A5A6', icon: 'time' },
+];
+
+export const getPriorityLevel = (priority: number): PriorityLevel => {
+  return PRIORITY_LEVELS.find((p) => p.value === priority) || PRIORITY_LEVELS[1];
+};
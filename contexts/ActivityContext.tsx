@@ -11,18 +11,49 @@ import React, {
 } from "react";
 import { supabase } from "../lib/supabase";
 import { useAuth } from "./AuthContext";
+import { useSettings } from "./SettingsContext";
 import * as MediaLibrary from "expo-media-library";
 import { Alert } from "react-native";
 import {
   calculateDistance,
   getAccuracyThreshold,
+  getAutoPauseThresholds,
   getMovementThresholds,
 } from "../utils/gps";
+import { calculateElevationStats } from "../utils/elevation";
+import {
+  simplifyLiveRoute,
+  simplifyRouteForActivity,
+} from "../utils/routeSimplification";
+import {
+  ActivitySplit,
+  calculateLaps,
+  calculateSplits,
+  getSplitUnit,
+  PauseInterval,
+  SplitUnit,
+} from "../utils/splits";
 import { LocationPoint, ActivityVisit } from '../types/visits';
+import {
+  TrackingSession,
+  TrackingSessionService,
+  TrackingSessionState,
+} from "../services/trackingSessionService";
 
 const LOCATION_TASK_NAME = "explorable-background-location";
-const PENDING_LOCATIONS_KEY = "pending_location_updates";
-const MAX_ROUTE_POINTS_MEMORY = 1000;
+
+// Everything but the full-resolution route, which is only fetched on demand
+const ACTIVITY_LIST_COLUMNS =
+  "id, type, name, start_time, end_time, activity_date, duration, moving_time, " +
+  "elapsed_time, distance, route_preview, average_speed, max_speed, " +
+  "elevation_gain, elevation_loss, min_altitude, max_altitude, splits, laps, " +
+  "split_unit, notes, photos, rating, is_manual_entry, created_at";
+
+// The columns loadActivities reads itself - the rest go straight to transforming
+type ActivityListRow = { id: string; route_preview: LocationPoint[] | null } & Record<string, any>;
+
+// Ids per request when fetching full routes, to keep the URL short
+const ROUTE_FETCH_BATCH = 50;
 
 export type ActivityType =
   | "bike"
@@ -42,10 +73,19 @@ interface Activity {
   endTime: Date;
   visits?: ActivityVisit[];
   duration: number;
+  movingTime?: number; // Seconds spent moving (excludes manual and auto pauses)
+  elapsedTime?: number; // Wall-clock seconds from start to finish
   distance: number;
   route: LocationPoint[];
   averageSpeed: number;
   maxSpeed: number;
+  elevationGain?: number; // meters
+  elevationLoss?: number; // meters
+  minAltitude?: number; // meters
+  maxAltitude?: number; // meters
+  splits?: ActivitySplit[]; // Automatic splits at each km/mile
+  laps?: ActivitySplit[]; // Manual laps from the lap button
+  splitUnit?: SplitUnit;
   notes?: string; // Overall notes
   rating?: number;
   isManualEntry?: boolean;
@@ -59,28 +99,37 @@ interface Activity {
 interface ActivityContextType {
   isTracking: boolean;
   isPaused: boolean;
+  isAutoPaused: boolean;
   currentActivity: ActivityType;
   currentRoute: LocationPoint[];
   currentDistance: number;
   currentDuration: number;
   currentSpeed: number;
+  lapCount: number;
   location: LocationPoint | null;
   gpsStatus: "active" | "searching" | "stale" | "error";
   activities: Activity[];
+  interruptedSession: TrackingSession | null;
   startTracking: (activityType: ActivityType) => Promise<void>;
   pauseTracking: () => void;
   resumeTracking: () => void;
+  markLap: () => void;
   stopTracking: (
     name: string,
     notes?: string,
     photos?: string[]
   ) => Promise<Activity | void>;
+  resumeInterruptedSession: () => void;
+  saveInterruptedSession: (name?: string) => Promise<Activity | void>;
+  discardInterruptedSession: () => Promise<void>;
   deleteActivity: (activityId: string) => Promise<void>;
   addManualActivity: (activity: Partial<Activity>) => Promise<Activity>; // Change this line
   updateActivity: (
     activityId: string,
     updatedData: Partial<Activity>
   ) => Promise<void>;
+  getFullRoutes: (activities: Activity[]) => Promise<Activity[]>;
+  importActivity: (activity: Activity) => Promise<void>;
   loading: boolean;
   error: string | null;
   refreshActivities: () => Promise<void>;
@@ -104,24 +153,17 @@ TaskManager.defineTask(LOCATION_TASK_NAME, async ({ data, error }: any) => {
     if (!locations || locations.length === 0) return;
 
     try {
-      const stored = await AsyncStorage.getItem(PENDING_LOCATIONS_KEY);
-      const pending = stored ? JSON.parse(stored) : [];
-
-      const newLocations = locations.map((loc: Location.LocationObject) => ({
-        latitude: loc.coords.latitude,
-        longitude: loc.coords.longitude,
-        timestamp: loc.timestamp,
-        altitude: loc.coords.altitude,
-        accuracy: loc.coords.accuracy,
-      }));
-
-      pending.push(...newLocations);
-      const trimmed = pending.slice(-500);
-
-      await AsyncStorage.setItem(
-        PENDING_LOCATIONS_KEY,
-        JSON.stringify(trimmed)
+      const newLocations: LocationPoint[] = locations.map(
+        (loc: Location.LocationObject) => ({
+          latitude: loc.coords.latitude,
+          longitude: loc.coords.longitude,
+          timestamp: loc.timestamp,
+          altitude: loc.coords.altitude ?? undefined,
+          accuracy: loc.coords.accuracy ?? undefined,
+        })
       );
+
+      await TrackingSessionService.appendPendingPoints(newLocations);
     } catch (err) {
       console.error("Error storing background locations:", err);
     }
@@ -133,11 +175,13 @@ export const ActivityProvider: React.FC<{ children: ReactNode }> = ({
 }) => {
   const [isTracking, setIsTracking] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
+  const [isAutoPaused, setIsAutoPaused] = useState(false);
   const [currentActivity, setCurrentActivity] = useState<ActivityType>("bike");
   const [currentRoute, setCurrentRoute] = useState<LocationPoint[]>([]);
   const [currentDistance, setCurrentDistance] = useState(0);
   const [currentDuration, setCurrentDuration] = useState(0);
   const [currentSpeed, setCurrentSpeed] = useState(0);
+  const [lapCount, setLapCount] = useState(0);
   const [currentLocation, setCurrentLocation] = useState<LocationPoint | null>(
     null
   );
@@ -145,10 +189,13 @@ export const ActivityProvider: React.FC<{ children: ReactNode }> = ({
     "active" | "searching" | "stale" | "error"
   >("searching");
   const [activities, setActivities] = useState<Activity[]>([]);
+  const [interruptedSession, setInterruptedSession] =
+    useState<TrackingSession | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const { user, refreshSession } = useAuth();
+  const { settings } = useSettings();
 
   const locationSubscription = useRef<Location.LocationSubscription | null>(
     null
@@ -156,6 +203,19 @@ export const ActivityProvider: React.FC<{ children: ReactNode }> = ({
   const startTimeRef = useRef<number | null>(null);
   const pausedTimeRef = useRef<number>(0);
   const pauseStartRef = useRef<number | null>(null);
+  // Auto-pause state lives in refs because location callbacks capture stale closures
+  const activityTypeRef = useRef<ActivityType>("bike");
+  const autoPauseEnabledRef = useRef(false);
+  const autoPauseStartRef = useRef<number | null>(null);
+  const autoPausedTimeRef = useRef<number>(0);
+  const autoPauseAnchorRef = useRef<LocationPoint | null>(null);
+  const lastMovingTimeRef = useRef<number>(Date.now());
+  const lastFixRef = useRef<LocationPoint | null>(null);
+  // Completed pauses (manual and auto) so splits can report moving time
+  const pausesRef = useRef<PauseInterval[]>([]);
+  const lapMarkersRef = useRef<number[]>([]);
+  // Timestamp of the newest point already written to the session store
+  const persistedUntilRef = useRef<number>(0);
   const durationInterval = useRef<ReturnType<typeof setInterval> | null>(null);
   const lastUpdateTime = useRef<number>(Date.now());
   const staleCheckInterval = useRef<ReturnType<typeof setInterval> | null>(
@@ -179,6 +239,29 @@ export const ActivityProvider: React.FC<{ children: ReactNode }> = ({
     };
   }, []);
 
+  // Look for a session the app was killed in the middle of
+  useEffect(() => {
+    if (!user?.id || isTracking) return;
+
+    TrackingSessionService.load().then((session) => {
+      if (session) setInterruptedSession(session);
+    });
+  }, [user?.id]);
+
+  // Persist the live session incrementally so a crash loses nothing
+  useEffect(() => {
+    if (!isTracking || !startTimeRef.current) return;
+
+    const newPoints = currentRoute.filter(
+      (p) => p.timestamp > persistedUntilRef.current
+    );
+    if (newPoints.length > 0) {
+      persistedUntilRef.current = newPoints[newPoints.length - 1].timestamp;
+    }
+
+    TrackingSessionService.update(getSessionState(), newPoints);
+  }, [isTracking, currentRoute, currentDistance, isPaused, isAutoPaused, lapCount]);
+
   const loadActivities = async () => {
     if (!user) return;
 
@@ -188,10 +271,11 @@ export const ActivityProvider: React.FC<{ children: ReactNode }> = ({
 
       const { data, error: fetchError } = await supabase
         .from("activities")
-        .select("*")
+        .select(ACTIVITY_LIST_COLUMNS)
         .eq("user_id", user.id)
         .order("activity_date", { ascending: false })
-        .order("start_time", { ascending: false });
+        .order("start_time", { ascending: false })
+        .overrideTypes<ActivityListRow[], { merge: false }>();
 
       if (fetchError) throw fetchError;
 
@@ -206,10 +290,19 @@ export const ActivityProvider: React.FC<{ children: ReactNode }> = ({
             ? new Date(act.activity_date)
             : new Date(act.start_time),
           duration: act.duration || 0,
+          movingTime: act.moving_time ?? act.duration ?? 0,
+          elapsedTime: act.elapsed_time ?? act.duration ?? 0,
           distance: act.distance || 0,
-          route: Array.isArray(act.route) ? act.route : [],
+          route: Array.isArray(act.route_preview) ? act.route_preview : [],
           averageSpeed: act.average_speed || 0,
           maxSpeed: act.max_speed || 0,
+          elevationGain: act.elevation_gain ?? undefined,
+          elevationLoss: act.elevation_loss ?? undefined,
+          minAltitude: act.min_altitude ?? undefined,
+          maxAltitude: act.max_altitude ?? undefined,
+          splits: Array.isArray(act.splits) ? act.splits : undefined,
+          laps: Array.isArray(act.laps) ? act.laps : undefined,
+          splitUnit: act.split_unit ?? undefined,
           notes: act.notes,
           photos: act.photos,
           rating: act.rating,
@@ -217,7 +310,19 @@ export const ActivityProvider: React.FC<{ children: ReactNode }> = ({
           createdAt: new Date(act.created_at || act.start_time),
         }));
 
+        // Full-resolution routes stay in the database; lists and maps work
+        // from the simplified preview saved alongside them. Rows without one
+        // predate previews and get elevation filled in too; missing elevation
+        // alone may just mean the route had no altitude data
+        const missingPreview = new Set(
+          data
+            .filter((row) => !Array.isArray(row.route_preview))
+            .map((row) => row.id)
+        );
         setActivities(transformedActivities);
+        backfillFromFullRoutes(
+          transformedActivities.filter((act) => missingPreview.has(act.id))
+        );
       }
     } catch (err: any) {
       console.error("Error loading activities:", err);
@@ -227,6 +332,88 @@ export const ActivityProvider: React.FC<{ children: ReactNode }> = ({
     }
   };
 
+  const fetchFullRoutes = async (
+    ids: string[]
+  ): Promise<Map<string, LocationPoint[]>> => {
+    const routes = new Map<string, LocationPoint[]>();
+    if (!user) return routes;
+
+    for (let i = 0; i < ids.length; i += ROUTE_FETCH_BATCH) {
+      const { data, error: fetchError } = await supabase
+        .from("activities")
+        .select("id, route")
+        .eq("user_id", user.id)
+        .in("id", ids.slice(i, i + ROUTE_FETCH_BATCH));
+
+      if (fetchError) throw fetchError;
+
+      (data || []).forEach((row: any) => {
+        routes.set(row.id, Array.isArray(row.route) ? row.route : []);
+      });
+    }
+
+    return routes;
+  };
+
+  // Older activities were saved before route previews and elevation were
+  // stored - fill them in from the full route and persist so this only runs once
+  const backfillFromFullRoutes = async (loaded: Activity[]) => {
+    if (!user || loaded.length === 0) return;
+
+    for (let i = 0; i < loaded.length; i += ROUTE_FETCH_BATCH) {
+      const batch = loaded.slice(i, i + ROUTE_FETCH_BATCH);
+      let routes: Map<string, LocationPoint[]>;
+      try {
+        routes = await fetchFullRoutes(batch.map((act) => act.id));
+      } catch (err) {
+        console.log("Error loading routes to backfill:", err);
+        return;
+      }
+
+      const updates = new Map<string, Partial<Activity>>();
+      batch.forEach((act) => {
+        const route = routes.get(act.id);
+        if (!route) return;
+
+        const stats =
+          act.elevationGain === undefined ? calculateElevationStats(route) : null;
+        updates.set(act.id, {
+          route: simplifyRouteForActivity(route, act.type),
+          elevationGain: stats ? stats.gain : act.elevationGain,
+          elevationLoss: stats ? stats.loss : act.elevationLoss,
+          minAltitude: stats ? stats.minAltitude : act.minAltitude,
+          maxAltitude: stats ? stats.maxAltitude : act.maxAltitude,
+        });
+      });
+
+      setActivities((prev) =>
+        prev.map((act) =>
+          updates.has(act.id) ? { ...act, ...updates.get(act.id) } : act
+        )
+      );
+
+      for (const [id, update] of updates) {
+        try {
+          const { error: updateError } = await supabase
+            .from("activities")
+            .update({
+              route_preview: update.route,
+              elevation_gain: update.elevationGain,
+              elevation_loss: update.elevationLoss,
+              min_altitude: update.minAltitude,
+              max_altitude: update.maxAltitude,
+            })
+            .eq("id", id)
+            .eq("user_id", user.id);
+
+          if (updateError) throw updateError;
+        } catch (err) {
+          console.log("Error backfilling route preview:", err);
+        }
+      }
+    }
+  };
+
   const refreshActivities = async () => {
     await loadActivities();
   };
@@ -260,10 +447,12 @@ export const ActivityProvider: React.FC<{ children: ReactNode }> = ({
 
     setIsTracking(false);
     setIsPaused(false);
+    setIsAutoPaused(false);
     setCurrentRoute([]);
     setCurrentDistance(0);
     setCurrentDuration(0);
     setCurrentSpeed(0);
+    setLapCount(0);
     setCurrentLocation(null);
     setGpsStatus("searching");
 
@@ -271,10 +460,133 @@ export const ActivityProvider: React.FC<{ children: ReactNode }> = ({
     startTimeRef.current = null;
     pausedTimeRef.current = 0;
     pauseStartRef.current = null;
+    autoPauseEnabledRef.current = false;
+    autoPauseStartRef.current = null;
+    autoPausedTimeRef.current = 0;
+    autoPauseAnchorRef.current = null;
+    lastFixRef.current = null;
+    pausesRef.current = [];
+    lapMarkersRef.current = [];
+    persistedUntilRef.current = 0;
     maxSpeedRef.current = 0;
     lastGpsAlertTime.current = 0;
   };
 
+  const getSessionState = (): TrackingSessionState => ({
+    activityType: activityTypeRef.current,
+    startTime: startTimeRef.current || Date.now(),
+    pausedTime: pausedTimeRef.current,
+    pauseStart: pauseStartRef.current,
+    autoPausedTime: autoPausedTimeRef.current,
+    autoPauseStart: autoPauseStartRef.current,
+    autoPauseEnabled: autoPauseEnabledRef.current,
+    pauses: pausesRef.current,
+    lapMarkers: lapMarkersRef.current,
+    distance: currentDistance,
+    maxSpeed: maxSpeedRef.current,
+    lastUpdated: Date.now(),
+  });
+
+  // Seconds spent moving: elapsed time minus manual and automatic pauses
+  const getMovingSeconds = (now: number = Date.now()): number => {
+    if (!startTimeRef.current) return 0;
+
+    const manualPaused =
+      pausedTimeRef.current +
+      (pauseStartRef.current ? now - pauseStartRef.current : 0);
+    const autoPaused =
+      autoPausedTimeRef.current +
+      (autoPauseStartRef.current ? now - autoPauseStartRef.current : 0);
+
+    return Math.max(
+      0,
+      Math.floor((now - startTimeRef.current - manualPaused - autoPaused) / 1000)
+    );
+  };
+
+  const endAutoPause = (now: number) => {
+    if (!autoPauseStartRef.current) return;
+    pausesRef.current.push({ start: autoPauseStartRef.current, end: now });
+    autoPausedTimeRef.current += now - autoPauseStartRef.current;
+    autoPauseStartRef.current = null;
+    autoPauseAnchorRef.current = null;
+    setIsAutoPaused(false);
+  };
+
+  const updateAutoPause = (location: LocationPoint, speedKmh: number | null) => {
+    const previousFix = lastFixRef.current;
+    lastFixRef.current = location;
+
+    if (!autoPauseEnabledRef.current || pauseStartRef.current) return;
+
+    const now = Date.now();
+    const thresholds = getAutoPauseThresholds(activityTypeRef.current);
+
+    // Fall back to the speed between fixes when the device doesn't report one
+    let speed = speedKmh;
+    if (speed === null && previousFix) {
+      const timeDiff = (location.timestamp - previousFix.timestamp) / 1000;
+      speed =
+        timeDiff > 0
+          ? calculateDistance(
+              previousFix.latitude,
+              previousFix.longitude,
+              location.latitude,
+              location.longitude
+            ) /
+            1000 /
+            (timeDiff / 3600)
+          : 0;
+    }
+    if (speed === null) return;
+
+    if (autoPauseStartRef.current) {
+      const anchor = autoPauseAnchorRef.current;
+      const movedFromStop = anchor
+        ? calculateDistance(
+            anchor.latitude,
+            anchor.longitude,
+            location.latitude,
+            location.longitude
+          )
+        : Infinity;
+
+      // Require real displacement so GPS drift while standing doesn't resume
+      if (
+        speed >= thresholds.resumeSpeed &&
+        movedFromStop >= thresholds.resumeDistance
+      ) {
+        endAutoPause(now);
+        lastMovingTimeRef.current = now;
+      }
+      return;
+    }
+
+    if (speed >= thresholds.pauseSpeed) {
+      lastMovingTimeRef.current = now;
+    }
+  };
+
+  // Runs on the duration timer: a phone standing still moves less than the
+  // watcher's distance interval, so no fixes arrive to trigger the pause
+  const checkAutoPause = (now: number) => {
+    if (
+      !autoPauseEnabledRef.current ||
+      pauseStartRef.current ||
+      autoPauseStartRef.current
+    )
+      return;
+
+    const thresholds = getAutoPauseThresholds(activityTypeRef.current);
+    if (now - lastMovingTimeRef.current < thresholds.pauseDelay * 1000) return;
+
+    // Backdate the pause to when movement stopped so the delay isn't counted
+    autoPauseStartRef.current = lastMovingTimeRef.current;
+    autoPauseAnchorRef.current = lastFixRef.current;
+    setIsAutoPaused(true);
+    setCurrentSpeed(0);
+  };
+
 
   const checkGpsQuality = (accuracy: number | undefined) => {
     if (!accuracy || !isTracking || isPaused) return;
@@ -326,6 +638,9 @@ export const ActivityProvider: React.FC<{ children: ReactNode }> = ({
     setGpsStatus("active");
     setCurrentLocation(location);
 
+    // Standing still - keep the position fresh but don't grow the route
+    if (autoPauseStartRef.current) return;
+
     // Activity-based accuracy thresholds
     const accuracyThreshold = getAccuracyThreshold(currentActivity);
 
@@ -396,21 +711,10 @@ export const ActivityProvider: React.FC<{ children: ReactNode }> = ({
 
         setCurrentDistance((d) => d + distance);
 
-        let newRoute = [...currentPoints, location];
-
-        // Memory management
-        if (newRoute.length > MAX_ROUTE_POINTS_MEMORY) {
-          const first = newRoute[0];
-          const recent = newRoute.slice(-100);
-          const middle = newRoute.slice(1, -100);
-          const sampleRate = Math.ceil(
-            middle.length / (MAX_ROUTE_POINTS_MEMORY - 101)
-          );
-          const sampled = middle.filter((_, index) => index % sampleRate === 0);
-          newRoute = [first, ...sampled, ...recent];
-        }
-
-        return newRoute;
+        return simplifyLiveRoute(
+          [...currentPoints, location],
+          activityTypeRef.current
+        );
       });
     } else {
       setCurrentLocation(location);
@@ -446,15 +750,21 @@ export const ActivityProvider: React.FC<{ children: ReactNode }> = ({
       latitude: location.coords.latitude,
       longitude: location.coords.longitude,
       timestamp: location.timestamp,
-      altitude: location.coords.altitude || undefined,
+      altitude: location.coords.altitude ?? undefined,
       accuracy: location.coords.accuracy || undefined,
     };
 
+    const reportedSpeed =
+      location.coords.speed !== null && location.coords.speed >= 0
+        ? location.coords.speed * 3.6
+        : null;
+
+    updateAutoPause(point, reportedSpeed);
     processLocationUpdate(point);
     checkGpsQuality(location.coords.accuracy);
 
-    if (location.coords.speed !== null && location.coords.speed >= 0) {
-      const speedKmh = location.coords.speed * 3.6;
+    if (reportedSpeed !== null && !autoPauseStartRef.current) {
+      const speedKmh = reportedSpeed;
       setCurrentSpeed(speedKmh);
       if (speedKmh > maxSpeedRef.current) {
         maxSpeedRef.current = speedKmh;
@@ -512,6 +822,7 @@ export const ActivityProvider: React.FC<{ children: ReactNode }> = ({
         latitude: initialLocation.coords.latitude,
         longitude: initialLocation.coords.longitude,
         timestamp: Date.now(),
+        altitude: initialLocation.coords.altitude ?? undefined,
         accuracy: initialLocation.coords.accuracy || undefined,
       };
 
@@ -526,9 +837,11 @@ export const ActivityProvider: React.FC<{ children: ReactNode }> = ({
       setCurrentActivity(activityType);
       setIsTracking(true);
       setIsPaused(false);
+      setIsAutoPaused(false);
       setCurrentDistance(0);
       setCurrentDuration(0);
       setCurrentSpeed(0);
+      setLapCount(0);
       setLoading(false); // Stop loading immediately once we have any position
 
       startTimeRef.current = Date.now();
@@ -537,13 +850,24 @@ export const ActivityProvider: React.FC<{ children: ReactNode }> = ({
       lastUpdateTime.current = Date.now();
       maxSpeedRef.current = 0;
 
+      activityTypeRef.current = activityType;
+      autoPauseEnabledRef.current = settings.autoPause?.[activityType] ?? false;
+      autoPauseStartRef.current = null;
+      autoPausedTimeRef.current = 0;
+      autoPauseAnchorRef.current = null;
+      lastMovingTimeRef.current = Date.now();
+      lastFixRef.current = initialPoint;
+      pausesRef.current = [];
+      lapMarkersRef.current = [];
+      persistedUntilRef.current = 0;
+      setInterruptedSession(null);
+      await TrackingSessionService.start(getSessionState());
+
       // Start duration timer
       durationInterval.current = setInterval(() => {
         if (startTimeRef.current && !pauseStartRef.current) {
-          const elapsed = Math.floor(
-            (Date.now() - startTimeRef.current - pausedTimeRef.current) / 1000
-          );
-          setCurrentDuration(elapsed);
+          checkAutoPause(Date.now());
+          setCurrentDuration(getMovingSeconds());
         }
       }, 1000);
 
@@ -597,25 +921,27 @@ export const ActivityProvider: React.FC<{ children: ReactNode }> = ({
       setError(err.message || "Failed to start tracking");
       setLoading(false);
       await cleanupTracking();
+      await TrackingSessionService.clear();
       throw err;
     }
   };
 
   const resumeTracking = async () => {
     if (pauseStartRef.current) {
+      pausesRef.current.push({ start: pauseStartRef.current, end: Date.now() });
       pausedTimeRef.current += Date.now() - pauseStartRef.current;
       pauseStartRef.current = null;
     }
     setIsPaused(false);
     setGpsStatus("searching");
     lastUpdateTime.current = Date.now();
+    lastMovingTimeRef.current = Date.now();
+    lastFixRef.current = null;
 
     durationInterval.current = setInterval(() => {
       if (startTimeRef.current && !pauseStartRef.current) {
-        const elapsed = Math.floor(
-          (Date.now() - startTimeRef.current - pausedTimeRef.current) / 1000
-        );
-        setCurrentDuration(elapsed);
+        checkAutoPause(Date.now());
+        setCurrentDuration(getMovingSeconds());
       }
     }, 1000);
 
@@ -642,8 +968,11 @@ export const ActivityProvider: React.FC<{ children: ReactNode }> = ({
   };
 
   const pauseTracking = () => {
+    const now = Date.now();
+    // A manual pause takes over from an automatic one
+    endAutoPause(now);
     setIsPaused(true);
-    pauseStartRef.current = Date.now();
+    pauseStartRef.current = now;
 
     if (durationInterval.current) {
       clearInterval(durationInterval.current);
@@ -656,6 +985,12 @@ export const ActivityProvider: React.FC<{ children: ReactNode }> = ({
     }
   };
 
+  const markLap = () => {
+    if (!startTimeRef.current) return;
+    lapMarkersRef.current.push(Date.now());
+    setLapCount(lapMarkersRef.current.length);
+  };
+
   const stopTracking = async (
     name: string,
     notes?: string,
@@ -664,6 +999,7 @@ export const ActivityProvider: React.FC<{ children: ReactNode }> = ({
     try {
       if (name === "" && notes === "DISCARD_ACTIVITY") {
         await cleanupTracking();
+        await TrackingSessionService.clear();
         return;
       }
 
@@ -671,34 +1007,49 @@ export const ActivityProvider: React.FC<{ children: ReactNode }> = ({
         throw new Error("No activity data to save");
       }
 
-      const finalDuration = Math.floor(
-        (Date.now() - startTimeRef.current - pausedTimeRef.current) / 1000
-      );
-
-      const avgSpeed =
-        currentDistance > 0
-          ? currentDistance / 1000 / (finalDuration / 3600)
+      const now = Date.now();
+
+      // Include any pause still open (the save dialog pauses tracking)
+      const pauses = [...pausesRef.current];
+      if (pauseStartRef.current)
+        pauses.push({ start: pauseStartRef.current, end: now });
+      if (autoPauseStartRef.current)
+        pauses.push({ start: autoPauseStartRef.current, end: now });
+
+      // The in-memory route is simplified - save the full track from disk,
+      // topped up with any points not yet persisted
+      const memoryRoute = Array.isArray(currentRoute) ? currentRoute : [];
+      const session = await TrackingSessionService.load();
+      const storedRoute = session?.route || [];
+      const storedUntil =
+        storedRoute.length > 0
+          ? storedRoute[storedRoute.length - 1].timestamp
           : 0;
-
-      const activity: Activity = {
-        id: Date.now().toString(),
+      const fullRoute =
+        storedRoute.length > 0
+          ? [
+              ...storedRoute,
+              ...memoryRoute.filter((p) => p.timestamp > storedUntil),
+            ]
+          : memoryRoute;
+
+      const activity = buildTrackedActivity({
         type: currentActivity,
-        name: name || `${currentActivity} activity`,
-        activityDate: new Date(),
-        startTime: new Date(startTimeRef.current),
-        endTime: new Date(),
-        duration: finalDuration,
+        name,
+        notes,
+        photos,
+        startTime: startTimeRef.current,
+        endTime: now,
+        movingSeconds: getMovingSeconds(now),
+        route: fullRoute,
         distance: currentDistance,
-        route: Array.isArray(currentRoute) ? currentRoute : [],
-        averageSpeed: avgSpeed,
         maxSpeed: maxSpeedRef.current,
-        notes: notes,
-        photos: photos,
-        isManualEntry: false,
-        createdAt: new Date(),
-      };
+        pauses,
+        lapMarkers: lapMarkersRef.current,
+      });
 
       await saveActivity(activity);
+      await TrackingSessionService.clear();
 
       // Get the saved activity with proper ID from database
       const savedActivity = {
@@ -715,6 +1066,150 @@ export const ActivityProvider: React.FC<{ children: ReactNode }> = ({
     }
   };
 
+  const buildTrackedActivity = (params: {
+    type: ActivityType;
+    name: string;
+    notes?: string;
+    photos?: string[];
+    startTime: number;
+    endTime: number;
+    movingSeconds: number;
+    route: LocationPoint[];
+    distance: number;
+    maxSpeed: number;
+    pauses: PauseInterval[];
+    lapMarkers: number[];
+  }): Activity => {
+    const { type, route, distance, movingSeconds, pauses } = params;
+    const avgSpeed =
+      distance > 0 && movingSeconds > 0
+        ? distance / 1000 / (movingSeconds / 3600)
+        : 0;
+    const elevation = calculateElevationStats(route);
+    const splitUnit = getSplitUnit(settings.units);
+
+    return {
+      id: Date.now().toString(),
+      type,
+      name: params.name || `${type} activity`,
+      activityDate: new Date(params.startTime),
+      startTime: new Date(params.startTime),
+      endTime: new Date(params.endTime),
+      duration: movingSeconds,
+      movingTime: movingSeconds,
+      elapsedTime: Math.floor((params.endTime - params.startTime) / 1000),
+      distance,
+      route,
+      averageSpeed: avgSpeed,
+      maxSpeed: params.maxSpeed,
+      elevationGain: elevation?.gain,
+      elevationLoss: elevation?.loss,
+      minAltitude: elevation?.minAltitude,
+      maxAltitude: elevation?.maxAltitude,
+      splits: calculateSplits(route, splitUnit, pauses),
+      laps: calculateLaps(
+        route,
+        params.lapMarkers,
+        params.startTime,
+        params.endTime,
+        splitUnit,
+        pauses
+      ),
+      splitUnit,
+      notes: params.notes,
+      photos: params.photos,
+      isManualEntry: false,
+      createdAt: new Date(),
+    };
+  };
+
+  // Pick an interrupted session back up in the paused state; the time the
+  // app was closed counts as a pause
+  const resumeInterruptedSession = () => {
+    if (!interruptedSession || isTracking) return;
+    const { state, route } = interruptedSession;
+    const type = state.activityType as ActivityType;
+
+    startTimeRef.current = state.startTime;
+    pausedTimeRef.current = state.pausedTime;
+    pausesRef.current = [...state.pauses];
+    autoPausedTimeRef.current = state.autoPausedTime;
+    if (state.autoPauseStart) {
+      pausesRef.current.push({
+        start: state.autoPauseStart,
+        end: state.lastUpdated,
+      });
+      autoPausedTimeRef.current += state.lastUpdated - state.autoPauseStart;
+    }
+    autoPauseStartRef.current = null;
+    autoPauseAnchorRef.current = null;
+    pauseStartRef.current = state.pauseStart ?? state.lastUpdated;
+    lapMarkersRef.current = [...state.lapMarkers];
+    autoPauseEnabledRef.current = state.autoPauseEnabled;
+    activityTypeRef.current = type;
+    maxSpeedRef.current = state.maxSpeed;
+    lastFixRef.current = null;
+    lastUpdateTime.current = Date.now();
+    persistedUntilRef.current =
+      route.length > 0 ? route[route.length - 1].timestamp : 0;
+
+    setCurrentActivity(type);
+    setCurrentRoute(simplifyLiveRoute(route, type));
+    setCurrentDistance(state.distance);
+    setCurrentDuration(getMovingSeconds());
+    setCurrentSpeed(0);
+    setLapCount(state.lapMarkers.length);
+    setIsTracking(true);
+    setIsPaused(true);
+    setIsAutoPaused(false);
+    setGpsStatus("searching");
+    setInterruptedSession(null);
+  };
+
+  // Save an interrupted session as it stood at its last update
+  const saveInterruptedSession = async (name?: string) => {
+    if (!interruptedSession) return;
+    const { state, route } = interruptedSession;
+    const endTime = state.lastUpdated;
+
+    const pauses = [...state.pauses];
+    let pausedTime = state.pausedTime + state.autoPausedTime;
+    if (state.pauseStart) {
+      pauses.push({ start: state.pauseStart, end: endTime });
+      pausedTime += endTime - state.pauseStart;
+    }
+    if (state.autoPauseStart) {
+      pauses.push({ start: state.autoPauseStart, end: endTime });
+      pausedTime += endTime - state.autoPauseStart;
+    }
+
+    const activity = buildTrackedActivity({
+      type: state.activityType as ActivityType,
+      name: name || "",
+      startTime: state.startTime,
+      endTime,
+      movingSeconds: Math.max(
+        0,
+        Math.floor((endTime - state.startTime - pausedTime) / 1000)
+      ),
+      route,
+      distance: state.distance,
+      maxSpeed: state.maxSpeed,
+      pauses,
+      lapMarkers: state.lapMarkers,
+    });
+
+    await saveActivity(activity);
+    await TrackingSessionService.clear();
+    setInterruptedSession(null);
+    return activity;
+  };
+
+  const discardInterruptedSession = async () => {
+    await TrackingSessionService.clear();
+    setInterruptedSession(null);
+  };
+
   const savePhotosToGallery = async (photos: string[]) => {
     try {
       for (const photoUri of photos) {
@@ -777,10 +1272,20 @@ export const ActivityProvider: React.FC<{ children: ReactNode }> = ({
           start_time: activity.startTime.toISOString(),
           end_time: activity.endTime.toISOString(),
           duration: activity.duration,
+          moving_time: activity.movingTime ?? activity.duration,
+          elapsed_time: activity.elapsedTime ?? activity.duration,
           distance: activity.distance,
           route: activity.route,
+          route_preview: simplifyRouteForActivity(activity.route, activity.type),
           average_speed: activity.averageSpeed,
           max_speed: activity.maxSpeed,
+          elevation_gain: activity.elevationGain,
+          elevation_loss: activity.elevationLoss,
+          min_altitude: activity.minAltitude,
+          max_altitude: activity.maxAltitude,
+          splits: activity.splits,
+          laps: activity.laps,
+          split_unit: activity.splitUnit,
           notes: activity.notes,
           photos: uploadedPhotoUrls, // USE UPLOADED URLs, NOT LOCAL PATHS
           is_manual_entry: activity.isManualEntry,
@@ -792,7 +1297,12 @@ export const ActivityProvider: React.FC<{ children: ReactNode }> = ({
 
       // Update local state with uploaded URLs
       setActivities((prev) => [
-        { ...activity, id: data.id, photos: uploadedPhotoUrls },
+        {
+          ...activity,
+          id: data.id,
+          route: simplifyRouteForActivity(activity.route, activity.type),
+          photos: uploadedPhotoUrls,
+        },
         ...prev,
       ]);
 
@@ -836,11 +1346,37 @@ export const ActivityProvider: React.FC<{ children: ReactNode }> = ({
 
       if (updatedData.name !== undefined) updateData.name = updatedData.name;
       if (updatedData.notes !== undefined) updateData.notes = updatedData.notes;
-      if (updatedData.route !== undefined) updateData.route = updatedData.route;
+      if (updatedData.route !== undefined) {
+        updateData.route = updatedData.route;
+        updateData.route_preview = simplifyRouteForActivity(
+          updatedData.route,
+          updatedData.type ||
+            activities.find((a) => a.id === activityId)?.type ||
+            "other"
+        );
+        const elevation = calculateElevationStats(updatedData.route);
+        if (elevation) {
+          updateData.elevation_gain = elevation.gain;
+          updateData.elevation_loss = elevation.loss;
+          updateData.min_altitude = elevation.minAltitude;
+          updateData.max_altitude = elevation.maxAltitude;
+          updatedData = {
+            ...updatedData,
+            elevationGain: elevation.gain,
+            elevationLoss: elevation.loss,
+            minAltitude: elevation.minAltitude,
+            maxAltitude: elevation.maxAltitude,
+          };
+        }
+      }
       if (updatedData.distance !== undefined)
         updateData.distance = updatedData.distance;
       if (updatedData.duration !== undefined)
         updateData.duration = updatedData.duration;
+      if (updatedData.movingTime !== undefined)
+        updateData.moving_time = updatedData.movingTime;
+      if (updatedData.elapsedTime !== undefined)
+        updateData.elapsed_time = updatedData.elapsedTime;
       if (updatedData.averageSpeed !== undefined)
         updateData.average_speed = updatedData.averageSpeed;
       if (updatedData.maxSpeed !== undefined)
@@ -893,6 +1429,12 @@ export const ActivityProvider: React.FC<{ children: ReactNode }> = ({
             ? {
                 ...activity,
                 ...updatedData,
+                route: updatedData.route
+                  ? simplifyRouteForActivity(
+                      updatedData.route,
+                      updatedData.type || activity.type
+                    )
+                  : activity.route,
                 photos: updateData.photos || activity.photos,
               }
             : activity
@@ -904,6 +1446,7 @@ export const ActivityProvider: React.FC<{ children: ReactNode }> = ({
     }
   };
   const addManualActivity = async (activity: Partial<Activity>) => {
+    const elevation = calculateElevationStats(activity.route || []);
     const newActivity: Activity = {
       id: Date.now().toString(),
       type: activity.type || "other",
@@ -912,10 +1455,16 @@ export const ActivityProvider: React.FC<{ children: ReactNode }> = ({
       startTime: activity.startTime || new Date(),
       endTime: activity.endTime || new Date(),
       duration: activity.duration || 0,
+      movingTime: activity.movingTime ?? activity.duration ?? 0,
+      elapsedTime: activity.elapsedTime ?? activity.duration ?? 0,
       distance: activity.distance || 0,
       route: activity.route || [],
       averageSpeed: activity.averageSpeed || 0,
       maxSpeed: activity.maxSpeed || 0,
+      elevationGain: activity.elevationGain ?? elevation?.gain,
+      elevationLoss: activity.elevationLoss ?? elevation?.loss,
+      minAltitude: activity.minAltitude ?? elevation?.minAltitude,
+      maxAltitude: activity.maxAltitude ?? elevation?.maxAltitude,
       notes: activity.notes,
       photos: activity.photos,
       isManualEntry: true,
@@ -926,24 +1475,51 @@ export const ActivityProvider: React.FC<{ children: ReactNode }> = ({
     return newActivity;
   };
 
+  // Imported activities keep their recorded route, so they are saved as
+  // tracked activities rather than manual entries
+  const importActivity = async (activity: Activity) => {
+    await saveActivity({ ...activity, isManualEntry: false });
+  };
+
+  // Activities in memory carry simplified routes - fetch the full-resolution
+  // tracks for exports and backups. Throws rather than hand back the preview
+  const getFullRoutes = async (list: Activity[]): Promise<Activity[]> => {
+    if (!user || list.length === 0) return list;
+
+    const routes = await fetchFullRoutes(list.map((act) => act.id));
+    return list.map((act) => ({
+      ...act,
+      route: routes.get(act.id) || [],
+    }));
+  };
+
   const value: ActivityContextType = {
     isTracking,
     isPaused,
+    isAutoPaused,
     currentActivity,
     currentRoute,
     currentDistance,
     currentDuration,
     currentSpeed,
+    lapCount,
     location: currentLocation,
     gpsStatus,
     activities,
+    interruptedSession,
     startTracking,
     pauseTracking,
     resumeTracking,
+    markLap,
     stopTracking,
+    resumeInterruptedSession,
+    saveInterruptedSession,
+    discardInterruptedSession,
     deleteActivity,
     addManualActivity,
     updateActivity,
+    getFullRoutes,
+    importActivity,
     loading,
     error,
     refreshActivities,
@@ -16,6 +16,7 @@ interface Settings {
   defaultActivityType: ActivityType;
   notifications: boolean;
   autoSave: boolean;
+  autoPause: Record<ActivityType, boolean>;
   mapStyle: "standard" | "satellite" | "terrain";
   privacy: {
     shareLocation: boolean;
@@ -25,6 +26,10 @@ interface Settings {
   memoriesEnabled?: boolean;
   proximityEnabled?: boolean;
   proximityDistance?: number;
+  // Automatic backups
+  autoBackupEnabled?: boolean;
+  autoBackupFrequency?: "daily" | "weekly";
+  autoBackupKeep?: number;
 }
 
 interface SettingsContextType {
@@ -44,6 +49,16 @@ const DEFAULT_SETTINGS: Settings = {
   defaultActivityType: "bike",
   notifications: true,
   autoSave: true,
+  // Auto-pause suits steady-moving activities; hikes and climbs stop often on purpose
+  autoPause: {
+    bike: true,
+    run: true,
+    walk: false,
+    hike: false,
+    paddleboard: false,
+    climb: false,
+    other: false,
+  },
   mapStyle: "standard",
   privacy: {
     shareLocation: false,
@@ -53,6 +68,9 @@ const DEFAULT_SETTINGS: Settings = {
   memoriesEnabled: true,
   proximityEnabled: true,
   proximityDistance: 100,
+  autoBackupEnabled: false,
+  autoBackupFrequency: "weekly",
+  autoBackupKeep: 5,
 };
 
 const SettingsContext = createContext<SettingsContextType | undefined>(
@@ -74,7 +92,11 @@ export const SettingsProvider: React.FC<{ children: React.ReactNode }> = ({
       if (stored) {
         const parsed = JSON.parse(stored);
         // Merge with defaults to ensure new properties exist
-        setSettings({ ...DEFAULT_SETTINGS, ...parsed });
+        setSettings({
+          ...DEFAULT_SETTINGS,
+          ...parsed,
+          autoPause: { ...DEFAULT_SETTINGS.autoPause, ...parsed.autoPause },
+        });
       }
     } catch (error) {
       console.error("Error loading settings:", error);
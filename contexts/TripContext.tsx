@@ -6,13 +6,18 @@ import React, {
   useState,
 } from "react";
 import { Alert } from "react-native";
+import { CategoryType } from "../constants/categories";
+import { PushNotificationHelper } from "../lib/notifications";
 import { supabase } from "../lib/supabase";
 import { TripDetector } from "../utils/TripDetector";
 import { useActivity } from "./ActivityContext";
 import { useAuth } from "./AuthContext";
 import { useLocation } from "./LocationContext";
+import { MemoryNotificationService } from "../services/memoryNotificationService";
 import { PhotoService } from "../services/photoService";
+import { TripNameService } from "../services/tripNameService";
 import { calculateDistance, areLocationsNearby } from "../utils/gps";
+import { fromDayKey, toDayKey } from "../utils/date";
 
 export interface TripItem {
   id: string;
@@ -23,22 +28,78 @@ export interface TripItem {
   added_by?: string;
 }
 
+export interface ItineraryItem {
+  id: string;
+  trip_id: string;
+  day: string; // YYYY-MM-DD, local to the trip
+  time?: string; // HH:MM
+  name: string;
+  location?: { latitude: number; longitude: number };
+  category?: CategoryType;
+  notes?: string;
+  wishlist_item_id?: string; // Wishlist item the entry was planned from
+  completed_at?: Date | null;
+  created_by?: string;
+  created_at: Date;
+}
+
+export type NewItineraryItem = Omit<
+  ItineraryItem,
+  "id" | "trip_id" | "created_by" | "created_at"
+>;
+
+export type TripRole = "owner" | "editor" | "viewer";
+
+// A friend on someone else's trip - the creator is always the owner
+export interface TripParticipant {
+  user_id: string;
+  role: Exclude<TripRole, "owner">;
+  status: "pending" | "accepted";
+}
+
+// A trip the current user has been invited to but not joined yet
+export interface TripInvite {
+  trip_id: string;
+  trip_name: string;
+  invited_by: string;
+  role: Exclude<TripRole, "owner">;
+  start_date: Date;
+  end_date: Date;
+}
+
 export interface Trip {
   id: string;
   name: string;
   start_date: Date;
   end_date: Date;
   items?: TripItem[];
+  itinerary?: ItineraryItem[]; // Planned entries, day by day
   cover_photo?: string;
   cover_photo_position?: { x: number; y: number };
   created_at: Date;
   created_by: string;
-  tagged_friends?: string[];
+  tagged_friends?: string[]; // Accepted participants only
+  participants?: TripParticipant[];
   auto_generated?: boolean;
   merged_from?: string[];
   dates_locked?: boolean;
 }
 
+// Split off everything from a day onwards, or just the chosen trip items
+export type TripSplit = { date: Date } | { itemIds: string[] };
+
+// The last merge or split, kept so it can be reversed
+// Dropped once either trip is edited, since undo would then lose the edit
+export interface TripEditUndo {
+  label: string;
+  tripIds: string[];
+  snapshot: string; // The trips' rows right after the edit
+  undo: () => Promise<void>;
+}
+
+// Reverses one completed step of a merge or split
+type TripEditStep = () => Promise<void>;
+
 interface TripCluster {
   id: string;
   suggestedName: string;
@@ -53,6 +114,7 @@ interface TripCluster {
 
 interface TripContextType {
   trips: Trip[];
+  tripInvites: TripInvite[];
   currentUserId: string | null;
   loading: boolean;
   createTrip: (
@@ -66,9 +128,39 @@ interface TripContextType {
     type: "activity" | "spot",
   ) => Promise<void>;
   removeFromTrip: (tripId: string, tripItemId: string) => Promise<void>;
+  addItineraryItem: (
+    tripId: string,
+    item: NewItineraryItem,
+  ) => Promise<ItineraryItem>;
+  updateItineraryItem: (
+    tripId: string,
+    itemId: string,
+    updates: Partial<NewItineraryItem>,
+  ) => Promise<void>;
+  removeItineraryItem: (tripId: string, itemId: string) => Promise<void>;
   tagFriend: (tripId: string, friendId: string) => Promise<void>;
+  inviteToTrip: (
+    tripId: string,
+    friendId: string,
+    role: TripParticipant["role"],
+  ) => Promise<void>;
+  respondToInvite: (tripId: string, accept: boolean) => Promise<void>;
+  setParticipantRole: (
+    tripId: string,
+    userId: string,
+    role: TripParticipant["role"],
+  ) => Promise<void>;
   untagFriend: (tripId: string, friendId: string) => Promise<void>;
   mergeTripWithShared: (tripId: string, sharedTripId: string) => Promise<void>;
+  mergeTrips: (targetTripId: string, sourceTripId: string) => Promise<boolean>;
+  splitTrip: (
+    tripId: string,
+    split: TripSplit,
+    name?: string,
+  ) => Promise<string | null>;
+  lastTripEdit: TripEditUndo | null;
+  undoLastTripEdit: () => Promise<boolean>;
+  dismissLastTripEdit: () => void;
   getSharedTrips: () => Trip[];
   getMyTrips: () => Trip[];
   runAutoDetection: () => Promise<void>;
@@ -91,10 +183,116 @@ interface TripContextType {
 
 const TripContext = createContext<TripContextType | undefined>(undefined);
 
+export const getTripRole = (
+  trip: Trip,
+  userId: string | null | undefined,
+): TripRole | null => {
+  if (!userId) return null;
+  if (trip.created_by === userId) return "owner";
+  const participant = trip.participants?.find(
+    (p) => p.user_id === userId && p.status === "accepted",
+  );
+  return participant?.role || null;
+};
+
+// Owners and editors can change items and dates, viewers only comment and chat
+export const canEditTrip = (
+  trip: Trip,
+  userId: string | null | undefined,
+): boolean => {
+  const role = getTripRole(trip, userId);
+  return role === "owner" || role === "editor";
+};
+
+// Rows that follow their trip when two trips are merged
+const MERGED_TRIP_TABLES = [
+  "trip_items",
+  "trip_itinerary_items",
+  "trip_checklist_items",
+  "trip_expenses",
+  "trip_messages",
+  "trip_message_reactions",
+  "journal_entries",
+];
+
+// Midday local time, so dates don't shift a day across timezones
+const normalizeToLocal = (d: Date) =>
+  new Date(d.getFullYear(), d.getMonth(), d.getDate(), 12, 0, 0, 0);
+
+const getItemDate = (item: TripItem): Date => {
+  const data = item.data || {};
+  const value =
+    item.type === "activity"
+      ? data.activityDate ||
+        data.activity_date ||
+        data.startTime ||
+        data.start_time
+      : data.locationDate || data.location_date || data.timestamp;
+  const date = value ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date : new Date(item.added_at);
+};
+
+const getItemsRange = (items: TripItem[]): [Date, Date] => {
+  const times = items.map((item) => getItemDate(item).getTime());
+  return [
+    normalizeToLocal(new Date(Math.min(...times))),
+    normalizeToLocal(new Date(Math.max(...times))),
+  ];
+};
+
+// Tags created before roles existed have neither column set
+const toParticipant = (tag: any): TripParticipant => ({
+  user_id: tag.user_id,
+  role: tag.role === "viewer" ? "viewer" : "editor",
+  status: tag.status === "pending" ? "pending" : "accepted",
+});
+
+const transformItineraryItem = (row: any): ItineraryItem => ({
+  id: row.id,
+  trip_id: row.trip_id,
+  day: row.day,
+  time: row.time || undefined,
+  name: row.name,
+  location:
+    row.latitude != null && row.longitude != null
+      ? { latitude: row.latitude, longitude: row.longitude }
+      : undefined,
+  category: row.category || undefined,
+  notes: row.notes || undefined,
+  wishlist_item_id: row.wishlist_item_id || undefined,
+  completed_at: row.completed_at ? new Date(row.completed_at) : null,
+  created_by: row.created_by,
+  created_at: new Date(row.created_at),
+});
+
+// Only the fields present in the update are written
+const toItineraryRow = (item: Partial<NewItineraryItem>) => {
+  const row: Record<string, any> = {};
+  if (item.day !== undefined) row.day = item.day;
+  if (item.time !== undefined) row.time = item.time || null;
+  if (item.name !== undefined) row.name = item.name;
+  if (item.location !== undefined) {
+    row.latitude = item.location?.latitude ?? null;
+    row.longitude = item.location?.longitude ?? null;
+  }
+  if (item.category !== undefined) row.category = item.category;
+  if (item.notes !== undefined) row.notes = item.notes || null;
+  if (item.wishlist_item_id !== undefined) {
+    row.wishlist_item_id = item.wishlist_item_id || null;
+  }
+  if (item.completed_at !== undefined) {
+    row.completed_at = item.completed_at
+      ? item.completed_at.toISOString()
+      : null;
+  }
+  return row;
+};
+
 export const TripProvider: React.FC<{ children: React.ReactNode }> = ({
   children,
 }) => {
   const [trips, setTrips] = useState<Trip[]>([]);
+  const [tripInvites, setTripInvites] = useState<TripInvite[]>([]);
   const [loading, setLoading] = useState(true);
   const { user } = useAuth();
   const { activities } = useActivity();
@@ -104,6 +302,9 @@ export const TripProvider: React.FC<{ children: React.ReactNode }> = ({
   const autoDetectionInProgress = useRef(false);
   const rejectedTripIds = useRef<Set<string>>(new Set());
   const [pendingClusters, setPendingClusters] = useState<TripCluster[]>([]);
+  const [lastTripEdit, setLastTripEdit] = useState<TripEditUndo | null>(null);
+  // Undo buttons are wired up before the state update lands
+  const lastTripEditRef = useRef<TripEditUndo | null>(null);
 
   const checkDistanceFromPendingClusters = async (currentLocation: {
     latitude: number;
@@ -169,6 +370,7 @@ export const TripProvider: React.FC<{ children: React.ReactNode }> = ({
       };
     } else {
       setTrips([]);
+      setTripInvites([]);
       setLoading(false);
     }
   }, [currentUserId]);
@@ -215,6 +417,18 @@ export const TripProvider: React.FC<{ children: React.ReactNode }> = ({
           loadTrips();
         },
       )
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "trip_itinerary_items",
+          filter: `created_by=eq.${currentUserId}`,
+        },
+        (payload) => {
+          loadTrips();
+        },
+      )
       .subscribe();
 
     return () => {
@@ -237,17 +451,18 @@ export const TripProvider: React.FC<{ children: React.ReactNode }> = ({
 
       if (tripsError) throw tripsError;
 
-      // Load trips where user is tagged
-      const { data: taggedTripIds, error: tagError } = await supabase
+      // Load trips where user is tagged, including open invites
+      const { data: myTags, error: tagError } = await supabase
         .from("trip_tags")
-        .select("trip_id")
+        .select("trip_id, user_id, role, status")
         .eq("user_id", user.id);
 
       if (tagError) throw tagError;
 
       let sharedTrips: any[] = [];
-      if (taggedTripIds && taggedTripIds.length > 0) {
-        const tripIds = taggedTripIds.map((t) => t.trip_id);
+      const invites: TripInvite[] = [];
+      if (myTags && myTags.length > 0) {
+        const tripIds = myTags.map((t) => t.trip_id);
         const { data: shared, error: sharedError } = await supabase
           .from("trips")
           .select("*")
@@ -255,8 +470,32 @@ export const TripProvider: React.FC<{ children: React.ReactNode }> = ({
           .order("created_at", { ascending: false });
 
         if (sharedError) throw sharedError;
-        sharedTrips = shared || [];
+
+        const myParticipation = myTags.reduce(
+          (acc, tag) => {
+            acc[tag.trip_id] = toParticipant(tag);
+            return acc;
+          },
+          {} as Record<string, TripParticipant>,
+        );
+
+        (shared || []).forEach((trip) => {
+          const participant = myParticipation[trip.id];
+          if (participant?.status === "pending") {
+            invites.push({
+              trip_id: trip.id,
+              trip_name: trip.name,
+              invited_by: trip.created_by,
+              role: participant.role,
+              start_date: new Date(trip.start_date),
+              end_date: new Date(trip.end_date),
+            });
+          } else {
+            sharedTrips.push(trip);
+          }
+        });
       }
+      setTripInvites(invites);
 
       // Combine all trips
       const allTrips = [...(myTrips || []), ...sharedTrips];
@@ -265,19 +504,19 @@ export const TripProvider: React.FC<{ children: React.ReactNode }> = ({
       // Load all tags for these trips
       const { data: allTags, error: tagsError } = await supabase
         .from("trip_tags")
-        .select("trip_id, user_id")
+        .select("trip_id, user_id, role, status")
         .in("trip_id", uniqueTripIds);
 
       if (tagsError) throw tagsError;
 
       // Group tags by trip_id
-      const tagsByTrip = (allTags || []).reduce(
+      const participantsByTrip = (allTags || []).reduce(
         (acc, tag) => {
           if (!acc[tag.trip_id]) acc[tag.trip_id] = [];
-          acc[tag.trip_id].push(tag.user_id);
+          acc[tag.trip_id].push(toParticipant(tag));
           return acc;
         },
-        {} as Record<string, string[]>,
+        {} as Record<string, TripParticipant[]>,
       );
 
       // Load trip items
@@ -305,6 +544,25 @@ export const TripProvider: React.FC<{ children: React.ReactNode }> = ({
         {} as Record<string, TripItem[]>,
       );
 
+      // Load planned itinerary entries
+      const { data: itinerary, error: itineraryError } = await supabase
+        .from("trip_itinerary_items")
+        .select("*")
+        .in("trip_id", uniqueTripIds)
+        .order("day", { ascending: true })
+        .order("time", { ascending: true, nullsFirst: true });
+
+      if (itineraryError) throw itineraryError;
+
+      const itineraryByTrip = (itinerary || []).reduce(
+        (acc, row) => {
+          if (!acc[row.trip_id]) acc[row.trip_id] = [];
+          acc[row.trip_id].push(transformItineraryItem(row));
+          return acc;
+        },
+        {} as Record<string, ItineraryItem[]>,
+      );
+
       // Build complete trip objects
       const completeTrips = allTrips.map((trip) => {
         console.log("🔷 Loading trip:", trip.name);
@@ -360,8 +618,12 @@ export const TripProvider: React.FC<{ children: React.ReactNode }> = ({
           auto_generated: trip.auto_generated || false,
           cover_photo: trip.cover_photo,
           cover_photo_position: trip.cover_photo_position,
-          tagged_friends: tagsByTrip[trip.id] || [],
+          tagged_friends: (participantsByTrip[trip.id] || [])
+            .filter((p) => p.status === "accepted")
+            .map((p) => p.user_id),
+          participants: participantsByTrip[trip.id] || [],
           items: transformedItems,
+          itinerary: itineraryByTrip[trip.id] || [],
           created_at: trip.created_at,
           merged_from: trip.merged_from || [],
           dates_locked: trip.dates_locked || false,
@@ -523,6 +785,133 @@ export const TripProvider: React.FC<{ children: React.ReactNode }> = ({
     }
   };
 
+  const notifyTripInvite = async (
+    tripId: string,
+    tripName: string,
+    friendId: string,
+  ) => {
+    const title = "Trip Invite";
+    const message = `You've been invited to join "${tripName}"`;
+
+    try {
+      const { error } = await supabase.from("notifications").insert({
+        user_id: friendId,
+        from_user_id: currentUserId,
+        type: "trip_invite",
+        title,
+        message,
+        data: { trip_id: tripId },
+        read: false,
+        created_at: new Date().toISOString(),
+      });
+
+      if (error) throw error;
+
+      await PushNotificationHelper.sendNotificationToUser(
+        friendId,
+        "trip_invite",
+        title,
+        message,
+        { type: "trip_invite", trip_id: tripId },
+      );
+    } catch (error) {
+      console.error("Error sending trip invite:", error);
+    }
+  };
+
+  // The trip to check permissions against - a trip that isn't loaded yet
+  // (one created moments ago) is fetched, and one that can't be found
+  // gets no access. These checks only stop the app offering an action;
+  // the trip_roles migration enforces the same roles in the database.
+  const findTripAccess = async (tripId: string): Promise<Trip | null> => {
+    const loaded = trips.find((t) => t.id === tripId);
+    if (loaded) return loaded;
+
+    const [{ data: row, error }, { data: tags, error: tagsError }] =
+      await Promise.all([
+        supabase
+          .from("trips")
+          .select("id, created_by")
+          .eq("id", tripId)
+          .maybeSingle(),
+        supabase
+          .from("trip_tags")
+          .select("user_id, role, status")
+          .eq("trip_id", tripId),
+      ]);
+
+    if (error || tagsError || !row) return null;
+    return {
+      ...row,
+      participants: (tags || []).map(toParticipant),
+    } as Trip;
+  };
+
+  // Brings trip_tags in line with the wanted participants - new friends
+  // are invited, missing ones removed and changed roles updated
+  const syncParticipants = async (
+    tripId: string,
+    tripName: string,
+    wanted: TripParticipant[],
+  ) => {
+    const { data: existing, error } = await supabase
+      .from("trip_tags")
+      .select("trip_id, user_id, role, status")
+      .eq("trip_id", tripId);
+
+    if (error) throw error;
+
+    const current = (existing || []).map(toParticipant);
+    const removed = current
+      .filter((p) => !wanted.some((w) => w.user_id === p.user_id))
+      .map((p) => p.user_id);
+
+    if (removed.length > 0) {
+      const { error: removeError } = await supabase
+        .from("trip_tags")
+        .delete()
+        .eq("trip_id", tripId)
+        .in("user_id", removed);
+
+      if (removeError) throw removeError;
+    }
+
+    const invited = wanted.filter(
+      (w) => !current.some((p) => p.user_id === w.user_id),
+    );
+
+    if (invited.length > 0) {
+      const { error: inviteError } = await supabase.from("trip_tags").insert(
+        invited.map((participant) => ({
+          trip_id: tripId,
+          user_id: participant.user_id,
+          role: participant.role,
+          status: "pending",
+        })),
+      );
+
+      if (inviteError) throw inviteError;
+
+      for (const participant of invited) {
+        await notifyTripInvite(tripId, tripName, participant.user_id);
+      }
+    }
+
+    for (const participant of wanted) {
+      const match = current.find((p) => p.user_id === participant.user_id);
+
+      if (match && match.role !== participant.role) {
+        const { error: roleError } = await supabase
+          .from("trip_tags")
+          .update({ role: participant.role })
+          .eq("trip_id", tripId)
+          .eq("user_id", participant.user_id);
+
+        if (roleError) throw roleError;
+      }
+    }
+  };
+
   const createTrip = async (
     tripData: Omit<Trip, "id" | "created_at" | "items">,
   ): Promise<Trip> => {
@@ -554,18 +943,25 @@ export const TripProvider: React.FC<{ children: React.ReactNode }> = ({
 
       if (error) throw error;
 
-      if (tripData.tagged_friends && tripData.tagged_friends.length > 0) {
-        const tags = tripData.tagged_friends.map((friendId) => ({
-          trip_id: data.id,
-          user_id: friendId,
-        }));
-
-        const { error: tagError } = await supabase
-          .from("trip_tags")
-          .insert(tags);
-
-        if (tagError) {
+      // Friends have to accept before the trip shows up for them
+      let participants: TripParticipant[] = (
+        tripData.tagged_friends || []
+      ).map((friendId) => ({
+        user_id: friendId,
+        role: "editor",
+        status: "pending",
+      }));
+
+      if (participants.length > 0) {
+        try {
+          await syncParticipants(data.id, data.name, participants);
+        } catch (tagError) {
           console.error("Error tagging friends:", tagError);
+          participants = [];
+          Alert.alert(
+            "Friends Not Invited",
+            "The trip was created, but your friends couldn't be invited. Try adding them again from the trip.",
+          );
         }
       }
 
@@ -575,7 +971,9 @@ export const TripProvider: React.FC<{ children: React.ReactNode }> = ({
         end_date: new Date(data.end_date),
         created_at: new Date(data.created_at),
         items: [],
-        tagged_friends: tripData.tagged_friends || [],
+        itinerary: [],
+        tagged_friends: [],
+        participants,
       };
 
       setTrips((prev) => [...prev, newTrip]);
@@ -589,6 +987,24 @@ export const TripProvider: React.FC<{ children: React.ReactNode }> = ({
   };
 
   const updateTrip = async (tripId: string, updates: Partial<Trip>) => {
+    const trip = await findTripAccess(tripId);
+    const changesParticipants =
+      updates.tagged_friends !== undefined ||
+      updates.participants !== undefined;
+
+    if (!trip || !canEditTrip(trip, currentUserId)) {
+      Alert.alert("View Only", "You can view this trip but not change it");
+      return;
+    }
+    if (changesParticipants && trip.created_by !== currentUserId) {
+      Alert.alert(
+        "Owner Only",
+        "Only the trip owner can change who's on this trip",
+      );
+      return;
+    }
+    forgetTripEdit(tripId);
+
     try {
       const updateData: any = {};
 
@@ -622,22 +1038,31 @@ export const TripProvider: React.FC<{ children: React.ReactNode }> = ({
 
       if (error) throw error;
 
-      if (updates.tagged_friends !== undefined) {
-        await supabase.from("trip_tags").delete().eq("trip_id", tripId);
-
-        if (updates.tagged_friends.length > 0) {
-          const tags = updates.tagged_friends.map((friendId) => ({
-            trip_id: tripId,
-            user_id: friendId,
-          }));
-
-          const { error: tagError } = await supabase
-            .from("trip_tags")
-            .insert(tags);
+      if (changesParticipants) {
+        // Plain friend lists keep existing roles and invite newcomers as editors
+        const wanted =
+          updates.participants ||
+          (updates.tagged_friends || []).map(
+            (friendId): TripParticipant =>
+              trip?.participants?.find((p) => p.user_id === friendId) || {
+                user_id: friendId,
+                role: "editor",
+                status: "pending",
+              },
+          );
 
-          if (tagError) {
-            console.error("Error updating tags:", tagError);
-          }
+        try {
+          await syncParticipants(
+            tripId,
+            updates.name || trip?.name || "a trip",
+            wanted,
+          );
+        } catch (tagError) {
+          console.error("Error updating tags:", tagError);
+          Alert.alert(
+            "Participants Not Updated",
+            "The trip was saved, but who's on it couldn't be changed. Please try again.",
+          );
         }
       }
 
@@ -662,9 +1087,24 @@ export const TripProvider: React.FC<{ children: React.ReactNode }> = ({
   };
 
   const deleteTrip = async (tripId: string) => {
+    const trip = await findTripAccess(tripId);
+    if (!trip || trip.created_by !== currentUserId) {
+      Alert.alert("Owner Only", "Only the trip owner can delete this trip");
+      return;
+    }
+    forgetTripEdit(tripId);
+
     try {
       await supabase.from("trip_items").delete().eq("trip_id", tripId);
       await supabase.from("trip_tags").delete().eq("trip_id", tripId);
+      await supabase
+        .from("trip_itinerary_items")
+        .delete()
+        .eq("trip_id", tripId);
+      await supabase
+        .from("trip_checklist_items")
+        .delete()
+        .eq("trip_id", tripId);
       const { error } = await supabase.from("trips").delete().eq("id", tripId);
 
       if (error) throw error;
@@ -745,6 +1185,13 @@ export const TripProvider: React.FC<{ children: React.ReactNode }> = ({
       targetTripId = autoTrip.id;
     }
 
+    const targetTrip = await findTripAccess(targetTripId);
+    if (!targetTrip || !canEditTrip(targetTrip, currentUserId)) {
+      Alert.alert("View Only", "You can view this trip but not add to it");
+      return;
+    }
+    forgetTripEdit(targetTripId);
+
     try {
       let processedItemData = { ...itemData };
 
@@ -875,6 +1322,13 @@ export const TripProvider: React.FC<{ children: React.ReactNode }> = ({
   };
 
   const removeFromTrip = async (tripId: string, tripItemId: string) => {
+    const targetTrip = await findTripAccess(tripId);
+    if (!targetTrip || !canEditTrip(targetTrip, currentUserId)) {
+      Alert.alert("View Only", "You can view this trip but not remove from it");
+      return;
+    }
+    forgetTripEdit(tripId);
+
     try {
       const { error } = await supabase
         .from("trip_items")
@@ -966,28 +1420,246 @@ export const TripProvider: React.FC<{ children: React.ReactNode }> = ({
     }
   };
 
+  const sortItinerary = (items: ItineraryItem[]) =>
+    [...items].sort(
+      (a, b) =>
+        a.day.localeCompare(b.day) ||
+        (a.time || "").localeCompare(b.time || ""),
+    );
+
+  const addItineraryItem = async (
+    tripId: string,
+    item: NewItineraryItem,
+  ): Promise<ItineraryItem> => {
+    if (!currentUserId) throw new Error("User not authenticated");
+
+    const trip = await findTripAccess(tripId);
+    if (!trip || !canEditTrip(trip, currentUserId)) {
+      Alert.alert("View Only", "You can view this trip but not plan it");
+      throw new Error("Not allowed to edit this trip");
+    }
+    forgetTripEdit(tripId);
+
+    try {
+      const { data, error } = await supabase
+        .from("trip_itinerary_items")
+        .insert({
+          trip_id: tripId,
+          ...toItineraryRow(item),
+          created_by: currentUserId,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const newItem = transformItineraryItem(data);
+      setTrips((prev) =>
+        prev.map((t) =>
+          t.id === tripId
+            ? { ...t, itinerary: sortItinerary([...(t.itinerary || []), newItem]) }
+            : t,
+        ),
+      );
+
+      return newItem;
+    } catch (error) {
+      console.error("Error adding itinerary item:", error);
+      Alert.alert("Error", "Failed to add to itinerary");
+      throw error;
+    }
+  };
+
+  const updateItineraryItem = async (
+    tripId: string,
+    itemId: string,
+    updates: Partial<NewItineraryItem>,
+  ) => {
+    const trip = await findTripAccess(tripId);
+    if (!trip || !canEditTrip(trip, currentUserId)) {
+      Alert.alert("View Only", "You can view this trip but not plan it");
+      return;
+    }
+    forgetTripEdit(tripId);
+
+    try {
+      const { error } = await supabase
+        .from("trip_itinerary_items")
+        .update(toItineraryRow(updates))
+        .eq("id", itemId);
+
+      if (error) throw error;
+
+      setTrips((prev) =>
+        prev.map((t) =>
+          t.id === tripId
+            ? {
+                ...t,
+                itinerary: sortItinerary(
+                  (t.itinerary || []).map((entry) =>
+                    entry.id === itemId ? { ...entry, ...updates } : entry,
+                  ),
+                ),
+              }
+            : t,
+        ),
+      );
+    } catch (error) {
+      console.error("Error updating itinerary item:", error);
+      Alert.alert("Error", "Failed to update itinerary");
+    }
+  };
+
+  const removeItineraryItem = async (tripId: string, itemId: string) => {
+    const trip = await findTripAccess(tripId);
+    if (!trip || !canEditTrip(trip, currentUserId)) {
+      Alert.alert("View Only", "You can view this trip but not plan it");
+      return;
+    }
+    forgetTripEdit(tripId);
+
+    try {
+      const { error } = await supabase
+        .from("trip_itinerary_items")
+        .delete()
+        .eq("id", itemId);
+
+      if (error) throw error;
+
+      setTrips((prev) =>
+        prev.map((t) =>
+          t.id === tripId
+            ? {
+                ...t,
+                itinerary: (t.itinerary || []).filter(
+                  (entry) => entry.id !== itemId,
+                ),
+              }
+            : t,
+        ),
+      );
+    } catch (error) {
+      console.error("Error removing itinerary item:", error);
+      Alert.alert("Error", "Failed to remove from itinerary");
+    }
+  };
+
   const tagFriend = async (tripId: string, friendId: string) => {
+    await inviteToTrip(tripId, friendId, "editor");
+  };
+
+  const inviteToTrip = async (
+    tripId: string,
+    friendId: string,
+    role: TripParticipant["role"],
+  ) => {
+    const trip = await findTripAccess(tripId);
+    if (!trip || trip.created_by !== currentUserId) {
+      Alert.alert("Owner Only", "Only the trip owner can invite friends");
+      return;
+    }
+    forgetTripEdit(tripId);
+
     try {
       const { error } = await supabase.from("trip_tags").insert({
         trip_id: tripId,
         user_id: friendId,
+        role,
+        status: "pending",
       });
 
       if (error) throw error;
 
+      await notifyTripInvite(tripId, trip?.name || "a trip", friendId);
+
       setTrips((prev) =>
         prev.map((t) =>
           t.id === tripId
-            ? { ...t, tagged_friends: [...(t.tagged_friends || []), friendId] }
+            ? {
+                ...t,
+                participants: [
+                  ...(t.participants || []),
+                  { user_id: friendId, role, status: "pending" },
+                ],
+              }
             : t,
         ),
       );
     } catch (error) {
-      console.error("Error tagging friend:", error);
+      console.error("Error inviting friend:", error);
+      Alert.alert("Error", "Failed to send invite");
+    }
+  };
+
+  const respondToInvite = async (tripId: string, accept: boolean) => {
+    if (!currentUserId) return;
+
+    try {
+      const query = accept
+        ? supabase.from("trip_tags").update({ status: "accepted" })
+        : supabase.from("trip_tags").delete();
+
+      const { error } = await query
+        .eq("trip_id", tripId)
+        .eq("user_id", currentUserId);
+
+      if (error) throw error;
+
+      setTripInvites((prev) => prev.filter((i) => i.trip_id !== tripId));
+      if (accept) await loadTrips();
+    } catch (error) {
+      console.error("Error responding to invite:", error);
+      Alert.alert("Error", "Failed to respond to invite");
+    }
+  };
+
+  const setParticipantRole = async (
+    tripId: string,
+    userId: string,
+    role: TripParticipant["role"],
+  ) => {
+    const trip = await findTripAccess(tripId);
+    if (!trip || trip.created_by !== currentUserId) {
+      Alert.alert("Owner Only", "Only the trip owner can change roles");
+      return;
+    }
+    forgetTripEdit(tripId);
+
+    try {
+      const { error } = await supabase
+        .from("trip_tags")
+        .update({ role })
+        .eq("trip_id", tripId)
+        .eq("user_id", userId);
+
+      if (error) throw error;
+
+      setTrips((prev) =>
+        prev.map((t) =>
+          t.id === tripId
+            ? {
+                ...t,
+                participants: (t.participants || []).map((p) =>
+                  p.user_id === userId ? { ...p, role } : p,
+                ),
+              }
+            : t,
+        ),
+      );
+    } catch (error) {
+      console.error("Error changing role:", error);
+      Alert.alert("Error", "Failed to change role");
     }
   };
 
   const untagFriend = async (tripId: string, friendId: string) => {
+    const trip = await findTripAccess(tripId);
+    if (!trip || trip.created_by !== currentUserId) {
+      Alert.alert("Owner Only", "Only the trip owner can remove friends");
+      return;
+    }
+    forgetTripEdit(tripId);
+
     try {
       const { error } = await supabase
         .from("trip_tags")
@@ -1042,6 +1714,538 @@ export const TripProvider: React.FC<{ children: React.ReactNode }> = ({
     }
   };
 
+  // Points rows at another trip, returning their ids so undo can move them back
+  const moveTripRows = async (
+    table: string,
+    fromTripId: string,
+    toTripId: string,
+    ids?: string[],
+  ): Promise<string[]> => {
+    let query = supabase.from(table).select("id").eq("trip_id", fromTripId);
+    if (ids) query = query.in("id", ids);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const movedIds = (data || []).map((row) => row.id);
+    if (movedIds.length === 0) return [];
+
+    const { error: moveError } = await supabase
+      .from(table)
+      .update({ trip_id: toTripId })
+      .in("id", movedIds);
+
+    if (moveError) throw moveError;
+    return movedIds;
+  };
+
+  const returnTripRows = async (
+    moved: Record<string, string[]>,
+    tripId: string,
+  ) => {
+    for (const table of Object.keys(moved)) {
+      if (moved[table].length === 0) continue;
+      const { error } = await supabase
+        .from(table)
+        .update({ trip_id: tripId })
+        .in("id", moved[table]);
+
+      if (error) throw error;
+    }
+  };
+
+  const getTripFields = (trip: Trip) => ({
+    start_date: new Date(trip.start_date).toISOString(),
+    end_date: new Date(trip.end_date).toISOString(),
+    cover_photo: trip.cover_photo || null,
+    cover_photo_position: trip.cover_photo_position || null,
+    dates_locked: trip.dates_locked || false,
+    merged_from: trip.merged_from || [],
+    auto_generated: trip.auto_generated || false,
+  });
+
+  const writeTripFields = async (tripId: string, fields: Record<string, any>) => {
+    const { error } = await supabase
+      .from("trips")
+      .update(fields)
+      .eq("id", tripId);
+
+    if (error) throw error;
+  };
+
+  const setTripEdit = (edit: TripEditUndo | null) => {
+    lastTripEditRef.current = edit;
+    setLastTripEdit(edit);
+  };
+
+  const snapshotTrips = async (tripIds: string[]): Promise<string> => {
+    const { data, error } = await supabase
+      .from("trips")
+      .select("*")
+      .in("id", tripIds)
+      .order("id");
+
+    if (error) throw error;
+    return JSON.stringify(data || []);
+  };
+
+  // Offers undo for a merge or split, which replays its steps backwards
+  const rememberTripEdit = async (
+    label: string,
+    tripIds: string[],
+    steps: TripEditStep[],
+  ) => {
+    try {
+      setTripEdit({
+        label,
+        tripIds,
+        snapshot: await snapshotTrips(tripIds),
+        undo: () => reverseSteps(steps),
+      });
+    } catch (error) {
+      // The edit itself went through - it just can't be undone
+      console.error("Error saving trip undo:", error);
+      setTripEdit(null);
+    }
+  };
+
+  // Called by every other trip edit - undo would overwrite the change
+  const forgetTripEdit = (tripId: string) => {
+    if (lastTripEditRef.current?.tripIds.includes(tripId)) {
+      setTripEdit(null);
+    }
+  };
+
+  const dismissLastTripEdit = () => setTripEdit(null);
+
+  // Newest first, so each step sees the trips as they were when it ran.
+  // Steps are removed as they finish, so a retry carries on from a failure
+  const reverseSteps = async (steps: TripEditStep[]) => {
+    while (steps.length > 0) {
+      await steps[steps.length - 1]();
+      steps.pop();
+    }
+  };
+
+  // Reverses a merge or split that failed partway
+  // Returns false if that fails too and the trips are left half changed
+  const rollBackSteps = async (steps: TripEditStep[]): Promise<boolean> => {
+    try {
+      await reverseSteps(steps);
+      return true;
+    } catch (error) {
+      console.error("Error rolling back trip change:", error);
+      return false;
+    }
+  };
+
+  const insertTripTags = async (tags: any[] | null) => {
+    if (!tags || tags.length === 0) return;
+    const { error } = await supabase.from("trip_tags").insert(tags);
+    if (error) throw error;
+  };
+
+  /**
+   * Folds one of the user's trips into another - items, plans, chat and
+   * journal entries move over, friends are combined and the source trip goes
+   */
+  const mergeTrips = async (
+    targetTripId: string,
+    sourceTripId: string,
+  ): Promise<boolean> => {
+    const target = trips.find((t) => t.id === targetTripId);
+    const source = trips.find((t) => t.id === sourceTripId);
+    if (!target || !source || targetTripId === sourceTripId) return false;
+
+    if (
+      target.created_by !== currentUserId ||
+      source.created_by !== currentUserId
+    ) {
+      Alert.alert("Owner Only", "You can only merge trips you created");
+      return false;
+    }
+
+    let rolledBack = true;
+    try {
+      const { data: sourceRow, error: sourceError } = await supabase
+        .from("trips")
+        .select("*")
+        .eq("id", sourceTripId)
+        .single();
+
+      if (sourceError) throw sourceError;
+
+      const { data: sourceTags, error: tagsError } = await supabase
+        .from("trip_tags")
+        .select("*")
+        .eq("trip_id", sourceTripId);
+
+      if (tagsError) throw tagsError;
+
+      // The same activity or spot in both trips only needs to be kept once
+      const targetKeys = new Set(
+        (target.items || []).map((item) => `${item.type}:${item.data?.id}`),
+      );
+      const duplicateIds = (source.items || [])
+        .filter(
+          (item) =>
+            item.data?.id && targetKeys.has(`${item.type}:${item.data.id}`),
+        )
+        .map((item) => item.id);
+
+      const steps: TripEditStep[] = [];
+      try {
+        if (duplicateIds.length > 0) {
+          const { data: duplicateRows, error } = await supabase
+            .from("trip_items")
+            .select("*")
+            .in("id", duplicateIds);
+
+          if (error) throw error;
+
+          const { error: deleteError } = await supabase
+            .from("trip_items")
+            .delete()
+            .in("id", duplicateIds);
+
+          if (deleteError) throw deleteError;
+          steps.push(async () => {
+            const { error } = await supabase
+              .from("trip_items")
+              .insert(duplicateRows || []);
+            if (error) throw error;
+          });
+        }
+
+        for (const table of MERGED_TRIP_TABLES) {
+          const movedIds = await moveTripRows(table, sourceTripId, targetTripId);
+          steps.push(() => returnTripRows({ [table]: movedIds }, sourceTripId));
+        }
+
+        // Friends from either trip stay on, keeping their role and invite status
+        const addedParticipants = (source.participants || []).filter(
+          (p) => !target.participants?.some((tp) => tp.user_id === p.user_id),
+        );
+        if (addedParticipants.length > 0) {
+          const { error } = await supabase.from("trip_tags").insert(
+            addedParticipants.map((p) => ({
+              trip_id: targetTripId,
+              user_id: p.user_id,
+              role: p.role,
+              status: p.status,
+            })),
+          );
+
+          if (error) throw error;
+          steps.push(async () => {
+            const { error } = await supabase
+              .from("trip_tags")
+              .delete()
+              .eq("trip_id", targetTripId)
+              .in(
+                "user_id",
+                addedParticipants.map((p) => p.user_id),
+              );
+            if (error) throw error;
+          });
+        }
+
+        const targetBefore = getTripFields(target);
+        await writeTripFields(targetTripId, {
+          start_date: new Date(
+            Math.min(
+              new Date(target.start_date).getTime(),
+              new Date(source.start_date).getTime(),
+            ),
+          ).toISOString(),
+          end_date: new Date(
+            Math.max(
+              new Date(target.end_date).getTime(),
+              new Date(source.end_date).getTime(),
+            ),
+          ).toISOString(),
+          cover_photo: target.cover_photo || source.cover_photo || null,
+          cover_photo_position: target.cover_photo
+            ? target.cover_photo_position || null
+            : source.cover_photo_position || null,
+          // Either trip's fixed dates were set on purpose, so keep them fixed
+          dates_locked: !!(target.dates_locked || source.dates_locked),
+          merged_from: [
+            ...(target.merged_from || []),
+            sourceTripId,
+            ...(source.merged_from || []),
+          ],
+          auto_generated: !!(target.auto_generated && source.auto_generated),
+        });
+        steps.push(() => writeTripFields(targetTripId, targetBefore));
+
+        const { error: untagError } = await supabase
+          .from("trip_tags")
+          .delete()
+          .eq("trip_id", sourceTripId);
+
+        if (untagError) throw untagError;
+        steps.push(() => insertTripTags(sourceTags));
+
+        const { error: deleteError } = await supabase
+          .from("trips")
+          .delete()
+          .eq("id", sourceTripId);
+
+        if (deleteError) throw deleteError;
+        // Reversed first, so the trip is back before anything returns to it
+        steps.push(async () => {
+          const { error } = await supabase.from("trips").insert(sourceRow);
+          if (error) throw error;
+        });
+      } catch (error) {
+        rolledBack = await rollBackSteps(steps);
+        throw error;
+      }
+
+      await rememberTripEdit(
+        `Merged "${source.name}" into "${target.name}"`,
+        [targetTripId, sourceTripId],
+        steps,
+      );
+
+      await loadTrips();
+      return true;
+    } catch (error) {
+      console.error("Error merging trips:", error);
+      Alert.alert(
+        "Error",
+        rolledBack
+          ? "Failed to merge trips"
+          : "Failed to merge trips, and some changes couldn't be reversed. Check both trips.",
+      );
+      await loadTrips();
+      return false;
+    }
+  };
+
+  /**
+   * Moves part of a trip into a new one, returning the new trip's id
+   * Journal entries go with whichever trip's dates they fall in
+   */
+  const splitTrip = async (
+    tripId: string,
+    split: TripSplit,
+    name?: string,
+  ): Promise<string | null> => {
+    const trip = trips.find((t) => t.id === tripId);
+    if (!trip || !currentUserId) return null;
+
+    if (trip.created_by !== currentUserId) {
+      Alert.alert("Owner Only", "You can only split trips you created");
+      return null;
+    }
+
+    const items = trip.items || [];
+    const splitDay = "date" in split ? toDayKey(split.date) : null;
+    const itemIds = "itemIds" in split ? split.itemIds : [];
+    const moving = items.filter((item) =>
+      splitDay
+        ? toDayKey(getItemDate(item)) >= splitDay
+        : itemIds.includes(item.id),
+    );
+    const staying = items.filter((item) => !moving.includes(item));
+
+    if (moving.length === 0 || staying.length === 0) {
+      Alert.alert(
+        "Can't Split Trip",
+        "Both trips need to keep at least one activity or spot",
+      );
+      return null;
+    }
+
+    // Fixed dates are cut at the split day rather than fitted to the items
+    let keepRange = getItemsRange(staying);
+    let newRange = getItemsRange(moving);
+    if (trip.dates_locked) {
+      const tripStart = normalizeToLocal(new Date(trip.start_date));
+      const tripEnd = normalizeToLocal(new Date(trip.end_date));
+      if (splitDay) {
+        const dayBefore = fromDayKey(splitDay);
+        dayBefore.setDate(dayBefore.getDate() - 1);
+        const newStart = normalizeToLocal(fromDayKey(splitDay));
+        keepRange = [
+          tripStart,
+          normalizeToLocal(
+            new Date(Math.max(tripStart.getTime(), dayBefore.getTime())),
+          ),
+        ];
+        newRange = [
+          newStart,
+          new Date(Math.max(newStart.getTime(), tripEnd.getTime())),
+        ];
+      } else {
+        keepRange = [tripStart, tripEnd];
+      }
+    }
+
+    const movingPhotos = new Set<string>(
+      moving.flatMap((item) => [
+        ...(item.data?.photos || []),
+        ...(item.data?.visits || []).flatMap((v: any) => v.photos || []),
+      ]),
+    );
+    const coverMoves = !!trip.cover_photo && movingPhotos.has(trip.cover_photo);
+
+    const steps: TripEditStep[] = [];
+    let rolledBack = true;
+    try {
+      const { data: newTrip, error } = await supabase
+        .from("trips")
+        .insert({
+          name: name?.trim() || `${trip.name} (Part 2)`,
+          start_date: newRange[0].toISOString(),
+          end_date: newRange[1].toISOString(),
+          cover_photo: coverMoves ? trip.cover_photo : null,
+          cover_photo_position: coverMoves
+            ? trip.cover_photo_position || null
+            : null,
+          created_by: currentUserId,
+          auto_generated: trip.auto_generated || false,
+          dates_locked: trip.dates_locked || false,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      try {
+        // Reversed last, once everything has left the new trip
+        steps.push(async () => {
+          const { error: untagError } = await supabase
+            .from("trip_tags")
+            .delete()
+            .eq("trip_id", newTrip.id);
+          if (untagError) throw untagError;
+
+          const { error } = await supabase
+            .from("trips")
+            .delete()
+            .eq("id", newTrip.id);
+          if (error) throw error;
+        });
+
+        // Both halves are the same trip to the friends who were on it
+        await insertTripTags(
+          (trip.participants || []).map((p) => ({
+            trip_id: newTrip.id,
+            user_id: p.user_id,
+            role: p.role,
+            status: p.status,
+          })),
+        );
+
+        const moveToNewTrip = async (table: string, ids: string[]) => {
+          const movedIds = await moveTripRows(table, tripId, newTrip.id, ids);
+          steps.push(() => returnTripRows({ [table]: movedIds }, tripId));
+        };
+
+        await moveToNewTrip(
+          "trip_items",
+          moving.map((item) => item.id),
+        );
+        if (splitDay) {
+          await moveToNewTrip(
+            "trip_itinerary_items",
+            (trip.itinerary || [])
+              .filter((entry) => entry.day >= splitDay)
+              .map((entry) => entry.id),
+          );
+        }
+
+        const { data: journal, error: journalError } = await supabase
+          .from("journal_entries")
+          .select("id, created_at")
+          .eq("trip_id", tripId);
+
+        if (journalError) throw journalError;
+
+        const inRange = (day: string, range: [Date, Date]) =>
+          day >= toDayKey(range[0]) && day <= toDayKey(range[1]);
+        await moveToNewTrip(
+          "journal_entries",
+          (journal || [])
+            .filter((entry) => {
+              const day = toDayKey(entry.created_at);
+              return inRange(day, newRange) && !inRange(day, keepRange);
+            })
+            .map((entry) => entry.id),
+        );
+
+        const tripBefore = getTripFields(trip);
+        await writeTripFields(tripId, {
+          start_date: keepRange[0].toISOString(),
+          end_date: keepRange[1].toISOString(),
+          ...(coverMoves && { cover_photo: null, cover_photo_position: null }),
+        });
+        steps.push(() => writeTripFields(tripId, tripBefore));
+      } catch (error) {
+        rolledBack = await rollBackSteps(steps);
+        throw error;
+      }
+
+      await rememberTripEdit(
+        `Split "${trip.name}"`,
+        [tripId, newTrip.id],
+        steps,
+      );
+
+      await loadTrips();
+      return newTrip.id;
+    } catch (error) {
+      console.error("Error splitting trip:", error);
+      Alert.alert(
+        "Error",
+        rolledBack
+          ? "Failed to split trip"
+          : "Failed to split trip, and some changes couldn't be reversed. Check both trips.",
+      );
+      await loadTrips();
+      return null;
+    }
+  };
+
+  /**
+   * Reverses the last merge or split, unless someone has changed the
+   * trips since. Returns true if it was undone
+   */
+  const undoLastTripEdit = async (): Promise<boolean> => {
+    const edit = lastTripEditRef.current;
+    if (!edit) return false;
+
+    try {
+      if ((await snapshotTrips(edit.tripIds)) !== edit.snapshot) {
+        setTripEdit(null);
+        Alert.alert(
+          "Can't Undo",
+          "These trips have been changed since, so they can't be put back",
+        );
+        return false;
+      }
+
+      await edit.undo();
+      setTripEdit(null);
+      await loadTrips();
+      return true;
+    } catch (error) {
+      console.error("Error undoing trip change:", error);
+      Alert.alert("Error", "Failed to undo. Try again to finish putting the trips back.");
+      // The steps that worked are done - let a retry pick up from here
+      try {
+        setTripEdit({ ...edit, snapshot: await snapshotTrips(edit.tripIds) });
+      } catch (snapshotError) {
+        setTripEdit(null);
+      }
+      await loadTrips();
+      return false;
+    }
+  };
+
   const getSharedTrips = (): Trip[] => {
     if (!currentUserId) return [];
     return trips.filter(
@@ -1130,173 +2334,68 @@ export const TripProvider: React.FC<{ children: React.ReactNode }> = ({
       const now = new Date();
       const thirtyDaysAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
 
-      const allItems = [
-        ...activities.map((a) => ({
-          type: "activity" as const,
-          data: a,
-          date: a.activityDate || a.startTime,
-          location: a.route?.[0] || null,
-        })),
-        ...savedSpots.map((s) => ({
-          type: "spot" as const,
-          data: s,
-          date: s.locationDate || s.timestamp || new Date(),
-          location: s.location,
-        })),
-      ].filter((item) => {
-        if (!item.date) return false;
-        const itemDate = new Date(item.date);
-        return itemDate >= thirtyDaysAgo && itemDate <= now;
-      });
-
-      const itemsNotInTrips = [];
-      for (const item of allItems) {
-        const { data: existingTripItem } = await supabase
-          .from("trip_items")
-          .select("id")
-          .eq("type", item.type)
-          .eq("data->>id", item.data.id)
-          .single();
-
-        const { data: rejection } = await supabase
-          .from("trip_items_rejection")
-          .select("id")
-          .eq("user_id", currentUserId)
-          .eq("item_id", item.data.id)
-          .eq("item_type", item.type)
-          .single();
-
-        if (!existingTripItem && !rejection) {
-          itemsNotInTrips.push(item);
-        }
-      }
-
-      if (itemsNotInTrips.length === 0) {
-        autoDetectionInProgress.current = false;
-        return;
-      }
-
-      const clusters: TripCluster[] = [];
-
-      for (const item of itemsNotInTrips) {
-        let addedToCluster = false;
-
-        for (const cluster of clusters) {
-          const clusterStart = new Date(
-            Math.min(
-              ...cluster.items.map((i: any) => new Date(i.date).getTime()),
-            ),
-          );
-          const clusterEnd = new Date(
-            Math.max(
-              ...cluster.items.map((i: any) => new Date(i.date).getTime()),
-            ),
-          );
-          const itemDate = new Date(item.date);
-
-          const daysBetween =
-            Math.abs(clusterEnd.getTime() - clusterStart.getTime()) /
-            (1000 * 60 * 60 * 24);
-          const maxDaysForClustering = daysBetween <= 7 ? 7 : 14; // Changed from 2:7
-
-          const expandedStart = new Date(clusterStart);
-          expandedStart.setDate(expandedStart.getDate() - maxDaysForClustering);
-          const expandedEnd = new Date(clusterEnd);
-          expandedEnd.setDate(expandedEnd.getDate() + maxDaysForClustering);
-
-          if (itemDate >= expandedStart && itemDate <= expandedEnd) {
-            if (item.location && cluster.items.some((ci: any) => ci.location)) {
-              const isNearby = cluster.items.some(
-                (ci: any) =>
-                  ci.location &&
-                  areLocationsNearby(item.location, ci.location, 50),
-              );
-              if (isNearby) {
-                cluster.items.push(item);
-                addedToCluster = true;
-                break;
-              }
-            } else if (
-              !item.location ||
-              cluster.items.every((ci: any) => !ci.location)
-            ) {
-              cluster.items.push(item);
-              addedToCluster = true;
-              break;
-            }
-          }
-        }
-
-        if (!addedToCluster) {
-          clusters.push({
-            id: `cluster-${Date.now()}-${Math.random()}`,
-            suggestedName: "",
-            startDate: new Date(item.date),
-            endDate: new Date(item.date),
-            items: [item],
-            spotCount: 0,
-            activityCount: 0,
-          });
-        }
-      }
-
-      const validClusters = clusters.filter((cluster) => {
-        if (cluster.items.length < 2) {
-          return false;
-        }
+      // Detect over everything so home can be inferred when it isn't set,
+      // then only offer trips that ended recently
+      const home = await MemoryNotificationService.getHomeLocation(currentUserId);
+      const suggestions = TripDetector.detectTrips(activities, savedSpots, trips, {
+        home,
+      }).filter(({ trip }) => trip.end_date >= thirtyDaysAgo && trip.start_date <= now);
+
+      const validClusters: TripCluster[] = [];
+      for (const { trip } of suggestions) {
+        const items = [];
+        for (const tripItem of trip.items) {
+          const item =
+            tripItem.type === "activity"
+              ? {
+                  type: "activity" as const,
+                  data: tripItem.data,
+                  date: tripItem.data.activityDate || tripItem.data.startTime,
+                  location: tripItem.data.route?.[0] || null,
+                }
+              : {
+                  type: "spot" as const,
+                  data: tripItem.data,
+                  date: tripItem.data.locationDate || tripItem.data.timestamp,
+                  location: tripItem.data.location,
+                };
+
+          // Trips shared with the user aren't in the detector's list
+          const { data: existingTripItem } = await supabase
+            .from("trip_items")
+            .select("id")
+            .eq("type", item.type)
+            .eq("data->>id", item.data.id)
+            .single();
 
-        const clusterDates = cluster.items.map((i: any) => new Date(i.date));
-        const earliestDate = new Date(
-          Math.min(...clusterDates.map((d) => d.getTime())),
-        );
-        const latestDate = new Date(
-          Math.max(...clusterDates.map((d) => d.getTime())),
-        );
-        const daySpan =
-          Math.abs(latestDate.getTime() - earliestDate.getTime()) /
-          (1000 * 60 * 60 * 24);
+          const { data: rejection } = await supabase
+            .from("trip_items_rejection")
+            .select("id")
+            .eq("user_id", currentUserId)
+            .eq("item_id", item.data.id)
+            .eq("item_type", item.type)
+            .single();
 
-        if (daySpan <= 1) {
-          const fourteenDaysAgo = new Date(
-            now.getTime() - 14 * 24 * 60 * 60 * 1000,
-          );
-          if (latestDate < fourteenDaysAgo) {
-            return false;
+          if (!existingTripItem && !rejection) {
+            items.push(item);
           }
         }
 
-        return true;
-      });
+        if (items.length < 2) continue;
 
-      for (const cluster of validClusters) {
-        const dates = cluster.items.map((i: any) => new Date(i.date));
-        cluster.startDate = new Date(
-          Math.min(...dates.map((d) => d.getTime())),
-        );
-        cluster.endDate = new Date(Math.max(...dates.map((d) => d.getTime())));
-        cluster.spotCount = cluster.items.filter(
-          (i: any) => i.type === "spot",
-        ).length;
-        cluster.activityCount = cluster.items.filter(
-          (i: any) => i.type === "activity",
-        ).length;
-
-        const daySpan =
-          Math.abs(cluster.endDate.getTime() - cluster.startDate.getTime()) /
-          (1000 * 60 * 60 * 24);
-
-        if (daySpan <= 1) {
-          cluster.suggestedName = `Day Trip - ${cluster.startDate.toLocaleDateString()}`;
-        } else if (daySpan <= 3) {
-          cluster.suggestedName = `Weekend Trip - ${cluster.startDate.toLocaleDateString()}`;
-        } else {
-          const dateRange = `${cluster.startDate.toLocaleDateString()} - ${cluster.endDate.toLocaleDateString()}`;
-          cluster.suggestedName = `Trip ${dateRange}`;
-        }
-
-        cluster.totalDistance = cluster.items
-          .filter((i: any) => i.type === "activity" && i.data.distance)
-          .reduce((sum: number, i: any) => sum + (i.data.distance || 0), 0);
+        validClusters.push({
+          id: trip.id,
+          suggestedName:
+            (await TripNameService.suggestName({ ...trip, items })) || trip.name,
+          startDate: trip.start_date,
+          endDate: trip.end_date,
+          items,
+          spotCount: items.filter((i) => i.type === "spot").length,
+          activityCount: items.filter((i) => i.type === "activity").length,
+          totalDistance: items
+            .filter((i) => i.type === "activity")
+            .reduce((sum, i) => sum + (i.data.distance || 0), 0),
+        });
       }
 
       if (validClusters.length > 0) {
@@ -1548,6 +2647,7 @@ export const TripProvider: React.FC<{ children: React.ReactNode }> = ({
     <TripContext.Provider
       value={{
         trips,
+        tripInvites,
         currentUserId,
         loading,
         createTrip,
@@ -1555,9 +2655,20 @@ export const TripProvider: React.FC<{ children: React.ReactNode }> = ({
         deleteTrip,
         addToTrip,
         removeFromTrip,
+        addItineraryItem,
+        updateItineraryItem,
+        removeItineraryItem,
         tagFriend,
+        inviteToTrip,
+        respondToInvite,
+        setParticipantRole,
         untagFriend,
         mergeTripWithShared,
+        mergeTrips,
+        splitTrip,
+        lastTripEdit,
+        undoLastTripEdit,
+        dismissLastTripEdit,
         getSharedTrips,
         getMyTrips,
         runAutoDetection,
@@ -289,6 +289,17 @@ export const WishlistProvider: React.FC<{ children: ReactNode }> = ({ children }
       const item = wishlistItems.find((item) => item.id === id);
       if (!item) return null;
 
+      // Tick off any trip itinerary entries planned from this item
+      const { error: itineraryError } = await supabase
+        .from('trip_itinerary_items')
+        .update({ completed_at: new Date().toISOString() })
+        .eq('wishlist_item_id', id)
+        .is('completed_at', null);
+
+      if (itineraryError) {
+        console.error('Error completing itinerary items:', itineraryError);
+      }
+
       // Remove from wishlist
       await removeWishlistItem(id);
 
@@ -0,0 +1,39 @@
+import { useCallback, useRef, useState } from "react";
+import { PassphraseMode } from "../components/PassphraseModal";
+
+/**
+ * Ask for a passphrase from async code
+ * Spread passphraseModalProps onto a PassphraseModal; requestPassphrase
+ * resolves with what was entered, or null if cancelled
+ */
+export function usePassphrasePrompt() {
+  const [mode, setMode] = useState<PassphraseMode | null>(null);
+  const resolver = useRef<((passphrase: string | null) => void) | null>(null);
+
+  const finish = useCallback((passphrase: string | null) => {
+    resolver.current?.(passphrase);
+    resolver.current = null;
+    setMode(null);
+  }, []);
+
+  const requestPassphrase = useCallback(
+    (requestMode: PassphraseMode = "enter") =>
+      new Promise<string | null>((resolve) => {
+        // A newer request replaces one still showing
+        resolver.current?.(null);
+        resolver.current = resolve;
+        setMode(requestMode);
+      }),
+    []
+  );
+
+  return {
+    requestPassphrase,
+    passphraseModalProps: {
+      visible: mode !== null,
+      mode: mode || "enter",
+      onSubmit: (passphrase: string) => finish(passphrase),
+      onCancel: () => finish(null),
+    },
+  };
+}
@@ -0,0 +1,157 @@
+import { deriveKey } from '../../utils/crypto';
+import { BackupKey, BackupService } from '../backupService';
+
+// In-memory stand-in for the expo-file-system File API
+jest.mock('expo-file-system', () => {
+  const files = new Map<string, Uint8Array>();
+  const downloads = new Map<string, Uint8Array>();
+  const join = (...parts: any[]) =>
+    parts.map(part => (typeof part === 'string' ? part : part.uri)).join('/');
+
+  class Directory {
+    uri: string;
+    constructor(...uris: any[]) {
+      this.uri = join(...uris);
+    }
+  }
+
+  class File {
+    uri: string;
+    constructor(...uris: any[]) {
+      this.uri = join(...uris);
+    }
+    get exists() {
+      return files.has(this.uri);
+    }
+    get size() {
+      return files.get(this.uri)!.length;
+    }
+    create() {
+      files.set(this.uri, new Uint8Array(0));
+    }
+    delete() {
+      files.delete(this.uri);
+    }
+    write(content: string | Uint8Array) {
+      files.set(this.uri, typeof content === 'string' ? new TextEncoder().encode(content) : content.slice());
+    }
+    async bytes() {
+      return files.get(this.uri)!.slice();
+    }
+    async text() {
+      return new TextDecoder().decode(files.get(this.uri));
+    }
+    open() {
+      const uri = this.uri;
+      return {
+        offset: 0 as number | null,
+        readBytes(length: number) {
+          const start = this.offset ?? 0;
+          this.offset = start + length;
+          return files.get(uri)!.slice(start, start + length);
+        },
+        writeBytes(chunk: Uint8Array) {
+          const current = files.get(uri)!;
+          const grown = new Uint8Array(current.length + chunk.length);
+          grown.set(current);
+          grown.set(chunk, current.length);
+          files.set(uri, grown);
+        },
+        close() {},
+      };
+    }
+    static async downloadFileAsync(url: string, to: File) {
+      const bytes = downloads.get(url);
+      if (!bytes) throw new Error('response has status 404');
+      files.set(to.uri, bytes);
+      return new File(to.uri);
+    }
+  }
+
+  return {
+    File,
+    Directory,
+    Paths: { cache: new Directory('file:///cache'), document: new Directory('file:///document') },
+    mockDownloads: downloads,
+  };
+});
+
+jest.mock('expo-crypto', () => ({
+  getRandomBytes: (length: number) => Uint8Array.from(require('crypto').randomBytes(length)),
+}));
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const mockTables: Record<string, any[]> = {};
+
+jest.mock('../../lib/supabase', () => ({
+  supabase: {
+    from: (table: string) => ({
+      select: () => ({
+        eq: async () => ({ data: mockTables[table] || [], error: null }),
+        in: async () => ({ data: mockTables[table] || [], error: null }),
+      }),
+    }),
+  },
+}));
+
+const PHOTO_URL = 'https://example.supabase.co/storage/v1/object/public/photos/user-1/spots/lake.jpg';
+const MISSING_URL = 'https://example.supabase.co/storage/v1/object/public/photos/user-1/gone.jpg';
+const photo = Uint8Array.from({ length: 5000 }, (_, i) => (i * 31) % 256);
+
+beforeAll(() => {
+  // MISSING_URL is skipped with a warning
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  require('expo-file-system').mockDownloads.set(PHOTO_URL, photo);
+  mockTables.locations = [
+    { id: 'spot-1', user_id: 'user-1', name: 'Lake', photos: [PHOTO_URL, MISSING_URL] },
+  ];
+  mockTables.activities = [{ id: 'activity-1', user_id: 'user-1', name: 'Walk', photos: [] }];
+});
+
+describe('BackupService backups', () => {
+  it('stores photos in the archive and reads them back', async () => {
+    const uri = 'file:///document/backup.zip';
+    await BackupService.writeBackup(uri, 'user-1', { units: 'metric' });
+
+    const archive = (await BackupService.openBackup(uri))!;
+    const entries = Object.entries(archive.manifest.files);
+
+    expect(entries).toHaveLength(1);
+    const [key, entry] = entries[0];
+    expect(entry).toMatchObject({ url: PHOTO_URL, bucket: 'photos', path: 'user-1/spots/lake.jpg' });
+    expect(archive.readFile!(key)).toEqual(photo);
+    expect(archive.tables.locations).toEqual(mockTables.locations);
+    expect(archive.settings).toEqual({ units: 'metric' });
+  });
+
+  it('stores photos in encrypted archives', async () => {
+    const uri = 'file:///document/backup_encrypted.zip';
+    // One iteration keeps the test quick - createKey uses the real count
+    const salt = Uint8Array.from({ length: 16 }, (_, i) => i);
+    const key: BackupKey = {
+      iterations: 1,
+      salt,
+      key: await deriveKey('correct horse', { kdf: 'PBKDF2-SHA256', iterations: 1, salt }),
+    };
+
+    await BackupService.writeBackup(uri, 'user-1', {}, { key });
+
+    const archive = (await BackupService.openBackup(uri, async () => 'correct horse'))!;
+    const [fileKey] = Object.keys(archive.manifest.files);
+    expect(archive.readFile!(fileKey)).toEqual(photo);
+
+    await expect(BackupService.openBackup(uri, async () => 'wrong')).rejects.toThrow('Wrong passphrase');
+  });
+
+  it('leaves photos as links in data-only backups', async () => {
+    const uri = 'file:///document/backup_data.zip';
+    await BackupService.writeBackup(uri, 'user-1', {}, { includePhotos: false });
+
+    const archive = (await BackupService.openBackup(uri))!;
+    expect(archive.manifest.files).toEqual({});
+    expect(archive.tables.locations[0].photos).toEqual([PHOTO_URL, MISSING_URL]);
+  });
+});
@@ -0,0 +1,114 @@
+import { ExpenseService, TripExpense } from '../expenseService';
+
+jest.mock('../../lib/supabase', () => ({ supabase: {} }));
+
+const expense = (
+  amount: number,
+  paid_by: string,
+  participants: string[],
+  currency = 'EUR'
+): TripExpense => ({
+  id: `${paid_by}-${amount}`,
+  trip_id: 'trip',
+  description: 'Dinner',
+  amount,
+  currency,
+  paid_by,
+  participants,
+  category: 'food',
+  spent_at: new Date(2024, 5, 1),
+  created_by: paid_by,
+  created_at: new Date(2024, 5, 1),
+});
+
+const total = (balances: Record<string, number>) =>
+  Math.round(Object.values(balances).reduce((sum, amount) => sum + amount, 0) * 100);
+
+describe('ExpenseService.calculateBalances', () => {
+  it('splits evenly between participants', () => {
+    const balances = ExpenseService.calculateBalances([
+      expense(90, 'ana', ['ana', 'ben', 'cat']),
+    ]);
+
+    expect(balances).toEqual({ EUR: { ana: 60, ben: -30, cat: -30 } });
+  });
+
+  it('gives leftover cents to the first participants and still balances', () => {
+    const balances = ExpenseService.calculateBalances([
+      expense(10, 'ana', ['ana', 'ben', 'cat']),
+    ]);
+
+    expect(balances.EUR).toEqual({ ana: 6.66, ben: -3.33, cat: -3.33 });
+    expect(total(balances.EUR)).toBe(0);
+  });
+
+  it('credits a payer who had no share of the cost', () => {
+    const balances = ExpenseService.calculateBalances([
+      expense(40, 'ana', ['ben', 'cat']),
+    ]);
+
+    expect(balances.EUR).toEqual({ ana: 40, ben: -20, cat: -20 });
+  });
+
+  it('keeps currencies apart and skips expenses nobody shared', () => {
+    const balances = ExpenseService.calculateBalances([
+      expense(20, 'ana', ['ana', 'ben']),
+      expense(3000, 'ben', ['ana', 'ben'], 'JPY'),
+      expense(50, 'cat', []),
+    ]);
+
+    expect(balances).toEqual({
+      EUR: { ana: 10, ben: -10 },
+      JPY: { ana: -1500, ben: 1500 },
+    });
+  });
+});
+
+describe('ExpenseService.settleUp', () => {
+  it('settles every balance with the fewest payments', () => {
+    const balances = ExpenseService.calculateBalances([
+      expense(120, 'ana', ['ana', 'ben', 'cat', 'dan']),
+      expense(40, 'ben', ['ana', 'ben', 'cat', 'dan']),
+    ]);
+    const settlements = ExpenseService.settleUp(balances);
+
+    expect(settlements).toEqual([
+      { from: 'cat', to: 'ana', amount: 40, currency: 'EUR' },
+      { from: 'dan', to: 'ana', amount: 40, currency: 'EUR' },
+    ]);
+  });
+
+  it('leaves everyone even after paying', () => {
+    const balances = ExpenseService.calculateBalances([
+      expense(100, 'ana', ['ana', 'ben', 'cat']),
+      expense(35.5, 'ben', ['ben', 'cat']),
+      expense(12.34, 'cat', ['ana', 'cat', 'dan']),
+      expense(8000, 'dan', ['ana', 'dan'], 'JPY'),
+    ]);
+    const settled: Record<string, Record<string, number>> = {};
+    for (const [currency, members] of Object.entries(balances)) {
+      settled[currency] = Object.fromEntries(
+        Object.entries(members).map(([userId, amount]) => [userId, Math.round(amount * 100)])
+      );
+    }
+
+    for (const payment of ExpenseService.settleUp(balances)) {
+      expect(payment.amount).toBeGreaterThan(0);
+      settled[payment.currency][payment.from] += Math.round(payment.amount * 100);
+      settled[payment.currency][payment.to] -= Math.round(payment.amount * 100);
+    }
+
+    for (const members of Object.values(settled)) {
+      Object.values(members).forEach(cents => expect(cents).toBe(0));
+    }
+  });
+
+  it('needs no payments when everyone is even', () => {
+    const balances = ExpenseService.calculateBalances([
+      expense(30, 'ana', ['ana', 'ben']),
+      expense(30, 'ben', ['ana', 'ben']),
+    ]);
+
+    expect(ExpenseService.settleUp(balances)).toEqual([]);
+  });
+});
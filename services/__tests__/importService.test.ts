@@ -0,0 +1,90 @@
+import { SavedSpot } from '../../contexts/LocationContext';
+import { WishlistItem } from '../../contexts/WishlistContext';
+import { ImportedSpot, ImportService } from '../importService';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../../lib/supabase', () => ({ supabase: {} }));
+
+const place = (name: string, latitude: number, longitude: number): ImportedSpot => ({
+  name,
+  location: { latitude, longitude },
+  category: 'other',
+});
+
+describe('ImportService.parseLocaleNumber', () => {
+  it.each([
+    ['46.5197', 46.5197],
+    ['46,5197', 46.5197],
+    ['-0,1278', -0.1278],
+    ['1,234.56', 1234.56],
+    ['1.234,56', 1234.56],
+    ['1 234,56', 1234.56],
+    ["1'234.56", 1234.56],
+    ['1.234.567', 1234567],
+    ['1,234,567', 1234567],
+    ['12', 12],
+  ])('reads %s', (value, expected) => {
+    expect(ImportService.parseLocaleNumber(value)).toBe(expected);
+  });
+
+  it('returns NaN for text', () => {
+    expect(ImportService.parseLocaleNumber('north')).toBeNaN();
+  });
+});
+
+describe('ImportService.buildPlacesPreview', () => {
+  const spot = { name: 'Lake', location: { latitude: 46.5, longitude: 7.9 } } as SavedSpot;
+  const wish = { name: 'Summit', location: { latitude: 46.6, longitude: 8.0 } } as WishlistItem;
+
+  it('flags places that are already saved', () => {
+    const [lake, summit] = ImportService.buildPlacesPreview(
+      [place('Lake', 46.5, 7.9), place('Summit', 46.6, 8.0)],
+      [spot],
+      [wish]
+    );
+
+    expect(lake.duplicateOf).toBe('Lake');
+    expect(lake.wishlistDuplicateOf).toBeUndefined();
+    expect(summit.duplicateOf).toBeUndefined();
+    expect(summit.wishlistDuplicateOf).toBe('Summit');
+  });
+
+  it('only flags repeats within the file as spot duplicates', () => {
+    const [first, repeat] = ImportService.buildPlacesPreview(
+      [place('Hut', 45.9, 6.8), place('Hut', 45.9, 6.8)],
+      [],
+      []
+    );
+
+    expect(first.duplicateOf).toBeUndefined();
+    expect(repeat.duplicateOf).toBe('Hut');
+    expect(repeat.wishlistDuplicateOf).toBeUndefined();
+  });
+});
+
+describe('ImportService.parseTCX', () => {
+  const trackpoint = (seconds: number, altitude: string) => `
+    <Trackpoint>
+      <Time>2024-06-01T08:00:${String(seconds).padStart(2, '0')}Z</Time>
+      <Position>
+        <LatitudeDegrees>${43.7 + seconds * 0.0001}</LatitudeDegrees>
+        <LongitudeDegrees>7.26</LongitudeDegrees>
+      </Position>
+      ${altitude}
+    </Trackpoint>`;
+
+  it('keeps sea-level altitudes and drops missing ones', () => {
+    const xml = `<TrainingCenterDatabase><Activities><Activity Sport="Running">
+      <Lap StartTime="2024-06-01T08:00:00Z"><Track>
+        ${trackpoint(0, '<AltitudeMeters>0</AltitudeMeters>')}
+        ${trackpoint(10, '<AltitudeMeters>2.5</AltitudeMeters>')}
+        ${trackpoint(20, '')}
+      </Track></Lap>
+    </Activity></Activities></TrainingCenterDatabase>`;
+
+    const [activity] = ImportService.parseTCX(xml).activities;
+    expect(activity.route.map(point => point.altitude)).toEqual([0, 2.5, undefined]);
+  });
+});
@@ -0,0 +1,321 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { decode, encode } from 'base64-arraybuffer';
+import { Directory, File, Paths } from 'expo-file-system';
+import * as SecureStore from 'expo-secure-store';
+import * as TaskManager from 'expo-task-manager';
+import { AppState, NativeEventSubscription } from 'react-native';
+// Only import BackgroundFetch if not in Expo Go
+let BackgroundFetch: any = null;
+try {
+  BackgroundFetch = require('expo-background-fetch');
+} catch (e) {
+  console.log('BackgroundFetch not available in Expo Go');
+}
+import { supabase } from '../lib/supabase';
+import { BackupKey, BackupService } from './backupService';
+import { ExportService } from './exportService';
+
+const AUTO_BACKUP_TASK = 'background-auto-backup';
+const STATUS_KEY = 'autoBackupStatus';
+const BACKUP_DIRECTORY = 'backups';
+const FILE_PREFIX = 'explorable_auto_';
+const FULL_SUFFIX = '_full.zip';
+const DATA_SUFFIX = '_data.zip';
+const PARTIAL_SUFFIX = '.partial';
+// Derived from the passphrase once, so background runs don't have to
+const KEY_STORE_KEY = 'autoBackupKey';
+const CHECK_INTERVAL = 60 * 60 * 12; // Wake twice a day and decide whether a backup is due
+// Background fetch timing drifts, so allow a backup a little early rather than skip a whole period
+const SCHEDULE_SLACK = 2 * 60 * 60 * 1000;
+
+export type AutoBackupFrequency = 'daily' | 'weekly';
+
+// full includes photos; data leaves photos as links to storage
+export type AutoBackupKind = 'full' | 'data';
+
+export const AUTO_BACKUP_KEEP_OPTIONS = [3, 5, 10];
+export const DEFAULT_AUTO_BACKUP_KEEP = 5;
+
+const FREQUENCY_MS: Record<AutoBackupFrequency, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+export interface AutoBackupStatus {
+  lastSuccessAt?: string;
+  lastFullAt?: string;
+  lastUri?: string;
+  lastSize?: string;
+  lastAttemptAt?: string;
+  lastError?: string;
+}
+
+export class AutoBackupService {
+  private static running = false;
+  private static appStateSubscription: NativeEventSubscription | null = null;
+
+  /**
+   * Register the background task if automatic backups are on, and make
+   * the full backup with photos whenever the app comes to the foreground
+   * and one is due. Call when the app starts
+   */
+  static async initialize() {
+    const settings = await this.loadSettings();
+    await this.configure(settings.autoBackupEnabled === true);
+
+    if (!this.appStateSubscription) {
+      this.appStateSubscription = AppState.addEventListener('change', state => {
+        if (state === 'active') this.runInForeground();
+      });
+    }
+    this.runInForeground();
+  }
+
+  /**
+   * Start or stop the background backup task
+   */
+  static async configure(enabled: boolean) {
+    if (!BackgroundFetch) {
+      return;
+    }
+
+    try {
+      const registered = await TaskManager.isTaskRegisteredAsync(AUTO_BACKUP_TASK);
+      if (enabled && !registered) {
+        await BackgroundFetch.registerTaskAsync(AUTO_BACKUP_TASK, {
+          minimumInterval: CHECK_INTERVAL,
+          stopOnTerminate: false,
+          startOnBoot: true,
+        });
+      } else if (!enabled && registered) {
+        await BackgroundFetch.unregisterTaskAsync(AUTO_BACKUP_TASK);
+      }
+    } catch (err) {
+      console.log('Auto backup registration failed:', err);
+    }
+  }
+
+  /**
+   * Make a backup if automatic backups are on and the last one of this
+   * kind is old enough. A full backup counts for both kinds.
+   * Background fetch only gets about 30 seconds, so the task makes data
+   * backups and photos wait for the app to be opened.
+   * Returns true when a new backup was written
+   */
+  static async runIfDue(kind: AutoBackupKind): Promise<boolean> {
+    const settings = await this.loadSettings();
+    if (settings.autoBackupEnabled !== true || this.running) return false;
+
+    const status = await this.getStatus();
+    const frequency: AutoBackupFrequency = settings.autoBackupFrequency || 'weekly';
+    const last = kind === 'full' ? status.lastFullAt : status.lastSuccessAt;
+    if (last) {
+      const elapsed = Date.now() - new Date(last).getTime();
+      if (elapsed < FREQUENCY_MS[frequency] - SCHEDULE_SLACK) return false;
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return false;
+
+    await this.runBackup(user.id, settings, kind);
+    return true;
+  }
+
+  /**
+   * Set the passphrase automatic backups are encrypted with, or null
+   * to stop encrypting them. Only the derived key is stored, in the
+   * device keychain.
+   */
+  static async setPassphrase(passphrase: string | null): Promise<void> {
+    if (!passphrase) {
+      await SecureStore.deleteItemAsync(KEY_STORE_KEY);
+      return;
+    }
+
+    const { iterations, salt, key } = await BackupService.createKey(passphrase);
+    await SecureStore.setItemAsync(
+      KEY_STORE_KEY,
+      JSON.stringify({ iterations, salt: this.toBase64(salt), key: this.toBase64(key) }),
+      // Background backups run while the phone is locked
+      { keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK }
+    );
+  }
+
+  static async isEncrypted(): Promise<boolean> {
+    try {
+      return (await this.loadKey()) !== undefined;
+    } catch (error) {
+      console.error('Error loading auto backup key:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Write a backup to the app's backup folder and drop the oldest
+   * copies beyond the user's limit
+   */
+  static async runBackup(
+    userId: string,
+    settings?: any,
+    kind: AutoBackupKind = 'full'
+  ): Promise<AutoBackupStatus> {
+    if (this.running) {
+      throw new Error('A backup is already in progress');
+    }
+
+    this.running = true;
+    const previous = await this.getStatus();
+    const attemptAt = new Date().toISOString();
+
+    try {
+      const backupSettings = settings || (await this.loadSettings());
+      const directory = this.backupDirectory();
+      directory.create({ intermediates: true, idempotent: true });
+
+      // Sortable timestamp so pruning can go by name
+      const stamp = attemptAt.replace(/[:.]/g, '-');
+      const name = `${FILE_PREFIX}${stamp}${kind === 'full' ? FULL_SUFFIX : DATA_SUFFIX}`;
+
+      // Written under another name first, so a run the system cuts short
+      // never looks like a finished backup
+      const file = new File(directory, `${name}${PARTIAL_SUFFIX}`);
+      await BackupService.writeBackup(file.uri, userId, backupSettings, {
+        key: await this.loadKey(),
+        includePhotos: kind === 'full',
+      });
+      file.rename(name);
+      const uri = file.uri;
+
+      await this.prune(backupSettings.autoBackupKeep || DEFAULT_AUTO_BACKUP_KEEP);
+
+      const status: AutoBackupStatus = {
+        lastSuccessAt: attemptAt,
+        lastFullAt: kind === 'full' ? attemptAt : previous.lastFullAt,
+        lastUri: uri,
+        lastSize: await ExportService.getFileSize(uri),
+        lastAttemptAt: attemptAt,
+      };
+      await AsyncStorage.setItem(STATUS_KEY, JSON.stringify(status));
+      return status;
+    } catch (error: any) {
+      console.error('Automatic backup failed:', error);
+      const status: AutoBackupStatus = {
+        ...previous,
+        lastAttemptAt: attemptAt,
+        lastError: error?.message || 'Backup failed',
+      };
+      await AsyncStorage.setItem(STATUS_KEY, JSON.stringify(status));
+      throw error;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  static async getStatus(): Promise<AutoBackupStatus> {
+    try {
+      const stored = await AsyncStorage.getItem(STATUS_KEY);
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('Error loading auto backup status:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Backup files on this device, newest first
+   */
+  static async listBackups(): Promise<string[]> {
+    try {
+      return this.listFiles()
+        .filter(file => file.name.startsWith(FILE_PREFIX) && !file.name.endsWith(PARTIAL_SUFFIX))
+        .map(file => file.uri)
+        .sort()
+        .reverse();
+    } catch (error) {
+      console.error('Error listing backups:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Keep the newest backups up to the limit, but only the newest full
+   * one - photos take far more space than everything else
+   */
+  private static async prune(keep: number) {
+    const backups = await this.listBackups();
+    const newestFull = backups.find(uri => uri.endsWith(FULL_SUFFIX));
+
+    const stale = backups.filter(
+      (uri, index) => uri !== newestFull && (index >= keep || uri.endsWith(FULL_SUFFIX))
+    );
+
+    // Left behind by runs that were cut short
+    stale.push(...this.listFiles().filter(file => file.name.endsWith(PARTIAL_SUFFIX)).map(file => file.uri));
+
+    for (const uri of stale) {
+      try {
+        const file = new File(uri);
+        if (file.exists) file.delete();
+      } catch (error) {
+        console.error('Error removing old backup:', error);
+      }
+    }
+  }
+
+  private static backupDirectory(): Directory {
+    return new Directory(Paths.document, BACKUP_DIRECTORY);
+  }
+
+  // Files in the backup folder, or none if no backup has been made yet
+  private static listFiles(): File[] {
+    const directory = this.backupDirectory();
+    if (!directory.exists) return [];
+    return directory.list().filter((entry): entry is File => entry instanceof File);
+  }
+
+  private static runInForeground() {
+    this.runIfDue('full').catch(error => console.log('Foreground auto backup failed:', error));
+  }
+
+  // Throws rather than returning nothing, so a keychain error never
+  // turns into an unencrypted backup
+  private static async loadKey(): Promise<BackupKey | undefined> {
+    const stored = await SecureStore.getItemAsync(KEY_STORE_KEY);
+    if (!stored) return undefined;
+    const { iterations, salt, key } = JSON.parse(stored);
+    return {
+      iterations,
+      salt: new Uint8Array(decode(salt)),
+      key: new Uint8Array(decode(key)),
+    };
+  }
+
+  private static toBase64(bytes: Uint8Array): string {
+    return encode(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer);
+  }
+
+  // The background task runs outside React, so read settings straight from storage
+  private static async loadSettings(): Promise<any> {
+    try {
+      const stored = await AsyncStorage.getItem('explorableSettings');
+      return stored ? JSON.parse(stored) : {};
+    } catch (error) {
+      console.error('Error loading settings for auto backup:', error);
+      return {};
+    }
+  }
+}
+
+// Task manager definitions
+TaskManager.defineTask(AUTO_BACKUP_TASK, async () => {
+  try {
+    const backedUp = await AutoBackupService.runIfDue('data');
+    if (!BackgroundFetch) return 0;
+    return backedUp
+      ? BackgroundFetch.BackgroundFetchResult.NewData
+      : BackgroundFetch.BackgroundFetchResult.NoData;
+  } catch (error) {
+    console.error('Auto backup task error:', error);
+    return BackgroundFetch ? BackgroundFetch.BackgroundFetchResult.Failed : 2;
+  }
+});
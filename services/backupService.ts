@@ -0,0 +1,1123 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { decode, encode } from 'base64-arraybuffer';
+import * as Crypto from 'expo-crypto';
+import { File, Paths } from 'expo-file-system';
+import { Activity } from '../contexts/ActivityContext';
+import { SavedSpot } from '../contexts/LocationContext';
+import { WishlistItem } from '../contexts/WishlistContext';
+import { supabase } from '../lib/supabase';
+import { deriveKey, KDF_ITERATIONS, NONCE_BYTES, open, SALT_BYTES, seal } from '../utils/crypto';
+import { sha256Hex, utf8Encode } from '../utils/hash';
+import {
+  createZipWriter,
+  readZipDirectory,
+  readZipEntry,
+  ZipDirectoryEntry,
+  ZipSource,
+} from '../utils/zip';
+import type { ExportData } from './exportService';
+import { ImportService } from './importService';
+
+export type BackupTable =
+  | 'activities'
+  | 'locations'
+  | 'wishlist_items'
+  | 'trips'
+  | 'trip_items'
+  | 'trip_tags'
+  | 'journal_entries';
+
+// Restore order - parents before the rows that point at them
+const BACKUP_TABLES: BackupTable[] = [
+  'activities',
+  'locations',
+  'wishlist_items',
+  'trips',
+  'trip_items',
+  'trip_tags',
+  'journal_entries',
+];
+
+export interface BackupFileEntry {
+  url: string; // Public URL the photo had when the backup was made
+  bucket: string;
+  path: string;
+  size: number;
+  checksum: string; // SHA-256 of the file bytes
+}
+
+export interface BackupManifest {
+  tables: Record<BackupTable, { count: number; checksum: string }>;
+  files: Record<string, BackupFileEntry>;
+}
+
+/**
+ * Version 2 backup: every row the user owns, as stored in Supabase,
+ * plus the photo files themselves so nothing depends on the old account
+ *
+ * On disk this is a ZIP with archive.json and one photos/<key> entry per
+ * photo, so a backup never has to fit in memory all at once.
+ */
+export interface BackupArchive {
+  version: string;
+  exportDate: string;
+  appVersion: string;
+  userData?: {
+    userId?: string;
+    userName?: string;
+  };
+  settings: any;
+  manifest: BackupManifest;
+  tables: Record<BackupTable, any[]>;
+  // Reads a photo from the backup file by its manifest key - not saved
+  readFile?: (key: string) => Uint8Array;
+}
+
+/**
+ * encryption.json in an encrypted backup
+ * Every other entry is its 24 byte nonce followed by the ciphertext,
+ * with the entry name as associated data
+ */
+export interface BackupEncryptionInfo {
+  format: 'explorable-encrypted-backup';
+  version: 2;
+  kdf: { name: 'PBKDF2-SHA256'; iterations: number; salt: string };
+  cipher: 'XChaCha20-Poly1305';
+}
+
+// A derived backup key, so the passphrase is only stretched once per backup
+export interface BackupKey {
+  iterations: number;
+  salt: Uint8Array;
+  key: Uint8Array;
+}
+
+export type BackupStage = BackupTable | 'photos';
+
+export interface BackupProgress {
+  stage: BackupStage;
+  completed: number;
+  total: number;
+}
+
+export interface WriteBackupOptions {
+  key?: BackupKey;
+  includePhotos?: boolean; // false leaves photos as links - quick enough for background tasks
+  onProgress?: (progress: BackupProgress) => void;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreCounts {
+  created: number;
+  skipped: number; // Already present - counted as duplicates
+  failed: number;
+}
+
+export interface RestoreSummary {
+  tables: Record<BackupTable, RestoreCounts>;
+  photos: RestoreCounts;
+  idMap: Record<string, string>; // Backup record id -> id in the database
+}
+
+interface RestoreRow {
+  backupId: string;
+  row: Record<string, any>;
+}
+
+// Tables whose rows have their own id and can be removed one by one
+type RecordTable = Exclude<BackupTable, 'trip_items' | 'trip_tags'>;
+type RecordIds = Record<RecordTable, string[]>;
+
+// Rows per insert request - small enough that one bad row only
+// costs a short one-by-one retry
+const RESTORE_BATCH_SIZE = 20;
+
+// Ten times the current default - anything above is not a file we wrote
+const MAX_KDF_ITERATIONS = KDF_ITERATIONS * 10;
+
+// Matches Supabase public storage URLs: .../object/public/<bucket>/<path>
+const STORAGE_URL_PATTERN = /\/storage\/v1\/object\/public\/([^/]+)\/(.+)$/;
+
+const ARCHIVE_ENTRY = 'archive.json';
+const ENCRYPTION_ENTRY = 'encryption.json';
+const PHOTO_ENTRY_PREFIX = 'photos/';
+
+// Archives that have passed verifyArchive, so restoring doesn't read every photo twice
+const verifiedArchives = new WeakSet<BackupArchive>();
+
+export class BackupService {
+  static readonly ARCHIVE_VERSION = '2.0';
+  private static readonly APP_VERSION = '1.0.0';
+
+  /**
+   * Derive a key for encrypting backups from a passphrase
+   * Slow on purpose - derive once and reuse it for the whole backup
+   */
+  static async createKey(passphrase: string): Promise<BackupKey> {
+    const salt = Crypto.getRandomBytes(SALT_BYTES);
+    const key = await deriveKey(passphrase, { kdf: 'PBKDF2-SHA256', iterations: KDF_ITERATIONS, salt });
+    return { iterations: KDF_ITERATIONS, salt, key };
+  }
+
+  /**
+   * Write everything the user owns to a backup file at uri
+   * Photos are downloaded one at a time and written straight to the
+   * file, so memory use doesn't grow with the photo library
+   */
+  static async writeBackup(
+    uri: string,
+    userId: string,
+    settings: any,
+    { key, includePhotos = true, onProgress }: WriteBackupOptions = {}
+  ): Promise<void> {
+    const tables = await this.fetchTables(userId, onProgress);
+
+    const photoUrls = new Set<string>();
+    if (includePhotos) {
+      this.mapPhotos(tables, url => {
+        if (STORAGE_URL_PATTERN.test(url)) photoUrls.add(url);
+        return url;
+      });
+    }
+
+    const file = new File(uri);
+    if (file.exists) file.delete();
+    file.create();
+    const handle = file.open();
+    let written = false;
+
+    try {
+      const zip = createZipWriter(chunk => handle.writeBytes(chunk));
+      const addEntry = (name: string, data: Uint8Array) =>
+        zip.add(name, key ? this.sealEntry(key.key, name, data) : data);
+
+      if (key) {
+        const info: BackupEncryptionInfo = {
+          format: 'explorable-encrypted-backup',
+          version: 2,
+          kdf: { name: 'PBKDF2-SHA256', iterations: key.iterations, salt: this.toBase64(key.salt) },
+          cipher: 'XChaCha20-Poly1305',
+        };
+        zip.add(ENCRYPTION_ENTRY, utf8Encode(JSON.stringify(info)));
+      }
+
+      const fileEntries: Record<string, BackupFileEntry> = {};
+      let completed = 0;
+      onProgress?.({ stage: 'photos', completed, total: photoUrls.size });
+
+      for (const url of photoUrls) {
+        const [, bucket, path] = url.match(STORAGE_URL_PATTERN)!;
+        const bytes = await this.downloadFile(url);
+
+        // A photo that can't be fetched keeps its URL in the data
+        if (bytes) {
+          const fileKey = `file_${Object.keys(fileEntries).length}`;
+          addEntry(`${PHOTO_ENTRY_PREFIX}${fileKey}`, bytes);
+          fileEntries[fileKey] = {
+            url,
+            bucket,
+            path: decodeURIComponent(path),
+            size: bytes.length,
+            checksum: sha256Hex(bytes),
+          };
+        }
+
+        completed++;
+        onProgress?.({ stage: 'photos', completed, total: photoUrls.size });
+      }
+
+      const userName = await AsyncStorage.getItem('userName');
+      const archive: BackupArchive = {
+        version: this.ARCHIVE_VERSION,
+        exportDate: new Date().toISOString(),
+        appVersion: this.APP_VERSION,
+        userData: {
+          userId,
+          userName: userName || undefined,
+        },
+        settings,
+        manifest: {
+          tables: this.checksumTables(tables),
+          files: fileEntries,
+        },
+        tables,
+      };
+
+      // Last, so the manifest covers every photo written above
+      addEntry(ARCHIVE_ENTRY, utf8Encode(JSON.stringify(archive)));
+      zip.finish();
+      written = true;
+    } finally {
+      handle.close();
+      // Don't leave half a backup behind
+      if (!written) file.delete();
+    }
+  }
+
+  /**
+   * Open a backup file as a verified archive
+   * Version 1.0 backups are migrated; damaged archives throw.
+   * Encrypted backups ask for their passphrase through requestPassphrase
+   * and resolve to null if the user backs out.
+   */
+  static async openBackup(
+    uri: string,
+    requestPassphrase?: () => Promise<string | null>
+  ): Promise<BackupArchive | null> {
+    const file = new File(uri);
+    const size = file.size;
+
+    // A fresh handle per read - photos are read long after the file is opened
+    const read: ZipSource = (offset, length) => {
+      const handle = file.open();
+      try {
+        handle.offset = offset;
+        return handle.readBytes(Math.max(0, Math.min(length, size - offset)));
+      } finally {
+        handle.close();
+      }
+    };
+
+    // Version 1.0 backups are a single JSON file
+    const magic = read(0, 2);
+    if (magic[0] !== 0x50 || magic[1] !== 0x4b) {
+      return this.parseArchive(JSON.parse(await file.text()));
+    }
+
+    let directory: Map<string, ZipDirectoryEntry>;
+    try {
+      directory = new Map(readZipDirectory(read, size).map(entry => [entry.name, entry]));
+    } catch (error) {
+      throw new Error('This doesn\'t appear to be an explorAble backup file.');
+    }
+
+    const readEntry = (name: string) => {
+      const entry = directory.get(name);
+      if (!entry) throw new Error(`This backup is damaged (${name} is missing).`);
+      return readZipEntry(read, entry);
+    };
+
+    let key: Uint8Array | null = null;
+    if (directory.has(ENCRYPTION_ENTRY)) {
+      if (!requestPassphrase) {
+        throw new Error('This backup is encrypted. Import it from Settings to enter its passphrase.');
+      }
+
+      const info = this.parseEncryptionInfo(readEntry(ENCRYPTION_ENTRY));
+      const passphrase = await requestPassphrase();
+      if (!passphrase) return null;
+
+      key = await deriveKey(passphrase, {
+        kdf: info.kdf.name,
+        iterations: info.kdf.iterations,
+        salt: new Uint8Array(decode(info.kdf.salt)),
+      });
+    }
+
+    // Null if the entry was encrypted with another key or has been altered
+    const readData = (name: string): Uint8Array | null =>
+      key ? this.openEntry(key, name, readEntry(name)) : readEntry(name);
+
+    const archiveJson = readData(ARCHIVE_ENTRY);
+    if (!archiveJson) {
+      throw new Error('Wrong passphrase, or the backup file has been changed since it was made.');
+    }
+
+    return this.parseArchive(JSON.parse(new TextDecoder().decode(archiveJson)), fileKey => {
+      const data = readData(`${PHOTO_ENTRY_PREFIX}${fileKey}`);
+      if (!data) throw new Error('This backup is damaged (a photo has been changed).');
+      return data;
+    });
+  }
+
+  /**
+   * Turn a parsed archive.json (or a version 1.0 backup) into a
+   * verified archive
+   */
+  private static async parseArchive(
+    data: any,
+    readFile?: (key: string) => Uint8Array
+  ): Promise<BackupArchive> {
+    if (!data || typeof data !== 'object' || !data.exportDate) {
+      throw new Error('This doesn\'t appear to be an explorAble backup file.');
+    }
+
+    // Backups from the settings screen have no version
+    if (!data.version || data.version.startsWith('1.')) {
+      return this.migrateLegacyBackup(data as ExportData);
+    }
+
+    if (!data.version.startsWith('2.')) {
+      throw new Error(`This backup was made by a newer version of explorAble (${data.version}). Please update the app to restore it.`);
+    }
+
+    const archive: BackupArchive = { ...data, readFile };
+    await this.verifyArchive(archive);
+    return archive;
+  }
+
+  /**
+   * Version 1.0 held context objects rather than table rows and
+   * linked photos by URL only. Trips and journal entries weren't included.
+   */
+  static migrateLegacyBackup(data: ExportData): BackupArchive {
+    const tables = this.emptyTables();
+    tables.activities = (data.activities || []).map(activity => this.toActivityRow(activity));
+    tables.locations = (data.savedSpots || []).map(spot => this.toLocationRow(spot));
+    tables.wishlist_items = (data.wishlistItems || []).map(item => this.toWishlistRow(item));
+
+    return {
+      version: this.ARCHIVE_VERSION,
+      exportDate: data.exportDate,
+      appVersion: data.appVersion || this.APP_VERSION,
+      userData: data.userData,
+      settings: data.settings,
+      manifest: {
+        tables: this.checksumTables(tables),
+        files: {},
+      },
+      tables,
+    };
+  }
+
+  /**
+   * Check every table and file against the manifest
+   * Photos are read one at a time, yielding between them so the UI
+   * keeps responding on large backups
+   */
+  static async verifyArchive(archive: BackupArchive): Promise<void> {
+    if (verifiedArchives.has(archive)) return;
+
+    if (!archive.manifest || !archive.tables) {
+      throw new Error('This backup is missing its manifest and can\'t be checked.');
+    }
+
+    for (const table of BACKUP_TABLES) {
+      const expected = archive.manifest.tables[table];
+      const rows = archive.tables[table] || [];
+      if (!expected) continue;
+
+      if (rows.length !== expected.count || sha256Hex(JSON.stringify(rows)) !== expected.checksum) {
+        throw new Error(`This backup is damaged (${table.replace('_', ' ')} don't match the manifest).`);
+      }
+    }
+
+    for (const [key, entry] of Object.entries(archive.manifest.files || {})) {
+      if (!archive.readFile) {
+        throw new Error('This backup is damaged (a photo is missing).');
+      }
+
+      const bytes = archive.readFile(key);
+      if (bytes.length !== entry.size || sha256Hex(bytes) !== entry.checksum) {
+        throw new Error('This backup is damaged (a photo doesn\'t match the manifest).');
+      }
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    verifiedArchives.add(archive);
+  }
+
+  /**
+   * Restore an archive into the user's account
+   * - merge keeps existing data and skips records that are already there
+   * - replace swaps the user's data for the backup's. The old records are
+   *   only deleted once every backup record is in; if any fail, the new
+   *   records are removed again and the old data is left as it was.
+   * Records get new ids on insert and every reference between them
+   * (trip items, journal links) is rewritten to follow.
+   */
+  static async restoreArchive(
+    archive: BackupArchive,
+    userId: string,
+    mode: RestoreMode = 'merge',
+    onProgress?: (progress: BackupProgress) => void
+  ): Promise<RestoreSummary> {
+    const counts = () => ({ created: 0, skipped: 0, failed: 0 });
+    const summary: RestoreSummary = {
+      tables: {
+        activities: counts(),
+        locations: counts(),
+        wishlist_items: counts(),
+        trips: counts(),
+        trip_items: counts(),
+        trip_tags: counts(),
+        journal_entries: counts(),
+      },
+      photos: counts(),
+      idMap: {},
+    };
+    const { idMap } = summary;
+
+    await this.verifyArchive(archive);
+
+    const previous = mode === 'replace' ? await this.fetchRecordIds(userId) : null;
+    const inserted = this.emptyRecordIds();
+
+    try {
+      await this.restoreRecords(archive, userId, mode, summary, inserted, onProgress);
+    } catch (error) {
+      if (previous) await this.deleteRecords(inserted);
+      throw error;
+    }
+
+    if (previous) {
+      const failed = BACKUP_TABLES.reduce((sum, table) => sum + summary.tables[table].failed, 0);
+      if (failed > 0) {
+        await this.deleteRecords(inserted);
+        throw new Error(
+          `${failed} record${failed === 1 ? '' : 's'} couldn't be restored, so your existing data was kept.`
+        );
+      }
+      await this.deleteRecords(previous);
+    }
+
+    // Settings and name are device-local - only applied once the records are in
+    if (archive.userData?.userName) {
+      await AsyncStorage.setItem('userName', archive.userData.userName);
+    }
+    if (archive.settings) {
+      await AsyncStorage.setItem('explorableSettings', JSON.stringify(archive.settings));
+    }
+
+    // Trips that weren't in the backup may still hold copies of restored records
+    await this.remapTripItems(idMap);
+
+    return summary;
+  }
+
+  private static async restoreRecords(
+    archive: BackupArchive,
+    userId: string,
+    mode: RestoreMode,
+    summary: RestoreSummary,
+    inserted: RecordIds,
+    onProgress?: (progress: BackupProgress) => void
+  ): Promise<void> {
+    const { idMap } = summary;
+    const backupOwnerId = archive.userData?.userId;
+
+    // Replace mode starts from an empty account - nothing existing counts as a duplicate
+    const selectExisting = async (table: BackupTable, columns: string, column: string, value: string | string[]) => {
+      if (mode === 'replace' || (Array.isArray(value) && value.length === 0)) return [] as any[];
+      const query = supabase.from(table).select(columns);
+      const { data, error } = Array.isArray(value)
+        ? await query.in(column, value)
+        : await query.eq(column, value);
+      if (error) throw error;
+      return (data || []) as any[];
+    };
+
+    // Photos go first so rows are inserted with their new URLs
+    const urlMap = await this.restoreFiles(archive, userId, summary.photos, onProgress);
+    const tables = this.mapPhotos(archive.tables, url => urlMap[url] || url);
+
+    // Activities
+    const existingActivities = await selectExisting(
+      'activities',
+      'id, name, start_time, activity_date, distance',
+      'user_id',
+      userId
+    );
+    const knownActivities = existingActivities.map((row: any) => ({
+      id: row.id,
+      name: row.name,
+      startTime: new Date(row.start_time),
+      activityDate: new Date(row.activity_date || row.start_time),
+      distance: row.distance || 0,
+    }));
+
+    const activityRows: RestoreRow[] = [];
+    for (const row of tables.activities || []) {
+      const candidate = {
+        name: row.name,
+        startTime: new Date(row.start_time),
+        activityDate: new Date(row.activity_date || row.start_time),
+        distance: row.distance || 0,
+      };
+      const match =
+        knownActivities.find(a => a.id === row.id) ||
+        ImportService.findDuplicateActivity(candidate, knownActivities);
+      if (match) {
+        idMap[row.id] = match.id;
+        summary.tables.activities.skipped++;
+      } else {
+        activityRows.push({ backupId: row.id, row: { ...this.withoutId(row), user_id: userId } });
+      }
+    }
+    await this.insertRows('activities', activityRows, summary.tables.activities, idMap, inserted.activities, onProgress);
+
+    // Saved spots and wishlist
+    for (const table of ['locations', 'wishlist_items'] as const) {
+      const existing = await selectExisting(table, 'id, name, latitude, longitude', 'user_id', userId);
+      const knownPlaces = existing.map(this.toPlace);
+      const pendingPlaces: ReturnType<typeof this.toPlace>[] = [];
+      // Later copies of a place in the same backup -> the backup id of the first copy
+      const copies: [string, string][] = [];
+
+      const rows: RestoreRow[] = [];
+      for (const row of tables[table] || []) {
+        const place = this.toPlace(row);
+        const match =
+          knownPlaces.find(p => p.id === row.id) ||
+          ImportService.findDuplicatePlace(place, knownPlaces);
+        const pendingMatch = match ? null : ImportService.findDuplicatePlace(place, pendingPlaces);
+        if (match) {
+          idMap[row.id] = match.id;
+          summary.tables[table].skipped++;
+        } else if (pendingMatch) {
+          copies.push([row.id, pendingMatch.id]);
+          summary.tables[table].skipped++;
+        } else {
+          rows.push({ backupId: row.id, row: { ...this.withoutId(row), user_id: userId } });
+          pendingPlaces.push(place);
+        }
+      }
+      await this.insertRows(table, rows, summary.tables[table], idMap, inserted[table], onProgress);
+
+      // Only now do the first copies have their new ids
+      for (const [copyId, firstId] of copies) {
+        if (idMap[firstId]) idMap[copyId] = idMap[firstId];
+      }
+    }
+
+    // Trips - the same name starting on the same day is the same trip
+    const existingTrips = await selectExisting('trips', 'id, name, start_date', 'created_by', userId);
+    const tripKey = (trip: any) =>
+      `${(trip.name || '').trim().toLowerCase()}|${new Date(trip.start_date).toDateString()}`;
+    const knownTrips = new Map(existingTrips.map((trip: any) => [tripKey(trip), trip.id as string]));
+
+    const tripRows: RestoreRow[] = [];
+    for (const row of tables.trips || []) {
+      const matchId = existingTrips.some((t: any) => t.id === row.id)
+        ? row.id
+        : knownTrips.get(tripKey(row));
+      if (matchId) {
+        idMap[row.id] = matchId;
+        summary.tables.trips.skipped++;
+      } else {
+        tripRows.push({
+          backupId: row.id,
+          row: {
+            ...this.withoutId(row),
+            created_by: userId,
+            merged_from: Array.isArray(row.merged_from)
+              ? row.merged_from.map((id: string) => idMap[id] || id)
+              : row.merged_from,
+          },
+        });
+      }
+    }
+    await this.insertRows('trips', tripRows, summary.tables.trips, idMap, inserted.trips, onProgress);
+
+    const restoredTripIds = [...new Set((tables.trips || []).map((trip: any) => idMap[trip.id]).filter(Boolean))];
+    const ownerOrFriend = (id?: string) => (id && id === backupOwnerId ? userId : id);
+
+    // Trip items carry a copy of the spot or activity keyed by its id
+    const existingItems = await selectExisting('trip_items', 'trip_id, type, data', 'trip_id', restoredTripIds);
+    const itemKey = (item: any) => `${item.trip_id}|${item.type}|${item.data?.id}`;
+    const knownItems = new Set(existingItems.map(itemKey));
+
+    const itemRows: RestoreRow[] = [];
+    for (const row of tables.trip_items || []) {
+      const tripId = idMap[row.trip_id];
+      if (!tripId) {
+        summary.tables.trip_items.failed++;
+        continue;
+      }
+
+      const restored = {
+        ...this.withoutId(row),
+        trip_id: tripId,
+        added_by: ownerOrFriend(row.added_by) || userId,
+        data: row.data ? { ...row.data, id: idMap[row.data.id] || row.data.id } : row.data,
+      };
+      if (knownItems.has(itemKey(restored))) {
+        summary.tables.trip_items.skipped++;
+      } else {
+        knownItems.add(itemKey(restored));
+        itemRows.push({ backupId: row.id, row: restored });
+      }
+    }
+    await this.insertRows('trip_items', itemRows, summary.tables.trip_items, idMap, [], onProgress);
+
+    // Tagged friends keep their own accounts, so only the trip id changes
+    const existingTags = await selectExisting('trip_tags', 'trip_id, user_id', 'trip_id', restoredTripIds);
+    const knownTags = new Set(existingTags.map((tag: any) => `${tag.trip_id}|${tag.user_id}`));
+
+    const tagRows: Record<string, any>[] = [];
+    for (const row of tables.trip_tags || []) {
+      const tripId = idMap[row.trip_id];
+      const friendId = ownerOrFriend(row.user_id);
+      if (!tripId || friendId === userId || knownTags.has(`${tripId}|${friendId}`)) {
+        summary.tables.trip_tags.skipped++;
+        continue;
+      }
+      knownTags.add(`${tripId}|${friendId}`);
+      tagRows.push({ ...this.withoutId(row), trip_id: tripId, user_id: friendId });
+    }
+    await this.insertTags(tagRows, summary.tables.trip_tags, onProgress);
+
+    // Journal entries - same timestamp and text is the same entry
+    const existingEntries = await selectExisting('journal_entries', 'id, content, created_at', 'user_id', userId);
+    const entryKey = (entry: any) => `${new Date(entry.created_at).getTime()}|${entry.content}`;
+    const knownEntries = new Map(existingEntries.map((entry: any) => [entryKey(entry), entry.id as string]));
+
+    const entryRows: RestoreRow[] = [];
+    for (const row of tables.journal_entries || []) {
+      const matchId = knownEntries.get(entryKey(row));
+      if (matchId) {
+        idMap[row.id] = matchId;
+        summary.tables.journal_entries.skipped++;
+        continue;
+      }
+
+      const link = (id?: string | null) => (id ? idMap[id] || null : null);
+      entryRows.push({
+        backupId: row.id,
+        row: {
+          ...this.withoutId(row),
+          user_id: userId,
+          trip_id: link(row.trip_id),
+          activity_id: link(row.activity_id),
+          spot_id: link(row.spot_id),
+        },
+      });
+    }
+    await this.insertRows(
+      'journal_entries',
+      entryRows,
+      summary.tables.journal_entries,
+      idMap,
+      inserted.journal_entries,
+      onProgress
+    );
+  }
+
+  private static parseEncryptionInfo(bytes: Uint8Array): BackupEncryptionInfo {
+    let info: BackupEncryptionInfo;
+    try {
+      info = JSON.parse(new TextDecoder().decode(bytes));
+    } catch (error) {
+      throw new Error('This encrypted backup is damaged and can\'t be opened.');
+    }
+
+    if (info.version !== 2 || info.kdf?.name !== 'PBKDF2-SHA256' || info.cipher !== 'XChaCha20-Poly1305') {
+      throw new Error('This encrypted backup uses a format this version of explorAble can\'t read.');
+    }
+
+    // An edited iteration count could otherwise stall the app before the tag check
+    if (!Number.isInteger(info.kdf.iterations) || info.kdf.iterations < 1 || info.kdf.iterations > MAX_KDF_ITERATIONS) {
+      throw new Error('This encrypted backup is damaged and can\'t be opened.');
+    }
+
+    return info;
+  }
+
+  // The entry name is authenticated too, so entries can't be swapped around
+  private static sealEntry(key: Uint8Array, name: string, data: Uint8Array): Uint8Array {
+    const nonce = Crypto.getRandomBytes(NONCE_BYTES);
+    const sealed = seal(key, nonce, data, utf8Encode(name));
+    const output = new Uint8Array(nonce.length + sealed.length);
+    output.set(nonce);
+    output.set(sealed, nonce.length);
+    return output;
+  }
+
+  private static openEntry(key: Uint8Array, name: string, data: Uint8Array): Uint8Array | null {
+    if (data.length < NONCE_BYTES) return null;
+    return open(key, data.subarray(0, NONCE_BYTES), data.subarray(NONCE_BYTES), utf8Encode(name));
+  }
+
+  private static toBase64(bytes: Uint8Array): string {
+    return encode(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer);
+  }
+
+  private static emptyRecordIds(): RecordIds {
+    return {
+      activities: [],
+      locations: [],
+      wishlist_items: [],
+      trips: [],
+      journal_entries: [],
+    };
+  }
+
+  private static emptyTables(): Record<BackupTable, any[]> {
+    return {
+      activities: [],
+      locations: [],
+      wishlist_items: [],
+      trips: [],
+      trip_items: [],
+      trip_tags: [],
+      journal_entries: [],
+    };
+  }
+
+  private static checksumTables(tables: Record<BackupTable, any[]>): BackupManifest['tables'] {
+    const manifest = {} as BackupManifest['tables'];
+    for (const table of BACKUP_TABLES) {
+      const rows = tables[table] || [];
+      manifest[table] = { count: rows.length, checksum: sha256Hex(JSON.stringify(rows)) };
+    }
+    return manifest;
+  }
+
+  private static async fetchTables(
+    userId: string,
+    onProgress?: (progress: BackupProgress) => void
+  ): Promise<Record<BackupTable, any[]>> {
+    const tables = this.emptyTables();
+
+    const select = async (table: BackupTable, column: string, value: string | string[]) => {
+      onProgress?.({ stage: table, completed: 0, total: 1 });
+      const query = supabase.from(table).select('*');
+      const { data, error } = Array.isArray(value)
+        ? await query.in(column, value)
+        : await query.eq(column, value);
+      if (error) throw error;
+      onProgress?.({ stage: table, completed: 1, total: 1 });
+      return data || [];
+    };
+
+    tables.activities = await select('activities', 'user_id', userId);
+    tables.locations = await select('locations', 'user_id', userId);
+    tables.wishlist_items = await select('wishlist_items', 'user_id', userId);
+    tables.trips = await select('trips', 'created_by', userId);
+
+    const tripIds = tables.trips.map(trip => trip.id);
+    if (tripIds.length > 0) {
+      tables.trip_items = await select('trip_items', 'trip_id', tripIds);
+      tables.trip_tags = await select('trip_tags', 'trip_id', tripIds);
+    }
+
+    tables.journal_entries = await select('journal_entries', 'user_id', userId);
+
+    return tables;
+  }
+
+  /**
+   * Apply fn to every photo URL in the backup tables
+   * Returns new tables; the originals are left untouched
+   */
+  private static mapPhotos(
+    tables: Record<BackupTable, any[]>,
+    fn: (url: string) => string
+  ): Record<BackupTable, any[]> {
+    const mapList = (photos: any) =>
+      Array.isArray(photos) ? photos.map(p => (typeof p === 'string' ? fn(p) : p)) : photos;
+    const mapVisits = (visits: any) =>
+      Array.isArray(visits) ? visits.map(v => ({ ...v, photos: mapList(v.photos) })) : visits;
+
+    return {
+      ...tables,
+      activities: (tables.activities || []).map(row => ({ ...row, photos: mapList(row.photos) })),
+      locations: (tables.locations || []).map(row => ({
+        ...row,
+        photos: mapList(row.photos),
+        visits: mapVisits(row.visits),
+      })),
+      trips: (tables.trips || []).map(row => ({
+        ...row,
+        cover_photo: typeof row.cover_photo === 'string' ? fn(row.cover_photo) : row.cover_photo,
+      })),
+      trip_items: (tables.trip_items || []).map(row => ({
+        ...row,
+        data: row.data
+          ? { ...row.data, photos: mapList(row.data.photos), visits: mapVisits(row.data.visits) }
+          : row.data,
+      })),
+      journal_entries: (tables.journal_entries || []).map(row => ({ ...row, photos: mapList(row.photos) })),
+    };
+  }
+
+  private static async downloadFile(url: string): Promise<Uint8Array | null> {
+    const temp = new File(Paths.cache, `backup_photo_${Date.now()}`);
+    try {
+      // Rejects on any status other than 2xx
+      const file = await File.downloadFileAsync(url, temp);
+      return await file.bytes();
+    } catch (error) {
+      console.warn('Skipping photo that could not be downloaded:', url, error);
+      return null;
+    } finally {
+      if (temp.exists) temp.delete();
+    }
+  }
+
+  /**
+   * Upload the archive's photos into the user's storage folders
+   * Returns old URL -> new URL
+   */
+  private static async restoreFiles(
+    archive: BackupArchive,
+    userId: string,
+    counts: RestoreCounts,
+    onProgress?: (progress: BackupProgress) => void
+  ): Promise<Record<string, string>> {
+    const urlMap: Record<string, string> = {};
+    const entries = Object.entries(archive.manifest?.files || {});
+    let completed = 0;
+    onProgress?.({ stage: 'photos', completed, total: entries.length });
+
+    for (const [key, entry] of entries) {
+      // Checked against the manifest in verifyArchive
+      const bytes = archive.readFile!(key);
+      // Photos live under their owner's folder - swap it for this user's and
+      // keep the rest of the path, so files with the same name don't collide
+      const segments = entry.path.split('/');
+      const path = [userId, ...(segments.length > 1 ? segments.slice(1) : segments)].join('/');
+      const contentType = /\.png$/i.test(path) ? 'image/png' : 'image/jpeg';
+
+      const { error } = await supabase.storage
+        .from(entry.bucket)
+        .upload(path, bytes, { contentType, upsert: true });
+
+      if (error) {
+        console.error('Error restoring photo:', error);
+        counts.failed++;
+      } else {
+        const { data } = supabase.storage.from(entry.bucket).getPublicUrl(path);
+        urlMap[entry.url] = data.publicUrl;
+        if (data.publicUrl === entry.url) counts.skipped++;
+        else counts.created++;
+      }
+
+      completed++;
+      onProgress?.({ stage: 'photos', completed, total: entries.length });
+    }
+
+    return urlMap;
+  }
+
+  private static async fetchRecordIds(userId: string): Promise<RecordIds> {
+    const ids = this.emptyRecordIds();
+    const owners: [RecordTable, string][] = [
+      ['activities', 'user_id'],
+      ['locations', 'user_id'],
+      ['wishlist_items', 'user_id'],
+      ['trips', 'created_by'],
+      ['journal_entries', 'user_id'],
+    ];
+
+    for (const [table, column] of owners) {
+      const { data, error } = await supabase.from(table).select('id').eq(column, userId);
+      if (error) throw error;
+      ids[table] = (data || []).map((row: any) => row.id);
+    }
+
+    return ids;
+  }
+
+  private static async deleteRecords(ids: RecordIds): Promise<void> {
+    const deleteIn = async (table: BackupTable, column: string, values: string[]) => {
+      for (let i = 0; i < values.length; i += RESTORE_BATCH_SIZE) {
+        const { error } = await supabase
+          .from(table)
+          .delete()
+          .in(column, values.slice(i, i + RESTORE_BATCH_SIZE));
+        if (error) throw error;
+      }
+    };
+
+    // In order - foreign keys need children gone before parents
+    await deleteIn('journal_entries', 'id', ids.journal_entries);
+    await deleteIn('trip_items', 'trip_id', ids.trips);
+    await deleteIn('trip_tags', 'trip_id', ids.trips);
+    await deleteIn('trips', 'id', ids.trips);
+    await deleteIn('activities', 'id', ids.activities);
+    await deleteIn('locations', 'id', ids.locations);
+    await deleteIn('wishlist_items', 'id', ids.wishlist_items);
+  }
+
+  private static withoutId(row: Record<string, any>): Record<string, any> {
+    const { id: _id, ...rest } = row;
+    return rest;
+  }
+
+  private static toPlace(row: any): { id: string; name: string; location: { latitude: number; longitude: number } } {
+    return {
+      id: row.id,
+      name: row.name,
+      location: { latitude: row.latitude, longitude: row.longitude },
+    };
+  }
+
+  // Version 1.0 backups store context objects, so dates arrive as ISO strings
+  private static toISO(value: any): string | null {
+    if (!value) return null;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date.toISOString();
+  }
+
+  // Local file paths in a backup belong to another device - only keep uploaded photos
+  private static uploadedPhotos(photos?: string[]): string[] {
+    return (photos || []).filter(photo => typeof photo === 'string' && photo.startsWith('http'));
+  }
+
+  private static toActivityRow(activity: Activity): Record<string, any> {
+    return {
+      id: activity.id,
+      type: activity.type,
+      name: activity.name,
+      activity_date: this.toISO(activity.activityDate || activity.startTime),
+      start_time: this.toISO(activity.startTime),
+      end_time: this.toISO(activity.endTime),
+      duration: activity.duration,
+      moving_time: activity.movingTime ?? activity.duration,
+      elapsed_time: activity.elapsedTime ?? activity.duration,
+      distance: activity.distance,
+      route: activity.route || [],
+      average_speed: activity.averageSpeed,
+      max_speed: activity.maxSpeed,
+      elevation_gain: activity.elevationGain,
+      elevation_loss: activity.elevationLoss,
+      min_altitude: activity.minAltitude,
+      max_altitude: activity.maxAltitude,
+      splits: activity.splits,
+      laps: activity.laps,
+      split_unit: activity.splitUnit,
+      notes: activity.notes,
+      photos: this.uploadedPhotos(activity.photos),
+      rating: activity.rating,
+      is_manual_entry: activity.isManualEntry || false,
+    };
+  }
+
+  private static toLocationRow(spot: SavedSpot): Record<string, any> {
+    const visits = (spot.visits || []).map(visit => ({
+      id: visit.id,
+      date: this.toISO(visit.date),
+      photos: this.uploadedPhotos(visit.photos),
+      notes: visit.notes || null,
+    }));
+    const firstDate = this.toISO(spot.locationDate) || visits[0]?.date || this.toISO(spot.timestamp);
+
+    return {
+      id: spot.id,
+      name: spot.name,
+      latitude: spot.location.latitude,
+      longitude: spot.location.longitude,
+      description: spot.description || null,
+      category: spot.category || 'other',
+      rating: spot.rating || null,
+      visits,
+      location_date: firstDate,
+      photos: this.uploadedPhotos(spot.photos),
+    };
+  }
+
+  private static toWishlistRow(item: WishlistItem): Record<string, any> {
+    return {
+      id: item.id,
+      name: item.name,
+      description: item.description,
+      latitude: item.location.latitude,
+      longitude: item.location.longitude,
+      category: item.category || 'other',
+      priority: item.priority || 2,
+      date_added: this.toISO(item.dateAdded) || new Date().toISOString(),
+      notes: item.notes,
+      expected_visit_date: this.toISO(item.expectedVisitDate),
+      estimated_cost: item.estimatedCost,
+    };
+  }
+
+  /**
+   * Insert rows in batches, recording the new id of each backup record
+   * A failed batch is retried row by row so one bad record doesn't sink the rest
+   */
+  private static async insertRows(
+    table: BackupTable,
+    rows: RestoreRow[],
+    counts: RestoreCounts,
+    idMap: Record<string, string>,
+    inserted: string[],
+    onProgress?: (progress: BackupProgress) => void
+  ): Promise<void> {
+    let completed = 0;
+    onProgress?.({ stage: table, completed, total: rows.length });
+
+    for (let i = 0; i < rows.length; i += RESTORE_BATCH_SIZE) {
+      const batch = rows.slice(i, i + RESTORE_BATCH_SIZE);
+      const { data, error } = await supabase
+        .from(table)
+        .insert(batch.map(r => r.row))
+        .select('id');
+
+      if (!error && data && data.length === batch.length) {
+        batch.forEach((r, index) => {
+          idMap[r.backupId] = data[index].id;
+          inserted.push(data[index].id);
+        });
+        counts.created += batch.length;
+      } else {
+        for (const r of batch) {
+          const { data: single, error: singleError } = await supabase
+            .from(table)
+            .insert(r.row)
+            .select('id')
+            .single();
+
+          if (singleError || !single) {
+            console.error(`Error restoring ${table} record:`, singleError);
+            counts.failed++;
+          } else {
+            idMap[r.backupId] = single.id;
+            inserted.push(single.id);
+            counts.created++;
+          }
+        }
+      }
+
+      completed += batch.length;
+      onProgress?.({ stage: table, completed, total: rows.length });
+    }
+  }
+
+  // Tags are keyed by trip and user rather than an id of their own
+  private static async insertTags(
+    rows: Record<string, any>[],
+    counts: RestoreCounts,
+    onProgress?: (progress: BackupProgress) => void
+  ): Promise<void> {
+    onProgress?.({ stage: 'trip_tags', completed: 0, total: rows.length });
+
+    for (const [index, row] of rows.entries()) {
+      const { error } = await supabase.from('trip_tags').insert(row);
+      if (error) {
+        console.error('Error restoring trip tag:', error);
+        counts.failed++;
+      } else {
+        counts.created++;
+      }
+      onProgress?.({ stage: 'trip_tags', completed: index + 1, total: rows.length });
+    }
+  }
+
+  private static async remapTripItems(idMap: Record<string, string>): Promise<void> {
+    const changed = Object.entries(idMap).filter(([oldId, newId]) => oldId !== newId);
+    if (changed.length === 0) return;
+
+    try {
+      const { data: tripItems, error } = await supabase
+        .from('trip_items')
+        .select('id, data')
+        .in('data->>id', changed.map(([oldId]) => oldId));
+
+      if (error) throw error;
+
+      for (const tripItem of tripItems || []) {
+        const newId = idMap[tripItem.data?.id];
+        if (!newId) continue;
+        await supabase
+          .from('trip_items')
+          .update({ data: { ...tripItem.data, id: newId } })
+          .eq('id', tripItem.id);
+      }
+    } catch (error) {
+      console.error('Error updating trip items after restore:', error);
+    }
+  }
+}
@@ -0,0 +1,201 @@
+import { BUILT_IN_CHECKLISTS, ChecklistTemplate } from '../constants/checklists';
+import { Trip } from '../contexts/TripContext';
+import { supabase } from '../lib/supabase';
+
+export interface ChecklistItem {
+  id: string;
+  trip_id: string;
+  text: string;
+  group_name?: string; // Template the item came from, used for grouping
+  position: number;
+  checked_by?: string | null; // User who ticked it off
+  checked_at?: Date | null;
+  created_by: string;
+  created_at: Date;
+}
+
+export class ChecklistService {
+  /**
+   * Built-in templates followed by the ones the user has saved
+   */
+  static async getTemplates(userId: string): Promise<ChecklistTemplate[]> {
+    const { data, error } = await supabase
+      .from('checklist_templates')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error loading checklist templates:', error);
+      return BUILT_IN_CHECKLISTS;
+    }
+
+    const saved: ChecklistTemplate[] = (data || []).map(row => ({
+      id: row.id,
+      name: row.name,
+      icon: row.icon || 'list',
+      activityType: row.activity_type || undefined,
+      category: row.category || undefined,
+      items: row.items || [],
+    }));
+
+    return [...BUILT_IN_CHECKLISTS, ...saved];
+  }
+
+  /**
+   * Templates that fit the activities and spot categories already in the trip
+   */
+  static suggestTemplates(trip: Trip, templates: ChecklistTemplate[]): ChecklistTemplate[] {
+    const activityTypes = new Set<string>();
+    const categories = new Set<string>();
+
+    (trip.items || []).forEach(item => {
+      if (item.type === 'activity' && item.data?.type) {
+        activityTypes.add(item.data.type);
+      } else if (item.type === 'spot' && item.data?.category) {
+        categories.add(item.data.category);
+      }
+    });
+
+    return templates.filter(
+      template =>
+        (template.activityType && activityTypes.has(template.activityType)) ||
+        (template.category && categories.has(template.category))
+    );
+  }
+
+  static async getChecklist(tripId: string): Promise<ChecklistItem[]> {
+    const { data, error } = await supabase
+      .from('trip_checklist_items')
+      .select('*')
+      .eq('trip_id', tripId)
+      .order('position', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(row => this.transformItem(row));
+  }
+
+  /**
+   * Copy a template's items onto a trip, skipping anything already on its list
+   */
+  static async instantiateTemplate(
+    tripId: string,
+    userId: string,
+    template: ChecklistTemplate,
+    existing: ChecklistItem[]
+  ): Promise<ChecklistItem[]> {
+    const existingTexts = new Set(existing.map(item => item.text.trim().toLowerCase()));
+    const toAdd = template.items.filter(text => !existingTexts.has(text.trim().toLowerCase()));
+    if (toAdd.length === 0) return [];
+
+    const start = this.nextPosition(existing);
+    const { data, error } = await supabase
+      .from('trip_checklist_items')
+      .insert(
+        toAdd.map((text, i) => ({
+          trip_id: tripId,
+          text,
+          group_name: template.name,
+          position: start + i,
+          created_by: userId,
+        }))
+      )
+      .select();
+
+    if (error) throw error;
+    return (data || []).map(row => this.transformItem(row));
+  }
+
+  static async addItem(
+    tripId: string,
+    userId: string,
+    text: string,
+    existing: ChecklistItem[]
+  ): Promise<ChecklistItem> {
+    const { data, error } = await supabase
+      .from('trip_checklist_items')
+      .insert({
+        trip_id: tripId,
+        text: text.trim(),
+        position: this.nextPosition(existing),
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.transformItem(data);
+  }
+
+  static async setChecked(itemId: string, userId: string, checked: boolean): Promise<void> {
+    const { error } = await supabase
+      .from('trip_checklist_items')
+      .update({
+        checked_by: checked ? userId : null,
+        checked_at: checked ? new Date().toISOString() : null,
+      })
+      .eq('id', itemId);
+
+    if (error) throw error;
+  }
+
+  static async deleteItem(itemId: string): Promise<void> {
+    const { error } = await supabase
+      .from('trip_checklist_items')
+      .delete()
+      .eq('id', itemId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Save a trip's list as a reusable template
+   */
+  static async saveTemplate(
+    userId: string,
+    template: Omit<ChecklistTemplate, 'id' | 'builtIn'>
+  ): Promise<ChecklistTemplate> {
+    const { data, error } = await supabase
+      .from('checklist_templates')
+      .insert({
+        user_id: userId,
+        name: template.name,
+        icon: template.icon,
+        activity_type: template.activityType || null,
+        category: template.category || null,
+        items: template.items,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return { ...template, id: data.id };
+  }
+
+  static async deleteTemplate(templateId: string): Promise<void> {
+    const { error } = await supabase
+      .from('checklist_templates')
+      .delete()
+      .eq('id', templateId);
+
+    if (error) throw error;
+  }
+
+  static transformItem(row: any): ChecklistItem {
+    return {
+      id: row.id,
+      trip_id: row.trip_id,
+      text: row.text,
+      group_name: row.group_name || undefined,
+      position: row.position ?? 0,
+      checked_by: row.checked_by || null,
+      checked_at: row.checked_at ? new Date(row.checked_at) : null,
+      created_by: row.created_by,
+      created_at: new Date(row.created_at),
+    };
+  }
+
+  private static nextPosition(existing: ChecklistItem[]): number {
+    return existing.reduce((max, item) => Math.max(max, item.position + 1), 0);
+  }
+}
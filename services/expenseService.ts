@@ -0,0 +1,175 @@
+import { ExpenseCategory } from '../constants/expenses';
+import { supabase } from '../lib/supabase';
+
+export interface TripExpense {
+  id: string;
+  trip_id: string;
+  description: string;
+  amount: number;
+  currency: string; // ISO 4217 code
+  paid_by: string; // User id
+  participants: string[]; // User ids sharing the cost, including the payer if they had a share
+  category: ExpenseCategory;
+  trip_item_id?: string; // Optional link to the spot or activity it was for
+  spent_at: Date;
+  created_by: string;
+  created_at: Date;
+}
+
+export type NewTripExpense = Omit<TripExpense, 'id' | 'trip_id' | 'created_by' | 'created_at'>;
+
+// Net amount per user - positive is owed to them, negative is what they owe
+export type ExpenseBalances = Record<string, Record<string, number>>; // currency -> user id -> amount
+
+export interface Settlement {
+  from: string;
+  to: string;
+  amount: number;
+  currency: string;
+}
+
+export class ExpenseService {
+  /**
+   * Load a trip's expenses, newest first
+   */
+  static async getExpenses(tripId: string): Promise<TripExpense[]> {
+    const { data, error } = await supabase
+      .from('trip_expenses')
+      .select('*')
+      .eq('trip_id', tripId)
+      .order('spent_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(row => this.transformExpense(row));
+  }
+
+  static async addExpense(tripId: string, userId: string, expense: NewTripExpense): Promise<TripExpense> {
+    const { data, error } = await supabase
+      .from('trip_expenses')
+      .insert({
+        trip_id: tripId,
+        description: expense.description,
+        amount: this.roundAmount(expense.amount),
+        currency: expense.currency.toUpperCase(),
+        paid_by: expense.paid_by,
+        participants: expense.participants,
+        category: expense.category,
+        trip_item_id: expense.trip_item_id || null,
+        spent_at: expense.spent_at.toISOString(),
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return this.transformExpense(data);
+  }
+
+  static async deleteExpense(expenseId: string): Promise<void> {
+    const { error } = await supabase
+      .from('trip_expenses')
+      .delete()
+      .eq('id', expenseId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Net balance of every member per currency
+   * Shares are split evenly in cents, with leftover cents going to the first participants
+   */
+  static calculateBalances(expenses: TripExpense[]): ExpenseBalances {
+    const cents: Record<string, Record<string, number>> = {};
+
+    for (const expense of expenses) {
+      if (expense.participants.length === 0) continue;
+
+      const balances = cents[expense.currency] || (cents[expense.currency] = {});
+      const total = Math.round(expense.amount * 100);
+      const share = Math.floor(total / expense.participants.length);
+      const remainder = total - share * expense.participants.length;
+
+      balances[expense.paid_by] = (balances[expense.paid_by] || 0) + total;
+      expense.participants.forEach((userId, i) => {
+        balances[userId] = (balances[userId] || 0) - share - (i < remainder ? 1 : 0);
+      });
+    }
+
+    const result: ExpenseBalances = {};
+    Object.entries(cents).forEach(([currency, balances]) => {
+      result[currency] = {};
+      Object.entries(balances).forEach(([userId, amount]) => {
+        result[currency][userId] = amount / 100;
+      });
+    });
+    return result;
+  }
+
+  /**
+   * The fewest payments that settle everyone up - largest debts are paid to
+   * the largest creditors first
+   */
+  static settleUp(balances: ExpenseBalances): Settlement[] {
+    const settlements: Settlement[] = [];
+
+    Object.entries(balances).forEach(([currency, members]) => {
+      const creditors = Object.entries(members)
+        .map(([userId, amount]) => ({ userId, cents: Math.round(amount * 100) }))
+        .filter(m => m.cents > 0)
+        .sort((a, b) => b.cents - a.cents);
+      const debtors = Object.entries(members)
+        .map(([userId, amount]) => ({ userId, cents: -Math.round(amount * 100) }))
+        .filter(m => m.cents > 0)
+        .sort((a, b) => b.cents - a.cents);
+
+      let c = 0;
+      let d = 0;
+      while (c < creditors.length && d < debtors.length) {
+        const cents = Math.min(creditors[c].cents, debtors[d].cents);
+        settlements.push({
+          from: debtors[d].userId,
+          to: creditors[c].userId,
+          amount: cents / 100,
+          currency,
+        });
+
+        creditors[c].cents -= cents;
+        debtors[d].cents -= cents;
+        if (creditors[c].cents === 0) c++;
+        if (debtors[d].cents === 0) d++;
+      }
+    });
+
+    return settlements;
+  }
+
+  static formatAmount(amount: number, currency: string): string {
+    try {
+      return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+    } catch {
+      // Unknown currency code
+      return `${amount.toFixed(2)} ${currency}`;
+    }
+  }
+
+  private static roundAmount(amount: number): number {
+    return Math.round(amount * 100) / 100;
+  }
+
+  private static transformExpense(row: any): TripExpense {
+    return {
+      id: row.id,
+      trip_id: row.trip_id,
+      description: row.description,
+      amount: Number(row.amount),
+      currency: row.currency,
+      paid_by: row.paid_by,
+      participants: row.participants || [],
+      category: row.category || 'other',
+      trip_item_id: row.trip_item_id || undefined,
+      spent_at: new Date(row.spent_at),
+      created_by: row.created_by,
+      created_at: new Date(row.created_at),
+    };
+  }
+}
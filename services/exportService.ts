@@ -1,16 +1,39 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as DocumentPicker from 'expo-document-picker';
-import * as ExpoFileSystem from 'expo-file-system';
+import { File, Paths } from 'expo-file-system';
 import * as MailComposer from 'expo-mail-composer';
 import * as Sharing from 'expo-sharing';
 import { Alert } from 'react-native';
+import { categoryList, getCategoryById } from '../constants/categories';
+import { theme } from '../constants/theme';
+import { getPriorityLevel, PRIORITY_LEVELS } from '../constants/wishlist';
 import { Activity } from '../contexts/ActivityContext';
 import { SavedSpot } from '../contexts/LocationContext';
 import { WishlistItem } from '../contexts/WishlistContext';
-
-// Cast to any to work around TypeScript issues with expo-file-system
-const FileSystem = ExpoFileSystem as any;
-
+import { LocationPoint } from '../types/visits';
+import { encodeFitActivity, FitLap, getFitSport } from '../utils/fit';
+import { calculateDistance } from '../utils/gps';
+import { utf8Encode } from '../utils/hash';
+import { ActivitySplit } from '../utils/splits';
+import { createZip } from '../utils/zip';
+import {
+  BackupArchive,
+  BackupProgress,
+  BackupService,
+} from './backupService';
+
+const ROUTE_COLOR = theme.colors.forest;
+// Plain white icons, tinted by each style's color
+const SPOT_ICON = 'https://maps.google.com/mapfiles/kml/paddle/wht-blank.png';
+const WISHLIST_ICON = 'https://maps.google.com/mapfiles/kml/paddle/wht-stars.png';
+const WISHLIST_ICON_SCALE: Record<number, number> = { 1: 1.3, 2: 1.1, 3: 0.9 };
+const WISHLIST_MARKER_SIZE: Record<number, string> = { 1: 'large', 2: 'medium', 3: 'small' };
+const SHARE_UTIS: Record<string, string> = {
+  'application/json': 'public.json',
+  'application/zip': 'public.zip-archive',
+};
+
+// Version 1.0 backup - spots, activities and wishlist as context objects.
+// Still accepted on import; new backups use BackupArchive.
 export interface ExportData {
   version: string;
   exportDate: string;
@@ -25,20 +48,6 @@ export interface ExportData {
 }
 
 export class ExportService {
-  private static readonly APP_VERSION = '1.0.0';
-  private static readonly EXPORT_VERSION = '1.0';
-
-  static async exportToJSON(data: ExportData): Promise<string> {
-    const exportData: ExportData = {
-      ...data,
-      version: this.EXPORT_VERSION,
-      exportDate: new Date().toISOString(),
-      appVersion: this.APP_VERSION,
-    };
-
-    return JSON.stringify(exportData, null, 2);
-  }
-
   static async exportToGPX(activities: Activity[]): Promise<string> {
     const nameTag = 'name'; // GPX spec requires <name> tags
     const gpxHeader = `<?xml version="1.0" encoding="UTF-8"?>
@@ -61,25 +70,357 @@ export class ExportService {
     const tracks = activities
       .filter(activity => activity.route && activity.route.length > 0)
       .map(activity => {
-        const trackPoints = activity.route.map(point => `
+        // GPX has no lap element, so each manual lap becomes its own segment
+        const segments = activity.laps && activity.laps.length > 0
+          ? this.getLapSegments(activity.route, activity.laps).map(s => s.points)
+          : [activity.route];
+
+        const trackSegments = segments
+          .filter(points => points.length > 0)
+          .map(points => {
+            const trackPoints = points.map(point => `
       <trkpt lat="${point.latitude}" lon="${point.longitude}">
         <ele>${point.altitude || 0}</ele>
         <time>${new Date(point.timestamp).toISOString()}</time>
       </trkpt>`).join('');
 
+            return `
+    <trkseg>${trackPoints}
+    </trkseg>`;
+          }).join('');
+
         return `
   <trk>
     <${nameTag}>${this.escapeXml(activity.name)}</${nameTag}>
     <type>${activity.type}</type>
-    <desc>${this.escapeXml(activity.notes || '')}</desc>
-    <trkseg>${trackPoints}
-    </trkseg>
+    <desc>${this.escapeXml(activity.notes || '')}</desc>${trackSegments}
   </trk>`;
       }).join('');
 
     return gpxHeader + tracks + gpxFooter;
   }
 
+  static async exportToTCX(activities: Activity[]): Promise<string> {
+    const tcxHeader = `<?xml version="1.0" encoding="UTF-8"?>
+<TrainingCenterDatabase
+  xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2"
+  xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+  xsi:schemaLocation="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2 http://www.garmin.com/xmlschemas/TrainingCenterDatabasev2.xsd">
+  <Activities>`;
+
+    const tcxFooter = `
+  </Activities>
+</TrainingCenterDatabase>`;
+
+    const tcxActivities = activities
+      .filter(activity => activity.route && activity.route.length > 0)
+      .map(activity => {
+        const { laps, manualLaps } = this.getExportLaps(activity);
+
+        const segments = laps
+          ? this.getLapSegments(activity.route, laps)
+          : [{
+              lap: null,
+              points: activity.route,
+            }];
+
+        let cumulativeDistance = 0;
+        let previousPoint: LocationPoint | null = null;
+
+        const tcxLaps = segments.map(({ lap, points }) => {
+          const trackPoints = points.map(point => {
+            if (previousPoint) {
+              cumulativeDistance += calculateDistance(
+                previousPoint.latitude,
+                previousPoint.longitude,
+                point.latitude,
+                point.longitude
+              );
+            }
+            previousPoint = point;
+
+            const altitude = point.altitude !== undefined && point.altitude !== null
+              ? `
+              <AltitudeMeters>${point.altitude.toFixed(1)}</AltitudeMeters>`
+              : '';
+
+            return `
+            <Trackpoint>
+              <Time>${new Date(point.timestamp).toISOString()}</Time>
+              <Position>
+                <LatitudeDegrees>${point.latitude}</LatitudeDegrees>
+                <LongitudeDegrees>${point.longitude}</LongitudeDegrees>
+              </Position>${altitude}
+              <DistanceMeters>${cumulativeDistance.toFixed(1)}</DistanceMeters>
+            </Trackpoint>`;
+          }).join('');
+
+          const startTime = lap ? lap.startTime : new Date(activity.startTime).getTime();
+          const totalSeconds = lap ? lap.duration : activity.duration;
+          const distance = lap ? lap.distance : activity.distance;
+
+          return `
+      <Lap StartTime="${new Date(startTime).toISOString()}">
+        <TotalTimeSeconds>${totalSeconds}</TotalTimeSeconds>
+        <DistanceMeters>${distance.toFixed(1)}</DistanceMeters>
+        <Calories>0</Calories>
+        <Intensity>Active</Intensity>
+        <TriggerMethod>${manualLaps ? 'Manual' : 'Distance'}</TriggerMethod>
+        <Track>${trackPoints}
+        </Track>
+      </Lap>`;
+        }).join('');
+
+        return `
+    <Activity Sport="${this.getTCXSport(activity.type)}">
+      <Id>${new Date(activity.startTime).toISOString()}</Id>${tcxLaps}
+      <Notes>${this.escapeXml(activity.name)}</Notes>
+    </Activity>`;
+      }).join('');
+
+    return tcxHeader + tcxActivities + tcxFooter;
+  }
+
+  static exportToFIT(activity: Activity): Uint8Array {
+    const { laps, manualLaps } = this.getExportLaps(activity);
+    const startTime = new Date(activity.startTime).getTime();
+    const endTime = new Date(activity.endTime).getTime();
+
+    const fitLaps: FitLap[] = (laps || []).map(lap => ({
+      startTime: lap.startTime,
+      endTime: lap.endTime,
+      elapsedTime: Math.round((lap.endTime - lap.startTime) / 1000),
+      timerTime: lap.duration,
+      distance: lap.distance,
+      ascent: lap.elevationGain,
+      descent: lap.elevationLoss,
+      trigger: manualLaps ? 'manual' : 'distance',
+    }));
+
+    return encodeFitActivity({
+      sport: getFitSport(activity.type),
+      startTime,
+      endTime,
+      elapsedTime: activity.elapsedTime ?? Math.round((endTime - startTime) / 1000),
+      timerTime: activity.movingTime ?? activity.duration,
+      distance: activity.distance,
+      ascent: activity.elevationGain,
+      descent: activity.elevationLoss,
+      averageSpeed: activity.averageSpeed / 3.6,
+      maxSpeed: activity.maxSpeed / 3.6,
+      route: activity.route || [],
+      laps: fitLaps,
+    });
+  }
+
+  /**
+   * GeoJSON FeatureCollection of spots, wishlist items and routes
+   * Styling uses the simplestyle properties most map tools understand;
+   * `kind` tells our importer which list each feature came from
+   */
+  static exportToGeoJSON(
+    spots: SavedSpot[],
+    wishlistItems: WishlistItem[],
+    activities: Activity[]
+  ): string {
+    const spotFeatures = spots.map(spot => {
+      const category = getCategoryById(spot.category);
+      return {
+        type: 'Feature',
+        geometry: {
+          type: 'Point',
+          coordinates: [spot.location.longitude, spot.location.latitude],
+        },
+        properties: {
+          kind: 'spot',
+          name: spot.name,
+          description: spot.description || undefined,
+          category: category.id,
+          categoryLabel: category.label,
+          rating: spot.rating || undefined,
+          visitDates: this.getVisitDates(spot).map(date => date.toISOString()),
+          'marker-color': category.mapColor,
+        },
+      };
+    });
+
+    const wishlistFeatures = wishlistItems.map(item => {
+      const category = getCategoryById(item.category);
+      const priority = getPriorityLevel(item.priority);
+      return {
+        type: 'Feature',
+        geometry: {
+          type: 'Point',
+          coordinates: [item.location.longitude, item.location.latitude],
+        },
+        properties: {
+          kind: 'wishlist',
+          name: item.name,
+          description: item.description || undefined,
+          notes: item.notes || undefined,
+          category: category.id,
+          categoryLabel: category.label,
+          priority: priority.value,
+          priorityLabel: priority.label,
+          'marker-color': priority.color,
+          'marker-size': WISHLIST_MARKER_SIZE[priority.value],
+        },
+      };
+    });
+
+    const routeFeatures = activities
+      .filter(activity => activity.route && activity.route.length > 1)
+      .map(activity => ({
+        type: 'Feature',
+        geometry: {
+          type: 'LineString',
+          coordinates: activity.route.map(point =>
+            point.altitude !== undefined && point.altitude !== null
+              ? [point.longitude, point.latitude, point.altitude]
+              : [point.longitude, point.latitude]
+          ),
+        },
+        properties: {
+          kind: 'route',
+          name: activity.name,
+          type: activity.type,
+          notes: activity.notes || undefined,
+          startTime: new Date(activity.startTime).toISOString(),
+          endTime: new Date(activity.endTime).toISOString(),
+          distance: activity.distance,
+          // Per-point times, as written by togeojson and read by most tools
+          coordTimes: activity.route.map(point => new Date(point.timestamp).toISOString()),
+          stroke: ROUTE_COLOR,
+          'stroke-width': 3,
+        },
+      }));
+
+    return JSON.stringify(
+      {
+        type: 'FeatureCollection',
+        features: [...spotFeatures, ...wishlistFeatures, ...routeFeatures],
+      },
+      null,
+      2
+    );
+  }
+
+  /**
+   * KML document with a folder each for spots, wishlist items and routes
+   * Spots are styled by category and wishlist items by priority, so they
+   * keep their colors in Google Earth and My Maps
+   */
+  static exportToKML(
+    spots: SavedSpot[],
+    wishlistItems: WishlistItem[],
+    activities: Activity[]
+  ): string {
+    const styles = [
+      ...categoryList.map(category =>
+        this.getKMLIconStyle(`spot-${category.id}`, category.mapColor, SPOT_ICON, 1)
+      ),
+      ...PRIORITY_LEVELS.map(level =>
+        this.getKMLIconStyle(
+          `wishlist-${level.value}`,
+          level.color,
+          WISHLIST_ICON,
+          WISHLIST_ICON_SCALE[level.value]
+        )
+      ),
+      `
+    <Style id="route">
+      <LineStyle>
+        <color>${this.toKMLColor(ROUTE_COLOR)}</color>
+        <width>4</width>
+      </LineStyle>
+    </Style>`,
+    ].join('');
+
+    const spotPlacemarks = spots.map(spot => {
+      const firstVisit = this.getVisitDates(spot)[0];
+      return this.getKMLPlacemark({
+        name: spot.name,
+        description: spot.description,
+        styleId: `spot-${getCategoryById(spot.category).id}`,
+        time: firstVisit
+          ? `
+        <TimeStamp><when>${firstVisit.toISOString()}</when></TimeStamp>`
+          : '',
+        data: {
+          kind: 'spot',
+          category: spot.category,
+          rating: spot.rating ? String(spot.rating) : undefined,
+        },
+        geometry: `
+        <Point><coordinates>${spot.location.longitude},${spot.location.latitude}</coordinates></Point>`,
+      });
+    }).join('');
+
+    const wishlistPlacemarks = wishlistItems.map(item => {
+      const priority = getPriorityLevel(item.priority);
+      return this.getKMLPlacemark({
+        name: item.name,
+        description: item.description,
+        styleId: `wishlist-${priority.value}`,
+        time: '',
+        data: {
+          kind: 'wishlist',
+          category: item.category,
+          priority: String(priority.value),
+          notes: item.notes || undefined,
+        },
+        geometry: `
+        <Point><coordinates>${item.location.longitude},${item.location.latitude}</coordinates></Point>`,
+      });
+    }).join('');
+
+    const routePlacemarks = activities
+      .filter(activity => activity.route && activity.route.length > 1)
+      .map(activity => {
+        const coordinates = activity.route
+          .map(point => `${point.longitude},${point.latitude},${point.altitude || 0}`)
+          .join(' ');
+
+        // A plain LineString is what every KML reader supports; the time
+        // span lets our importer restore the activity's timing
+        return this.getKMLPlacemark({
+          name: activity.name,
+          description: activity.notes,
+          styleId: 'route',
+          time: `
+        <TimeSpan>
+          <begin>${new Date(activity.startTime).toISOString()}</begin>
+          <end>${new Date(activity.endTime).toISOString()}</end>
+        </TimeSpan>`,
+          data: {
+            kind: 'route',
+            type: activity.type,
+            distance: String(activity.distance),
+          },
+          geometry: `
+        <LineString>
+          <tessellate>1</tessellate>
+          <coordinates>${coordinates}</coordinates>
+        </LineString>`,
+        });
+      }).join('');
+
+    const folder = (name: string, placemarks: string) => placemarks
+      ? `
+    <Folder>
+      <name>${name}</name>${placemarks}
+    </Folder>`
+      : '';
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>explorAble Export</name>
+    <description>Saved spots, wishlist and routes from explorAble</description>${styles}${folder('Saved Spots', spotPlacemarks)}${folder('Wishlist', wishlistPlacemarks)}${folder('Routes', routePlacemarks)}
+  </Document>
+</kml>`;
+  }
+
   static async exportSpotsToCSV(spots: SavedSpot[]): Promise<string> {
     const headers = ['Name', 'Category', 'Latitude', 'Longitude', 'Description', 'Rating', 'Date', 'Photos'];
     
@@ -136,39 +477,26 @@ export class ExportService {
   }
 
   static async createBackup(
+    userId: string,
     settings: any,
-    savedSpots: SavedSpot[],
-    activities: Activity[],
-    wishlistItems: WishlistItem[]
+    onProgress?: (progress: BackupProgress) => void,
+    passphrase?: string
   ): Promise<{ uri: string; filename: string }> {
     try {
-      const userName = await AsyncStorage.getItem('userName');
-      
-      const exportData: ExportData = {
-        version: this.EXPORT_VERSION,
-        exportDate: new Date().toISOString(),
-        appVersion: this.APP_VERSION,
-        userData: {
-          userName: userName || undefined,
-        },
-        settings,
-        savedSpots,
-        activities,
-        wishlistItems,
-      };
+      const key = passphrase ? await BackupService.createKey(passphrase) : undefined;
 
-      const jsonContent = await this.exportToJSON(exportData);
-      const filename = `explorable_backup_${new Date().toISOString().split('T')[0]}.json`;
-      const fileUri = `${FileSystem.documentDirectory}${filename}`;
+      const date = new Date().toISOString().split('T')[0];
+      const filename = passphrase
+        ? `explorable_backup_${date}_encrypted.zip`
+        : `explorable_backup_${date}.zip`;
+      const file = new File(Paths.document, filename);
 
-      await FileSystem.writeAsStringAsync(fileUri, jsonContent, {
-        encoding: FileSystem.EncodingType.UTF8,
-      });
+      await BackupService.writeBackup(file.uri, userId, settings, { key, onProgress });
 
-      return { uri: fileUri, filename };
+      return { uri: file.uri, filename };
     } catch (error) {
       console.error('Error creating backup:', error);
-      throw new Error('Failed to create backup file');
+      throw new Error('Failed to create backup');
     }
   }
 
@@ -176,19 +504,89 @@ export class ExportService {
     try {
       const gpxContent = await this.exportToGPX(activities);
       const filename = `explorable_activities_${new Date().toISOString().split('T')[0]}.gpx`;
-      const fileUri = `${FileSystem.documentDirectory}${filename}`;
-
-      await FileSystem.writeAsStringAsync(fileUri, gpxContent, {
-        encoding: FileSystem.EncodingType.UTF8,
-      });
+      const file = new File(Paths.document, filename);
+      file.write(gpxContent);
 
-      return { uri: fileUri, filename };
+      return { uri: file.uri, filename };
     } catch (error) {
       console.error('Error creating GPX file:', error);
       throw new Error('Failed to create GPX file');
     }
   }
 
+  static async exportActivitiesAsTCX(activities: Activity[]): Promise<{ uri: string; filename: string }> {
+    try {
+      const tcxContent = await this.exportToTCX(activities);
+      const filename = `explorable_activities_${new Date().toISOString().split('T')[0]}.tcx`;
+      const file = new File(Paths.document, filename);
+      file.write(tcxContent);
+
+      return { uri: file.uri, filename };
+    } catch (error) {
+      console.error('Error creating TCX file:', error);
+      throw new Error('Failed to create TCX file');
+    }
+  }
+
+  static async exportActivityAsFIT(activity: Activity): Promise<{ uri: string; filename: string }> {
+    try {
+      const bytes = this.exportToFIT(activity);
+      const date = new Date(activity.startTime).toISOString().split('T')[0];
+      const safeName = activity.name.replace(/[^a-z0-9]+/gi, '_').toLowerCase();
+      const filename = `explorable_${safeName}_${date}.fit`;
+      const file = new File(Paths.document, filename);
+      file.write(bytes);
+
+      return { uri: file.uri, filename };
+    } catch (error) {
+      console.error('Error creating FIT file:', error);
+      throw new Error('Failed to create FIT file');
+    }
+  }
+
+  static async exportMapAsGeoJSON(
+    spots: SavedSpot[],
+    wishlistItems: WishlistItem[],
+    activities: Activity[]
+  ): Promise<{ uri: string; filename: string }> {
+    try {
+      const geojson = this.exportToGeoJSON(spots, wishlistItems, activities);
+      const filename = `explorable_map_${new Date().toISOString().split('T')[0]}.geojson`;
+      const file = new File(Paths.document, filename);
+      file.write(geojson);
+
+      return { uri: file.uri, filename };
+    } catch (error) {
+      console.error('Error creating GeoJSON file:', error);
+      throw new Error('Failed to create GeoJSON file');
+    }
+  }
+
+  /**
+   * Write a KML file, or a KMZ (zipped KML) when compress is set
+   */
+  static async exportMapAsKML(
+    spots: SavedSpot[],
+    wishlistItems: WishlistItem[],
+    activities: Activity[],
+    compress: boolean = true
+  ): Promise<{ uri: string; filename: string }> {
+    try {
+      const kml = this.exportToKML(spots, wishlistItems, activities);
+      const date = new Date().toISOString().split('T')[0];
+      const filename = `explorable_map_${date}.${compress ? 'kmz' : 'kml'}`;
+      const file = new File(Paths.document, filename);
+
+      // Google Earth opens the first .kml in the archive - doc.kml by convention
+      file.write(compress ? createZip([{ name: 'doc.kml', data: utf8Encode(kml) }]) : kml);
+
+      return { uri: file.uri, filename };
+    } catch (error) {
+      console.error('Error creating KML file:', error);
+      throw new Error('Failed to create KML file');
+    }
+  }
+
   static async exportAsCSV(
     spots: SavedSpot[],
     activities: Activity[]
@@ -201,13 +599,13 @@ export class ExportService {
       const spotsFilename = `explorable_spots_${date}.csv`;
       const activitiesFilename = `explorable_activities_${date}.csv`;
       
-      const spotsUri = `${FileSystem.documentDirectory}${spotsFilename}`;
-      const activitiesUri = `${FileSystem.documentDirectory}${activitiesFilename}`;
+      const spotsFile = new File(Paths.document, spotsFilename);
+      const activitiesFile = new File(Paths.document, activitiesFilename);
 
-      await FileSystem.writeAsStringAsync(spotsUri, spotsCSV);
-      await FileSystem.writeAsStringAsync(activitiesUri, activitiesCSV);
+      spotsFile.write(spotsCSV);
+      activitiesFile.write(activitiesCSV);
 
-      return { spotsUri, activitiesUri };
+      return { spotsUri: spotsFile.uri, activitiesUri: activitiesFile.uri };
     } catch (error) {
       console.error('Error creating CSV files:', error);
       throw new Error('Failed to create CSV files');
@@ -226,7 +624,7 @@ export class ExportService {
       await Sharing.shareAsync(fileUri, {
         mimeType,
         dialogTitle: 'Export explorAble Data',
-        UTI: mimeType === 'application/json' ? 'public.json' : 'public.plain-text',
+        UTI: SHARE_UTIS[mimeType] || 'public.plain-text',
       });
     } catch (error) {
       console.error('Error sharing file:', error);
@@ -243,7 +641,7 @@ export class ExportService {
       const isAvailable = await MailComposer.isAvailableAsync();
       
       if (!isAvailable) {
-        await this.shareFile(fileUri);
+        await this.shareFile(fileUri, 'application/zip');
         return;
       }
 
@@ -286,14 +684,22 @@ export class ExportService {
       }
     } catch (error) {
       console.error('Error sending email:', error);
-      await this.shareFile(fileUri);
+      await this.shareFile(fileUri, 'application/zip');
     }
   }
 
-  static async importBackup(): Promise<ExportData | null> {
+  /**
+   * Pick a backup file and return it as a verified archive
+   * Version 1.0 backups are migrated to the current format.
+   * Encrypted backups ask for their passphrase through requestPassphrase.
+   */
+  static async importBackup(
+    requestPassphrase?: () => Promise<string | null>
+  ): Promise<BackupArchive | null> {
     try {
       const result = await DocumentPicker.getDocumentAsync({
-        type: 'application/json',
+        // Version 1.0 backups are JSON; some file providers don't know .zip
+        type: ['application/zip', 'application/json', 'application/octet-stream'],
         copyToCacheDirectory: true,
       });
 
@@ -301,61 +707,109 @@ export class ExportService {
         return null;
       }
 
-      const file = result.assets[0];
-
-      const fileContent = await FileSystem.readAsStringAsync(file.uri, {
-        encoding: FileSystem.EncodingType.UTF8,
-      });
-
-      const data: ExportData = JSON.parse(fileContent);
-
-      if (!data.version || !data.exportDate) {
-        throw new Error('Invalid backup file format');
-      }
-
-      if (data.version !== this.EXPORT_VERSION) {
-        Alert.alert(
-          'Version Mismatch',
-          `This backup was created with a different version (${data.version}). Some data may not import correctly.`,
-          [{ text: 'Continue Anyway' }]
-        );
-      }
-
-      return data;
-    } catch (error) {
+      return await BackupService.openBackup(result.assets[0].uri, requestPassphrase);
+    } catch (error: any) {
       console.error('Error importing backup:', error);
-      Alert.alert('Import Failed', 'Failed to import backup file. Please ensure it\'s a valid explorAble backup.');
+      Alert.alert(
+        'Import Failed',
+        error instanceof SyntaxError || !error?.message
+          ? 'Failed to import backup file. Please ensure it\'s a valid explorAble backup.'
+          : error.message
+      );
       return null;
     }
   }
 
-  static async restoreFromBackup(data: ExportData): Promise<boolean> {
-    try {
-      if (data.userData?.userName) {
-        await AsyncStorage.setItem('userName', data.userData.userName);
-      }
+  // Prefer manual laps, then automatic splits, then one lap for the whole activity
+  private static getExportLaps(activity: Activity): { laps: ActivitySplit[] | null; manualLaps: boolean } {
+    if (activity.laps && activity.laps.length > 0) {
+      return { laps: activity.laps, manualLaps: true };
+    }
+    if (activity.splits && activity.splits.length > 0) {
+      return { laps: activity.splits, manualLaps: false };
+    }
+    return { laps: null, manualLaps: false };
+  }
 
-      if (data.settings) {
-        await AsyncStorage.setItem('explorableSettings', JSON.stringify(data.settings));
-      }
+  private static getLapSegments(
+    route: LocationPoint[],
+    laps: ActivitySplit[]
+  ): { lap: ActivitySplit; points: LocationPoint[] }[] {
+    return laps.map((lap, i) => ({
+      lap,
+      // The last lap keeps any trailing points recorded after its end time
+      points: route.filter(point =>
+        point.timestamp >= lap.startTime &&
+        (i === laps.length - 1 || point.timestamp < lap.endTime)
+      ),
+    }));
+  }
 
-      if (data.savedSpots) {
-        await AsyncStorage.setItem('savedSpots', JSON.stringify(data.savedSpots));
-      }
+  private static getTCXSport(type: string): 'Running' | 'Biking' | 'Other' {
+    switch (type) {
+      case 'run':
+        return 'Running';
+      case 'bike':
+        return 'Biking';
+      default:
+        return 'Other';
+    }
+  }
 
-      if (data.activities) {
-        await AsyncStorage.setItem('activities', JSON.stringify(data.activities));
-      }
+  // Visit dates, oldest first - older spots only have locationDate
+  private static getVisitDates(spot: SavedSpot): Date[] {
+    const dates = spot.visits && spot.visits.length > 0
+      ? spot.visits.map(visit => new Date(visit.date))
+      : spot.locationDate
+        ? [new Date(spot.locationDate)]
+        : [];
+    return dates
+      .filter(date => !isNaN(date.getTime()))
+      .sort((a, b) => a.getTime() - b.getTime());
+  }
 
-      if (data.wishlistItems) {
-        await AsyncStorage.setItem('wishlist', JSON.stringify(data.wishlistItems));
-      }
+  private static getKMLIconStyle(id: string, color: string, icon: string, scale: number): string {
+    return `
+    <Style id="${id}">
+      <IconStyle>
+        <color>${this.toKMLColor(color)}</color>
+        <scale>${scale}</scale>
+        <Icon><href>${icon}</href></Icon>
+      </IconStyle>
+    </Style>`;
+  }
 
-      return true;
-    } catch (error) {
-      console.error('Error restoring backup:', error);
-      return false;
-    }
+  private static getKMLPlacemark(params: {
+    name: string;
+    description?: string;
+    styleId: string;
+    time: string;
+    data: Record<string, string | undefined>;
+    geometry: string;
+  }): string {
+    const description = params.description
+      ? `
+        <description>${this.escapeXml(params.description)}</description>`
+      : '';
+    const data = Object.entries(params.data)
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => `
+          <Data name="${name}"><value>${this.escapeXml(value as string)}</value></Data>`)
+      .join('');
+
+    return `
+      <Placemark>
+        <name>${this.escapeXml(params.name)}</name>${description}
+        <styleUrl>#${params.styleId}</styleUrl>${params.time}
+        <ExtendedData>${data}
+        </ExtendedData>${params.geometry}
+      </Placemark>`;
+  }
+
+  // KML colors are aabbggrr hex
+  private static toKMLColor(hex: string): string {
+    const rgb = hex.replace('#', '');
+    return `ff${rgb.slice(4, 6)}${rgb.slice(2, 4)}${rgb.slice(0, 2)}`.toLowerCase();
   }
 
   private static escapeXml(text: string): string {
@@ -376,12 +830,10 @@ export class ExportService {
 
   static async getFileSize(uri: string): Promise<string> {
     try {
-      const fileInfo = await FileSystem.getInfoAsync(uri);
-      if (!fileInfo.exists || !('size' in fileInfo) || fileInfo.size === undefined) {
-        return 'Unknown size';
-      }
+      const file = new File(uri);
+      if (!file.exists) return 'Unknown size';
 
-      const bytes = fileInfo.size;
+      const bytes = file.size;
       const sizes = ['Bytes', 'KB', 'MB', 'GB'];
       if (bytes === 0) return '0 Bytes';
       const i = Math.floor(Math.log(bytes) / Math.log(1024));
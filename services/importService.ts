@@ -0,0 +1,1081 @@
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+import { categories, CategoryType } from '../constants/categories';
+import { Activity, ActivityType } from '../contexts/ActivityContext';
+import { SavedSpot } from '../contexts/LocationContext';
+import { WishlistItem } from '../contexts/WishlistContext';
+import { LocationPoint } from '../types/visits';
+import { getActivityTypeLabel } from '../utils/activity';
+import { calculateElevationStats } from '../utils/elevation';
+import { decodeFit, getActivityTypeFromFitSport } from '../utils/fit';
+import { calculateDistance, getMovementThresholds } from '../utils/gps';
+import { calculateLaps, calculateSplits, PauseInterval, SplitUnit } from '../utils/splits';
+import { readZip } from '../utils/zip';
+import { LocationService } from './locationService';
+
+export interface ImportedSpot {
+  name: string;
+  location: { latitude: number; longitude: number };
+  description?: string;
+  category: CategoryType;
+  visitDate?: Date;
+}
+
+export interface ImportedWishlistItem {
+  name: string;
+  location: { latitude: number; longitude: number };
+  description?: string;
+  notes?: string;
+  category: CategoryType;
+  priority: number;
+}
+
+export interface ImportCandidate<T> {
+  item: T;
+  duplicateOf?: string; // Name of the existing record this matches
+}
+
+export interface ImportPreview {
+  fileName: string;
+  activities: ImportCandidate<Activity>[];
+  spots: ImportCandidate<ImportedSpot>[];
+  wishlist: ImportCandidate<ImportedWishlistItem>[];
+}
+
+export interface ParsedImport {
+  activities: Activity[];
+  spots: ImportedSpot[];
+  wishlist: ImportedWishlistItem[];
+}
+
+// Saved places from another app, before the user picks where each goes
+export type PlacesImportSource =
+  | { type: 'places'; fileName: string; places: ImportedSpot[] }
+  | { type: 'csv'; fileName: string; headers: string[]; rows: string[][] };
+
+export type CsvField = 'name' | 'latitude' | 'longitude' | 'description' | 'category' | 'date';
+
+// Column index for each field; name and coordinates are required
+export type CsvColumnMapping = Partial<Record<CsvField, number>>;
+
+export interface PlaceCandidate extends ImportCandidate<ImportedSpot> {
+  wishlistDuplicateOf?: string; // Name of the wishlist item this matches
+}
+
+export interface PickedFile {
+  name: string;
+  uri: string;
+}
+
+// Activities starting this close together are treated as the same recording
+const DUPLICATE_ACTIVITY_START_MS = 2 * 60 * 1000;
+// Spots this close are duplicates when the names match, or regardless of name
+const DUPLICATE_SPOT_NAMED_METERS = 50;
+const DUPLICATE_SPOT_METERS = 10;
+
+// Header names each CSV field is recognized by, most specific first
+const CSV_HEADER_NAMES: Record<CsvField, string[]> = {
+  name: ['name', 'title', 'place', 'placename', 'location', 'businessname'],
+  latitude: ['latitude', 'lat', 'y'],
+  longitude: ['longitude', 'lng', 'lon', 'long', 'x'],
+  description: ['description', 'desc', 'note', 'notes', 'comment', 'comments', 'address'],
+  category: ['category', 'type', 'kind', 'tag', 'tags'],
+  date: ['date', 'visited', 'visitdate', 'time', 'timestamp', 'created'],
+};
+
+export class ImportService {
+  /**
+   * Let the user pick a single file
+   */
+  static async pickFile(type: string | string[] = '*/*'): Promise<PickedFile | null> {
+    const result = await DocumentPicker.getDocumentAsync({
+      type,
+      copyToCacheDirectory: true,
+    });
+
+    if (result.canceled || !result.assets || result.assets.length === 0) {
+      return null;
+    }
+
+    return { name: result.assets[0].name, uri: result.assets[0].uri };
+  }
+
+  static async readText(uri: string): Promise<string> {
+    return new File(uri).text();
+  }
+
+  static async readBytes(uri: string): Promise<Uint8Array> {
+    return new File(uri).bytes();
+  }
+
+  /**
+   * Pick a GPX, TCX, FIT, GeoJSON, KML or KMZ file and parse it
+   * These formats have no registered MIME types on Android, so any file can
+   * be picked and the format is worked out from its name or contents
+   */
+  static async importActivityFile(splitUnit: SplitUnit): Promise<{ fileName: string; parsed: ParsedImport } | null> {
+    const file = await this.pickFile('*/*');
+    if (!file) return null;
+
+    const extension = file.name.split('.').pop()?.toLowerCase();
+
+    if (extension === 'fit') {
+      const bytes = await this.readBytes(file.uri);
+      return { fileName: file.name, parsed: this.parseFIT(bytes, splitUnit) };
+    }
+    if (extension === 'kmz') {
+      const bytes = await this.readBytes(file.uri);
+      return { fileName: file.name, parsed: this.parseKMZ(bytes, splitUnit) };
+    }
+
+    const content = await this.readText(file.uri);
+
+    if (extension === 'tcx' || /<TrainingCenterDatabase[\s>]/.test(content)) {
+      return { fileName: file.name, parsed: this.parseTCX(content, splitUnit) };
+    }
+    if (extension === 'gpx' || /<gpx[\s>]/i.test(content)) {
+      return { fileName: file.name, parsed: this.parseGPX(content, splitUnit) };
+    }
+    if (extension === 'kml' || /<kml[\s>]/i.test(content)) {
+      return { fileName: file.name, parsed: this.parseKML(content, splitUnit) };
+    }
+    if (extension === 'geojson' || extension === 'json' || /^\s*\{/.test(content)) {
+      return { fileName: file.name, parsed: this.parseGeoJSON(content, splitUnit) };
+    }
+
+    throw new Error('Unsupported file type - choose a GPX, TCX, FIT, GeoJSON, KML or KMZ file');
+  }
+
+  /**
+   * Pick a saved places file - Google Takeout "Saved Places" GeoJSON or a
+   * CSV with coordinate columns. CSV columns are mapped by the user, so
+   * they're returned unparsed.
+   */
+  static async importPlacesFile(): Promise<PlacesImportSource | null> {
+    const file = await this.pickFile('*/*');
+    if (!file) return null;
+
+    const content = await this.readText(file.uri);
+    const extension = file.name.split('.').pop()?.toLowerCase();
+
+    if (extension === 'csv' || extension === 'tsv' || extension === 'txt') {
+      const [headers, ...rows] = this.parseCSV(content);
+      if (!headers || rows.length === 0) {
+        throw new Error('This CSV file has no rows');
+      }
+      return { type: 'csv', fileName: file.name, headers, rows };
+    }
+
+    return { type: 'places', fileName: file.name, places: this.parseSavedPlaces(content) };
+  }
+
+  /**
+   * Parse Google Takeout "Saved Places.json", or any GeoJSON of points
+   * Takeout has used two layouts over the years; both are handled
+   */
+  static parseSavedPlaces(text: string): ImportedSpot[] {
+    const json = JSON.parse(text);
+    const features: any[] = Array.isArray(json?.features) ? json.features : [];
+
+    return features
+      .map((feature, i): ImportedSpot | null => {
+        const props = feature?.properties || {};
+        // Current: location.{name,address}; older: Location.{Business Name,Address,Geo Coordinates}
+        const location = props.location || props.Location || {};
+        const geo = location['Geo Coordinates'];
+        const coordinates = feature?.geometry?.type === 'Point' ? feature.geometry.coordinates || [] : [];
+
+        let latitude = parseFloat(geo?.Latitude ?? coordinates[1]);
+        let longitude = parseFloat(geo?.Longitude ?? coordinates[0]);
+
+        // Places starred without a pin come through at 0,0 - the maps link
+        // sometimes still has the coordinates
+        if (!latitude && !longitude) {
+          const url = String(props.google_maps_url || props['Google Maps URL'] || '');
+          const match = url.match(/[?&@](?:q=)?(-?\d+\.\d+),(-?\d+\.\d+)/);
+          latitude = match ? parseFloat(match[1]) : NaN;
+          longitude = match ? parseFloat(match[2]) : NaN;
+        }
+        if (!isFinite(latitude) || !isFinite(longitude) || (!latitude && !longitude)) return null;
+
+        const address = location.address || location.Address;
+        const name = String(
+          location.name || location['Business Name'] || props.Title || props.name || props.title || address || `Saved place ${i + 1}`
+        ).trim();
+        const description = props.Comment || props.comment || props.description || address;
+
+        return {
+          name,
+          location: { latitude, longitude },
+          description: description && String(description) !== name ? String(description) : undefined,
+          category: LocationService.detectCategoryFromName(name, props.category || props.type) || 'other',
+        };
+      })
+      .filter((place): place is ImportedSpot => place !== null);
+  }
+
+  /**
+   * Split CSV text into rows of cells
+   * Handles quoted cells with commas, quotes and line breaks, and picks
+   * comma, semicolon or tab from the header line
+   */
+  static parseCSV(text: string): string[][] {
+    const content = text.replace(/^\uFEFF/, '');
+    const headerLine = content.split(/\r?\n/, 1)[0] || '';
+    const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+      headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+    );
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i];
+
+      if (quoted) {
+        if (char === '"' && content[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"' && cell === '') {
+        quoted = true;
+      } else if (char === delimiter) {
+        row.push(cell.trim());
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') i++;
+        row.push(cell.trim());
+        if (row.some(value => value !== '')) rows.push(row);
+        row = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+
+    row.push(cell.trim());
+    if (row.some(value => value !== '')) rows.push(row);
+
+    return rows;
+  }
+
+  /**
+   * Guess which CSV column holds each field from the header names
+   */
+  static guessCsvMapping(headers: string[]): CsvColumnMapping {
+    const normalized = headers.map(header => header.toLowerCase().replace(/[^a-z]/g, ''));
+    const mapping: CsvColumnMapping = {};
+    const used = new Set<number>();
+
+    (Object.keys(CSV_HEADER_NAMES) as CsvField[]).forEach(field => {
+      for (const name of CSV_HEADER_NAMES[field]) {
+        const index = normalized.findIndex((header, i) => header === name && !used.has(i));
+        if (index >= 0) {
+          mapping[field] = index;
+          used.add(index);
+          return;
+        }
+      }
+    });
+
+    return mapping;
+  }
+
+  /**
+   * Turn CSV rows into places using the chosen columns
+   * Rows without a name or valid coordinates are skipped
+   */
+  static mapCsvRows(rows: string[][], mapping: CsvColumnMapping): { places: ImportedSpot[]; skipped: number } {
+    const cell = (row: string[], field: CsvField) =>
+      mapping[field] !== undefined ? (row[mapping[field] as number] || '').trim() : '';
+    const number = (value: string) => this.parseLocaleNumber(value);
+
+    const places: ImportedSpot[] = [];
+    let skipped = 0;
+
+    for (const row of rows) {
+      const name = cell(row, 'name');
+      const latitude = number(cell(row, 'latitude'));
+      const longitude = number(cell(row, 'longitude'));
+
+      if (!name || !isFinite(latitude) || !isFinite(longitude) ||
+          Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+        skipped++;
+        continue;
+      }
+
+      const categoryText = cell(row, 'category');
+      const date = cell(row, 'date') ? new Date(cell(row, 'date')) : undefined;
+
+      places.push({
+        name,
+        location: { latitude, longitude },
+        description: cell(row, 'description') || undefined,
+        category: this.matchCategory(categoryText) ||
+          LocationService.detectCategoryFromName(name, categoryText) ||
+          'other',
+        visitDate: date && !isNaN(date.getTime()) ? date : undefined,
+      });
+    }
+
+    return { places, skipped };
+  }
+
+  /**
+   * Parse a number written with either decimal separator
+   * Semicolon-separated files often use decimal commas. The last . or ,
+   * is the decimal point unless it appears more than once (1.234.567);
+   * every other separator groups thousands.
+   */
+  static parseLocaleNumber(value: string): number {
+    const compact = value.replace(/[\s']/g, '');
+    const decimal = compact.match(/[.,](?=\d*$)/)?.[0];
+
+    if (!decimal || compact.indexOf(decimal) !== compact.lastIndexOf(decimal)) {
+      return parseFloat(compact.replace(/[.,]/g, ''));
+    }
+
+    const point = compact.lastIndexOf(decimal);
+    return parseFloat(`${compact.slice(0, point).replace(/[.,]/g, '')}.${compact.slice(point + 1)}`);
+  }
+
+  /**
+   * Flag places that match an existing spot or wishlist item
+   * A repeat of an earlier row in the same file counts as a spot
+   * duplicate, since the first copy will already have been imported
+   */
+  static buildPlacesPreview(
+    places: ImportedSpot[],
+    existingSpots: SavedSpot[],
+    existingWishlist: WishlistItem[]
+  ): PlaceCandidate[] {
+    const accepted: ImportedSpot[] = [];
+
+    return places.map(place => {
+      const earlier = this.findDuplicatePlace(place, accepted);
+      if (!earlier) accepted.push(place);
+
+      return {
+        item: place,
+        duplicateOf: (this.findDuplicatePlace(place, existingSpots) || earlier)?.name,
+        wishlistDuplicateOf: this.findDuplicatePlace(place, existingWishlist)?.name,
+      };
+    });
+  }
+
+  /**
+   * Parse GPX text: each <trk> becomes an activity, each <wpt> a spot
+   */
+  static parseGPX(xml: string, splitUnit: SplitUnit = 'km'): ParsedImport {
+    const activities = this.getElements(xml, 'trk')
+      .map((trk, i) => {
+        const segments = this.getElements(trk.body, 'trkseg')
+          .map(seg => this.parsePoints(seg.body, 'trkpt'))
+          .filter(points => points.length > 0);
+
+        return this.buildActivity({
+          name: this.getText(trk.body, 'name') || `Imported activity ${i + 1}`,
+          typeHint: this.getText(trk.body, 'type'),
+          notes: this.getText(trk.body, 'desc') || undefined,
+          segments,
+          splitUnit,
+        });
+      })
+      .filter((activity): activity is Activity => activity !== null);
+
+    // Routes (<rte>) have no timing, but are still worth keeping as a track
+    const routes = this.getElements(xml, 'rte')
+      .map((rte, i) => this.buildActivity({
+        name: this.getText(rte.body, 'name') || `Imported route ${i + 1}`,
+        typeHint: this.getText(rte.body, 'type'),
+        notes: this.getText(rte.body, 'desc') || undefined,
+        segments: [this.parsePoints(rte.body, 'rtept')],
+        splitUnit,
+      }))
+      .filter((activity): activity is Activity => activity !== null);
+
+    const spots = this.getElements(xml, 'wpt')
+      .map((wpt, i): ImportedSpot | null => {
+        const latitude = parseFloat(this.getAttribute(wpt.attributes, 'lat') || '');
+        const longitude = parseFloat(this.getAttribute(wpt.attributes, 'lon') || '');
+        if (!isFinite(latitude) || !isFinite(longitude)) return null;
+
+        const name = this.getText(wpt.body, 'name') || `Waypoint ${i + 1}`;
+        const typeHint = [this.getText(wpt.body, 'type'), this.getText(wpt.body, 'sym')]
+          .filter(Boolean)
+          .join(' ');
+        const time = this.getText(wpt.body, 'time');
+        const description = this.getText(wpt.body, 'desc') || this.getText(wpt.body, 'cmt');
+
+        return {
+          name,
+          location: { latitude, longitude },
+          description: description || undefined,
+          category: LocationService.detectCategoryFromName(name, typeHint) || 'other',
+          visitDate: time ? new Date(time) : undefined,
+        };
+      })
+      .filter((spot): spot is ImportedSpot => spot !== null);
+
+    return { activities: [...activities, ...routes], spots, wishlist: [] };
+  }
+
+  /**
+   * Parse TCX text: each <Activity> becomes an activity with its laps
+   */
+  static parseTCX(xml: string, splitUnit: SplitUnit = 'km'): ParsedImport {
+    const activities = this.getElements(xml, 'Activity')
+      .map((activity, i) => {
+        const sport = this.getAttribute(activity.attributes, 'Sport') || '';
+        const laps = this.getElements(activity.body, 'Lap');
+
+        // Each <Track> is a run of continuous recording
+        const segments = laps.flatMap(lap =>
+          this.getElements(lap.body, 'Track').map(track =>
+            this.getElements(track.body, 'Trackpoint')
+              .map(point => {
+                const altitude = parseFloat(this.getText(point.body, 'AltitudeMeters'));
+                return {
+                  latitude: parseFloat(this.getText(point.body, 'LatitudeDegrees')),
+                  longitude: parseFloat(this.getText(point.body, 'LongitudeDegrees')),
+                  // Sea level is a real reading
+                  altitude: Number.isFinite(altitude) ? altitude : undefined,
+                  timestamp: new Date(this.getText(point.body, 'Time')).getTime() || 0,
+                };
+              })
+              .filter(p => isFinite(p.latitude) && isFinite(p.longitude))
+          )
+        );
+
+        const lapStarts = laps
+          .map(lap => new Date(this.getAttribute(lap.attributes, 'StartTime') || '').getTime())
+          .filter(time => isFinite(time));
+        const lapDistance = laps.reduce(
+          (sum, lap) => sum + (parseFloat(this.getText(lap.body, 'DistanceMeters')) || 0),
+          0
+        );
+        const label = sport && sport !== 'Other' ? sport : 'Activity';
+
+        return this.buildActivity({
+          name: this.getText(activity.body, 'Notes') || `Imported ${label.toLowerCase()} ${i + 1}`,
+          typeHint: sport === 'Other' ? undefined : sport,
+          segments,
+          splitUnit,
+          lapStarts: lapStarts.length > 1 ? lapStarts : undefined,
+          distance: lapDistance > 0 ? lapDistance : undefined,
+        });
+      })
+      .filter((activity): activity is Activity => activity !== null);
+
+    return { activities, spots: [], wishlist: [] };
+  }
+
+  /**
+   * Decode a FIT file from a watch or bike computer into one activity
+   * The watch's own totals are kept where present - they include
+   * sensor data (wheel speed, foot pods) the GPS track doesn't
+   */
+  static parseFIT(bytes: Uint8Array, splitUnit: SplitUnit = 'km'): ParsedImport {
+    const fit = decodeFit(bytes);
+    const type = getActivityTypeFromFitSport(fit.sport);
+    const date = new Date(fit.startTime || fit.route[0]?.timestamp || Date.now());
+
+    const activity = this.buildActivity({
+      name: `${getActivityTypeLabel(type)} ${date.toLocaleDateString()}`,
+      typeHint: type,
+      segments: [fit.route],
+      splitUnit,
+      lapStarts: fit.laps.length > 1 ? fit.laps.map(lap => lap.startTime) : undefined,
+      distance: fit.distance > 0 ? fit.distance : undefined,
+      movingTime: fit.timerTime > 0 ? fit.timerTime : undefined,
+      maxSpeed: fit.maxSpeed !== undefined ? fit.maxSpeed * 3.6 : undefined,
+    });
+
+    return { activities: activity ? [activity] : [], spots: [], wishlist: [] };
+  }
+
+  /**
+   * Parse GeoJSON: points become spots or wishlist items, lines become routes
+   * Our own exports say which list a point came from in `kind`; anything
+   * else is treated as a spot
+   */
+  static parseGeoJSON(text: string, splitUnit: SplitUnit = 'km'): ParsedImport {
+    const json = JSON.parse(text);
+    const features: any[] =
+      json?.type === 'FeatureCollection' ? json.features || []
+      : json?.type === 'Feature' ? [json]
+      : json?.type ? [{ type: 'Feature', geometry: json, properties: {} }]
+      : [];
+
+    const result: ParsedImport = { activities: [], spots: [], wishlist: [] };
+
+    features.forEach((feature, i) => {
+      const geometry = feature?.geometry;
+      if (!geometry) return;
+
+      const props = feature.properties || {};
+      const name = String(props.name || props.title || props.Name || '').trim();
+
+      if (geometry.type === 'Point' || geometry.type === 'MultiPoint') {
+        const positions = geometry.type === 'Point' ? [geometry.coordinates] : geometry.coordinates || [];
+        positions.forEach((position: number[]) => {
+          const place = this.buildPlace({
+            kind: props.kind,
+            name: name || `Place ${i + 1}`,
+            latitude: Number(position?.[1]),
+            longitude: Number(position?.[0]),
+            description: props.description || props.desc,
+            notes: props.notes,
+            category: props.category,
+            typeHint: props.type || props.categoryLabel,
+            priority: props.priority,
+            time: props.visitDates?.[0] || props.date || props.time || props.timestamp,
+          });
+          if (place?.kind === 'wishlist') result.wishlist.push(place.item);
+          else if (place) result.spots.push(place.item);
+        });
+        return;
+      }
+
+      if (geometry.type === 'LineString' || geometry.type === 'MultiLineString') {
+        const lines: number[][][] =
+          geometry.type === 'LineString' ? [geometry.coordinates || []] : geometry.coordinates || [];
+        // togeojson writes one array of times per line for multi-lines
+        const times: any[] = Array.isArray(props.coordTimes) ? props.coordTimes : [];
+        const lineTimes = geometry.type === 'LineString' ? [times] : times;
+
+        const segments = lines.map((line, lineIndex) =>
+          line
+            .map((position, pointIndex) => ({
+              latitude: Number(position?.[1]),
+              longitude: Number(position?.[0]),
+              altitude: isFinite(position?.[2]) ? Number(position[2]) : undefined,
+              timestamp: new Date(lineTimes[lineIndex]?.[pointIndex] ?? NaN).getTime() || 0,
+            }))
+            .filter(p => isFinite(p.latitude) && isFinite(p.longitude))
+        );
+
+        const activity = this.buildActivity({
+          name: name || `Imported route ${i + 1}`,
+          typeHint: props.type || props.activityType,
+          notes: props.notes || props.description || undefined,
+          segments: this.fillTimes(segments, props.startTime, props.endTime),
+          splitUnit,
+          distance: props.kind === 'route' && props.distance > 0 ? Number(props.distance) : undefined,
+        });
+        if (activity) result.activities.push(activity);
+      }
+    });
+
+    return result;
+  }
+
+  /**
+   * Parse KML: Points become spots or wishlist items, LineStrings and
+   * gx:Tracks become routes
+   */
+  static parseKML(xml: string, splitUnit: SplitUnit = 'km'): ParsedImport {
+    const result: ParsedImport = { activities: [], spots: [], wishlist: [] };
+
+    this.getElements(xml, 'Placemark').forEach((placemark, i) => {
+      const body = placemark.body;
+      const name = this.getText(body, 'name');
+      const description = this.stripHtml(this.getText(body, 'description'));
+      const styleUrl = this.getText(body, 'styleUrl');
+      const style = styleUrl.match(/#(spot|wishlist)-(\w+)/);
+
+      // <Data name="x"><value> from our exports, <SimpleData name="x"> from GIS tools
+      const data: Record<string, string> = {};
+      this.getElements(body, 'Data').forEach(el => {
+        const key = this.getAttribute(el.attributes, 'name');
+        if (key) data[key] = this.getText(el.body, 'value');
+      });
+      this.getElements(body, 'SimpleData').forEach(el => {
+        const key = this.getAttribute(el.attributes, 'name');
+        if (key) data[key] = this.unescapeXml(el.body).trim();
+      });
+
+      const kind = data.kind || style?.[1];
+      const timeStamp = this.getElements(body, 'TimeStamp')[0];
+
+      this.getElements(body, 'Point').forEach(point => {
+        const [position] = this.parseCoordinates(this.getText(point.body, 'coordinates'));
+        if (!position) return;
+
+        const place = this.buildPlace({
+          kind,
+          name: name || `Place ${i + 1}`,
+          latitude: position.latitude,
+          longitude: position.longitude,
+          description,
+          notes: data.notes,
+          category: data.category || (style?.[1] === 'spot' ? style[2] : undefined),
+          typeHint: data.type,
+          priority: data.priority || (style?.[1] === 'wishlist' ? style[2] : undefined),
+          time: timeStamp ? this.getText(timeStamp.body, 'when') : undefined,
+        });
+        if (place?.kind === 'wishlist') result.wishlist.push(place.item);
+        else if (place) result.spots.push(place.item);
+      });
+
+      // gx:Track pairs each <when> with a <gx:coord> of "lon lat alt"
+      const tracks = this.getElements(body, 'Track').map(track => {
+        const whens = this.getElements(track.body, 'when').map(el => this.unescapeXml(el.body).trim());
+        return this.getElements(track.body, 'coord')
+          .map((coord, index) => {
+            const [longitude, latitude, altitude] = coord.body.trim().split(/\s+/).map(parseFloat);
+            return {
+              latitude,
+              longitude,
+              altitude: isFinite(altitude) ? altitude : undefined,
+              timestamp: new Date(whens[index] ?? NaN).getTime() || 0,
+            };
+          })
+          .filter(p => isFinite(p.latitude) && isFinite(p.longitude));
+      });
+      const lines = this.getElements(body, 'LineString').map(line =>
+        this.parseCoordinates(this.getText(line.body, 'coordinates'))
+      );
+      const segments = [...tracks, ...lines].filter(points => points.length > 1);
+      if (segments.length === 0) return;
+
+      const timeSpan = this.getElements(body, 'TimeSpan')[0];
+      const activity = this.buildActivity({
+        name: name || `Imported route ${i + 1}`,
+        typeHint: data.type,
+        notes: description || undefined,
+        segments: timeSpan
+          ? this.fillTimes(segments, this.getText(timeSpan.body, 'begin'), this.getText(timeSpan.body, 'end'))
+          : segments,
+        splitUnit,
+        distance: kind === 'route' && parseFloat(data.distance) > 0 ? parseFloat(data.distance) : undefined,
+      });
+      if (activity) result.activities.push(activity);
+    });
+
+    return result;
+  }
+
+  /**
+   * Parse a KMZ - a zipped KML, usually doc.kml, plus any images it uses
+   */
+  static parseKMZ(bytes: Uint8Array, splitUnit: SplitUnit = 'km'): ParsedImport {
+    const kmlFiles = readZip(bytes)
+      .filter(entry => entry.name.toLowerCase().endsWith('.kml'))
+      // The root-level document comes first
+      .sort((a, b) => a.name.split('/').length - b.name.split('/').length);
+
+    if (kmlFiles.length === 0) {
+      throw new Error('This KMZ file has no KML document');
+    }
+
+    return this.parseKML(new TextDecoder().decode(kmlFiles[0].data), splitUnit);
+  }
+
+  /**
+   * Build an activity from recorded segments
+   * Distance only counts movement inside a segment; the gaps between
+   * segments are treated as pauses
+   */
+  static buildActivity(params: {
+    name: string;
+    typeHint?: string;
+    notes?: string;
+    segments: LocationPoint[][];
+    splitUnit: SplitUnit;
+    lapStarts?: number[]; // ms timestamps of each lap's start
+    // Totals recorded by the device, used instead of the GPS-derived ones
+    distance?: number;
+    movingTime?: number;
+    maxSpeed?: number;
+  }): Activity | null {
+    const segments = params.segments.filter(points => points.length > 0);
+    const route = segments.flat();
+    if (route.length === 0) return null;
+
+    let trackDistance = 0;
+    for (const points of segments) {
+      for (let i = 1; i < points.length; i++) {
+        trackDistance += calculateDistance(
+          points[i - 1].latitude,
+          points[i - 1].longitude,
+          points[i].latitude,
+          points[i].longitude
+        );
+      }
+    }
+    const distance = params.distance ?? trackDistance;
+
+    const hasTimes = route.every(p => p.timestamp > 0);
+    const startTime = hasTimes ? route[0].timestamp : Date.now();
+    const endTime = hasTimes ? route[route.length - 1].timestamp : startTime;
+
+    const pauses: PauseInterval[] = [];
+    for (let i = 1; i < segments.length && hasTimes; i++) {
+      const start = segments[i - 1][segments[i - 1].length - 1].timestamp;
+      const end = segments[i][0].timestamp;
+      if (end > start) pauses.push({ start, end });
+    }
+
+    const elapsedTime = Math.max(0, Math.round((endTime - startTime) / 1000));
+    const pausedTime = pauses.reduce((sum, p) => sum + (p.end - p.start), 0) / 1000;
+    const movingTime = params.movingTime ?? Math.max(0, Math.round(elapsedTime - pausedTime));
+    const averageSpeed = movingTime > 0 ? distance / 1000 / (movingTime / 3600) : 0;
+
+    const type = this.guessActivityType(params.typeHint, averageSpeed);
+    const elevation = calculateElevationStats(route);
+    // Without timestamps every point would share one time and breaks the splits
+    const timedRoute = hasTimes ? route : [];
+
+    return {
+      id: `import_${startTime}_${Math.random().toString(36).substring(7)}`,
+      type,
+      name: params.name,
+      activityDate: new Date(startTime),
+      startTime: new Date(startTime),
+      endTime: new Date(endTime),
+      duration: movingTime,
+      movingTime,
+      elapsedTime,
+      distance: Math.round(distance),
+      route: hasTimes ? route : route.map(p => ({ ...p, timestamp: startTime })),
+      averageSpeed,
+      maxSpeed: params.maxSpeed ?? this.getMaxSpeed(segments, type),
+      elevationGain: elevation?.gain,
+      elevationLoss: elevation?.loss,
+      minAltitude: elevation?.minAltitude,
+      maxAltitude: elevation?.maxAltitude,
+      splits: calculateSplits(timedRoute, params.splitUnit, pauses),
+      laps: hasTimes && params.lapStarts
+        ? calculateLaps(route, params.lapStarts.slice(1), startTime, endTime, params.splitUnit, pauses)
+        : undefined,
+      splitUnit: params.splitUnit,
+      notes: params.notes,
+      isManualEntry: false,
+      createdAt: new Date(),
+    };
+  }
+
+  /**
+   * Map a file's activity type to ours, falling back to average speed
+   */
+  static guessActivityType(hint: string | undefined, averageSpeed: number): ActivityType {
+    const type = (hint || '').toLowerCase();
+
+    if (['bike', 'run', 'walk', 'hike', 'paddleboard', 'climb', 'other'].includes(type)) {
+      return type as ActivityType;
+    }
+    if (type.includes('run')) return 'run';
+    if (type.includes('bik') || type.includes('cycl') || type.includes('ride')) return 'bike';
+    if (type.includes('hik')) return 'hike';
+    if (type.includes('walk')) return 'walk';
+    if (
+      type.includes('paddle') ||
+      type.includes('sup') ||
+      type.includes('kayak') ||
+      type.includes('canoe') ||
+      type.includes('row')
+    ) {
+      return 'paddleboard';
+    }
+    if (type.includes('climb')) return 'climb';
+    if (type) return 'other';
+
+    if (averageSpeed >= 15) return 'bike';
+    if (averageSpeed >= 7) return 'run';
+    if (averageSpeed > 0) return 'walk';
+    return 'other';
+  }
+
+  /**
+   * Compare parsed records with what the user already has
+   * Duplicates are flagged, not removed, so the preview can show them
+   */
+  static buildPreview(
+    fileName: string,
+    parsed: ParsedImport,
+    existingActivities: Activity[],
+    existingSpots: SavedSpot[],
+    existingWishlist: WishlistItem[] = []
+  ): ImportPreview {
+    const activities = parsed.activities.map(activity => ({
+      item: activity,
+      duplicateOf: this.findDuplicateActivity(activity, existingActivities)?.name,
+    }));
+
+    const accepted: ImportedSpot[] = [];
+    const spots = parsed.spots.map(spot => {
+      const match = this.findDuplicatePlace(spot, [...existingSpots, ...accepted]);
+      if (!match) accepted.push(spot);
+      return { item: spot, duplicateOf: match?.name };
+    });
+
+    const acceptedWishlist: ImportedWishlistItem[] = [];
+    const wishlist = parsed.wishlist.map(item => {
+      const match = this.findDuplicatePlace(item, [...existingWishlist, ...acceptedWishlist]);
+      if (!match) acceptedWishlist.push(item);
+      return { item, duplicateOf: match?.name };
+    });
+
+    return { fileName, activities, spots, wishlist };
+  }
+
+  /**
+   * Find an existing activity that records the same outing
+   */
+  static findDuplicateActivity<T extends Pick<Activity, 'name' | 'startTime' | 'activityDate' | 'distance'>>(
+    activity: Pick<Activity, 'name' | 'startTime' | 'activityDate' | 'distance'>,
+    existingActivities: T[]
+  ): T | undefined {
+    const start = new Date(activity.startTime).getTime();
+
+    return existingActivities.find(existing => {
+      const existingStart = new Date(existing.startTime).getTime();
+      if (Math.abs(existingStart - start) < DUPLICATE_ACTIVITY_START_MS) return true;
+
+      // Manual entries rarely share a start time - compare day, name and distance
+      const sameDay =
+        new Date(existing.activityDate || existing.startTime).toDateString() ===
+        new Date(activity.activityDate || activity.startTime).toDateString();
+      const similarDistance =
+        Math.abs(existing.distance - activity.distance) <= Math.max(100, activity.distance * 0.05);
+      return sameDay && similarDistance && this.sameName(existing.name, activity.name);
+    });
+  }
+
+  /**
+   * Find an existing spot or wishlist item at the same place
+   */
+  static findDuplicatePlace<T extends { name: string; location: { latitude: number; longitude: number } }>(
+    place: { name: string; location: { latitude: number; longitude: number } },
+    existingPlaces: T[]
+  ): T | undefined {
+    return existingPlaces.find(existing => {
+      const meters = calculateDistance(
+        existing.location.latitude,
+        existing.location.longitude,
+        place.location.latitude,
+        place.location.longitude
+      );
+      return (
+        meters <= DUPLICATE_SPOT_METERS ||
+        (meters <= DUPLICATE_SPOT_NAMED_METERS && this.sameName(existing.name, place.name))
+      );
+    });
+  }
+
+  /**
+   * Turn a point from a map file into a spot or wishlist item
+   * Unknown categories are guessed from the name
+   */
+  private static buildPlace(params: {
+    kind?: string;
+    name: string;
+    latitude: number;
+    longitude: number;
+    description?: string;
+    notes?: string;
+    category?: string;
+    typeHint?: string;
+    priority?: string | number;
+    time?: string;
+  }):
+    | { kind: 'spot'; item: ImportedSpot }
+    | { kind: 'wishlist'; item: ImportedWishlistItem }
+    | null {
+    const { name, latitude, longitude } = params;
+    if (!isFinite(latitude) || !isFinite(longitude)) return null;
+
+    const category =
+      params.category && params.category in categories
+        ? (params.category as CategoryType)
+        : LocationService.detectCategoryFromName(name, params.typeHint || params.category) || 'other';
+    const description = params.description ? String(params.description) : undefined;
+
+    if (params.kind === 'wishlist') {
+      const priority = Math.round(Number(params.priority));
+      return {
+        kind: 'wishlist',
+        item: {
+          name,
+          location: { latitude, longitude },
+          description,
+          notes: params.notes ? String(params.notes) : undefined,
+          category,
+          priority: priority >= 1 && priority <= 3 ? priority : 2,
+        },
+      };
+    }
+
+    const visitDate = params.time ? new Date(params.time) : undefined;
+    return {
+      kind: 'spot',
+      item: {
+        name,
+        location: { latitude, longitude },
+        description,
+        category,
+        visitDate: visitDate && !isNaN(visitDate.getTime()) ? visitDate : undefined,
+      },
+    };
+  }
+
+  // A category given by id or label, e.g. "beach" or "Beach"
+  private static matchCategory(text: string): CategoryType | undefined {
+    const value = text.trim().toLowerCase();
+    if (!value) return undefined;
+    return (Object.keys(categories) as CategoryType[]).find(
+      id => id === value || categories[id].label.toLowerCase() === value
+    );
+  }
+
+  /**
+   * Give untimed points times between start and end, spaced by distance
+   * Formats that only store a line's start and end (KML LineString with a
+   * TimeSpan) would otherwise import with no duration
+   */
+  static fillTimes(segments: LocationPoint[][], start?: string, end?: string): LocationPoint[][] {
+    const startTime = start ? new Date(start).getTime() : NaN;
+    const endTime = end ? new Date(end).getTime() : NaN;
+    const points = segments.flat();
+
+    if (!isFinite(startTime) || !isFinite(endTime) || endTime < startTime) return segments;
+    if (points.length === 0 || points.every(p => p.timestamp > 0)) return segments;
+
+    const offsets: number[] = [0];
+    for (let i = 1; i < points.length; i++) {
+      offsets.push(
+        offsets[i - 1] +
+          calculateDistance(points[i - 1].latitude, points[i - 1].longitude, points[i].latitude, points[i].longitude)
+      );
+    }
+    const total = offsets[offsets.length - 1];
+
+    let index = 0;
+    return segments.map(segment =>
+      segment.map(point => {
+        const fraction = total > 0 ? offsets[index] / total : index / Math.max(1, points.length - 1);
+        index++;
+        return { ...point, timestamp: Math.round(startTime + fraction * (endTime - startTime)) };
+      })
+    );
+  }
+
+  // KML coordinates: whitespace-separated "lon,lat[,alt]" tuples
+  private static parseCoordinates(text: string): LocationPoint[] {
+    return text
+      .split(/\s+/)
+      .filter(Boolean)
+      .map(tuple => {
+        const [longitude, latitude, altitude] = tuple.split(',').map(parseFloat);
+        return {
+          latitude,
+          longitude,
+          altitude: isFinite(altitude) && altitude !== 0 ? altitude : undefined,
+          timestamp: 0,
+        };
+      })
+      .filter(p => isFinite(p.latitude) && isFinite(p.longitude));
+  }
+
+  // Google Earth and My Maps descriptions are often HTML
+  private static stripHtml(text: string): string {
+    return text
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .trim();
+  }
+
+  private static sameName(a: string, b: string): boolean {
+    const normalize = (name: string) => (name || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+    return normalize(a) !== '' && normalize(a) === normalize(b);
+  }
+
+  private static getMaxSpeed(segments: LocationPoint[][], type: ActivityType): number {
+    const { maxSpeed: limit } = getMovementThresholds(type);
+    let max = 0;
+
+    for (const points of segments) {
+      for (let i = 1; i < points.length; i++) {
+        const seconds = (points[i].timestamp - points[i - 1].timestamp) / 1000;
+        // Very short gaps magnify GPS jitter into impossible speeds
+        if (seconds < 1) continue;
+        const meters = calculateDistance(
+          points[i - 1].latitude,
+          points[i - 1].longitude,
+          points[i].latitude,
+          points[i].longitude
+        );
+        const speed = meters / 1000 / (seconds / 3600);
+        if (speed < limit && speed > max) max = speed;
+      }
+    }
+
+    return max;
+  }
+
+  private static parsePoints(xml: string, tag: string): LocationPoint[] {
+    return this.getElements(xml, tag)
+      .map(el => {
+        const latitude = parseFloat(this.getAttribute(el.attributes, 'lat') || '');
+        const longitude = parseFloat(this.getAttribute(el.attributes, 'lon') || '');
+        const elevation = parseFloat(this.getText(el.body, 'ele') || '');
+        const time = this.getText(el.body, 'time');
+
+        return {
+          latitude,
+          longitude,
+          altitude: isFinite(elevation) ? elevation : undefined,
+          timestamp: time ? new Date(time).getTime() || 0 : 0,
+        };
+      })
+      .filter(p => isFinite(p.latitude) && isFinite(p.longitude));
+  }
+
+  // Minimal XML helpers - GPX and TCX are flat enough that a full parser
+  // isn't needed. Namespace prefixes (gpx:trkpt) are ignored.
+  static getElements(xml: string, tag: string): { attributes: string; body: string }[] {
+    const pattern = new RegExp(
+      `<(?:[\\w-]+:)?${tag}\\b([^>]*?)(?:\\/>|>([\\s\\S]*?)<\\/(?:[\\w-]+:)?${tag}>)`,
+      'g'
+    );
+    const elements: { attributes: string; body: string }[] = [];
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(xml)) !== null) {
+      elements.push({ attributes: match[1] || '', body: match[2] || '' });
+    }
+
+    return elements;
+  }
+
+  static getText(xml: string, tag: string): string {
+    const element = this.getElements(xml, tag)[0];
+    if (!element) return '';
+
+    const cdata = element.body.match(/<!\[CDATA\[([\s\S]*?)\]\]>/);
+    return this.unescapeXml(cdata ? cdata[1] : element.body).trim();
+  }
+
+  static getAttribute(attributes: string, name: string): string | undefined {
+    const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`));
+    return match ? this.unescapeXml(match[1] ?? match[2]) : undefined;
+  }
+
+  private static unescapeXml(text: string): string {
+    return text
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+      .replace(/&amp;/g, '&');
+  }
+}
@@ -0,0 +1,623 @@
+import * as DocumentPicker from 'expo-document-picker';
+import * as Location from 'expo-location';
+import { Activity, ActivityType } from '../contexts/ActivityContext';
+import { SavedSpot } from '../contexts/LocationContext';
+import { Trip, TripItem } from '../contexts/TripContext';
+import { supabase } from '../lib/supabase';
+import { LocationPoint } from '../types/visits';
+import { getActivityTypeLabel } from '../utils/activity';
+import { SplitUnit } from '../utils/splits';
+import { TripDetector, TripSuggestion } from '../utils/TripDetector';
+import { readZip } from '../utils/zip';
+import { ImportService } from './importService';
+import { LocationService } from './locationService';
+import { TripNameService } from './tripNameService';
+
+// A place the history says was visited, shared by all its visits
+export interface HistoryPlace {
+  key: string; // Google place id, or rounded coordinates
+  name?: string; // Only older exports include names
+  address?: string;
+  location: { latitude: number; longitude: number };
+}
+
+export interface LocationHistory {
+  spots: SavedSpot[]; // One candidate per visit, so each can join its own trip
+  activities: Activity[];
+  places: Record<string, HistoryPlace>; // Candidate spot id -> place
+  home?: { latitude: number; longitude: number }; // Where the history says the user lives
+  skipped: {
+    home: number; // Home and work - never part of a trip
+    short: number; // Brief stops and short walks
+    duplicates: number; // Activities already saved
+  };
+}
+
+export interface ProposedTrip extends TripSuggestion {
+  overlapsWith?: string; // Name of an existing trip covering the same dates
+}
+
+export type HistoryImportStage = 'places' | 'activities' | 'trips';
+
+export interface HistoryImportProgress {
+  stage: HistoryImportStage;
+  completed: number;
+  total: number;
+}
+
+export interface HistoryImportSummary {
+  trips: number;
+  spots: number; // New spots
+  visits: number; // Visits added to spots that were already saved
+  activities: number;
+  failed: number;
+}
+
+// Google's labels for the user's own places
+const HOME_TYPES = ['TYPE_HOME', 'TYPE_WORK', 'HOME', 'WORK', 'INFERRED_HOME', 'INFERRED_WORK'];
+
+// Only human-powered segments become activities - drives and flights don't
+const ACTIVITY_TYPES: Record<string, ActivityType> = {
+  WALKING: 'walk',
+  ON_FOOT: 'walk',
+  RUNNING: 'run',
+  HIKING: 'hike',
+  CYCLING: 'bike',
+  ON_BICYCLE: 'bike',
+  KAYAKING: 'paddleboard',
+  ROWING: 'paddleboard',
+};
+
+const MIN_VISIT_MINUTES = 15;
+const MIN_ACTIVITY_METERS = 1000;
+
+interface RawVisit {
+  placeId?: string;
+  name?: string;
+  address?: string;
+  semanticType?: string;
+  latitude: number;
+  longitude: number;
+  start: number;
+  end: number;
+}
+
+interface RawSegment {
+  type: string;
+  start: number;
+  end: number;
+  distance?: number;
+  points: LocationPoint[]; // Untimed points have timestamp 0
+}
+
+interface RawPathPoint {
+  latitude: number;
+  longitude: number;
+  timestamp: number;
+}
+
+export class LocationHistoryService {
+  /**
+   * Pick Takeout location history files and parse them
+   * Accepts the monthly "Semantic Location History" JSON files, the newer
+   * Timeline.json from the phone, or the Takeout zip containing them
+   */
+  static async importHistoryFiles(
+    existingActivities: Activity[],
+    splitUnit: SplitUnit
+  ): Promise<LocationHistory | null> {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: '*/*',
+      multiple: true,
+      copyToCacheDirectory: true,
+    });
+
+    if (result.canceled || !result.assets || result.assets.length === 0) {
+      return null;
+    }
+
+    const documents: any[] = [];
+    for (const asset of result.assets) {
+      if (asset.name.toLowerCase().endsWith('.zip')) {
+        const entries = readZip(await ImportService.readBytes(asset.uri)).filter(entry =>
+          /semantic location history\/.*\.json$|timeline\.json$|location-history\.json$/i.test(entry.name)
+        );
+        entries.forEach(entry => documents.push(JSON.parse(new TextDecoder().decode(entry.data))));
+      } else {
+        documents.push(JSON.parse(await ImportService.readText(asset.uri)));
+      }
+    }
+
+    return this.parseHistory(documents, existingActivities, splitUnit);
+  }
+
+  /**
+   * Turn parsed history documents into candidate spots and activities
+   */
+  static parseHistory(
+    documents: any[],
+    existingActivities: Activity[],
+    splitUnit: SplitUnit = 'km'
+  ): LocationHistory {
+    const visits: RawVisit[] = [];
+    const segments: RawSegment[] = [];
+    const path: RawPathPoint[] = [];
+
+    for (const document of documents) {
+      if (Array.isArray(document?.timelineObjects)) {
+        this.readTimelineObjects(document.timelineObjects, visits, segments);
+      } else if (Array.isArray(document?.semanticSegments) || Array.isArray(document)) {
+        this.readSemanticSegments(document.semanticSegments || document, visits, segments, path);
+      } else if (Array.isArray(document?.locations)) {
+        throw new Error('This is raw location history (Records.json). Choose the Semantic Location History files or Timeline.json instead.');
+      } else {
+        throw new Error('This file isn\'t Google location history');
+      }
+    }
+
+    const history: LocationHistory = {
+      spots: [],
+      activities: [],
+      places: {},
+      skipped: { home: 0, short: 0, duplicates: 0 },
+    };
+
+    const places: Record<string, HistoryPlace> = {};
+    const homeVisits: Record<string, { count: number; latitude: number; longitude: number }> = {};
+    visits
+      .sort((a, b) => a.start - b.start)
+      .forEach((visit, i) => {
+        if (visit.semanticType && HOME_TYPES.includes(visit.semanticType.toUpperCase())) {
+          history.skipped.home++;
+          if (visit.semanticType.toUpperCase().includes('HOME')) {
+            const key = `${visit.latitude.toFixed(3)},${visit.longitude.toFixed(3)}`;
+            const home = homeVisits[key] || (homeVisits[key] = { count: 0, latitude: visit.latitude, longitude: visit.longitude });
+            home.count++;
+          }
+          return;
+        }
+        if (visit.end - visit.start < MIN_VISIT_MINUTES * 60 * 1000) {
+          history.skipped.short++;
+          return;
+        }
+
+        const key = visit.placeId || `${visit.latitude.toFixed(4)},${visit.longitude.toFixed(4)}`;
+        const place = places[key] || (places[key] = {
+          key,
+          location: { latitude: visit.latitude, longitude: visit.longitude },
+        });
+        place.name = place.name || visit.name;
+        place.address = place.address || visit.address;
+
+        const id = `history_visit_${i}`;
+        const date = new Date(visit.start);
+        const name = visit.name || visit.address || 'Visited place';
+
+        history.places[id] = place;
+        history.spots.push({
+          id,
+          name,
+          location: place.location,
+          visits: [{ id: `${id}_visit`, date, photos: [] }],
+          timestamp: date,
+          description: visit.address,
+          category: LocationService.detectCategoryFromName(name, visit.semanticType) || 'other',
+          locationDate: date,
+          photos: [],
+        });
+      });
+
+    const home = Object.values(homeVisits).sort((a, b) => b.count - a.count)[0];
+    if (home) {
+      history.home = { latitude: home.latitude, longitude: home.longitude };
+    }
+
+    const accepted: Activity[] = [];
+    segments
+      .sort((a, b) => a.start - b.start)
+      .forEach(segment => {
+        const type = ACTIVITY_TYPES[segment.type.toUpperCase()];
+        if (!type) return;
+
+        // Newer exports keep the path separately from the segment
+        const points = segment.points.length > 2
+          ? segment.points
+          : [
+              segment.points[0],
+              ...path.filter(p => p.timestamp > segment.start && p.timestamp < segment.end),
+              segment.points[segment.points.length - 1],
+            ].filter(Boolean);
+
+        const date = new Date(segment.start);
+        const activity = ImportService.buildActivity({
+          name: `${getActivityTypeLabel(type)} ${date.toLocaleDateString()}`,
+          typeHint: type,
+          segments: ImportService.fillTimes(
+            [points],
+            date.toISOString(),
+            new Date(segment.end).toISOString()
+          ),
+          splitUnit,
+          distance: segment.distance,
+        });
+
+        if (!activity || activity.distance < MIN_ACTIVITY_METERS) {
+          history.skipped.short++;
+          return;
+        }
+        if (ImportService.findDuplicateActivity(activity, [...existingActivities, ...accepted])) {
+          history.skipped.duplicates++;
+          return;
+        }
+
+        accepted.push(activity);
+      });
+    history.activities = accepted;
+
+    return history;
+  }
+
+  /**
+   * Run the history through trip detection and name the trips after their places
+   * Trips covering the same dates as an existing trip are flagged
+   */
+  static async proposeTrips(
+    history: LocationHistory,
+    existingTrips: Trip[],
+    home?: { latitude: number; longitude: number } | null
+  ): Promise<ProposedTrip[]> {
+    const suggestions = TripDetector.detectTrips(history.activities, history.spots, existingTrips, {
+      home: home || history.home,
+    });
+
+    // One at a time - lookups are cached and rate limited
+    for (const { trip } of suggestions) {
+      trip.name = await TripNameService.suggestName(trip) || trip.name;
+    }
+
+    return suggestions
+      .map(({ trip, confidence }) => {
+        const start = new Date(trip.start_date).getTime();
+        const end = new Date(trip.end_date).getTime();
+        const overlap = existingTrips.find(existing =>
+          new Date(existing.start_date).getTime() <= end &&
+          new Date(existing.end_date).getTime() >= start
+        );
+        return { trip, confidence, overlapsWith: overlap?.name };
+      })
+      .sort((a, b) => new Date(b.trip.start_date).getTime() - new Date(a.trip.start_date).getTime());
+  }
+
+  /**
+   * Save the accepted trips with their places and activities
+   * Visits to places that are already saved are added to those spots
+   */
+  static async acceptTrips(
+    userId: string,
+    trips: Trip[],
+    history: LocationHistory,
+    existingSpots: SavedSpot[],
+    onProgress?: (progress: HistoryImportProgress) => void
+  ): Promise<HistoryImportSummary> {
+    const summary: HistoryImportSummary = { trips: 0, spots: 0, visits: 0, activities: 0, failed: 0 };
+    const items = (trips.flatMap(trip => trip.items || []) as TripItem[]);
+    const savedRows: Record<string, any> = {}; // Candidate id -> saved row
+
+    // Places: one spot per place, holding all of its accepted visits
+    const visitsByPlace = new Map<string, SavedSpot[]>();
+    items
+      .filter(item => item.type === 'spot')
+      .forEach(item => {
+        const place = history.places[item.data.id];
+        if (!place) return;
+        visitsByPlace.set(place.key, [...(visitsByPlace.get(place.key) || []), item.data]);
+      });
+
+    const knownSpots: { id: string; name: string; location: SavedSpot['location']; visits: any[] }[] =
+      existingSpots.map(spot => ({
+        id: spot.id,
+        name: spot.name,
+        location: spot.location,
+        visits: (spot.visits || []).map(visit => ({
+          id: visit.id,
+          date: new Date(visit.date).toISOString(),
+          photos: visit.photos || [],
+          notes: visit.notes || null,
+        })),
+      }));
+
+    let completed = 0;
+    for (const candidates of visitsByPlace.values()) {
+      onProgress?.({ stage: 'places', completed: completed++, total: visitsByPlace.size });
+
+      const place = history.places[candidates[0].id];
+      try {
+        const name = place.name || (await this.nameForPlace(place)) || 'Visited place';
+        const newVisits = candidates.map(candidate => ({
+          id: `${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+          date: new Date(candidate.visits![0].date).toISOString(),
+          photos: [],
+          notes: null,
+        }));
+
+        const existing = ImportService.findDuplicatePlace({ name, location: place.location }, knownSpots);
+        let row: any;
+
+        if (existing) {
+          const days = new Set(existing.visits.map(visit => visit.date.split('T')[0]));
+          const added = newVisits.filter(visit => !days.has(visit.date.split('T')[0]));
+          existing.visits = [...existing.visits, ...added];
+
+          const { data, error } = await supabase
+            .from('locations')
+            .update({ visits: existing.visits, updated_at: new Date().toISOString() })
+            .eq('id', existing.id)
+            .eq('user_id', userId)
+            .select()
+            .single();
+          if (error) throw error;
+
+          row = data;
+          summary.visits += added.length;
+        } else {
+          const { data, error } = await supabase
+            .from('locations')
+            .insert({
+              user_id: userId,
+              name,
+              latitude: place.location.latitude,
+              longitude: place.location.longitude,
+              description: place.address || null,
+              category: LocationService.detectCategoryFromName(name) || candidates[0].category,
+              visits: newVisits,
+              location_date: newVisits[0].date,
+              photos: [],
+            })
+            .select()
+            .single();
+          if (error) throw error;
+
+          row = data;
+          knownSpots.push({ id: data.id, name, location: place.location, visits: newVisits });
+          summary.spots++;
+        }
+
+        candidates.forEach(candidate => (savedRows[candidate.id] = row));
+      } catch (error) {
+        console.error('Error saving history place:', error);
+        summary.failed++;
+      }
+    }
+
+    // Activities
+    const activities = items.filter(item => item.type === 'activity').map(item => item.data as Activity);
+    for (let i = 0; i < activities.length; i++) {
+      onProgress?.({ stage: 'activities', completed: i, total: activities.length });
+      const activity = activities[i];
+
+      try {
+        const { data, error } = await supabase
+          .from('activities')
+          .insert({
+            user_id: userId,
+            type: activity.type,
+            name: activity.name,
+            activity_date: new Date(activity.activityDate).toISOString(),
+            start_time: new Date(activity.startTime).toISOString(),
+            end_time: new Date(activity.endTime).toISOString(),
+            duration: activity.duration,
+            moving_time: activity.movingTime ?? activity.duration,
+            elapsed_time: activity.elapsedTime ?? activity.duration,
+            distance: activity.distance,
+            route: activity.route,
+            average_speed: activity.averageSpeed,
+            max_speed: activity.maxSpeed,
+            elevation_gain: activity.elevationGain,
+            elevation_loss: activity.elevationLoss,
+            min_altitude: activity.minAltitude,
+            max_altitude: activity.maxAltitude,
+            splits: activity.splits,
+            split_unit: activity.splitUnit,
+            notes: 'Imported from Google location history',
+            photos: [],
+            is_manual_entry: false,
+          })
+          .select()
+          .single();
+        if (error) throw error;
+
+        savedRows[activity.id] = data;
+        summary.activities++;
+      } catch (error) {
+        console.error('Error saving history activity:', error);
+        summary.failed++;
+      }
+    }
+
+    // Trips, pointing at the saved rows
+    for (let i = 0; i < trips.length; i++) {
+      onProgress?.({ stage: 'trips', completed: i, total: trips.length });
+      const trip = trips[i];
+      const tripItems = (trip.items || []).filter(item => savedRows[item.data.id]);
+      if (tripItems.length === 0) continue;
+
+      try {
+        const { data, error } = await supabase
+          .from('trips')
+          .insert({
+            name: trip.name,
+            start_date: new Date(trip.start_date).toISOString(),
+            end_date: new Date(trip.end_date).toISOString(),
+            created_by: userId,
+            auto_generated: true,
+          })
+          .select()
+          .single();
+        if (error) throw error;
+
+        // A place visited twice on one trip is still one item
+        const seen = new Set<string>();
+        const rows = tripItems
+          .filter(item => {
+            const key = `${item.type}|${savedRows[item.data.id].id}`;
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+          })
+          .map(item => ({
+            trip_id: data.id,
+            type: item.type,
+            data: savedRows[item.data.id],
+            added_by: userId,
+          }));
+
+        const { error: itemsError } = await supabase.from('trip_items').insert(rows);
+        if (itemsError) throw itemsError;
+
+        summary.trips++;
+      } catch (error) {
+        console.error('Error saving history trip:', error);
+        summary.failed++;
+      }
+    }
+
+    return summary;
+  }
+
+  // Newer exports have no place names - use the nearest address instead
+  private static async nameForPlace(place: HistoryPlace): Promise<string | undefined> {
+    try {
+      const [address] = await Location.reverseGeocodeAsync(place.location);
+      if (!address) return undefined;
+      return address.name || [address.street, address.city].filter(Boolean).join(', ') || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Monthly "Semantic Location History" files
+  private static readTimelineObjects(objects: any[], visits: RawVisit[], segments: RawSegment[]) {
+    for (const object of objects) {
+      const visit = object.placeVisit;
+      if (visit?.location) {
+        const latitude = visit.location.latitudeE7 / 1e7;
+        const longitude = visit.location.longitudeE7 / 1e7;
+        const { start, end } = this.readDuration(visit.duration);
+        if (isFinite(latitude) && isFinite(longitude) && start) {
+          visits.push({
+            placeId: visit.location.placeId,
+            name: visit.location.name,
+            address: visit.location.address?.replace(/\n/g, ', '),
+            semanticType: visit.location.semanticType,
+            latitude,
+            longitude,
+            start,
+            end,
+          });
+        }
+      }
+
+      const segment = object.activitySegment;
+      if (segment?.startLocation && segment.endLocation) {
+        const { start, end } = this.readDuration(segment.duration);
+        const toPoint = (p: any, timestamp = 0): LocationPoint => ({
+          latitude: (p.latitudeE7 ?? p.latE7) / 1e7,
+          longitude: (p.longitudeE7 ?? p.lngE7) / 1e7,
+          timestamp,
+        });
+
+        // The raw path has times; the snapped waypoints don't
+        const raw = segment.simplifiedRawPath?.points || [];
+        const waypoints = segment.waypointPath?.waypoints || [];
+        const points = raw.length > 0
+          ? raw.map((p: any) => toPoint(p, this.readTimestamp(p.timestamp ?? p.timestampMs)))
+          : [toPoint(segment.startLocation), ...waypoints.map((p: any) => toPoint(p)), toPoint(segment.endLocation)];
+
+        if (start) {
+          segments.push({
+            type: segment.activityType || '',
+            start,
+            end,
+            distance: segment.distance || segment.waypointPath?.distanceMeters,
+            points: points.filter((p: LocationPoint) => isFinite(p.latitude) && isFinite(p.longitude)),
+          });
+        }
+      }
+    }
+  }
+
+  // Timeline.json from the phone (Android object, iOS array)
+  private static readSemanticSegments(
+    items: any[],
+    visits: RawVisit[],
+    segments: RawSegment[],
+    path: RawPathPoint[]
+  ) {
+    for (const item of items) {
+      const start = this.readTimestamp(item.startTime);
+      const end = this.readTimestamp(item.endTime);
+      if (!start) continue;
+
+      const candidate = item.visit?.topCandidate;
+      if (candidate) {
+        const position = this.readLatLng(candidate.placeLocation?.latLng ?? candidate.placeLocation);
+        if (position) {
+          visits.push({
+            placeId: candidate.placeId || candidate.placeID,
+            semanticType: candidate.semanticType,
+            ...position,
+            start,
+            end,
+          });
+        }
+      }
+
+      if (item.activity) {
+        const from = this.readLatLng(item.activity.start?.latLng ?? item.activity.start);
+        const to = this.readLatLng(item.activity.end?.latLng ?? item.activity.end);
+        if (from && to) {
+          segments.push({
+            type: item.activity.topCandidate?.type || '',
+            start,
+            end,
+            distance: parseFloat(item.activity.distanceMeters) || undefined,
+            points: [{ ...from, timestamp: 0 }, { ...to, timestamp: 0 }],
+          });
+        }
+      }
+
+      for (const point of item.timelinePath || []) {
+        const position = this.readLatLng(point.point);
+        // Android gives times; iOS gives minutes from the segment start
+        const timestamp = point.time
+          ? this.readTimestamp(point.time)
+          : start + (parseFloat(point.durationMinutesOffsetFromStartTime) || 0) * 60 * 1000;
+        if (position && timestamp) path.push({ ...position, timestamp });
+      }
+    }
+
+    path.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  private static readDuration(duration: any): { start: number; end: number } {
+    const start = this.readTimestamp(duration?.startTimestamp ?? duration?.startTimestampMs);
+    const end = this.readTimestamp(duration?.endTimestamp ?? duration?.endTimestampMs);
+    return { start, end: end || start };
+  }
+
+  // ISO strings, or millisecond strings in older exports
+  private static readTimestamp(value: any): number {
+    if (value === undefined || value === null) return 0;
+    const time = /^\d+$/.test(String(value)) ? Number(value) : new Date(value).getTime();
+    return isFinite(time) ? time : 0;
+  }
+
+  // "47.3769°, 8.5417°" (Android) or "geo:47.3769,8.5417" (iOS)
+  private static readLatLng(value: any): { latitude: number; longitude: number } | null {
+    const match = String(value ?? '').match(/(-?\d+(?:\.\d+)?)°?,\s*(-?\d+(?:\.\d+)?)/);
+    if (!match) return null;
+    const latitude = parseFloat(match[1]);
+    const longitude = parseFloat(match[2]);
+    return isFinite(latitude) && isFinite(longitude) ? { latitude, longitude } : null;
+  }
+}
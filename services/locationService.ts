@@ -1,3 +1,4 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
 import * as Location from "expo-location";
 import { CategoryType } from "../constants/categories";
 
@@ -11,7 +12,21 @@ export interface PlaceSuggestion {
   suggestedCategoryType?: CategoryType; // Direct category type suggestion matching your app's categories
 }
 
+export interface GeocodedArea {
+  name?: string;
+  district?: string;
+  city?: string;
+  subregion?: string;
+  region?: string;
+  country?: string;
+}
+
+const AREA_CACHE_KEY = "reverseGeocodeCache";
+const AREA_CACHE_LIMIT = 500;
+
 export class LocationService {
+  private static areaCache: Record<string, GeocodedArea | null> | null = null;
+
   /**
    * Detect category type from place name or type
    */
@@ -158,6 +173,67 @@ export class LocationService {
     return this.deduplicateAndSort(suggestions);
   }
 
+  /**
+   * Reverse geocode a point to its city, region and country
+   * Results are cached by ~1km cell so repeated lookups stay offline
+   */
+  static async getArea(
+    latitude: number,
+    longitude: number
+  ): Promise<GeocodedArea | null> {
+    const key = `${latitude.toFixed(2)},${longitude.toFixed(2)}`;
+    const cache = await this.loadAreaCache();
+    if (key in cache) return cache[key];
+
+    try {
+      const [address] = await Location.reverseGeocodeAsync({
+        latitude,
+        longitude,
+      });
+
+      const area: GeocodedArea | null = address
+        ? {
+            name: address.name || undefined,
+            district: address.district || undefined,
+            city: address.city || undefined,
+            subregion: address.subregion || undefined,
+            region: address.region || undefined,
+            country: address.country || undefined,
+          }
+        : null;
+
+      cache[key] = area;
+      const keys = Object.keys(cache);
+      if (keys.length > AREA_CACHE_LIMIT) {
+        keys
+          .slice(0, keys.length - AREA_CACHE_LIMIT)
+          .forEach((oldKey) => delete cache[oldKey]);
+      }
+      await AsyncStorage.setItem(AREA_CACHE_KEY, JSON.stringify(cache));
+
+      return area;
+    } catch (error) {
+      // Not cached, so a later attempt can still succeed
+      console.error("Error reverse geocoding area:", error);
+      return null;
+    }
+  }
+
+  private static async loadAreaCache(): Promise<
+    Record<string, GeocodedArea | null>
+  > {
+    if (!this.areaCache) {
+      try {
+        const stored = await AsyncStorage.getItem(AREA_CACHE_KEY);
+        this.areaCache = stored ? JSON.parse(stored) : {};
+      } catch (error) {
+        console.error("Error loading geocode cache:", error);
+        this.areaCache = {};
+      }
+    }
+    return this.areaCache!;
+  }
+
   /**
    * Format address object into readable string
    */
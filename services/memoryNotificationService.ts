@@ -209,6 +209,16 @@ export class MemoryNotificationService {
     }
   }
 
+  /**
+   * Get the user's home location, looking it up if it isn't known yet
+   */
+  static async getHomeLocation(userId: string): Promise<{ latitude: number; longitude: number } | null> {
+    if (!this.homeLocation) {
+      await this.setHomeLocation(userId);
+    }
+    return this.homeLocation;
+  }
+
   /**
    * Check if location is near home
    */
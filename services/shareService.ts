@@ -1,5 +1,5 @@
 import * as Clipboard from "expo-clipboard";
-import * as FileSystem from "expo-file-system";
+import { File, Paths } from "expo-file-system";
 import * as Linking from "expo-linking";
 import * as Sharing from "expo-sharing";
 import { Alert, Platform, Share } from "react-native";
@@ -7,6 +7,8 @@ import { categories, CategoryType } from "../constants/categories";
 import { Activity } from "../contexts/ActivityContext";
 import { SavedSpot } from "../contexts/LocationContext";
 import { Trip, TripItem } from "../contexts/TripContext";
+import { calculateTripRecap, YearInReview } from "../utils/tripRecap";
+import { ExpenseService, TripExpense } from "./expenseService";
 
 export interface ShareOptions {
   includeRoute?: boolean;
@@ -16,6 +18,7 @@ export interface ShareOptions {
   message?: string;
   units?: "metric" | "imperial";
   includeLink?: boolean;
+  home?: { latitude: number; longitude: number } | null; // Enables the furthest-from-home stat
 }
 
 export class ShareService {
@@ -708,16 +711,10 @@ export class TripShareService extends ShareService {
     const activities =
       trip.items?.filter((item) => item.type === "activity") || [];
     const spots = trip.items?.filter((item) => item.type === "spot") || [];
+    const recap = calculateTripRecap(trip, options.home);
 
-    const totalDistance = activities.reduce(
-      (sum, item) => sum + (item.data.distance || 0),
-      0
-    );
-
-    const totalDuration = activities.reduce(
-      (sum, item) => sum + (item.data.duration || 0),
-      0
-    );
+    const totalDistance = recap.distance;
+    const totalDuration = recap.movingTime;
 
     const getDaysCount = () => {
       const start = new Date(trip.start_date);
@@ -746,6 +743,12 @@ export class TripShareService extends ShareService {
       message += `  • Total time active: ${this.formatDuration(
         totalDuration
       )}\n`;
+      if (recap.elevationGain > 0) {
+        message += `  • Elevation gain: ${this.formatElevation(
+          recap.elevationGain,
+          units
+        )}\n`;
+      }
 
       // List top activities
       const topActivities = activities.slice(0, 3);
@@ -782,6 +785,25 @@ export class TripShareService extends ShareService {
       }
     }
 
+    if (recap.categories.length > 1) {
+      message += `\n🧭 ${recap.categories.length} kinds of places: ${recap.categories
+        .map((category) => this.getCategoryEmoji(category))
+        .join(" ")}\n`;
+    }
+    if (recap.topRatedSpot) {
+      message += `⭐ Top rated: ${recap.topRatedSpot.name} (${recap.topRatedSpot.rating}/5)\n`;
+    }
+    if (recap.busiestDay && recap.busiestDay.itemCount > 1) {
+      message += `🔥 Busiest day: ${this.formatTripDate(
+        recap.busiestDay.date
+      )} with ${recap.busiestDay.itemCount} stops\n`;
+    }
+    if (recap.furthestFromHome) {
+      message += `🗺️ Furthest from home: ${
+        recap.furthestFromHome.name
+      } (${this.formatDistance(recap.furthestFromHome.distance, units)})\n`;
+    }
+
     // Add photo count
     const totalPhotos = spots.reduce(
       (sum, item) => sum + (item.data.photos?.length || 0),
@@ -1122,6 +1144,14 @@ export class TripShareService extends ShareService {
    * Export trip data as JSON for backup/sharing
    */
   static async exportTripData(trip: Trip): Promise<string> {
+    let expenses: TripExpense[] = [];
+    try {
+      expenses = await ExpenseService.getExpenses(trip.id);
+    } catch (error) {
+      console.error("Error loading expenses for export:", error);
+    }
+    const balances = ExpenseService.calculateBalances(expenses);
+
     const exportData = {
       trip: {
         name: trip.name,
@@ -1134,6 +1164,20 @@ export class TripShareService extends ShareService {
         [],
       spots:
         trip.items?.filter((i) => i.type === "spot").map((i) => i.data) || [],
+      expenses: expenses.map((e) => ({
+        description: e.description,
+        amount: e.amount,
+        currency: e.currency,
+        category: e.category,
+        paid_by: e.paid_by,
+        participants: e.participants,
+        trip_item_id: e.trip_item_id,
+        spent_at: e.spent_at,
+      })),
+      balances: {
+        per_member: balances,
+        settlements: ExpenseService.settleUp(balances),
+      },
       stats: {
         total_activities:
           trip.items?.filter((i) => i.type === "activity").length || 0,
@@ -1148,4 +1192,324 @@ export class TripShareService extends ShareService {
 
     return JSON.stringify(exportData, null, 2);
   }
+
+  /**
+   * Create a shareable message for a year of trips
+   */
+  static createYearInReviewMessage(
+    review: YearInReview,
+    options: ShareOptions = {}
+  ): string {
+    const units = options.units || "metric";
+
+    let message = `🗓️ My ${review.year} in trips\n\n`;
+    message += `🧳 ${review.tripCount} trip${
+      review.tripCount === 1 ? "" : "s"
+    } · ${review.days} day${review.days === 1 ? "" : "s"} away\n`;
+    message += `🏃 ${review.activityCount} activities · ${this.formatDistance(
+      review.distance,
+      units
+    )} · ${this.formatDuration(review.movingTime)} moving\n`;
+    if (review.elevationGain > 0) {
+      message += `⛰️ ${this.formatElevation(
+        review.elevationGain,
+        units
+      )} climbed\n`;
+    }
+    message += `📍 ${review.spotCount} spots across ${
+      review.categories.length
+    } kinds of places\n`;
+
+    if (review.longestTrip) {
+      message += `\n🏆 Longest trip: ${review.longestTrip.name} (${
+        review.longestTrip.days
+      } days)\n`;
+    }
+    if (review.furthestFromHome) {
+      message += `🗺️ Furthest from home: ${
+        review.furthestFromHome.name
+      } (${this.formatDistance(review.furthestFromHome.distance, units)})\n`;
+    }
+    if (review.topRatedSpot) {
+      message += `⭐ Top rated: ${review.topRatedSpot.name} (${review.topRatedSpot.rating}/5)\n`;
+    }
+    if (review.busiestDay) {
+      message += `🔥 Busiest day: ${this.formatTripDate(
+        review.busiestDay.date
+      )} on ${review.busiestDay.tripName} with ${
+        review.busiestDay.itemCount
+      } stops\n`;
+    }
+
+    message += `\n🌲 Tracked with ExplorAble`;
+
+    return message;
+  }
+
+  /**
+   * Standalone HTML page for a year of trips
+   */
+  static generateYearInReviewHTML(
+    review: YearInReview,
+    options: ShareOptions = {}
+  ): string {
+    const units = options.units || "metric";
+    const escape = (text: string) =>
+      text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;");
+
+    const stat = (value: string | number, label: string) => `
+          <div class="stat">
+            <div class="stat-value">${value}</div>
+            <div class="stat-label">${label}</div>
+          </div>`;
+
+    const highlight = (icon: string, title: string, detail: string) => `
+          <div class="highlight-item">
+            <span class="highlight-icon">${icon}</span>
+            <div class="highlight-text">
+              <strong>${title}</strong>
+              <div>${detail}</div>
+            </div>
+          </div>`;
+
+    const highlights = [
+      review.longestTrip &&
+        highlight(
+          "🏆",
+          "Longest trip",
+          `${escape(review.longestTrip.name)} · ${review.longestTrip.days} days`
+        ),
+      review.furthestFromHome &&
+        highlight(
+          "🗺️",
+          "Furthest from home",
+          `${escape(review.furthestFromHome.name)} · ${this.formatDistance(
+            review.furthestFromHome.distance,
+            units
+          )}`
+        ),
+      review.topRatedSpot &&
+        highlight(
+          "⭐",
+          "Top rated spot",
+          `${escape(review.topRatedSpot.name)} · ${
+            review.topRatedSpot.rating
+          }/5`
+        ),
+      review.busiestDay &&
+        highlight(
+          "🔥",
+          "Busiest day",
+          `${this.formatTripDate(review.busiestDay.date)} · ${
+            review.busiestDay.itemCount
+          } stops on ${escape(review.busiestDay.tripName || "a trip")}`
+        ),
+    ]
+      .filter(Boolean)
+      .join("");
+
+    const tripRows = review.trips
+      .map(
+        ({ trip, recap }) => `
+          <div class="trip-row">
+            <div>
+              <div class="trip-name">${escape(trip.name)}</div>
+              <div class="trip-dates">${this.formatTripDate(
+                trip.start_date
+              )} - ${this.formatTripDate(trip.end_date)}</div>
+            </div>
+            <div class="trip-stats">${recap.days}d · ${this.formatDistance(
+          recap.distance,
+          units
+        )}</div>
+          </div>`
+      )
+      .join("");
+
+    return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1">
+      <title>${review.year} in Trips</title>
+      <style>
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+        body {
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif;
+          background: linear-gradient(135deg, #2d5a3d 0%, #d85430 100%);
+          padding: 20px;
+          display: flex;
+          justify-content: center;
+          min-height: 100vh;
+        }
+        .card {
+          background: white;
+          border-radius: 20px;
+          overflow: hidden;
+          width: 100%;
+          max-width: 480px;
+          box-shadow: 0 20px 60px rgba(0,0,0,0.3);
+        }
+        .header {
+          background: linear-gradient(135deg, #2d5a3d 0%, #d85430 100%);
+          color: white;
+          padding: 30px;
+          text-align: center;
+        }
+        .header h1 { font-size: 40px; }
+        .header .subtitle { font-size: 16px; opacity: 0.9; margin-top: 5px; }
+        .stats {
+          display: grid;
+          grid-template-columns: repeat(3, 1fr);
+          gap: 20px;
+          padding: 30px;
+        }
+        .stat { text-align: center; }
+        .stat-value { font-size: 26px; font-weight: bold; color: #2d5a3d; }
+        .stat-label { font-size: 13px; color: #666; margin-top: 5px; }
+        .section { padding: 0 30px 20px; }
+        .section h3 { font-size: 16px; color: #333; margin-bottom: 15px; }
+        .highlight-item {
+          display: flex;
+          align-items: center;
+          margin-bottom: 10px;
+          padding: 10px;
+          background: #f8f8f8;
+          border-radius: 10px;
+        }
+        .highlight-icon { font-size: 24px; margin-right: 12px; }
+        .highlight-text { flex: 1; font-size: 14px; color: #444; }
+        .trip-row {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          padding: 10px 0;
+          border-bottom: 1px solid #eee;
+        }
+        .trip-name { font-size: 15px; font-weight: 600; color: #333; }
+        .trip-dates { font-size: 12px; color: #888; margin-top: 2px; }
+        .trip-stats { font-size: 13px; color: #2d5a3d; white-space: nowrap; }
+        .footer {
+          background: #f0f0f0;
+          padding: 20px;
+          text-align: center;
+          font-size: 16px;
+          font-weight: 600;
+          color: #2d5a3d;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="card">
+        <div class="header">
+          <h1>${review.year}</h1>
+          <div class="subtitle">Trips in Review</div>
+        </div>
+        <div class="stats">
+          ${stat(review.tripCount, review.tripCount === 1 ? "Trip" : "Trips")}
+          ${stat(review.days, "Days Away")}
+          ${stat(review.spotCount, "Spots")}
+          ${stat(
+            this.formatDistance(review.distance, units).split(" ")[0],
+            this.formatDistance(review.distance, units).split(" ")[1]
+          )}
+          ${stat(this.formatDuration(review.movingTime), "Moving")}
+          ${stat(this.formatElevation(review.elevationGain, units), "Climbed")}
+        </div>
+        ${
+          highlights
+            ? `<div class="section"><h3>Highlights</h3>${highlights}</div>`
+            : ""
+        }
+        ${
+          tripRows
+            ? `<div class="section"><h3>Trips</h3>${tripRows}</div>`
+            : ""
+        }
+        <div class="footer">🌲 ExplorAble</div>
+      </div>
+    </body>
+    </html>
+  `;
+  }
+
+  /**
+   * Share a year in review as an HTML file
+   */
+  static async shareYearInReviewAsHTML(
+    review: YearInReview,
+    options: ShareOptions = {}
+  ): Promise<any> {
+    try {
+      const isAvailable = await Sharing.isAvailableAsync();
+      if (!isAvailable) {
+        return this.shareYearInReview(review, options);
+      }
+
+      const file = new File(Paths.cache, `explorable_${review.year}_in_review.html`);
+      file.write(this.generateYearInReviewHTML(review, options));
+
+      await Sharing.shareAsync(file.uri, {
+        dialogTitle: `Share ${review.year} in Review`,
+        mimeType: "text/html",
+        UTI: "public.html",
+      });
+
+      return { action: "shared" };
+    } catch (error) {
+      console.error("Error sharing year in review:", error);
+      return this.shareYearInReview(review, options);
+    }
+  }
+
+  /**
+   * Share a year in review as an image captured from a ViewShot
+   */
+  static async shareYearInReviewAsImage(
+    review: YearInReview,
+    captureRef: any, // ViewShot ref
+    options: ShareOptions = {}
+  ): Promise<any> {
+    try {
+      const isAvailable = await Sharing.isAvailableAsync();
+
+      if (!isAvailable || !captureRef.current) {
+        return this.shareYearInReview(review, options);
+      }
+
+      const imageUri = await captureRef.current.capture();
+      await Clipboard.setStringAsync(
+        this.createYearInReviewMessage(review, options)
+      );
+
+      await Sharing.shareAsync(imageUri, {
+        dialogTitle: `Share ${review.year} in Review`,
+        mimeType: "image/jpeg",
+        UTI: "public.jpeg",
+      });
+
+      return { action: "shared" };
+    } catch (error) {
+      console.error("Error sharing year in review image:", error);
+      return this.shareYearInReview(review, options);
+    }
+  }
+
+  /**
+   * Share a year in review as text
+   */
+  static async shareYearInReview(
+    review: YearInReview,
+    options: ShareOptions = {}
+  ): Promise<any> {
+    return Share.share({
+      message: this.createYearInReviewMessage(review, options),
+      title: `My ${review.year} in trips`,
+    });
+  }
 }
@@ -0,0 +1,204 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { LocationPoint } from "../types/visits";
+import { calculateDistance } from "../utils/gps";
+import { PauseInterval } from "../utils/splits";
+
+const SESSION_KEY = "active_tracking_session";
+const ROUTE_PREFIX = "active_tracking_route_";
+const PENDING_PREFIX = "pending_location_updates_";
+const CHUNK_SIZE = 250; // Points per AsyncStorage entry - keeps each write small
+
+export interface TrackingSessionState {
+  activityType: string;
+  startTime: number;
+  pausedTime: number; // ms of completed manual pauses
+  pauseStart: number | null;
+  autoPausedTime: number; // ms of completed auto pauses
+  autoPauseStart: number | null;
+  autoPauseEnabled: boolean;
+  pauses: PauseInterval[];
+  lapMarkers: number[];
+  distance: number; // meters
+  maxSpeed: number; // km/h
+  lastUpdated: number;
+}
+
+export interface TrackingSession {
+  state: TrackingSessionState;
+  route: LocationPoint[];
+}
+
+interface ChunkIndex {
+  chunkCount: number;
+  lastChunkSize: number;
+}
+
+export class TrackingSessionService {
+  // Writes are chained so overlapping appends never read a stale chunk index
+  private static writeQueue: Promise<void> = Promise.resolve();
+
+  private static enqueue(task: () => Promise<void>): Promise<void> {
+    this.writeQueue = this.writeQueue.then(task).catch((error) => {
+      console.error("Error persisting tracking session:", error);
+    });
+    return this.writeQueue;
+  }
+
+  /**
+   * Start a fresh session, discarding anything left from a previous one
+   */
+  static async start(state: TrackingSessionState): Promise<void> {
+    return this.enqueue(async () => {
+      await this.removeChunks(ROUTE_PREFIX);
+      await this.removeChunks(PENDING_PREFIX);
+      await AsyncStorage.setItem(SESSION_KEY, JSON.stringify(state));
+    });
+  }
+
+  /**
+   * Save the latest session state and append newly recorded points
+   */
+  static async update(
+    state: TrackingSessionState,
+    newPoints: LocationPoint[] = []
+  ): Promise<void> {
+    return this.enqueue(async () => {
+      await this.appendChunks(ROUTE_PREFIX, newPoints);
+      await AsyncStorage.setItem(SESSION_KEY, JSON.stringify(state));
+    });
+  }
+
+  /**
+   * Append raw points from the background location task
+   * Nothing is trimmed - every point survives until the session is recovered
+   */
+  static async appendPendingPoints(points: LocationPoint[]): Promise<void> {
+    return this.enqueue(() => this.appendChunks(PENDING_PREFIX, points));
+  }
+
+  /**
+   * Load an unfinished session, merging any points the background task
+   * recorded after the last foreground update
+   */
+  static async load(): Promise<TrackingSession | null> {
+    try {
+      await this.writeQueue;
+      const stored = await AsyncStorage.getItem(SESSION_KEY);
+      if (!stored) return null;
+
+      const state: TrackingSessionState = JSON.parse(stored);
+      const route = await this.readChunks(ROUTE_PREFIX);
+      const pending = await this.readChunks(PENDING_PREFIX);
+
+      const lastTimestamp =
+        route.length > 0 ? route[route.length - 1].timestamp : state.startTime;
+      const missed = pending
+        .filter((p) => p.timestamp > lastTimestamp)
+        .sort((a, b) => a.timestamp - b.timestamp);
+
+      let distance = state.distance;
+      let previous = route[route.length - 1];
+      for (const point of missed) {
+        if (previous) {
+          distance += calculateDistance(
+            previous.latitude,
+            previous.longitude,
+            point.latitude,
+            point.longitude
+          );
+        }
+        previous = point;
+      }
+
+      const lastUpdated = Math.max(
+        state.lastUpdated,
+        missed.length > 0 ? missed[missed.length - 1].timestamp : 0
+      );
+
+      return {
+        state: { ...state, distance, lastUpdated },
+        route: [...route, ...missed],
+      };
+    } catch (error) {
+      console.error("Error loading tracking session:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Remove the session once it has been saved or discarded
+   */
+  static async clear(): Promise<void> {
+    return this.enqueue(async () => {
+      await this.removeChunks(ROUTE_PREFIX);
+      await this.removeChunks(PENDING_PREFIX);
+      await AsyncStorage.removeItem(SESSION_KEY);
+    });
+  }
+
+  private static async getChunkIndex(prefix: string): Promise<ChunkIndex> {
+    const stored = await AsyncStorage.getItem(`${prefix}index`);
+    return stored ? JSON.parse(stored) : { chunkCount: 0, lastChunkSize: 0 };
+  }
+
+  private static async appendChunks(
+    prefix: string,
+    points: LocationPoint[]
+  ): Promise<void> {
+    if (points.length === 0) return;
+
+    const index = await this.getChunkIndex(prefix);
+    let chunkNumber = index.chunkCount;
+    let chunk: LocationPoint[] = [];
+
+    // Keep filling the last chunk until it is full
+    if (index.chunkCount > 0 && index.lastChunkSize < CHUNK_SIZE) {
+      chunkNumber = index.chunkCount - 1;
+      const stored = await AsyncStorage.getItem(`${prefix}${chunkNumber}`);
+      chunk = stored ? JSON.parse(stored) : [];
+    }
+
+    const writes: [string, string][] = [];
+    let remaining = points;
+
+    while (remaining.length > 0) {
+      const space = CHUNK_SIZE - chunk.length;
+      chunk = [...chunk, ...remaining.slice(0, space)];
+      remaining = remaining.slice(space);
+      writes.push([`${prefix}${chunkNumber}`, JSON.stringify(chunk)]);
+
+      if (remaining.length > 0) {
+        chunkNumber++;
+        chunk = [];
+      }
+    }
+
+    writes.push([
+      `${prefix}index`,
+      JSON.stringify({ chunkCount: chunkNumber + 1, lastChunkSize: chunk.length }),
+    ]);
+    await AsyncStorage.multiSet(writes);
+  }
+
+  private static async readChunks(prefix: string): Promise<LocationPoint[]> {
+    const index = await this.getChunkIndex(prefix);
+    if (index.chunkCount === 0) return [];
+
+    const keys = Array.from(
+      { length: index.chunkCount },
+      (_, i) => `${prefix}${i}`
+    );
+    const chunks = await AsyncStorage.multiGet(keys);
+
+    return chunks.flatMap(([, value]) => (value ? JSON.parse(value) : []));
+  }
+
+  private static async removeChunks(prefix: string): Promise<void> {
+    const index = await this.getChunkIndex(prefix);
+    const keys = Array.from(
+      { length: index.chunkCount },
+      (_, i) => `${prefix}${i}`
+    );
+    await AsyncStorage.multiRemove([...keys, `${prefix}index`]);
+  }
+}
@@ -0,0 +1,224 @@
+import { supabase } from '../lib/supabase';
+import { PhotoService } from './photoService';
+
+// Quick reactions offered when long-pressing a message
+export const CHAT_REACTIONS = ['👍', '❤️', '😂', '😮', '🎉', '⛰️'];
+
+// Trips per unread count request - keeps the filter well inside URL limits
+const UNREAD_BATCH_SIZE = 30;
+
+export interface TripMessage {
+  id: string;
+  trip_id: string;
+  user_id: string;
+  message: string;
+  photo_url?: string | null;
+  reply_to?: string | null; // Message this one answers
+  created_at: string;
+  user?: {
+    username: string;
+    avatar_url: string;
+  };
+}
+
+export interface TripMessageReaction {
+  id: string;
+  message_id: string;
+  trip_id: string;
+  user_id: string;
+  emoji: string;
+}
+
+export interface NewTripMessage {
+  text: string;
+  photoUri?: string | null; // Local image, uploaded before sending
+  replyTo?: string | null;
+}
+
+export class TripChatService {
+  static async getMessages(tripId: string): Promise<TripMessage[]> {
+    const { data, error } = await supabase
+      .from('trip_messages')
+      .select('*')
+      .eq('trip_id', tripId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  static async getReactions(tripId: string): Promise<TripMessageReaction[]> {
+    const { data, error } = await supabase
+      .from('trip_message_reactions')
+      .select('id, message_id, trip_id, user_id, emoji')
+      .eq('trip_id', tripId);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  static async sendMessage(
+    tripId: string,
+    userId: string,
+    message: NewTripMessage
+  ): Promise<void> {
+    let photoUrl: string | null = null;
+    if (message.photoUri) {
+      photoUrl = await PhotoService.uploadPhoto(message.photoUri, 'location-photos', userId);
+      if (!photoUrl) throw new Error('Photo upload failed');
+    }
+
+    const { error } = await supabase.from('trip_messages').insert({
+      trip_id: tripId,
+      user_id: userId,
+      message: message.text.trim(),
+      photo_url: photoUrl,
+      reply_to: message.replyTo || null,
+    });
+
+    if (error) throw error;
+  }
+
+  /**
+   * Adds the reaction, or takes it back if the user already reacted with it
+   * Returns the new reaction, or null when one was removed
+   */
+  static async toggleReaction(
+    tripId: string,
+    messageId: string,
+    userId: string,
+    emoji: string,
+    reactions: TripMessageReaction[]
+  ): Promise<TripMessageReaction | null> {
+    const existing = reactions.find(
+      r => r.message_id === messageId && r.user_id === userId && r.emoji === emoji
+    );
+
+    if (existing) {
+      const { error } = await supabase
+        .from('trip_message_reactions')
+        .delete()
+        .eq('id', existing.id);
+
+      if (error) throw error;
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('trip_message_reactions')
+      .insert({
+        trip_id: tripId,
+        message_id: messageId,
+        user_id: userId,
+        emoji,
+      })
+      .select('id, message_id, trip_id, user_id, emoji')
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Mark the chat read up to the newest message the user has seen
+   * The marker is that message's server timestamp rather than this
+   * device's clock, so it compares cleanly with other messages
+   */
+  static async markRead(tripId: string, userId: string, lastMessage: TripMessage): Promise<void> {
+    const { error } = await supabase.from('trip_message_reads').upsert(
+      {
+        trip_id: tripId,
+        user_id: userId,
+        last_read_at: lastMessage.created_at,
+      },
+      { onConflict: 'trip_id,user_id' }
+    );
+
+    if (error) console.error('Error marking chat read:', error);
+  }
+
+  /**
+   * Messages from other people since the user last opened each trip's chat
+   * One request per batch of trips, counting only the unread rows
+   */
+  static async getUnreadCounts(
+    tripIds: string[],
+    userId: string
+  ): Promise<Record<string, number>> {
+    if (tripIds.length === 0) return {};
+
+    const { data: reads, error } = await supabase
+      .from('trip_message_reads')
+      .select('trip_id, last_read_at')
+      .eq('user_id', userId)
+      .in('trip_id', tripIds);
+
+    if (error) {
+      console.error('Error loading chat reads:', error);
+      return {};
+    }
+
+    const lastRead: Record<string, string> = {};
+    (reads || []).forEach(read => {
+      lastRead[read.trip_id] = read.last_read_at;
+    });
+
+    const counts: Record<string, number> = {};
+    for (let i = 0; i < tripIds.length; i += UNREAD_BATCH_SIZE) {
+      // Each trip has its own cut-off, so they're combined with or()
+      const conditions = tripIds.slice(i, i + UNREAD_BATCH_SIZE).map(tripId =>
+        lastRead[tripId]
+          ? `and(trip_id.eq.${tripId},created_at.gt."${lastRead[tripId]}")`
+          : `trip_id.eq.${tripId}`
+      );
+
+      const { data: unread, error: unreadError } = await supabase
+        .from('trip_messages')
+        .select('trip_id')
+        .neq('user_id', userId)
+        .or(conditions.join(','));
+
+      if (unreadError) {
+        console.error('Error counting unread messages:', unreadError);
+        continue;
+      }
+
+      (unread || []).forEach(message => {
+        counts[message.trip_id] = (counts[message.trip_id] || 0) + 1;
+      });
+    }
+
+    return counts;
+  }
+
+  /**
+   * Push the message to trip members who don't have the chat open
+   */
+  static async notifyAwayMembers(
+    tripId: string,
+    tripName: string,
+    senderName: string,
+    message: NewTripMessage,
+    recipientIds: string[]
+  ): Promise<void> {
+    const body = message.text.trim()
+      ? `${senderName}: ${message.text.trim()}`
+      : `${senderName} shared a photo`;
+
+    await Promise.all(
+      recipientIds.map(async userId => {
+        const { error } = await supabase.functions.invoke('send-notification', {
+          body: {
+            user_id: userId,
+            notification_type: 'trip_message',
+            title: tripName,
+            body,
+            data: { type: 'trip_message', trip_id: tripId },
+          },
+        });
+
+        if (error) console.error('Error sending chat notification:', error);
+      })
+    );
+  }
+}
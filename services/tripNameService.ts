@@ -0,0 +1,157 @@
+import { ActivityType } from '../contexts/ActivityContext';
+import { TripItem } from '../contexts/TripContext';
+import { GeocodedArea, LocationService } from './locationService';
+
+type NameableItem = Pick<TripItem, 'type' | 'data'>;
+
+type NameableTrip = {
+  items?: NameableItem[];
+  start_date: Date;
+  end_date: Date;
+};
+
+interface WeightedArea {
+  area: GeocodedArea;
+  weight: number;
+}
+
+const ACTIVITY_NAMES: Partial<Record<ActivityType, string>> = {
+  hike: 'Hiking',
+  bike: 'Biking',
+  run: 'Running',
+  walk: 'Walking',
+  paddleboard: 'Paddling',
+  climb: 'Climbing',
+};
+
+// Names worth more than the town they happen to be in
+const LANDMARK_SUFFIXES = 'National Park|State Park|Provincial Park|National Forest|National Monument|Recreation Area|Wilderness|Reserve|Peninsula|Islands?';
+const LANDMARK_PATTERN = new RegExp(`\\b(${LANDMARK_SUFFIXES})\\b`, 'i');
+const LANDMARK_NAME_PATTERN = new RegExp(`([A-Z][\\w'.-]*(?:\\s+[A-Z][\\w'.-]*)*\\s+(?:${LANDMARK_SUFFIXES}))\\b`);
+
+const MAX_LOOKUPS = 5; // Reverse geocoding is rate limited, so only the busiest areas are looked up
+const CELL_DEGREES = 0.1;
+const DOMINANT_SHARE = 0.5;
+
+export class TripNameService {
+  /**
+   * Suggest a name like "Olympic Peninsula Hiking Weekend" from a trip's places and activities
+   * Returns null when no place could be named, so callers can keep their own fallback
+   */
+  static async suggestName(trip: NameableTrip): Promise<string | null> {
+    const items = trip.items || [];
+    const place = this.findLandmark(items) || await this.findArea(items);
+    if (!place) return null;
+
+    const activity = this.getDominantActivity(items);
+    const kind = this.getTripKind(trip.start_date, trip.end_date, place.multiRegion);
+
+    return [place.name, activity, kind].filter(Boolean).join(' ');
+  }
+
+  /**
+   * A spot the user named after a park or similar wins over geocoding
+   */
+  private static findLandmark(items: NameableItem[]): { name: string; multiRegion: boolean } | null {
+    const counts: Record<string, number> = {};
+    items
+      .filter(item => item.type === 'spot' && typeof item.data?.name === 'string')
+      .forEach(item => {
+        const match = (item.data.name as string).match(LANDMARK_NAME_PATTERN);
+        if (match) counts[match[1]] = (counts[match[1]] || 0) + 1;
+      });
+
+    const best = Object.entries(counts).sort((a, b) => b[1] - a[1])[0];
+    return best ? { name: best[0], multiRegion: false } : null;
+  }
+
+  private static async findArea(items: NameableItem[]): Promise<{ name: string; multiRegion: boolean } | null> {
+    const cells: Record<string, { latitude: number; longitude: number; weight: number }> = {};
+    for (const location of items.flatMap(item => this.getItemLocations(item))) {
+      const key = `${Math.round(location.latitude / CELL_DEGREES)},${Math.round(location.longitude / CELL_DEGREES)}`;
+      const cell = cells[key] || (cells[key] = { ...location, weight: 0 });
+      cell.weight++;
+    }
+
+    const areas: WeightedArea[] = [];
+    for (const cell of Object.values(cells).sort((a, b) => b.weight - a.weight).slice(0, MAX_LOOKUPS)) {
+      const area = await LocationService.getArea(cell.latitude, cell.longitude);
+      if (area) areas.push({ area, weight: cell.weight });
+    }
+    if (areas.length === 0) return null;
+
+    const landmark = this.getDominant(areas, area =>
+      area.name && LANDMARK_PATTERN.test(area.name) ? area.name : undefined
+    );
+    const regions = new Set(areas.map(({ area }) => area.region).filter(Boolean));
+    const multiRegion = regions.size > 1;
+
+    const name =
+      landmark ||
+      this.getDominant(areas, area => area.city) ||
+      this.getDominant(areas, area => area.subregion) ||
+      this.getDominant(areas, area => area.region) ||
+      (regions.size === 2 ? Array.from(regions).join(' & ') : undefined) ||
+      this.getDominant(areas, area => area.country);
+
+    return name ? { name, multiRegion } : null;
+  }
+
+  private static getDominant(
+    areas: WeightedArea[],
+    field: (area: GeocodedArea) => string | undefined
+  ): string | undefined {
+    const total = areas.reduce((sum, { weight }) => sum + weight, 0);
+    const weights: Record<string, number> = {};
+    areas.forEach(({ area, weight }) => {
+      const value = field(area);
+      if (value) weights[value] = (weights[value] || 0) + weight;
+    });
+
+    const best = Object.entries(weights).sort((a, b) => b[1] - a[1])[0];
+    return best && best[1] / total >= DOMINANT_SHARE ? best[0] : undefined;
+  }
+
+  private static getDominantActivity(items: NameableItem[]): string | undefined {
+    const counts: Record<string, number> = {};
+    const activities = items.filter(item => item.type === 'activity');
+    activities.forEach(item => {
+      const type = item.data?.type as ActivityType;
+      if (ACTIVITY_NAMES[type]) counts[type] = (counts[type] || 0) + 1;
+    });
+
+    const best = Object.entries(counts).sort((a, b) => b[1] - a[1])[0];
+    return best && best[1] / activities.length >= DOMINANT_SHARE
+      ? ACTIVITY_NAMES[best[0] as ActivityType]
+      : undefined;
+  }
+
+  private static getTripKind(startDate: Date, endDate: Date, multiRegion: boolean): string {
+    const start = new Date(startDate);
+    const end = new Date(endDate);
+    start.setHours(0, 0, 0, 0);
+    end.setHours(0, 0, 0, 0);
+    const days = Math.round((end.getTime() - start.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+
+    if (multiRegion) return 'Road Trip';
+    if (days <= 1) return 'Day Trip';
+
+    const includesWeekend = [start.getDay(), end.getDay()].some(day => day === 0 || day === 6);
+    if (days <= 3 && includesWeekend) return 'Weekend';
+    return 'Trip';
+  }
+
+  private static getItemLocations(item: NameableItem): { latitude: number; longitude: number }[] {
+    const data = item.data || {};
+    if (item.type === 'spot') {
+      const latitude = data.location?.latitude ?? data.latitude;
+      const longitude = data.location?.longitude ?? data.longitude;
+      return typeof latitude === 'number' && typeof longitude === 'number'
+        ? [{ latitude, longitude }]
+        : [];
+    }
+
+    const route = Array.isArray(data.route) ? data.route : [];
+    return route.length > 0 ? [route[0], route[route.length - 1]] : [];
+  }
+}
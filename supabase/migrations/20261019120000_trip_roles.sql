@@ -0,0 +1,143 @@
+-- Trip roles: the owner and editors change a trip, viewers can only look,
+-- comment and chat. The app hides what a role can't do; these policies
+-- make the database refuse it too.
+--
+-- The policies are restrictive, so they narrow whatever the existing
+-- permissive policies allow instead of replacing them.
+
+-- Tags from before roles existed count as accepted editors
+alter table public.trip_tags
+  add column if not exists role text not null default 'editor',
+  add column if not exists status text not null default 'accepted';
+
+alter table public.trip_tags
+  add constraint trip_tags_role_check check (role in ('editor', 'viewer')),
+  add constraint trip_tags_status_check check (status in ('pending', 'accepted'));
+
+-- Security definer so the checks can read trips and trip_tags without
+-- going through their own policies again
+create or replace function public.is_trip_owner(trip uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from trips where id = trip and created_by = auth.uid()
+  );
+$$;
+
+create or replace function public.can_edit_trip(trip uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select public.is_trip_owner(trip) or exists (
+    select 1 from trip_tags
+    where trip_id = trip
+      and user_id = auth.uid()
+      and coalesce(status, 'accepted') = 'accepted'
+      and coalesce(role, 'editor') = 'editor'
+  );
+$$;
+
+-- Trips
+
+create policy "Owners and editors update trips"
+  on public.trips as restrictive for update to authenticated
+  using (public.can_edit_trip(id))
+  with check (public.can_edit_trip(id));
+
+create policy "Owners delete trips"
+  on public.trips as restrictive for delete to authenticated
+  using (created_by = auth.uid());
+
+-- Rows that belong to a trip - checked against the old trip and, when a
+-- merge moves them, the new one
+
+create policy "Owners and editors add trip items"
+  on public.trip_items as restrictive for insert to authenticated
+  with check (public.can_edit_trip(trip_id));
+create policy "Owners and editors update trip items"
+  on public.trip_items as restrictive for update to authenticated
+  using (public.can_edit_trip(trip_id))
+  with check (public.can_edit_trip(trip_id));
+create policy "Owners and editors remove trip items"
+  on public.trip_items as restrictive for delete to authenticated
+  using (public.can_edit_trip(trip_id));
+
+create policy "Owners and editors add itinerary items"
+  on public.trip_itinerary_items as restrictive for insert to authenticated
+  with check (public.can_edit_trip(trip_id));
+create policy "Owners and editors update itinerary items"
+  on public.trip_itinerary_items as restrictive for update to authenticated
+  using (public.can_edit_trip(trip_id))
+  with check (public.can_edit_trip(trip_id));
+create policy "Owners and editors remove itinerary items"
+  on public.trip_itinerary_items as restrictive for delete to authenticated
+  using (public.can_edit_trip(trip_id));
+
+create policy "Owners and editors add checklist items"
+  on public.trip_checklist_items as restrictive for insert to authenticated
+  with check (public.can_edit_trip(trip_id));
+create policy "Owners and editors update checklist items"
+  on public.trip_checklist_items as restrictive for update to authenticated
+  using (public.can_edit_trip(trip_id))
+  with check (public.can_edit_trip(trip_id));
+create policy "Owners and editors remove checklist items"
+  on public.trip_checklist_items as restrictive for delete to authenticated
+  using (public.can_edit_trip(trip_id));
+
+create policy "Owners and editors add expenses"
+  on public.trip_expenses as restrictive for insert to authenticated
+  with check (public.can_edit_trip(trip_id));
+create policy "Owners and editors update expenses"
+  on public.trip_expenses as restrictive for update to authenticated
+  using (public.can_edit_trip(trip_id))
+  with check (public.can_edit_trip(trip_id));
+create policy "Owners and editors remove expenses"
+  on public.trip_expenses as restrictive for delete to authenticated
+  using (public.can_edit_trip(trip_id));
+
+-- Participants: the owner invites, removes and sets roles; an invitee
+-- can accept or leave
+
+create policy "Owners invite to trips"
+  on public.trip_tags as restrictive for insert to authenticated
+  with check (public.is_trip_owner(trip_id));
+create policy "Owners and invitees update trip tags"
+  on public.trip_tags as restrictive for update to authenticated
+  using (public.is_trip_owner(trip_id) or user_id = auth.uid())
+  with check (public.is_trip_owner(trip_id) or user_id = auth.uid());
+create policy "Owners remove and invitees leave"
+  on public.trip_tags as restrictive for delete to authenticated
+  using (public.is_trip_owner(trip_id) or user_id = auth.uid());
+
+-- Row policies can't compare old and new values, so stop an invitee
+-- giving themselves another role or moving their tag with a trigger
+create or replace function public.guard_trip_tag_update()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if auth.uid() is not null
+    and not public.is_trip_owner(old.trip_id)
+    and (
+      new.role is distinct from old.role
+      or new.trip_id <> old.trip_id
+      or new.user_id <> old.user_id
+    )
+  then
+    raise exception 'Only the trip owner can change roles';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger guard_trip_tag_update
+  before update on public.trip_tags
+  for each row execute function public.guard_trip_tag_update();
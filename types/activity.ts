@@ -1,3 +1,5 @@
+import { ActivitySplit, SplitUnit } from "../utils/splits";
+
 // Re-export Comment from shared types for backwards compatibility
 export { Comment } from "./comment";
 
@@ -15,10 +17,18 @@ export interface Activity {
   start_time: string;
   end_time: string;
   duration: number;
+  moving_time?: number;
+  elapsed_time?: number;
   distance: number;
   average_speed?: number;
   max_speed?: number;
   elevation_gain?: number;
+  elevation_loss?: number;
+  min_altitude?: number;
+  max_altitude?: number;
+  splits?: ActivitySplit[];
+  laps?: ActivitySplit[];
+  split_unit?: SplitUnit;
   notes?: string;
   route?: RoutePoint[];
   user_id: string;
@@ -2,190 +2,368 @@ import { Activity } from '../contexts/ActivityContext';
 import { SavedSpot } from '../contexts/LocationContext';
 import { Trip, TripItem } from '../contexts/TripContext';
 
-interface DetectionCandidate {
-  items: (Activity | SavedSpot)[];
-  startDate: Date;
-  endDate: Date;
-  centerLat: number;
-  centerLng: number;
+interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * One dated, located moment of an item - a spot visit or an activity session
+ */
+interface DetectionPoint {
+  item: Activity | SavedSpot;
+  type: 'activity' | 'spot';
+  key: string;
+  time: number;
+  positions: Coordinates[];
+  photos: string[];
+  homeDistance?: number; // km, only known when there is a home location
+}
+
+interface DetectionCluster {
+  points: DetectionPoint[];
+  neighborCounts: number[];
+}
+
+export interface TripDetectionOptions {
+  home?: Coordinates | null; // Falls back to the most frequented area in the data
+  homeRadiusKm?: number;
+}
+
+export interface TripSuggestion {
+  trip: Trip;
+  confidence: number; // 0-1
 }
 
 export class TripDetector {
   // Configuration
   private static readonly MIN_ITEMS_FOR_TRIP = 2;
-  private static readonly MAX_DAYS_BETWEEN_ITEMS = 7;
-  private static readonly MAX_DISTANCE_KM = 100; // Max distance between items to be considered same trip
-  
+  private static readonly MIN_POINTS = 2; // Points (including itself) in a neighborhood to make a core point
+  private static readonly HOME_RADIUS_KM = 30; // Everyday local activity stays out of trips
+  private static readonly MAX_GAP_HOURS = 48; // Max time between neighboring points
+  private static readonly CLUSTER_RADIUS_KM = 100; // Max distance between neighboring points when staying put
+  private static readonly TRAVEL_SPEED_KMH = 60; // Extra reach per hour between points, so moving trips chain together
+  private static readonly MAX_LEG_KM = 800;
+  private static readonly FAR_FROM_HOME_KM = 150; // Distance at which being away no longer adds confidence
+  private static readonly HOME_CELL_DEGREES = 0.1;
+  private static readonly MIN_HOME_DAYS = 5;
+  private static readonly MIN_HOME_SHARE = 0.3;
+
   /**
    * Detect trips from activities and spots
+   *
+   * Points away from home are clustered by density in space and time (ST-DBSCAN).
+   * Neighbors may be further apart the more time passes between them, so a
+   * road trip chains together, while any stop at home ends the trip.
    */
   static detectTrips(
-    activities: Activity[], 
+    activities: Activity[],
     spots: SavedSpot[],
-    existingTrips: Trip[]
-  ): Trip[] {
-    // Combine and sort all items by date
-    const allItems: { item: Activity | SavedSpot; type: 'activity' | 'spot'; date: Date }[] = [
-      ...activities.map(a => ({ 
-        item: a, 
-        type: 'activity' as const, 
-        date: new Date(a.activityDate) 
-      })),
-      ...spots.map(s => ({ 
-        item: s, 
-        type: 'spot' as const, 
-        date: new Date(s.locationDate) 
+    existingTrips: Trip[],
+    options: TripDetectionOptions = {}
+  ): TripSuggestion[] {
+    const allPoints = [
+      ...activities.flatMap(activity => this.getActivityPoints(activity)),
+      ...spots.flatMap(spot => this.getSpotPoints(spot)),
+    ]
+      .filter(point => !this.isInExistingTrip(point, existingTrips))
+      .sort((a, b) => a.time - b.time);
+
+    const home = options.home || this.inferHome(allPoints);
+    const homeRadius = options.homeRadiusKm ?? this.HOME_RADIUS_KM;
+
+    const homeTimes: number[] = [];
+    const points: DetectionPoint[] = [];
+    for (const point of allPoints) {
+      if (home) {
+        point.homeDistance = Math.min(
+          ...point.positions.map(position => this.calculateDistance(position, home))
+        );
+        if (point.homeDistance <= homeRadius) {
+          homeTimes.push(point.time);
+          continue;
+        }
+      }
+      points.push(point);
+    }
+
+    return this.clusterPoints(points, homeTimes)
+      .map(cluster => ({
+        cluster,
+        items: this.getClusterItems(cluster),
       }))
-    ].sort((a, b) => a.date.getTime() - b.date.getTime());
-
-    // Filter out items already in trips
-    const itemsInTrips = new Set<string>();
-    existingTrips.forEach(trip => {
-      trip.items.forEach(item => {
-        const id = item.type === 'activity' 
-          ? (item.data as Activity).id 
-          : (item.data as SavedSpot).id;
-        itemsInTrips.add(`${item.type}-${id}`);
+      .filter(({ items }) => items.length >= this.MIN_ITEMS_FOR_TRIP)
+      .map(({ cluster, items }, index) => ({
+        trip: this.createTripFromCluster(cluster, items, index),
+        confidence: this.scoreCluster(cluster, items.length, !!home),
+      }));
+  }
+
+  /**
+   * Density-based clustering over time-ordered points
+   */
+  private static clusterPoints(points: DetectionPoint[], homeTimes: number[]): DetectionCluster[] {
+    const neighbors = points.map((_, i) => this.findNeighbors(points, i, homeTimes));
+    const assigned = new Array<boolean>(points.length).fill(false);
+    const clusters: DetectionCluster[] = [];
+
+    points.forEach((_, i) => {
+      if (assigned[i] || neighbors[i].length + 1 < this.MIN_POINTS) return;
+
+      const members: number[] = [];
+      const queue = [i];
+      assigned[i] = true;
+
+      while (queue.length > 0) {
+        const current = queue.shift()!;
+        members.push(current);
+
+        // Only core points extend the cluster, border points just join it
+        if (neighbors[current].length + 1 < this.MIN_POINTS) continue;
+
+        for (const neighbor of neighbors[current]) {
+          if (!assigned[neighbor]) {
+            assigned[neighbor] = true;
+            queue.push(neighbor);
+          }
+        }
+      }
+
+      members.sort((a, b) => a - b);
+      clusters.push({
+        points: members.map(m => points[m]),
+        neighborCounts: members.map(m => neighbors[m].length),
       });
     });
 
-    const unassignedItems = allItems.filter(({ item, type }) => {
-      const id = type === 'activity' ? (item as Activity).id : (item as SavedSpot).id;
-      return !itemsInTrips.has(`${type}-${id}`);
-    });
+    return clusters;
+  }
 
-    if (unassignedItems.length < this.MIN_ITEMS_FOR_TRIP) {
-      return [];
-    }
+  private static findNeighbors(points: DetectionPoint[], index: number, homeTimes: number[]): number[] {
+    const point = points[index];
+    const maxGapMs = this.MAX_GAP_HOURS * 60 * 60 * 1000;
+    const result: number[] = [];
 
-    // Group items into potential trips
-    const candidates: DetectionCandidate[] = [];
-    let currentCandidate: DetectionCandidate | null = null;
-
-    for (const { item, type, date } of unassignedItems) {
-      const location = this.getItemLocation(item, type);
-      
-      if (!location) continue;
-
-      if (!currentCandidate) {
-        // Start new candidate
-        currentCandidate = {
-          items: [item],
-          startDate: date,
-          endDate: date,
-          centerLat: location.lat,
-          centerLng: location.lng
-        };
-      } else {
-        // Check if this item belongs to current candidate
-        const daysSinceLastItem = this.daysBetween(currentCandidate.endDate, date);
-        const distance = this.calculateDistance(
-          currentCandidate.centerLat,
-          currentCandidate.centerLng,
-          location.lat,
-          location.lng
-        );
+    // The stops at home either side of this point - nothing past them is a neighbor
+    const previousHome = homeTimes[this.searchTimes(homeTimes, time => time >= point.time) - 1] ?? -Infinity;
+    const nextHome = homeTimes[this.searchTimes(homeTimes, time => time > point.time)] ?? Infinity;
 
-        if (daysSinceLastItem <= this.MAX_DAYS_BETWEEN_ITEMS && 
-            distance <= this.MAX_DISTANCE_KM) {
-          // Add to current candidate
-          currentCandidate.items.push(item);
-          currentCandidate.endDate = date;
-          // Update center point (simple average)
-          const itemCount = currentCandidate.items.length;
-          currentCandidate.centerLat = 
-            (currentCandidate.centerLat * (itemCount - 1) + location.lat) / itemCount;
-          currentCandidate.centerLng = 
-            (currentCandidate.centerLng * (itemCount - 1) + location.lng) / itemCount;
-        } else {
-          // Save current candidate if it has enough items
-          if (currentCandidate.items.length >= this.MIN_ITEMS_FOR_TRIP) {
-            candidates.push(currentCandidate);
-          }
-          // Start new candidate
-          currentCandidate = {
-            items: [item],
-            startDate: date,
-            endDate: date,
-            centerLat: location.lat,
-            centerLng: location.lng
-          };
+    // Points are sorted by time, so scan outwards until the gap is too large
+    for (const step of [-1, 1]) {
+      for (let j = index + step; j >= 0 && j < points.length; j += step) {
+        const other = points[j];
+        const gapMs = Math.abs(other.time - point.time);
+        if (gapMs > maxGapMs) break;
+        if (other.time < previousHome || other.time > nextHome) break;
+
+        const reach = Math.min(
+          this.MAX_LEG_KM,
+          this.CLUSTER_RADIUS_KM + this.TRAVEL_SPEED_KMH * (gapMs / (60 * 60 * 1000))
+        );
+        if (this.pointDistance(point, other) <= reach) {
+          result.push(j);
         }
       }
     }
 
-    // Don't forget the last candidate
-    if (currentCandidate && currentCandidate.items.length >= this.MIN_ITEMS_FOR_TRIP) {
-      candidates.push(currentCandidate);
+    return result;
+  }
+
+  // Index of the first time in a sorted list that passes isAfter
+  private static searchTimes(times: number[], isAfter: (time: number) => boolean): number {
+    let low = 0;
+    let high = times.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (isAfter(times[middle])) high = middle;
+      else low = middle + 1;
     }
+    return low;
+  }
+
+  /**
+   * Confidence blends distance from home, number of items, days covered and density
+   */
+  private static scoreCluster(cluster: DetectionCluster, itemCount: number, homeKnown: boolean): number {
+    const distances = cluster.points
+      .map(point => point.homeDistance)
+      .filter((distance): distance is number => distance !== undefined)
+      .sort((a, b) => a - b);
+    const medianDistance = distances[Math.floor(distances.length / 2)];
+    const away = homeKnown && medianDistance !== undefined
+      ? Math.min(1, medianDistance / this.FAR_FROM_HOME_KM)
+      : 0.5;
 
-    // Convert candidates to trips
-    return candidates.map((candidate, index) => this.createTripFromCandidate(candidate, index));
+    const size = Math.min(1, itemCount / 6);
+
+    const first = cluster.points[0].time;
+    const last = cluster.points[cluster.points.length - 1].time;
+    const days = this.daysBetween(new Date(first), new Date(last)) + 1;
+    const span = Math.min(1, 0.4 + 0.3 * (days - 1));
+
+    const averageNeighbors =
+      cluster.neighborCounts.reduce((sum, count) => sum + count, 0) / cluster.neighborCounts.length;
+    const density = Math.min(1, averageNeighbors / 3);
+
+    const confidence = 0.4 * away + 0.2 * size + 0.2 * span + 0.2 * density;
+    return Math.round(confidence * 100) / 100;
   }
 
-  private static getItemLocation(
-    item: Activity | SavedSpot, 
-    type: 'activity' | 'spot'
-  ): { lat: number; lng: number } | null {
-    if (type === 'spot') {
-      const spot = item as SavedSpot;
-      return { lat: spot.location.latitude, lng: spot.location.longitude };
-    } else {
-      const activity = item as Activity;
-      if (activity.route && activity.route.length > 0) {
-        // Use the midpoint of the route
-        const midIndex = Math.floor(activity.route.length / 2);
-        return {
-          lat: activity.route[midIndex].latitude,
-          lng: activity.route[midIndex].longitude
-        };
-      }
+  private static getActivityPoints(activity: Activity): DetectionPoint[] {
+    const sessions = activity.visits && activity.visits.length > 0
+      ? activity.visits.map(visit => ({
+          date: visit.date,
+          route: visit.route && visit.route.length > 0 ? visit.route : activity.route,
+          photos: visit.photos || [],
+        }))
+      : [{
+          date: activity.startTime || activity.activityDate,
+          route: activity.route,
+          photos: activity.photos || [],
+        }];
+
+    return sessions
+      .map(session => ({
+        item: activity,
+        type: 'activity' as const,
+        key: `activity-${activity.id}`,
+        time: session.date ? new Date(session.date).getTime() : NaN,
+        positions: this.getRouteEnds(session.route),
+        photos: session.photos,
+      }))
+      .filter(point => !isNaN(point.time) && point.positions.length > 0);
+  }
+
+  private static getSpotPoints(spot: SavedSpot): DetectionPoint[] {
+    if (!spot.location) return [];
+
+    const visits = spot.visits && spot.visits.length > 0
+      ? spot.visits.map(visit => ({ date: visit.date, photos: visit.photos || [] }))
+      : [{ date: spot.locationDate || spot.timestamp, photos: spot.photos || [] }];
+
+    return visits
+      .map(visit => ({
+        item: spot,
+        type: 'spot' as const,
+        key: `spot-${spot.id}`,
+        time: visit.date ? new Date(visit.date).getTime() : NaN,
+        positions: [spot.location],
+        photos: visit.photos,
+      }))
+      .filter(point => !isNaN(point.time));
+  }
+
+  private static getRouteEnds(route?: Activity['route']): Coordinates[] {
+    if (!route || route.length === 0) return [];
+
+    const start = route[0];
+    const end = route[route.length - 1];
+    return this.calculateDistance(start, end) > 1 ? [start, end] : [start];
+  }
+
+  /**
+   * An item already in a trip only counts again when dated outside that trip
+   */
+  private static isInExistingTrip(point: DetectionPoint, existingTrips: Trip[]): boolean {
+    const dayMs = 24 * 60 * 60 * 1000;
+    const dates = point.type === 'spot'
+      ? (point.item as SavedSpot).visits?.length
+      : (point.item as Activity).visits?.length;
+
+    return existingTrips.some(trip => {
+      const containsItem = (trip.items || []).some(
+        tripItem => tripItem.type === point.type && tripItem.data?.id === point.item.id
+      );
+      if (!containsItem) return false;
+      if (!dates || dates <= 1) return true;
+
+      return point.time >= new Date(trip.start_date).getTime() - dayMs &&
+        point.time <= new Date(trip.end_date).getTime() + 2 * dayMs;
+    });
+  }
+
+  /**
+   * Use the area with the most days of activity as home when none is set
+   */
+  private static inferHome(points: DetectionPoint[]): Coordinates | null {
+    const cells = new Map<string, { days: Set<string>; positions: Coordinates[] }>();
+    const allDays = new Set<string>();
+
+    for (const point of points) {
+      const day = new Date(point.time).toDateString();
+      allDays.add(day);
+
+      const position = point.positions[0];
+      const key = `${Math.round(position.latitude / this.HOME_CELL_DEGREES)},${Math.round(position.longitude / this.HOME_CELL_DEGREES)}`;
+      const cell = cells.get(key) || { days: new Set<string>(), positions: [] };
+      cell.days.add(day);
+      cell.positions.push(position);
+      cells.set(key, cell);
     }
-    return null;
-  }
-
-
-private static createTripFromCandidate(
-  candidate: DetectionCandidate, 
-  index: number
-): Trip {
-  const now = new Date();
-  const tripItems: TripItem[] = candidate.items.map((item, i) => ({
-    id: `auto-${Date.now()}-${i}`,
-    trip_id: '', // This will be set when added to the trip
-    type: this.isActivity(item) ? 'activity' : 'spot',
-    data: item,
-    added_at: now,
-    added_by: undefined
-  }));
-
-  // Generate trip name based on location or date
-  const tripName = this.generateTripName(candidate);
-
-  // Find cover photo
-  const coverPhoto = this.findCoverPhoto(candidate.items);
-
-  return {
-    id: `auto-trip-${Date.now()}-${index}`,
-    name: tripName,
-    start_date: candidate.startDate,  // Changed from startDate
-    end_date: candidate.endDate,      // Changed from endDate
-    items: tripItems,
-    cover_photo: coverPhoto,          // Changed from coverPhoto
-    auto_generated: true,              // Changed from autoGenerated
-    created_at: now,                  // Changed from createdAt
-    created_by: '',                   // Will be set by TripContext
-    tagged_friends: [],
-    merged_from: []
-  };
-}
-  private static generateTripName(candidate: DetectionCandidate): string {
-    const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 
+
+    const home = Array.from(cells.values())
+      .sort((a, b) => b.days.size - a.days.size)[0];
+    if (!home ||
+        home.days.size < this.MIN_HOME_DAYS ||
+        home.days.size < allDays.size * this.MIN_HOME_SHARE) {
+      return null;
+    }
+
+    return {
+      latitude: home.positions.reduce((sum, p) => sum + p.latitude, 0) / home.positions.length,
+      longitude: home.positions.reduce((sum, p) => sum + p.longitude, 0) / home.positions.length,
+    };
+  }
+
+  private static getClusterItems(cluster: DetectionCluster): DetectionPoint[] {
+    const seen = new Set<string>();
+    return cluster.points.filter(point => {
+      if (seen.has(point.key)) return false;
+      seen.add(point.key);
+      return true;
+    });
+  }
+
+  private static createTripFromCluster(
+    cluster: DetectionCluster,
+    items: DetectionPoint[],
+    index: number
+  ): Trip {
+    const now = new Date();
+    const startDate = new Date(cluster.points[0].time);
+    const endDate = new Date(cluster.points[cluster.points.length - 1].time);
+
+    const tripItems: TripItem[] = items.map((point, i) => ({
+      id: `auto-${Date.now()}-${i}`,
+      trip_id: '', // This will be set when added to the trip
+      type: point.type,
+      data: point.item,
+      added_at: now,
+      added_by: undefined
+    }));
+
+    return {
+      id: `auto-trip-${Date.now()}-${index}`,
+      name: this.generateTripName(startDate, endDate),
+      start_date: startDate,
+      end_date: endDate,
+      items: tripItems,
+      cover_photo: this.findCoverPhoto(cluster.points),
+      auto_generated: true,
+      created_at: now,
+      created_by: '', // Will be set by TripContext
+      tagged_friends: [],
+      merged_from: []
+    };
+  }
+
+  private static generateTripName(startDate: Date, endDate: Date): string {
+    const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun',
                         'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-    
-    const startMonth = monthNames[candidate.startDate.getMonth()];
-    const endMonth = monthNames[candidate.endDate.getMonth()];
-    const year = candidate.endDate.getFullYear();
+
+    const startMonth = monthNames[startDate.getMonth()];
+    const endMonth = monthNames[endDate.getMonth()];
+    const year = endDate.getFullYear();
 
     if (startMonth === endMonth) {
       return `${startMonth} ${year} Adventure`;
@@ -194,24 +372,20 @@ private static createTripFromCandidate(
     }
   }
 
-  private static findCoverPhoto(items: (Activity | SavedSpot)[]): string | undefined {
-    for (const item of items) {
-      if (this.isSpot(item)) {
-        const spot = item as SavedSpot;
-        if (spot.photos && spot.photos.length > 0) {
-          return spot.photos[0];
-        }
-      }
-    }
-    return undefined;
-  }
-
-  private static isActivity(item: Activity | SavedSpot): item is Activity {
-    return 'activityType' in item || 'type' in item;
+  private static findCoverPhoto(points: DetectionPoint[]): string | undefined {
+    // Prefer spot photos, then anything taken during the trip
+    const spotPhoto = points.find(point => point.type === 'spot' && point.photos.length > 0);
+    return spotPhoto?.photos[0] || points.find(point => point.photos.length > 0)?.photos[0];
   }
 
-  private static isSpot(item: Activity | SavedSpot): item is SavedSpot {
-    return 'location' in item && typeof (item as any).location === 'object';
+  private static pointDistance(a: DetectionPoint, b: DetectionPoint): number {
+    let closest = Infinity;
+    for (const from of a.positions) {
+      for (const to of b.positions) {
+        closest = Math.min(closest, this.calculateDistance(from, to));
+      }
+    }
+    return closest;
   }
 
   private static daysBetween(date1: Date, date2: Date): number {
@@ -219,21 +393,16 @@ private static createTripFromCandidate(
     return Math.round(Math.abs((date2.getTime() - date1.getTime()) / oneDayMs));
   }
 
-  private static calculateDistance(
-    lat1: number, 
-    lng1: number, 
-    lat2: number, 
-    lng2: number
-  ): number {
+  private static calculateDistance(from: Coordinates, to: Coordinates): number {
     // Haversine formula
     const R = 6371; // Earth's radius in km
-    const dLat = this.toRadians(lat2 - lat1);
-    const dLng = this.toRadians(lng2 - lng1);
-    
+    const dLat = this.toRadians(to.latitude - from.latitude);
+    const dLng = this.toRadians(to.longitude - from.longitude);
+
     const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-              Math.cos(this.toRadians(lat1)) * Math.cos(this.toRadians(lat2)) *
+              Math.cos(this.toRadians(from.latitude)) * Math.cos(this.toRadians(to.latitude)) *
               Math.sin(dLng / 2) * Math.sin(dLng / 2);
-    
+
     const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
     return R * c;
   }
@@ -241,4 +410,4 @@ private static createTripFromCandidate(
   private static toRadians(degrees: number): number {
     return degrees * (Math.PI / 180);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,51 @@
+import { bytesToHex } from "@noble/hashes/utils";
+import { deriveKey, NONCE_BYTES, open, seal } from "../crypto";
+import { sha256Hex, utf8Encode } from "../hash";
+
+const key = Uint8Array.from({ length: 32 }, (_, i) => i);
+const nonce = Uint8Array.from({ length: NONCE_BYTES }, (_, i) => 100 + i);
+const plaintext = utf8Encode("{\"version\":\"2.0\",\"spots\":[]}");
+const entryName = utf8Encode("archive.json");
+
+describe("backup crypto", () => {
+  it("derives PBKDF2-HMAC-SHA256 keys", async () => {
+    const derived = await deriveKey("password", {
+      kdf: "PBKDF2-SHA256",
+      iterations: 1,
+      salt: utf8Encode("salt"),
+    });
+    expect(bytesToHex(derived)).toBe(
+      "120fb6cffcf8b32c43e7225256c4f837a86548c92ccc35480805987cb70be17b"
+    );
+  });
+
+  it("hashes with SHA-256", () => {
+    expect(sha256Hex("abc")).toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+    );
+  });
+
+  it("round-trips sealed data", () => {
+    const sealed = seal(key, nonce, plaintext, entryName);
+    expect(sealed).not.toEqual(plaintext);
+    expect(open(key, nonce, sealed, entryName)).toEqual(plaintext);
+  });
+
+  it("rejects tampered data", () => {
+    const sealed = seal(key, nonce, plaintext, entryName);
+    sealed[3] ^= 1;
+    expect(open(key, nonce, sealed, entryName)).toBeNull();
+  });
+
+  it("rejects the wrong key", () => {
+    const sealed = seal(key, nonce, plaintext, entryName);
+    const wrongKey = key.slice();
+    wrongKey[0] ^= 1;
+    expect(open(wrongKey, nonce, sealed, entryName)).toBeNull();
+  });
+
+  it("rejects data moved to another entry", () => {
+    const sealed = seal(key, nonce, plaintext, entryName);
+    expect(open(key, nonce, sealed, utf8Encode("photos/file_0"))).toBeNull();
+  });
+});
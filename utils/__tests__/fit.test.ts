@@ -0,0 +1,105 @@
+import {
+  decodeFit,
+  encodeFitActivity,
+  FitActivity,
+  getActivityTypeFromFitSport,
+  getFitSport,
+} from "../fit";
+
+const start = Date.UTC(2024, 5, 1, 8, 0, 0);
+
+const activity: FitActivity = {
+  sport: getFitSport("hike"),
+  startTime: start,
+  endTime: start + 120000,
+  elapsedTime: 120,
+  timerTime: 110,
+  distance: 250.5,
+  ascent: 12,
+  descent: 4,
+  averageSpeed: 2.1,
+  maxSpeed: 3.4,
+  route: [0, 30, 60, 90, 120].map((seconds, i) => ({
+    latitude: 46.5 + i * 0.0005,
+    longitude: 7.9 - i * 0.0003,
+    altitude: 1200 + i * 3,
+    timestamp: start + seconds * 1000,
+  })),
+  laps: [
+    {
+      startTime: start,
+      endTime: start + 60000,
+      elapsedTime: 60,
+      timerTime: 55,
+      distance: 125,
+      ascent: 6,
+      descent: 2,
+      trigger: "distance",
+    },
+    {
+      startTime: start + 60000,
+      endTime: start + 120000,
+      elapsedTime: 60,
+      timerTime: 55,
+      distance: 125.5,
+      ascent: 6,
+      descent: 2,
+      trigger: "manual",
+    },
+  ],
+};
+
+describe("FIT encoding", () => {
+  it("round-trips an activity", () => {
+    const decoded = decodeFit(encodeFitActivity(activity));
+
+    expect(decoded.sport).toBe(activity.sport);
+    expect(decoded.startTime).toBe(activity.startTime);
+    expect(decoded.endTime).toBe(activity.endTime);
+    expect(decoded.elapsedTime).toBe(activity.elapsedTime);
+    expect(decoded.timerTime).toBe(activity.timerTime);
+    expect(decoded.distance).toBeCloseTo(activity.distance, 2);
+    expect(decoded.ascent).toBe(activity.ascent);
+    expect(decoded.descent).toBe(activity.descent);
+    expect(decoded.averageSpeed).toBeCloseTo(activity.averageSpeed!, 3);
+    expect(decoded.maxSpeed).toBeCloseTo(activity.maxSpeed!, 3);
+
+    expect(decoded.route).toHaveLength(activity.route.length);
+    decoded.route.forEach((point, i) => {
+      const original = activity.route[i];
+      expect(point.latitude).toBeCloseTo(original.latitude, 6);
+      expect(point.longitude).toBeCloseTo(original.longitude, 6);
+      expect(point.altitude).toBeCloseTo(original.altitude!, 1);
+      expect(point.timestamp).toBe(original.timestamp);
+    });
+
+    expect(decoded.laps).toHaveLength(2);
+    decoded.laps.forEach((lap, i) => {
+      const original = activity.laps[i];
+      expect(lap.startTime).toBe(original.startTime);
+      expect(lap.endTime).toBe(original.endTime);
+      expect(lap.elapsedTime).toBe(original.elapsedTime);
+      expect(lap.timerTime).toBe(original.timerTime);
+      expect(lap.distance).toBeCloseTo(original.distance, 2);
+      expect(lap.trigger).toBe(original.trigger);
+    });
+  });
+
+  it("maps activity types to FIT sports and back", () => {
+    for (const type of ["run", "bike", "walk", "hike", "climb", "paddleboard"]) {
+      expect(getActivityTypeFromFitSport(getFitSport(type))).toBe(type);
+    }
+  });
+
+  it("rejects files that aren't FIT", () => {
+    expect(() => decodeFit(new Uint8Array(8))).toThrow("too short");
+    expect(() => decodeFit(new TextEncoder().encode("not a fit file at all"))).toThrow(
+      "Not a FIT file"
+    );
+  });
+
+  it("rejects truncated files", () => {
+    const bytes = encodeFitActivity(activity);
+    expect(() => decodeFit(bytes.slice(0, 60))).toThrow();
+  });
+});
@@ -0,0 +1,86 @@
+import { deflateRawSync } from "zlib";
+import {
+  crc32,
+  createZip,
+  createZipWriter,
+  inflateRaw,
+  readZip,
+  readZipDirectory,
+  readZipEntry,
+  ZipSource,
+} from "../zip";
+
+const encoder = new TextEncoder();
+
+const entries = [
+  { name: "doc.kml", data: encoder.encode("<kml>Hütte</kml>") },
+  { name: "photos/file_0", data: Uint8Array.from({ length: 3000 }, (_, i) => i % 251) },
+  { name: "empty.txt", data: new Uint8Array(0) },
+];
+
+// A ZIP with one deflated entry, like the KMZ files other tools write
+const deflatedZip = (name: string, data: Uint8Array): Uint8Array => {
+  const compressed = new Uint8Array(deflateRawSync(data));
+  const stored = createZip([{ name, data: compressed }]);
+  const view = new DataView(stored.buffer);
+  const centralStart = view.getUint32(stored.length - 6, true);
+
+  view.setUint16(8, 8, true); // Local header method
+  view.setUint32(14, crc32(data), true);
+  view.setUint32(22, data.length, true);
+  view.setUint16(centralStart + 10, 8, true); // Central directory method
+  view.setUint32(centralStart + 16, crc32(data), true);
+  view.setUint32(centralStart + 24, data.length, true);
+  return stored;
+};
+
+describe("zip", () => {
+  it("computes the standard CRC-32", () => {
+    expect(crc32(encoder.encode("123456789"))).toBe(0xcbf43926);
+  });
+
+  it("round-trips stored entries", () => {
+    expect(readZip(createZip(entries))).toEqual(entries);
+  });
+
+  it("streams the same bytes as createZip", () => {
+    const modified = new Date(2024, 0, 1);
+    const chunks: number[] = [];
+    const writer = createZipWriter((chunk) => chunks.push(...chunk), modified);
+    entries.forEach((entry) => writer.add(entry.name, entry.data));
+    writer.finish();
+
+    expect(Uint8Array.from(chunks)).toEqual(createZip(entries, modified));
+  });
+
+  it("reads single entries through ranged reads", () => {
+    const bytes = createZip(entries);
+    const read: ZipSource = (offset, length) => bytes.subarray(offset, offset + length);
+
+    const directory = readZipDirectory(read, bytes.length);
+    expect(directory.map((entry) => entry.name)).toEqual(entries.map((e) => e.name));
+
+    const photo = directory.find((entry) => entry.name === "photos/file_0")!;
+    expect(readZipEntry(read, photo)).toEqual(entries[1].data);
+  });
+
+  it("reads deflated entries", () => {
+    const text = encoder.encode("<kml>".repeat(500) + "placemark".repeat(200));
+    expect(readZip(deflatedZip("doc.kml", text))).toEqual([{ name: "doc.kml", data: text }]);
+  });
+
+  it("inflates raw DEFLATE data", () => {
+    const data = Uint8Array.from({ length: 70000 }, (_, i) => (i * 7) % 13);
+    expect(inflateRaw(new Uint8Array(deflateRawSync(data)))).toEqual(data);
+    expect(inflateRaw(new Uint8Array(deflateRawSync(data, { level: 0 })))).toEqual(data);
+  });
+
+  it("rejects files that aren't ZIPs", () => {
+    expect(() => readZip(encoder.encode("{\"version\": \"1.0\"}"))).toThrow("Not a ZIP file");
+  });
+
+  it("rejects damaged archives", () => {
+    const bytes = createZip(entries);
+    expect(() => readZip(bytes.slice(40))).toThrow("Damaged ZIP file");
+  });
+});
@@ -0,0 +1,59 @@
+import { xchacha20poly1305 } from "@noble/ciphers/chacha";
+import { pbkdf2Async } from "@noble/hashes/pbkdf2";
+import { sha256 } from "@noble/hashes/sha2";
+import { utf8Encode } from "./hash";
+
+// Passphrase encryption for backup files, on the audited @noble libraries
+// PBKDF2-HMAC-SHA256 derives the key; XChaCha20-Poly1305 encrypts and
+// authenticates. Random nonces are safe at 24 bytes.
+
+export const KDF_ITERATIONS = 100000;
+export const SALT_BYTES = 16;
+export const NONCE_BYTES = 24;
+const KEY_BYTES = 32;
+
+export interface KdfParams {
+  kdf: "PBKDF2-SHA256";
+  iterations: number;
+  salt: Uint8Array;
+}
+
+/**
+ * Derive the encryption key from a passphrase
+ * Yields to the event loop while it works so the UI keeps responding
+ */
+export const deriveKey = (passphrase: string, params: KdfParams): Promise<Uint8Array> =>
+  pbkdf2Async(sha256, utf8Encode(passphrase.normalize("NFC")), params.salt, {
+    c: params.iterations,
+    dkLen: KEY_BYTES,
+    asyncTick: 10,
+  });
+
+/**
+ * Encrypt and authenticate
+ * associatedData is authenticated but not encrypted - it ties the
+ * ciphertext to where it belongs so it can't be moved elsewhere
+ */
+export const seal = (
+  key: Uint8Array,
+  nonce: Uint8Array,
+  plaintext: Uint8Array,
+  associatedData?: Uint8Array
+): Uint8Array => xchacha20poly1305(key, nonce, associatedData).encrypt(plaintext);
+
+/**
+ * Decrypt, or null if the key is wrong or anything was changed -
+ * the two can't be told apart
+ */
+export const open = (
+  key: Uint8Array,
+  nonce: Uint8Array,
+  ciphertext: Uint8Array,
+  associatedData?: Uint8Array
+): Uint8Array | null => {
+  try {
+    return xchacha20poly1305(key, nonce, associatedData).decrypt(ciphertext);
+  } catch (error) {
+    return null;
+  }
+};
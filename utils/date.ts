@@ -9,6 +9,19 @@ export const setEndOfDay = (date: Date): Date => {
   return d;
 };
 
+// Local calendar day as YYYY-MM-DD
+export const toDayKey = (date: Date | string): string => {
+  const d = normalizeDate(date);
+  const month = String(d.getMonth() + 1).padStart(2, "0");
+  const day = String(d.getDate()).padStart(2, "0");
+  return `${d.getFullYear()}-${month}-${day}`;
+};
+
+export const fromDayKey = (day: string): Date => {
+  const [year, month, date] = day.split("-").map(Number);
+  return new Date(year, month - 1, date);
+};
+
 export const getLastActiveText = (lastActive?: Date): string => {
   if (!lastActive) return "Offline";
 
@@ -0,0 +1,76 @@
+export interface ElevationStats {
+  gain: number; // Total climbing (meters)
+  loss: number; // Total descent (meters)
+  minAltitude: number; // meters
+  maxAltitude: number; // meters
+}
+
+// GPS altitude wanders by several meters even when standing still,
+// so changes smaller than this are treated as noise
+const ELEVATION_NOISE_THRESHOLD = 4;
+const MEDIAN_WINDOW = 5;
+const AVERAGE_WINDOW = 5;
+
+const windowAround = (values: number[], index: number, size: number) => {
+  const half = Math.floor(size / 2);
+  return values.slice(Math.max(0, index - half), index + half + 1);
+};
+
+/**
+ * Smooth raw GPS altitudes
+ * A median filter removes single-point spikes, then a moving average
+ * evens out the remaining jitter
+ */
+export const smoothAltitudes = (altitudes: number[]): number[] => {
+  const medians = altitudes.map((_, i) => {
+    const sorted = [...windowAround(altitudes, i, MEDIAN_WINDOW)].sort(
+      (a, b) => a - b
+    );
+    return sorted[Math.floor(sorted.length / 2)];
+  });
+
+  return medians.map((_, i) => {
+    const window = windowAround(medians, i, AVERAGE_WINDOW);
+    return window.reduce((sum, value) => sum + value, 0) / window.length;
+  });
+};
+
+/**
+ * Calculate elevation gain, loss and altitude range for a route
+ * Points without altitude are skipped
+ * @returns null when the route has fewer than two altitude readings
+ */
+export const calculateElevationStats = (
+  points: { altitude?: number | null }[]
+): ElevationStats | null => {
+  const altitudes = (points || [])
+    .map((p) => p?.altitude)
+    .filter((alt): alt is number => typeof alt === "number" && isFinite(alt));
+
+  if (altitudes.length < 2) return null;
+
+  const smoothed = smoothAltitudes(altitudes);
+
+  let gain = 0;
+  let loss = 0;
+  let reference = smoothed[0];
+
+  // Only count a climb or descent once it clears the noise threshold
+  for (const altitude of smoothed) {
+    const change = altitude - reference;
+    if (change >= ELEVATION_NOISE_THRESHOLD) {
+      gain += change;
+      reference = altitude;
+    } else if (change <= -ELEVATION_NOISE_THRESHOLD) {
+      loss -= change;
+      reference = altitude;
+    }
+  }
+
+  return {
+    gain: Math.round(gain),
+    loss: Math.round(loss),
+    minAltitude: Math.round(smoothed.reduce((min, a) => Math.min(min, a))),
+    maxAltitude: Math.round(smoothed.reduce((max, a) => Math.max(max, a))),
+  };
+};
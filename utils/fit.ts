@@ -0,0 +1,633 @@
+import { LocationPoint } from "../types/visits";
+import { calculateDistance } from "./gps";
+
+// Binary FIT (Flexible and Interoperable Data Transfer) activity files,
+// the format Garmin, Wahoo, Coros etc. watches record to.
+// Only the messages an activity needs are written; decoding reads any
+// valid file and picks out records, laps and the session summary.
+
+// Seconds between the Unix epoch and the FIT epoch (1989-12-31T00:00:00Z)
+const FIT_EPOCH_OFFSET = 631065600;
+const SEMICIRCLES_PER_DEGREE = 2 ** 31 / 180;
+const PROTOCOL_VERSION = 0x20; // 2.0
+const PROFILE_VERSION = 2132; // 21.32
+const HEADER_SIZE = 14;
+
+const MESSAGE = {
+  FILE_ID: 0,
+  SPORT: 12,
+  SESSION: 18,
+  LAP: 19,
+  RECORD: 20,
+  EVENT: 21,
+  ACTIVITY: 34,
+};
+
+const BASE_TYPE = {
+  ENUM: 0x00,
+  UINT16: 0x84,
+  SINT32: 0x85,
+  UINT32: 0x86,
+  UINT32Z: 0x8c,
+};
+
+const EVENT = { TIMER: 0, SESSION: 8, LAP: 9, ACTIVITY: 26 };
+const EVENT_TYPE = { START: 0, STOP: 1, STOP_ALL: 4 };
+const LAP_TRIGGER = { manual: 0, distance: 2, session_end: 7 };
+const MANUFACTURER_DEVELOPMENT = 255;
+
+export type FitLapTrigger = keyof typeof LAP_TRIGGER;
+
+export interface FitLap {
+  startTime: number; // ms timestamp
+  endTime: number; // ms timestamp
+  elapsedTime: number; // seconds
+  timerTime: number; // moving seconds
+  distance: number; // meters
+  ascent?: number; // meters
+  descent?: number; // meters
+  trigger?: FitLapTrigger;
+}
+
+export interface FitActivity {
+  sport: number;
+  startTime: number; // ms timestamp
+  endTime: number; // ms timestamp
+  elapsedTime: number; // seconds
+  timerTime: number; // moving seconds
+  distance: number; // meters
+  ascent?: number; // meters
+  descent?: number; // meters
+  averageSpeed?: number; // m/s
+  maxSpeed?: number; // m/s
+  route: LocationPoint[];
+  laps: FitLap[];
+}
+
+// ActivityType -> FIT sport enum
+const FIT_SPORTS: Record<string, number> = {
+  run: 1,
+  bike: 2,
+  walk: 11,
+  hike: 17,
+  climb: 31, // rock_climbing
+  paddleboard: 37, // stand_up_paddleboarding
+  other: 0,
+};
+
+export const getFitSport = (activityType: string): number =>
+  FIT_SPORTS[activityType] ?? 0;
+
+/**
+ * Map a FIT sport back to an activity type
+ * Close relatives (e-bikes, kayaks, mountaineering) map to the nearest type
+ */
+export const getActivityTypeFromFitSport = (sport: number): string => {
+  switch (sport) {
+    case 1:
+      return "run";
+    case 2:
+    case 21: // e_biking
+      return "bike";
+    case 11:
+      return "walk";
+    case 16: // mountaineering
+    case 17:
+      return "hike";
+    case 31:
+      return "climb";
+    case 15: // rowing
+    case 19: // paddling
+    case 37:
+    case 41: // kayaking
+      return "paddleboard";
+    default:
+      return "other";
+  }
+};
+
+const toFitTime = (ms: number) =>
+  Math.round(ms / 1000) - FIT_EPOCH_OFFSET;
+const fromFitTime = (seconds: number) =>
+  (seconds + FIT_EPOCH_OFFSET) * 1000;
+
+const CRC_TABLE = [
+  0x0000, 0xcc01, 0xd801, 0x1400, 0xf001, 0x3c00, 0x2800, 0xe401, 0xa001,
+  0x6c00, 0x7800, 0xb401, 0x5000, 0x9c01, 0x8801, 0x4400,
+];
+
+const crc16 = (bytes: Uint8Array, start = 0, end = bytes.length): number => {
+  let crc = 0;
+  for (let i = start; i < end; i++) {
+    const byte = bytes[i];
+    let tmp = CRC_TABLE[crc & 0xf];
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ CRC_TABLE[byte & 0xf];
+    tmp = CRC_TABLE[crc & 0xf];
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ CRC_TABLE[(byte >> 4) & 0xf];
+  }
+  return crc;
+};
+
+type FieldDefinition = [number, number, number]; // field number, size, base type
+
+const INVALID_VALUES: Record<number, number> = {
+  [BASE_TYPE.ENUM]: 0xff,
+  [BASE_TYPE.UINT16]: 0xffff,
+  [BASE_TYPE.SINT32]: 0x7fffffff,
+  [BASE_TYPE.UINT32]: 0xffffffff,
+  [BASE_TYPE.UINT32Z]: 0,
+};
+
+class FitWriter {
+  private bytes: number[] = [];
+  private definitions = new Map<number, FieldDefinition[]>();
+  private scratch = new DataView(new ArrayBuffer(4));
+
+  define(localType: number, globalNumber: number, fields: FieldDefinition[]) {
+    this.definitions.set(localType, fields);
+    this.bytes.push(0x40 | localType, 0, 0); // header, reserved, little endian
+    this.bytes.push(globalNumber & 0xff, (globalNumber >> 8) & 0xff);
+    this.bytes.push(fields.length);
+    fields.forEach((field) => this.bytes.push(...field));
+  }
+
+  write(localType: number, values: (number | null | undefined)[]) {
+    const fields = this.definitions.get(localType);
+    if (!fields) throw new Error(`FIT local message ${localType} not defined`);
+
+    this.bytes.push(localType);
+    fields.forEach(([, size, baseType], i) => {
+      const value = values[i];
+      const raw =
+        value === null || value === undefined || !isFinite(value)
+          ? INVALID_VALUES[baseType]
+          : Math.round(value);
+
+      if (size === 1) {
+        this.bytes.push(raw & 0xff);
+      } else if (size === 2) {
+        this.scratch.setUint16(0, raw & 0xffff, true);
+        this.bytes.push(this.scratch.getUint8(0), this.scratch.getUint8(1));
+      } else {
+        if (baseType === BASE_TYPE.SINT32) {
+          this.scratch.setInt32(0, raw, true);
+        } else {
+          this.scratch.setUint32(0, raw >>> 0, true);
+        }
+        for (let b = 0; b < 4; b++) this.bytes.push(this.scratch.getUint8(b));
+      }
+    });
+  }
+
+  toFile(): Uint8Array {
+    const file = new Uint8Array(HEADER_SIZE + this.bytes.length + 2);
+    const view = new DataView(file.buffer);
+
+    file[0] = HEADER_SIZE;
+    file[1] = PROTOCOL_VERSION;
+    view.setUint16(2, PROFILE_VERSION, true);
+    view.setUint32(4, this.bytes.length, true);
+    file.set([0x2e, 0x46, 0x49, 0x54], 8); // ".FIT"
+    view.setUint16(12, crc16(file, 0, 12), true);
+
+    file.set(this.bytes, HEADER_SIZE);
+    view.setUint16(
+      HEADER_SIZE + this.bytes.length,
+      crc16(file, 0, HEADER_SIZE + this.bytes.length),
+      true
+    );
+    return file;
+  }
+}
+
+const clamp = (value: number, max: number) =>
+  Math.max(0, Math.min(max, value));
+
+const encodeAltitude = (altitude?: number | null) =>
+  typeof altitude === "number" ? clamp((altitude + 500) * 5, 0xfffe) : null;
+
+const encodeSpeed = (metersPerSecond?: number) =>
+  metersPerSecond === undefined ? null : clamp(metersPerSecond * 1000, 0xfffe);
+
+/**
+ * Encode an activity as a FIT file
+ */
+export const encodeFitActivity = (activity: FitActivity): Uint8Array => {
+  const writer = new FitWriter();
+  const { ENUM, UINT16, SINT32, UINT32, UINT32Z } = BASE_TYPE;
+  const endTime = toFitTime(activity.endTime);
+  const startTime = toFitTime(activity.startTime);
+
+  writer.define(0, MESSAGE.FILE_ID, [
+    [0, 1, ENUM], // type
+    [1, 2, UINT16], // manufacturer
+    [2, 2, UINT16], // product
+    [3, 4, UINT32Z], // serial number
+    [4, 4, UINT32], // time created
+  ]);
+  writer.write(0, [4, MANUFACTURER_DEVELOPMENT, 1, 1, startTime]);
+
+  writer.define(1, MESSAGE.EVENT, [
+    [253, 4, UINT32], // timestamp
+    [0, 1, ENUM], // event
+    [1, 1, ENUM], // event type
+  ]);
+  writer.write(1, [startTime, EVENT.TIMER, EVENT_TYPE.START]);
+
+  writer.define(2, MESSAGE.RECORD, [
+    [253, 4, UINT32], // timestamp
+    [0, 4, SINT32], // latitude (semicircles)
+    [1, 4, SINT32], // longitude (semicircles)
+    [2, 2, UINT16], // altitude (5x, +500m)
+    [5, 4, UINT32], // distance (cm)
+    [6, 2, UINT16], // speed (mm/s)
+  ]);
+
+  let distance = 0;
+  activity.route.forEach((point, i) => {
+    let speed: number | undefined;
+    if (i > 0) {
+      const previous = activity.route[i - 1];
+      const meters = calculateDistance(
+        previous.latitude,
+        previous.longitude,
+        point.latitude,
+        point.longitude
+      );
+      const seconds = (point.timestamp - previous.timestamp) / 1000;
+      distance += meters;
+      speed = seconds > 0 ? meters / seconds : undefined;
+    }
+
+    writer.write(2, [
+      toFitTime(point.timestamp),
+      point.latitude * SEMICIRCLES_PER_DEGREE,
+      point.longitude * SEMICIRCLES_PER_DEGREE,
+      encodeAltitude(point.altitude),
+      distance * 100,
+      encodeSpeed(speed),
+    ]);
+  });
+
+  writer.write(1, [endTime, EVENT.TIMER, EVENT_TYPE.STOP_ALL]);
+
+  writer.define(3, MESSAGE.LAP, [
+    [253, 4, UINT32], // timestamp
+    [254, 2, UINT16], // message index
+    [0, 1, ENUM], // event
+    [1, 1, ENUM], // event type
+    [2, 4, UINT32], // start time
+    [7, 4, UINT32], // total elapsed time (ms)
+    [8, 4, UINT32], // total timer time (ms)
+    [9, 4, UINT32], // total distance (cm)
+    [21, 2, UINT16], // total ascent
+    [22, 2, UINT16], // total descent
+    [24, 1, ENUM], // lap trigger
+    [25, 1, ENUM], // sport
+  ]);
+
+  const laps: FitLap[] =
+    activity.laps.length > 0
+      ? activity.laps
+      : [
+          {
+            startTime: activity.startTime,
+            endTime: activity.endTime,
+            elapsedTime: activity.elapsedTime,
+            timerTime: activity.timerTime,
+            distance: activity.distance,
+            ascent: activity.ascent,
+            descent: activity.descent,
+            trigger: "session_end",
+          },
+        ];
+
+  laps.forEach((lap, i) => {
+    writer.write(3, [
+      toFitTime(lap.endTime),
+      i,
+      EVENT.LAP,
+      EVENT_TYPE.STOP,
+      toFitTime(lap.startTime),
+      lap.elapsedTime * 1000,
+      lap.timerTime * 1000,
+      lap.distance * 100,
+      lap.ascent,
+      lap.descent,
+      LAP_TRIGGER[lap.trigger || "manual"],
+      activity.sport,
+    ]);
+  });
+
+  writer.define(4, MESSAGE.SESSION, [
+    [253, 4, UINT32], // timestamp
+    [254, 2, UINT16], // message index
+    [0, 1, ENUM], // event
+    [1, 1, ENUM], // event type
+    [2, 4, UINT32], // start time
+    [5, 1, ENUM], // sport
+    [6, 1, ENUM], // sub sport
+    [7, 4, UINT32], // total elapsed time (ms)
+    [8, 4, UINT32], // total timer time (ms)
+    [9, 4, UINT32], // total distance (cm)
+    [14, 2, UINT16], // average speed (mm/s)
+    [15, 2, UINT16], // max speed (mm/s)
+    [22, 2, UINT16], // total ascent
+    [23, 2, UINT16], // total descent
+    [25, 2, UINT16], // first lap index
+    [26, 2, UINT16], // number of laps
+    [28, 1, ENUM], // trigger (activity end)
+  ]);
+  writer.write(4, [
+    endTime,
+    0,
+    EVENT.SESSION,
+    EVENT_TYPE.STOP,
+    startTime,
+    activity.sport,
+    0,
+    activity.elapsedTime * 1000,
+    activity.timerTime * 1000,
+    activity.distance * 100,
+    encodeSpeed(activity.averageSpeed),
+    encodeSpeed(activity.maxSpeed),
+    activity.ascent,
+    activity.descent,
+    0,
+    laps.length,
+    0,
+  ]);
+
+  writer.define(5, MESSAGE.ACTIVITY, [
+    [253, 4, UINT32], // timestamp
+    [0, 4, UINT32], // total timer time (ms)
+    [1, 2, UINT16], // number of sessions
+    [2, 1, ENUM], // type (manual)
+    [3, 1, ENUM], // event
+    [4, 1, ENUM], // event type
+    [5, 4, UINT32], // local timestamp
+  ]);
+  const offsetSeconds = -new Date(activity.endTime).getTimezoneOffset() * 60;
+  writer.write(5, [
+    endTime,
+    activity.timerTime * 1000,
+    1,
+    0,
+    EVENT.ACTIVITY,
+    EVENT_TYPE.STOP,
+    endTime + offsetSeconds,
+  ]);
+
+  return writer.toFile();
+};
+
+interface MessageDefinition {
+  globalNumber: number;
+  littleEndian: boolean;
+  fields: FieldDefinition[];
+  developerSize: number;
+}
+
+type Fields = Record<number, number | null>;
+
+const readValue = (
+  view: DataView,
+  offset: number,
+  size: number,
+  baseType: number,
+  littleEndian: boolean
+): number | null => {
+  let value: number;
+  let invalid: number | null;
+
+  switch (baseType & 0x1f) {
+    case 0x00: // enum
+    case 0x02: // uint8
+    case 0x0d: // byte
+      value = view.getUint8(offset);
+      invalid = 0xff;
+      break;
+    case 0x0a: // uint8z
+      value = view.getUint8(offset);
+      invalid = 0;
+      break;
+    case 0x01: // sint8
+      value = view.getInt8(offset);
+      invalid = 0x7f;
+      break;
+    case 0x03: // sint16
+      if (size < 2) return null;
+      value = view.getInt16(offset, littleEndian);
+      invalid = 0x7fff;
+      break;
+    case 0x04: // uint16
+      if (size < 2) return null;
+      value = view.getUint16(offset, littleEndian);
+      invalid = 0xffff;
+      break;
+    case 0x0b: // uint16z
+      if (size < 2) return null;
+      value = view.getUint16(offset, littleEndian);
+      invalid = 0;
+      break;
+    case 0x05: // sint32
+      if (size < 4) return null;
+      value = view.getInt32(offset, littleEndian);
+      invalid = 0x7fffffff;
+      break;
+    case 0x06: // uint32
+      if (size < 4) return null;
+      value = view.getUint32(offset, littleEndian);
+      invalid = 0xffffffff;
+      break;
+    case 0x0c: // uint32z
+      if (size < 4) return null;
+      value = view.getUint32(offset, littleEndian);
+      invalid = 0;
+      break;
+    case 0x08: // float32
+      if (size < 4) return null;
+      value = view.getFloat32(offset, littleEndian);
+      invalid = null;
+      break;
+    case 0x09: // float64
+      if (size < 8) return null;
+      value = view.getFloat64(offset, littleEndian);
+      invalid = null;
+      break;
+    default:
+      // Strings and 64-bit integers aren't needed for activities
+      return null;
+  }
+
+  return value === invalid || !isFinite(value) ? null : value;
+};
+
+const scaled = (value: number | null | undefined, scale: number, offset = 0) =>
+  value === null || value === undefined ? undefined : value / scale - offset;
+
+/**
+ * Decode a FIT activity file
+ * @throws when the file isn't FIT or is truncated
+ */
+export const decodeFit = (bytes: Uint8Array): FitActivity => {
+  if (bytes.length < 12) throw new Error("File is too short to be a FIT file");
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const headerSize = bytes[0];
+  const signature = String.fromCharCode(...bytes.slice(8, 12));
+  if (signature !== ".FIT") throw new Error("Not a FIT file");
+
+  const dataEnd = Math.min(headerSize + view.getUint32(4, true), bytes.length);
+  const definitions = new Map<number, MessageDefinition>();
+  const route: LocationPoint[] = [];
+  const laps: FitLap[] = [];
+  let session: Fields | null = null;
+  let sport: number | null = null;
+  let lastTimestamp = 0;
+  let offset = headerSize;
+
+  while (offset < dataEnd) {
+    const header = bytes[offset++];
+    let localType: number;
+    let timestamp: number | null = null;
+
+    if (header & 0x80) {
+      // Compressed timestamp header: 5-bit offset from the last timestamp
+      localType = (header >> 5) & 0x03;
+      const timeOffset = header & 0x1f;
+      timestamp = lastTimestamp - (lastTimestamp % 32) + timeOffset;
+      if (timeOffset < lastTimestamp % 32) timestamp += 32;
+      lastTimestamp = timestamp;
+    } else {
+      localType = header & 0x0f;
+
+      if (header & 0x40) {
+        const littleEndian = bytes[offset + 1] === 0;
+        const globalNumber = view.getUint16(offset + 2, littleEndian);
+        const fieldCount = bytes[offset + 4];
+        offset += 5;
+
+        const fields: FieldDefinition[] = [];
+        for (let i = 0; i < fieldCount; i++) {
+          fields.push([bytes[offset], bytes[offset + 1], bytes[offset + 2]]);
+          offset += 3;
+        }
+
+        let developerSize = 0;
+        if (header & 0x20) {
+          const developerCount = bytes[offset++];
+          for (let i = 0; i < developerCount; i++) {
+            developerSize += bytes[offset + 1];
+            offset += 3;
+          }
+        }
+
+        definitions.set(localType, {
+          globalNumber,
+          littleEndian,
+          fields,
+          developerSize,
+        });
+        continue;
+      }
+    }
+
+    const definition = definitions.get(localType);
+    if (!definition) {
+      throw new Error(`FIT data message ${localType} has no definition`);
+    }
+
+    const fields: Fields = {};
+    for (const [number, size, baseType] of definition.fields) {
+      if (offset + size > bytes.length) throw new Error("FIT file is truncated");
+      fields[number] = readValue(
+        view,
+        offset,
+        size,
+        baseType,
+        definition.littleEndian
+      );
+      offset += size;
+    }
+    offset += definition.developerSize;
+
+    if (fields[253] !== null && fields[253] !== undefined) {
+      lastTimestamp = fields[253]!;
+    } else if (timestamp !== null) {
+      fields[253] = timestamp;
+    }
+
+    switch (definition.globalNumber) {
+      case MESSAGE.RECORD: {
+        const latitude = fields[0];
+        const longitude = fields[1];
+        if (latitude === null || latitude === undefined) break;
+        if (longitude === null || longitude === undefined) break;
+        if (fields[253] === null || fields[253] === undefined) break;
+
+        route.push({
+          latitude: latitude / SEMICIRCLES_PER_DEGREE,
+          longitude: longitude / SEMICIRCLES_PER_DEGREE,
+          altitude: scaled(fields[78], 5, 500) ?? scaled(fields[2], 5, 500),
+          timestamp: fromFitTime(fields[253]!),
+        });
+        break;
+      }
+      case MESSAGE.LAP: {
+        const end = fields[253];
+        const start = fields[2];
+        if (end === null || end === undefined) break;
+        if (start === null || start === undefined) break;
+
+        laps.push({
+          startTime: fromFitTime(start),
+          endTime: fromFitTime(end),
+          elapsedTime: Math.round(scaled(fields[7], 1000) ?? end - start),
+          timerTime: Math.round(scaled(fields[8], 1000) ?? end - start),
+          distance: scaled(fields[9], 100) ?? 0,
+          ascent: fields[21] ?? undefined,
+          descent: fields[22] ?? undefined,
+          trigger: fields[24] === LAP_TRIGGER.distance ? "distance" : "manual",
+        });
+        break;
+      }
+      case MESSAGE.SESSION:
+        // Multisport files have several sessions - the first sets the sport
+        if (!session) session = fields;
+        break;
+      case MESSAGE.SPORT:
+        if (sport === null) sport = fields[0] ?? null;
+        break;
+    }
+  }
+
+  if (route.length === 0 && !session) {
+    throw new Error("FIT file has no activity data");
+  }
+
+  const startTime = session?.[2]
+    ? fromFitTime(session[2]!)
+    : route[0]?.timestamp ?? 0;
+  const endTime = route[route.length - 1]?.timestamp ?? startTime;
+  const elapsedTime = Math.round(
+    scaled(session?.[7], 1000) ?? (endTime - startTime) / 1000
+  );
+
+  return {
+    sport: session?.[5] ?? sport ?? 0,
+    startTime,
+    endTime,
+    elapsedTime,
+    timerTime: Math.round(scaled(session?.[8], 1000) ?? elapsedTime),
+    distance: scaled(session?.[9], 100) ?? 0,
+    ascent: session?.[22] ?? undefined,
+    descent: session?.[23] ?? undefined,
+    averageSpeed: scaled(session?.[124] ?? session?.[14], 1000),
+    maxSpeed: scaled(session?.[125] ?? session?.[15], 1000),
+    route,
+    laps,
+  };
+};
@@ -91,4 +91,34 @@ export const getMovementThresholds = (activityType: string): MovementThresholds
     default:
       return { minDistance: 5, maxJump: 500, maxSpeed: 200 }; // Vehicles
   }
-};
\ No newline at end of file
+};
+
+export interface AutoPauseThresholds {
+  pauseSpeed: number; // Below this the user counts as stopped (km/h)
+  resumeSpeed: number; // Above this a stopped user is moving again (km/h)
+  pauseDelay: number; // Time spent below pauseSpeed before pausing (seconds)
+  resumeDistance: number; // Distance from the stop point needed to resume (meters)
+}
+
+/**
+ * Get auto-pause thresholds based on activity type
+ * Derived from the movement thresholds so slow activities pause at walking
+ * pace while fast ones ignore brief slow-downs
+ */
+export const getAutoPauseThresholds = (
+  activityType: string
+): AutoPauseThresholds => {
+  const { minDistance, maxJump, maxSpeed } =
+    getMovementThresholds(activityType);
+  const isSlowActivity =
+    activityType === "walk" ||
+    activityType === "hike" ||
+    activityType === "climb";
+
+  return {
+    pauseSpeed: maxSpeed * 0.08,
+    resumeSpeed: maxSpeed * 0.12,
+    pauseDelay: isSlowActivity ? 20 : 10,
+    resumeDistance: Math.min(maxJump, minDistance * 20),
+  };
+};
@@ -0,0 +1,10 @@
+import { sha256 } from "@noble/hashes/sha2";
+import { bytesToHex } from "@noble/hashes/utils";
+
+// SHA-256 checksums for backups, from the audited @noble/hashes
+// Plain JavaScript so it runs the same in the app and in background tasks
+
+export const utf8Encode = (text: string): Uint8Array => new TextEncoder().encode(text);
+
+export const sha256Hex = (data: Uint8Array | string): string =>
+  bytesToHex(sha256(typeof data === "string" ? utf8Encode(data) : data));
@@ -0,0 +1,96 @@
+import { ItineraryItem, Trip, TripItem } from "../contexts/TripContext";
+import { fromDayKey, normalizeDate, toDayKey } from "./date";
+import { calculateDistance } from "./gps";
+
+// A saved spot this close to a planned place counts as having been there
+const MATCH_RADIUS_METERS = 250;
+
+export interface ItineraryDay {
+  day: string;
+  date: Date;
+  items: ItineraryItem[];
+}
+
+export type ItineraryStatus = "done" | "planned" | "missed";
+
+/**
+ * Every day of the trip with its planned entries, plus any days
+ * entries were planned for outside the trip's dates
+ */
+export const getItineraryDays = (trip: Trip): ItineraryDay[] => {
+  const days: Record<string, ItineraryItem[]> = {};
+
+  const end = normalizeDate(trip.end_date);
+  for (
+    let date = normalizeDate(trip.start_date);
+    date <= end;
+    date.setDate(date.getDate() + 1)
+  ) {
+    days[toDayKey(date)] = [];
+  }
+
+  (trip.itinerary || []).forEach((item) => {
+    if (!days[item.day]) days[item.day] = [];
+    days[item.day].push(item);
+  });
+
+  return Object.keys(days)
+    .sort()
+    .map((day) => ({ day, date: fromDayKey(day), items: days[day] }));
+};
+
+/**
+ * The trip item that fulfilled a planned entry - a spot or activity
+ * at the same place, or a spot with the same name
+ */
+export const findCompletingItem = (
+  item: ItineraryItem,
+  trip: Trip,
+): TripItem | undefined => {
+  const name = item.name.trim().toLowerCase();
+
+  return (trip.items || []).find((tripItem) => {
+    const data = tripItem.data || {};
+
+    if (tripItem.type === "spot") {
+      if (data.name && data.name.trim().toLowerCase() === name) return true;
+
+      const latitude = data.location?.latitude ?? data.latitude;
+      const longitude = data.location?.longitude ?? data.longitude;
+      return (
+        !!item.location &&
+        latitude != null &&
+        longitude != null &&
+        calculateDistance(
+          item.location.latitude,
+          item.location.longitude,
+          latitude,
+          longitude,
+        ) <= MATCH_RADIUS_METERS
+      );
+    }
+
+    const route = Array.isArray(data.route) ? data.route : [];
+    return (
+      !!item.location &&
+      route.some(
+        (point: { latitude: number; longitude: number }) =>
+          calculateDistance(
+            item.location!.latitude,
+            item.location!.longitude,
+            point.latitude,
+            point.longitude,
+          ) <= MATCH_RADIUS_METERS,
+      )
+    );
+  });
+};
+
+export const getItineraryStatus = (
+  item: ItineraryItem,
+  trip: Trip,
+  today: Date = new Date(),
+): ItineraryStatus => {
+  if (item.completed_at || findCompletingItem(item, trip)) return "done";
+  return item.day < toDayKey(today) ? "missed" : "planned";
+};
@@ -1,3 +1,5 @@
+import { simplifyRouteForActivity } from "./routeSimplification";
+
 interface GenerateRouteDrawerHTMLOptions {
   centerLat: number;
   centerLng: number;
@@ -1092,9 +1094,337 @@ export const generateRouteEditorHTML = ({
   `;
 };
 
+// Idle trip time longer than this is squeezed out of replays, so nights and
+// drives between activities don't leave the map sitting still
+const REPLAY_MAX_GAP_MS = 10 * 60 * 1000;
+const REPLAY_SPEEDS = [10, 60, 300, 1200];
+
+export interface ReplayTrack {
+  route: any[];
+  startTime?: Date | string | number | null;
+  duration?: number; // seconds, used when the points have no timestamps
+}
+
+export interface ReplayEvent {
+  latitude: number;
+  longitude: number;
+  time: Date | string | number | null | undefined;
+  kind: "spot" | "photo";
+  label: string;
+  photo?: string;
+}
+
+export interface ReplayLayer {
+  style: string;
+  controls: string;
+  script: string; // Expects a Leaflet map in the global `map`
+}
+
+const toReplayTime = (value: any): number | null => {
+  if (value === null || value === undefined || value === "") return null;
+  const time =
+    value instanceof Date
+      ? value.getTime()
+      : typeof value === "number"
+        ? value
+        : new Date(value).getTime();
+  return isNaN(time) ? null : time;
+};
+
+const escapeReplayHTML = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+// Point times from their own timestamps, or spread evenly over the activity
+const getTrackTimes = (track: ReplayTrack): number[] | null => {
+  const times = track.route.map((point) => toReplayTime(point?.timestamp));
+  if (times.every((time) => time !== null)) return times as number[];
+
+  const start = toReplayTime(track.startTime);
+  if (start === null || !track.duration || track.route.length < 2) return null;
+
+  const step = (track.duration * 1000) / (track.route.length - 1);
+  return track.route.map((_, index) => start + index * step);
+};
+
+/**
+ * Replay controls and animation for a Leaflet map - routes draw themselves
+ * as their timestamps pass and spots and photos pop up when they were taken
+ * Returns null when nothing has a usable time to replay
+ */
+export const generateReplayLayer = (
+  tracks: ReplayTrack[],
+  events: ReplayEvent[],
+  options: { autoplay?: boolean } = {}
+): ReplayLayer | null => {
+  const timedTracks = tracks
+    .map((track) => {
+      const times = getTrackTimes(track);
+      if (!times) return [];
+      return track.route
+        .map((point, index) => ({
+          lat: point?.latitude,
+          lng: point?.longitude,
+          t: times[index],
+        }))
+        .filter((p) => typeof p.lat === "number" && typeof p.lng === "number")
+        .sort((a, b) => a.t - b.t);
+    })
+    .filter((track) => track.length > 1);
+
+  const timedEvents = events
+    .map((event) => ({ ...event, t: toReplayTime(event.time) }))
+    .filter(
+      (event): event is ReplayEvent & { t: number } =>
+        event.t !== null &&
+        typeof event.latitude === "number" &&
+        typeof event.longitude === "number"
+    );
+
+  if (timedTracks.length === 0 && timedEvents.length === 0) return null;
+
+  // Map real times onto the replay clock, with long idle gaps squeezed out
+  const moments = Array.from(
+    new Set([
+      ...timedTracks.flatMap((track) => track.map((p) => p.t)),
+      ...timedEvents.map((event) => event.t),
+    ])
+  ).sort((a, b) => a - b);
+
+  const replayTimes = new Map<number, number>();
+  const clock: [number, number][] = [];
+  let elapsed = 0;
+  moments.forEach((time, index) => {
+    if (index > 0) {
+      elapsed += Math.min(time - moments[index - 1], REPLAY_MAX_GAP_MS);
+    }
+    replayTimes.set(time, elapsed);
+    clock.push([elapsed, time]);
+  });
+
+  const data = {
+    duration: elapsed,
+    clock,
+    speeds: REPLAY_SPEEDS,
+    loop: !!options.autoplay,
+    tracks: timedTracks.map((track) =>
+      track.map((p) => [p.lat, p.lng, replayTimes.get(p.t)])
+    ),
+    events: timedEvents.map((event) => ({
+      lat: event.latitude,
+      lng: event.longitude,
+      r: replayTimes.get(event.t),
+      kind: event.kind,
+      label: escapeReplayHTML(event.label),
+      photo: event.photo ? escapeReplayHTML(event.photo) : null,
+    })),
+  };
+
+  // Keep the JSON from closing the surrounding script tag
+  const json = JSON.stringify(data).replace(/</g, "\\u003c");
+
+  return {
+    style: `
+        .replay-toggle { position: absolute; top: 10px; right: 10px; z-index: 1000; background: #2d5a3d; color: #fff; border: none; border-radius: 16px; padding: 8px 14px; font-size: 13px; font-weight: 600; box-shadow: 0 2px 6px rgba(0,0,0,0.3); }
+        .replay-controls { position: absolute; left: 8px; right: 8px; bottom: 8px; z-index: 1000; display: none; align-items: center; gap: 6px; background: rgba(255,255,255,0.95); border-radius: 12px; padding: 6px 8px; box-shadow: 0 2px 6px rgba(0,0,0,0.3); font-family: -apple-system, sans-serif; }
+        .replay-controls button { border: none; background: #2d5a3d; color: #fff; border-radius: 12px; min-width: 30px; height: 26px; font-size: 12px; font-weight: 600; }
+        .replay-controls input { flex: 1; min-width: 0; accent-color: #d85430; }
+        .replay-clock { font-size: 11px; color: #1a2b3c; white-space: nowrap; }
+        .replay-spot { font-size: 22px; line-height: 26px; text-align: center; }
+        .replay-photo img { width: 36px; height: 36px; border-radius: 6px; border: 2px solid #fff; object-fit: cover; box-shadow: 0 1px 4px rgba(0,0,0,0.4); }
+        .replay-photo span { font-size: 22px; }
+    `,
+    controls: `
+      ${
+        options.autoplay
+          ? ""
+          : '<button id="replay-toggle" class="replay-toggle">&#9654; Replay</button>'
+      }
+      <div id="replay-controls" class="replay-controls">
+        <button id="replay-play">&#10074;&#10074;</button>
+        <input id="replay-slider" type="range" min="0" step="1" value="0" />
+        <span id="replay-clock" class="replay-clock"></span>
+        <button id="replay-speed">${REPLAY_SPEEDS[1]}&times;</button>
+        ${options.autoplay ? "" : '<button id="replay-close">&#10005;</button>'}
+      </div>
+    `,
+    script: `
+        var replay = (function () {
+          var data = ${json};
+          var speedIndex = 1;
+          var current = 0;
+          var playing = false;
+          var lastFrame = null;
+
+          var controls = document.getElementById('replay-controls');
+          var slider = document.getElementById('replay-slider');
+          var playButton = document.getElementById('replay-play');
+          var speedButton = document.getElementById('replay-speed');
+          var clockLabel = document.getElementById('replay-clock');
+          var toggleButton = document.getElementById('replay-toggle');
+          var closeButton = document.getElementById('replay-close');
+          slider.max = data.duration;
+
+          var lines = data.tracks.map(function () {
+            return L.polyline([], { color: '#d85430', weight: 4, opacity: 0.9 });
+          });
+          var heads = data.tracks.map(function () {
+            return L.circleMarker([0, 0], {
+              radius: 6,
+              fillColor: '#d85430',
+              color: '#fff',
+              weight: 2,
+              fillOpacity: 1
+            });
+          });
+          var eventMarkers = data.events.map(function (e) {
+            var icon = e.kind === 'photo'
+              ? L.divIcon({
+                  className: 'replay-photo',
+                  html: e.photo ? '<img src="' + e.photo + '" />' : '<span>📷</span>',
+                  iconSize: [36, 36],
+                  iconAnchor: [0, 44]
+                })
+              : L.divIcon({ className: 'replay-spot', html: '📍', iconSize: [26, 26], iconAnchor: [13, 24] });
+            return L.marker([e.lat, e.lng], { icon: icon }).bindPopup('<b>' + e.label + '</b>');
+          });
+
+          // Last index whose time has passed, by binary search
+          function lastIndexAt(list, time, key) {
+            if (list.length === 0 || key(list[0]) > time) return -1;
+            var lo = 0, hi = list.length - 1;
+            while (lo < hi) {
+              var mid = (lo + hi + 1) >> 1;
+              if (key(list[mid]) <= time) lo = mid; else hi = mid - 1;
+            }
+            return lo;
+          }
+
+          function formatClock(r) {
+            var index = lastIndexAt(data.clock, r, function (c) { return c[0]; });
+            if (index < 0) return '';
+            var date = new Date(data.clock[index][1] + (r - data.clock[index][0]));
+            return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' }) + ' ' +
+              date.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+          }
+
+          function render() {
+            data.tracks.forEach(function (track, i) {
+              var index = lastIndexAt(track, current, function (p) { return p[2]; });
+              if (index < 0) {
+                lines[i].setLatLngs([]);
+                map.removeLayer(heads[i]);
+                return;
+              }
+              var point = track[index];
+              var next = track[index + 1];
+              var head = [point[0], point[1]];
+              if (next && next[2] > point[2]) {
+                var f = (current - point[2]) / (next[2] - point[2]);
+                head = [point[0] + (next[0] - point[0]) * f, point[1] + (next[1] - point[1]) * f];
+              }
+              var latlngs = track.slice(0, index + 1).map(function (p) { return [p[0], p[1]]; });
+              latlngs.push(head);
+              lines[i].setLatLngs(latlngs);
+              if (next) heads[i].setLatLng(head).addTo(map); else map.removeLayer(heads[i]);
+            });
+            data.events.forEach(function (e, i) {
+              if (e.r <= current) {
+                if (!map.hasLayer(eventMarkers[i])) eventMarkers[i].addTo(map);
+              } else {
+                map.removeLayer(eventMarkers[i]);
+              }
+            });
+            slider.value = current;
+            clockLabel.textContent = formatClock(current);
+          }
+
+          function frame(now) {
+            if (!playing) return;
+            if (lastFrame !== null) {
+              current = Math.min(data.duration, current + (now - lastFrame) * data.speeds[speedIndex]);
+            }
+            lastFrame = now;
+            render();
+            if (current >= data.duration) {
+              if (!data.loop) return pause();
+              current = 0;
+            }
+            requestAnimationFrame(frame);
+          }
+
+          function play() {
+            if (current >= data.duration) current = 0;
+            playing = true;
+            lastFrame = null;
+            playButton.innerHTML = '&#10074;&#10074;';
+            requestAnimationFrame(frame);
+          }
+
+          function pause() {
+            playing = false;
+            playButton.innerHTML = '&#9654;';
+          }
+
+          function start() {
+            if (window.beforeReplay) window.beforeReplay();
+            lines.forEach(function (line) { line.addTo(map); });
+            controls.style.display = 'flex';
+            if (toggleButton) toggleButton.style.display = 'none';
+            current = 0;
+            render();
+            play();
+          }
+
+          function stop() {
+            pause();
+            lines.concat(heads, eventMarkers).forEach(function (layer) { map.removeLayer(layer); });
+            controls.style.display = 'none';
+            if (toggleButton) toggleButton.style.display = 'block';
+            if (window.afterReplay) window.afterReplay();
+          }
+
+          slider.addEventListener('input', function () {
+            current = parseFloat(slider.value) || 0;
+            render();
+          });
+          playButton.addEventListener('click', function () {
+            if (playing) pause(); else play();
+          });
+          speedButton.addEventListener('click', function () {
+            speedIndex = (speedIndex + 1) % data.speeds.length;
+            speedButton.innerHTML = data.speeds[speedIndex] + '&times;';
+          });
+          if (toggleButton) toggleButton.addEventListener('click', start);
+          if (closeButton) closeButton.addEventListener('click', stop);
+
+          return { start: start, stop: stop };
+        })();
+        ${options.autoplay ? "replay.start();" : ""}
+    `,
+  };
+};
+
 // Feed mini map for activity routes
-export const generateMiniMapHTML = (route: any[], name: string): string => {
-  const coords = route.map((p) => `[${p.latitude}, ${p.longitude}]`).join(",");
+export const generateMiniMapHTML = (
+  route: any[],
+  name: string,
+  activityType: string = "other",
+  replay?: { startTime?: Date | string | number | null; duration?: number }
+): string => {
+  const simplified = simplifyRouteForActivity(route, activityType);
+  const coords = simplified
+    .map((p) => `[${p.latitude}, ${p.longitude}]`)
+    .join(",");
+  const replayLayer = replay
+    ? generateReplayLayer([{ route: simplified, ...replay }], [], {
+        autoplay: true,
+      })
+    : null;
 
   return `
     <!DOCTYPE html>
@@ -1106,10 +1436,12 @@ export const generateMiniMapHTML = (route: any[], name: string): string => {
       <style>
         body { margin: 0; padding: 0; }
         #map { height: 150px; width: 100%; }
+        ${replayLayer?.style || ""}
       </style>
     </head>
     <body>
       <div id="map"></div>
+      ${replayLayer?.controls || ""}
       <script>
         var map = L.map('map', { 
           zoomControl: false,
@@ -1121,13 +1453,15 @@ export const generateMiniMapHTML = (route: any[], name: string): string => {
         
         var route = L.polyline([${coords}], {
           color: '#2d5a3d',
-          weight: 3
+          weight: 3,
+          opacity: ${replayLayer ? 0.35 : 1}
         }).addTo(map);
         
         map.fitBounds(route.getBounds().pad(0.05));
         
         if (map.getZoom() > 16) map.setZoom(16);
         if (map.getZoom() < 14) map.setZoom(14);
+        ${replayLayer?.script || ""}
       </script>
     </body>
     </html>
@@ -0,0 +1,142 @@
+interface Coordinate {
+  latitude: number;
+  longitude: number;
+}
+
+// Most points a route keeps in memory or sends to a map
+export const MAX_DISPLAY_ROUTE_POINTS = 1000;
+
+// Raw points kept at the end of a live route so the current position
+// and the last few turns are never simplified away
+const RECENT_POINTS_KEPT = 100;
+
+const METERS_PER_DEGREE = 111320;
+
+// How far (meters) a simplified line may stray from the recorded track
+// Slow activities wind through tight turns, fast ones can lose more detail
+export const getSimplificationTolerance = (activityType: string): number => {
+  switch (activityType) {
+    case "climb":
+      return 2;
+    case "walk":
+    case "hike":
+      return 3;
+    case "run":
+      return 4;
+    case "paddleboard":
+      return 5;
+    case "bike":
+      return 8;
+    default:
+      return 15;
+  }
+};
+
+/**
+ * Distance in meters from a point to the segment between start and end,
+ * using a flat projection around the segment (accurate at route scale)
+ */
+const perpendicularDistance = (
+  point: Coordinate,
+  start: Coordinate,
+  end: Coordinate
+): number => {
+  const cosLat = Math.cos((start.latitude * Math.PI) / 180);
+  const toXY = (p: Coordinate) => ({
+    x: (p.longitude - start.longitude) * METERS_PER_DEGREE * cosLat,
+    y: (p.latitude - start.latitude) * METERS_PER_DEGREE,
+  });
+
+  const p = toXY(point);
+  const e = toXY(end);
+  const lengthSquared = e.x * e.x + e.y * e.y;
+
+  if (lengthSquared === 0) return Math.sqrt(p.x * p.x + p.y * p.y);
+
+  const t = Math.max(0, Math.min(1, (p.x * e.x + p.y * e.y) / lengthSquared));
+  const dx = p.x - t * e.x;
+  const dy = p.y - t * e.y;
+  return Math.sqrt(dx * dx + dy * dy);
+};
+
+/**
+ * Douglas-Peucker simplification
+ * Keeps the points needed to stay within tolerance meters of the original
+ * line. Uses an explicit stack so multi-hour tracks can't overflow recursion.
+ */
+export const simplifyRoute = <T extends Coordinate>(
+  route: T[],
+  tolerance: number
+): T[] => {
+  if (!route || route.length <= 2) return route || [];
+
+  const keep = new Uint8Array(route.length);
+  keep[0] = 1;
+  keep[route.length - 1] = 1;
+
+  const stack: [number, number][] = [[0, route.length - 1]];
+
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let maxDistance = 0;
+    let index = -1;
+
+    for (let i = first + 1; i < last; i++) {
+      const distance = perpendicularDistance(route[i], route[first], route[last]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+
+    if (index !== -1 && maxDistance > tolerance) {
+      keep[index] = 1;
+      stack.push([first, index], [index, last]);
+    }
+  }
+
+  return route.filter((_, i) => keep[i] === 1);
+};
+
+/**
+ * Simplify a route for display using its activity's tolerance
+ * The tolerance is relaxed until the route fits within maxPoints
+ */
+export const simplifyRouteForActivity = <T extends Coordinate>(
+  route: T[],
+  activityType: string,
+  maxPoints: number = MAX_DISPLAY_ROUTE_POINTS
+): T[] => {
+  if (!Array.isArray(route) || route.length <= 2) return route || [];
+
+  let tolerance = getSimplificationTolerance(activityType);
+  let simplified = simplifyRoute(route, tolerance);
+
+  while (simplified.length > maxPoints) {
+    tolerance *= 2;
+    simplified = simplifyRoute(simplified, tolerance);
+  }
+
+  return simplified;
+};
+
+/**
+ * Keep a live route within memory limits while tracking
+ * Older points are simplified; the most recent ones stay untouched
+ */
+export const simplifyLiveRoute = <T extends Coordinate>(
+  route: T[],
+  activityType: string
+): T[] => {
+  if (route.length <= MAX_DISPLAY_ROUTE_POINTS) return route;
+
+  const recent = route.slice(-RECENT_POINTS_KEPT);
+  // Include the first recent point so the joined line stays continuous
+  const older = simplifyRouteForActivity(
+    route.slice(0, -RECENT_POINTS_KEPT + 1),
+    activityType,
+    MAX_DISPLAY_ROUTE_POINTS / 2
+  );
+
+  return [...older.slice(0, -1), ...recent];
+};
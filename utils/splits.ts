@@ -0,0 +1,217 @@
+import { LocationPoint } from "../types/visits";
+import { calculateElevationStats } from "./elevation";
+import { calculateDistance } from "./gps";
+
+export type SplitUnit = "km" | "mi";
+
+export interface PauseInterval {
+  start: number; // ms timestamp
+  end: number; // ms timestamp
+}
+
+export interface ActivitySplit {
+  index: number; // 1-based
+  startTime: number; // ms timestamp
+  endTime: number; // ms timestamp
+  distance: number; // meters
+  duration: number; // moving seconds
+  pace: number; // seconds per split unit
+  elevationGain: number; // meters
+  elevationLoss: number; // meters
+}
+
+export const SPLIT_UNIT_METERS: Record<SplitUnit, number> = {
+  km: 1000,
+  mi: 1609.344,
+};
+
+// A trailing partial split shorter than this is just GPS noise at the finish
+const MIN_PARTIAL_SPLIT_METERS = 50;
+
+/**
+ * Split unit that matches the user's distance units setting
+ */
+export const getSplitUnit = (units: "metric" | "imperial"): SplitUnit =>
+  units === "imperial" ? "mi" : "km";
+
+/**
+ * Milliseconds of the window [start, end] that fall inside pauses
+ */
+const getPausedOverlap = (
+  start: number,
+  end: number,
+  pauses: PauseInterval[]
+): number =>
+  pauses.reduce((total, pause) => {
+    const overlap = Math.min(end, pause.end) - Math.max(start, pause.start);
+    return overlap > 0 ? total + overlap : total;
+  }, 0);
+
+const buildSplit = (
+  index: number,
+  points: LocationPoint[],
+  startTime: number,
+  endTime: number,
+  pauses: PauseInterval[],
+  unit: SplitUnit
+): ActivitySplit => {
+  let distance = 0;
+  for (let i = 1; i < points.length; i++) {
+    distance += calculateDistance(
+      points[i - 1].latitude,
+      points[i - 1].longitude,
+      points[i].latitude,
+      points[i].longitude
+    );
+  }
+
+  const duration = Math.max(
+    0,
+    Math.round(
+      (endTime - startTime - getPausedOverlap(startTime, endTime, pauses)) /
+        1000
+    )
+  );
+  const elevation = calculateElevationStats(points);
+
+  return {
+    index,
+    startTime,
+    endTime,
+    distance: Math.round(distance),
+    duration,
+    pace:
+      distance > 0
+        ? Math.round(duration / (distance / SPLIT_UNIT_METERS[unit]))
+        : 0,
+    elevationGain: elevation?.gain || 0,
+    elevationLoss: elevation?.loss || 0,
+  };
+};
+
+const interpolatePoint = (
+  a: LocationPoint,
+  b: LocationPoint,
+  fraction: number
+): LocationPoint => ({
+  latitude: a.latitude + (b.latitude - a.latitude) * fraction,
+  longitude: a.longitude + (b.longitude - a.longitude) * fraction,
+  timestamp: a.timestamp + (b.timestamp - a.timestamp) * fraction,
+  altitude:
+    a.altitude !== undefined && b.altitude !== undefined
+      ? a.altitude + (b.altitude - a.altitude) * fraction
+      : a.altitude ?? b.altitude,
+});
+
+/**
+ * Calculate automatic splits at every km or mile boundary
+ * Boundary times are interpolated between the GPS points either side of it
+ */
+export const calculateSplits = (
+  route: LocationPoint[],
+  unit: SplitUnit,
+  pauses: PauseInterval[] = []
+): ActivitySplit[] => {
+  const points = (route || []).filter((p) => p && p.timestamp);
+  if (points.length < 2) return [];
+
+  const unitMeters = SPLIT_UNIT_METERS[unit];
+  const splits: ActivitySplit[] = [];
+  let splitPoints: LocationPoint[] = [points[0]];
+  let splitStart = points[0].timestamp;
+  let splitDistance = 0;
+
+  for (let i = 1; i < points.length; i++) {
+    let previous = points[i - 1];
+    const current = points[i];
+    let segment = calculateDistance(
+      previous.latitude,
+      previous.longitude,
+      current.latitude,
+      current.longitude
+    );
+
+    // One GPS segment can cross several boundaries on a fast, sparse track
+    while (splitDistance + segment >= unitMeters && segment > 0) {
+      const fraction = (unitMeters - splitDistance) / segment;
+      const boundary = interpolatePoint(previous, current, fraction);
+
+      splitPoints.push(boundary);
+      splits.push(
+        buildSplit(
+          splits.length + 1,
+          splitPoints,
+          splitStart,
+          boundary.timestamp,
+          pauses,
+          unit
+        )
+      );
+
+      segment -= unitMeters - splitDistance;
+      previous = boundary;
+      splitPoints = [boundary];
+      splitStart = boundary.timestamp;
+      splitDistance = 0;
+    }
+
+    splitDistance += segment;
+    splitPoints.push(current);
+  }
+
+  if (splitDistance >= MIN_PARTIAL_SPLIT_METERS) {
+    splits.push(
+      buildSplit(
+        splits.length + 1,
+        splitPoints,
+        splitStart,
+        points[points.length - 1].timestamp,
+        pauses,
+        unit
+      )
+    );
+  }
+
+  return splits;
+};
+
+/**
+ * Calculate manual laps from the lap button presses
+ * Each marker closes the current lap; the final lap runs to the end time
+ */
+export const calculateLaps = (
+  route: LocationPoint[],
+  lapMarkers: number[],
+  startTime: number,
+  endTime: number,
+  unit: SplitUnit,
+  pauses: PauseInterval[] = []
+): ActivitySplit[] => {
+  if (!lapMarkers || lapMarkers.length === 0) return [];
+
+  const boundaries = [
+    startTime,
+    ...lapMarkers.filter((t) => t > startTime && t < endTime).sort((a, b) => a - b),
+    endTime,
+  ];
+  const points = route || [];
+
+  return boundaries.slice(1).map((lapEnd, i) => {
+    const lapStart = boundaries[i];
+    const lapPoints = points.filter(
+      (p) => p.timestamp >= lapStart && p.timestamp <= lapEnd
+    );
+    // Bridge the gap from the previous lap so no distance is lost between laps
+    const previousPoint = [...points]
+      .reverse()
+      .find((p) => p.timestamp < lapStart);
+    return buildSplit(
+      i + 1,
+      previousPoint ? [previousPoint, ...lapPoints] : lapPoints,
+      lapStart,
+      lapEnd,
+      pauses,
+      unit
+    );
+  });
+};
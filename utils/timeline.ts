@@ -0,0 +1,178 @@
+import { JournalEntry } from "../contexts/JournalContext";
+import { Trip, TripItem } from "../contexts/TripContext";
+import { fromDayKey, toDayKey } from "./date";
+import { calculateElevationStats } from "./elevation";
+import { calculateDistance } from "./gps";
+import { DailyWeatherData, DayWeather, getWeatherByDay } from "./weather";
+
+interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+// Travel between two consecutive trip items
+export interface TravelLeg {
+  distance: number; // Straight-line meters
+  gap: number; // Milliseconds between leaving one item and reaching the next
+}
+
+export interface TimelineEntry {
+  item: TripItem;
+  time: Date;
+  endTime: Date;
+  start?: Coordinates;
+  end?: Coordinates;
+  distance: number; // meters, activities only
+  elevationGain: number; // meters, activities only
+  leg?: TravelLeg; // From the previous located item
+}
+
+export interface TimelineDay {
+  day: string;
+  date: Date;
+  entries: TimelineEntry[];
+  journal: JournalEntry[];
+  weather?: DayWeather;
+  activityDistance: number; // meters covered in activities
+  travelDistance: number; // meters between items
+  elevationGain: number; // meters
+}
+
+const toCoordinates = (point: any): Coordinates | undefined => {
+  const latitude = point?.location?.latitude ?? point?.latitude;
+  const longitude = point?.location?.longitude ?? point?.longitude;
+  return typeof latitude === "number" && typeof longitude === "number"
+    ? { latitude, longitude }
+    : undefined;
+};
+
+const toDate = (value: any): Date | null => {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const toTimelineEntry = (item: TripItem): TimelineEntry | null => {
+  const data = item.data || {};
+
+  if (item.type === "activity") {
+    const time =
+      toDate(data.startTime || data.start_time) ||
+      toDate(data.activityDate || data.activity_date || data.date) ||
+      toDate(item.added_at);
+    if (!time) return null;
+
+    const route: any[] = Array.isArray(data.route) ? data.route : [];
+    const durationMs = (data.duration || 0) * 1000;
+    const endTime =
+      toDate(data.endTime || data.end_time) ||
+      new Date(time.getTime() + durationMs);
+
+    return {
+      item,
+      time,
+      endTime,
+      start: toCoordinates(route[0]),
+      end: toCoordinates(route[route.length - 1]),
+      distance: data.distance || 0,
+      elevationGain:
+        data.elevationGain ??
+        data.elevation_gain ??
+        calculateElevationStats(route)?.gain ??
+        0,
+    };
+  }
+
+  const time =
+    toDate(data.locationDate || data.location_date || data.timestamp) ||
+    toDate(item.added_at);
+  if (!time) return null;
+
+  const location = toCoordinates(data);
+  return {
+    item,
+    time,
+    endTime: time,
+    start: location,
+    end: location,
+    distance: 0,
+    elevationGain: 0,
+  };
+};
+
+/**
+ * The trip as a chronological story - items grouped by local day with
+ * the travel leg into each one, daily totals, weather and journal entries
+ * Days outside the trip's dates are included when items fall on them
+ */
+export const buildTripTimeline = (
+  trip: Trip,
+  journalEntries: JournalEntry[] = [],
+  weather?: DailyWeatherData | null,
+): TimelineDay[] => {
+  const entries = (trip.items || [])
+    .map(toTimelineEntry)
+    .filter((entry): entry is TimelineEntry => entry !== null)
+    .sort((a, b) => a.time.getTime() - b.time.getTime());
+
+  // Each leg starts where the last located item left off
+  let previous: TimelineEntry | null = null;
+  entries.forEach((entry) => {
+    if (!entry.start) return;
+    if (previous?.end) {
+      entry.leg = {
+        distance: calculateDistance(
+          previous.end.latitude,
+          previous.end.longitude,
+          entry.start.latitude,
+          entry.start.longitude,
+        ),
+        gap: Math.max(0, entry.time.getTime() - previous.endTime.getTime()),
+      };
+    }
+    previous = entry;
+  });
+
+  const weatherByDay = getWeatherByDay(weather);
+  const days: Record<string, TimelineDay> = {};
+  const getDay = (day: string) =>
+    days[day] ||
+    (days[day] = {
+      day,
+      date: fromDayKey(day),
+      entries: [],
+      journal: [],
+      weather: weatherByDay[day],
+      activityDistance: 0,
+      travelDistance: 0,
+      elevationGain: 0,
+    });
+
+  const lastDay = toDayKey(trip.end_date);
+  for (
+    let date = fromDayKey(toDayKey(trip.start_date));
+    toDayKey(date) <= lastDay;
+    date.setDate(date.getDate() + 1)
+  ) {
+    getDay(toDayKey(date));
+  }
+
+  entries.forEach((entry) => {
+    const day = getDay(toDayKey(entry.time));
+    day.entries.push(entry);
+    day.activityDistance += entry.distance;
+    day.elevationGain += entry.elevationGain;
+    day.travelDistance += entry.leg?.distance || 0;
+  });
+
+  journalEntries
+    .filter((entry) => entry.trip_id === trip.id)
+    .forEach((entry) => {
+      const created = toDate(entry.created_at);
+      if (created) getDay(toDayKey(created)).journal.push(entry);
+    });
+
+  return Object.keys(days)
+    .sort()
+    .map((day) => days[day]);
+};
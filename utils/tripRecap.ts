@@ -0,0 +1,239 @@
+import { CategoryType } from "../constants/categories";
+import { Trip } from "../contexts/TripContext";
+import { calculateDistance } from "./gps";
+import { buildTripTimeline } from "./timeline";
+
+interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface RecapPlace {
+  name: string;
+  tripName?: string; // Set in yearly reviews
+}
+
+export interface TripRecap {
+  days: number;
+  activityCount: number;
+  spotCount: number;
+  photoCount: number;
+  distance: number; // meters
+  movingTime: number; // seconds
+  elevationGain: number; // meters
+  categories: CategoryType[]; // Distinct spot categories visited
+  furthestFromHome?: RecapPlace & { distance: number }; // meters, needs a home location
+  busiestDay?: { date: Date; itemCount: number; tripName?: string };
+  topRatedSpot?: RecapPlace & { rating: number; category?: CategoryType };
+}
+
+export interface YearInReview extends Omit<TripRecap, "days"> {
+  year: number;
+  tripCount: number;
+  days: number; // Days spent on trips
+  longestTrip?: RecapPlace & { days: number };
+  trips: { trip: Trip; recap: TripRecap }[];
+}
+
+// Only every nth route point is checked for the furthest point
+const ROUTE_SAMPLE_STEP = 10;
+
+const toCoordinates = (point: any): Coordinates | undefined => {
+  const latitude = point?.location?.latitude ?? point?.latitude;
+  const longitude = point?.location?.longitude ?? point?.longitude;
+  return typeof latitude === "number" && typeof longitude === "number"
+    ? { latitude, longitude }
+    : undefined;
+};
+
+const getTripDays = (trip: Trip) => {
+  const start = new Date(trip.start_date);
+  const end = new Date(trip.end_date);
+  const days =
+    Math.ceil((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24)) + 1;
+  return days > 0 ? days : 1;
+};
+
+/**
+ * Headline numbers for a trip
+ * Moving time falls back to total duration for activities recorded
+ * before moving time was tracked
+ */
+export const calculateTripRecap = (
+  trip: Trip,
+  home?: Coordinates | null,
+): TripRecap => {
+  const items = trip.items || [];
+  const activities = items.filter((item) => item.type === "activity");
+  const spots = items.filter((item) => item.type === "spot");
+
+  const recap: TripRecap = {
+    days: getTripDays(trip),
+    activityCount: activities.length,
+    spotCount: spots.length,
+    photoCount: items.reduce(
+      (sum, item) => sum + (item.data?.photos?.length || 0),
+      0,
+    ),
+    distance: 0,
+    movingTime: 0,
+    elevationGain: 0,
+    categories: [],
+  };
+
+  const categories = new Set<CategoryType>();
+
+  activities.forEach((item) => {
+    const data = item.data || {};
+    recap.distance += data.distance || 0;
+    recap.movingTime +=
+      data.movingTime ?? data.moving_time ?? data.duration ?? 0;
+  });
+
+  spots.forEach((item) => {
+    const data = item.data || {};
+    if (data.category) categories.add(data.category);
+
+    if (
+      typeof data.rating === "number" &&
+      data.rating > 0 &&
+      (!recap.topRatedSpot || data.rating > recap.topRatedSpot.rating)
+    ) {
+      recap.topRatedSpot = {
+        name: data.name || "Unnamed spot",
+        rating: data.rating,
+        category: data.category,
+      };
+    }
+  });
+  recap.categories = Array.from(categories);
+
+  // The timeline already dates every item and works out elevation
+  const timeline = buildTripTimeline(trip);
+  timeline.forEach((day) => {
+    recap.elevationGain += day.elevationGain;
+
+    if (
+      day.entries.length > 0 &&
+      (!recap.busiestDay || day.entries.length > recap.busiestDay.itemCount)
+    ) {
+      recap.busiestDay = { date: day.date, itemCount: day.entries.length };
+    }
+  });
+
+  if (home) {
+    const consider = (point: Coordinates | undefined, name: string) => {
+      if (!point) return;
+      const distance = calculateDistance(
+        home.latitude,
+        home.longitude,
+        point.latitude,
+        point.longitude,
+      );
+      if (!recap.furthestFromHome || distance > recap.furthestFromHome.distance) {
+        recap.furthestFromHome = { name, distance };
+      }
+    };
+
+    spots.forEach((item) =>
+      consider(toCoordinates(item.data), item.data?.name || "Unnamed spot"),
+    );
+    activities.forEach((item) => {
+      const route: any[] = Array.isArray(item.data?.route)
+        ? item.data.route
+        : [];
+      const name = item.data?.name || "Unnamed activity";
+      for (let i = 0; i < route.length; i += ROUTE_SAMPLE_STEP) {
+        consider(toCoordinates(route[i]), name);
+      }
+      consider(toCoordinates(route[route.length - 1]), name);
+    });
+  }
+
+  return recap;
+};
+
+/**
+ * Roll every trip that started in the given year up into one review
+ */
+export const calculateYearInReview = (
+  trips: Trip[],
+  year: number,
+  home?: Coordinates | null,
+): YearInReview => {
+  const review: YearInReview = {
+    year,
+    tripCount: 0,
+    days: 0,
+    activityCount: 0,
+    spotCount: 0,
+    photoCount: 0,
+    distance: 0,
+    movingTime: 0,
+    elevationGain: 0,
+    categories: [],
+    trips: [],
+  };
+
+  const categories = new Set<CategoryType>();
+
+  trips
+    .filter((trip) => new Date(trip.start_date).getFullYear() === year)
+    .sort(
+      (a, b) =>
+        new Date(a.start_date).getTime() - new Date(b.start_date).getTime(),
+    )
+    .forEach((trip) => {
+      const recap = calculateTripRecap(trip, home);
+      review.trips.push({ trip, recap });
+
+      review.tripCount++;
+      review.days += recap.days;
+      review.activityCount += recap.activityCount;
+      review.spotCount += recap.spotCount;
+      review.photoCount += recap.photoCount;
+      review.distance += recap.distance;
+      review.movingTime += recap.movingTime;
+      review.elevationGain += recap.elevationGain;
+      recap.categories.forEach((category) => categories.add(category));
+
+      if (!review.longestTrip || recap.days > review.longestTrip.days) {
+        review.longestTrip = { name: trip.name, days: recap.days };
+      }
+      if (
+        recap.furthestFromHome &&
+        (!review.furthestFromHome ||
+          recap.furthestFromHome.distance > review.furthestFromHome.distance)
+      ) {
+        review.furthestFromHome = {
+          ...recap.furthestFromHome,
+          tripName: trip.name,
+        };
+      }
+      if (
+        recap.busiestDay &&
+        (!review.busiestDay ||
+          recap.busiestDay.itemCount > review.busiestDay.itemCount)
+      ) {
+        review.busiestDay = { ...recap.busiestDay, tripName: trip.name };
+      }
+      if (
+        recap.topRatedSpot &&
+        (!review.topRatedSpot ||
+          recap.topRatedSpot.rating > review.topRatedSpot.rating)
+      ) {
+        review.topRatedSpot = { ...recap.topRatedSpot, tripName: trip.name };
+      }
+    });
+
+  review.categories = Array.from(categories);
+  return review;
+};
+
+/**
+ * Years that have at least one trip, newest first
+ */
+export const getTripYears = (trips: Trip[]): number[] =>
+  Array.from(
+    new Set(trips.map((trip) => new Date(trip.start_date).getFullYear())),
+  ).sort((a, b) => b - a);
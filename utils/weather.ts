@@ -0,0 +1,48 @@
+export interface DayWeather {
+  temperatureMax: number;
+  temperatureMin: number;
+  precipitation: number;
+  weatherCode: number;
+}
+
+// The daily block of an open-meteo response
+export interface DailyWeatherData {
+  time: string[];
+  temperature_2m_max: number[];
+  temperature_2m_min: number[];
+  precipitation_sum: number[];
+  weathercode: number[];
+}
+
+export const getWeatherIcon = (code: number) => {
+  if (code === 0) return "sunny";
+  if (code <= 3) return "partly-sunny";
+  if (code <= 48) return "cloudy";
+  if (code <= 67) return "rainy";
+  if (code <= 77) return "snow";
+  if (code <= 82) return "rainy";
+  if (code >= 95) return "thunderstorm";
+  return "cloudy";
+};
+
+/**
+ * Weather keyed by day - open-meteo returns local dates when
+ * requested with timezone=auto
+ */
+export const getWeatherByDay = (
+  daily?: DailyWeatherData | null,
+): Record<string, DayWeather> => {
+  const byDay: Record<string, DayWeather> = {};
+  if (!daily?.time) return byDay;
+
+  daily.time.forEach((day, i) => {
+    if (byDay[day]) return;
+    byDay[day] = {
+      temperatureMax: daily.temperature_2m_max[i],
+      temperatureMin: daily.temperature_2m_min[i],
+      precipitation: daily.precipitation_sum[i] || 0,
+      weatherCode: daily.weathercode[i],
+    };
+  });
+  return byDay;
+};
@@ -0,0 +1,410 @@
+// Minimal ZIP support for KMZ files and backup archives
+// Writes uncompressed (stored) entries; reads stored and deflated ones,
+// which covers files from Google Earth and other GIS tools
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date and time, as stored in ZIP headers
+const dosDateTime = (date: Date) => ({
+  time:
+    (date.getHours() << 11) |
+    (date.getMinutes() << 5) |
+    Math.floor(date.getSeconds() / 2),
+  date:
+    ((date.getFullYear() - 1980) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate(),
+});
+
+export interface ZipWriter {
+  add: (name: string, data: Uint8Array) => void;
+  finish: () => void;
+}
+
+/**
+ * Write a ZIP one entry at a time
+ * Each entry goes straight to write, so only the central directory is
+ * kept in memory - large archives can be streamed to disk
+ */
+export const createZipWriter = (
+  write: (chunk: Uint8Array) => void,
+  modified: Date = new Date()
+): ZipWriter => {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(modified);
+  const written: { name: Uint8Array; size: number; crc: number; offset: number }[] = [];
+  let offset = 0;
+
+  const add = (entryName: string, data: Uint8Array) => {
+    const name = encoder.encode(entryName);
+    const crc = crc32(data);
+    const header = new Uint8Array(30 + name.length);
+    const view = new DataView(header.buffer);
+
+    view.setUint32(0, LOCAL_HEADER, true);
+    view.setUint16(4, 20, true); // Version needed
+    view.setUint16(6, UTF8_FLAG, true);
+    view.setUint16(8, 0, true); // Stored
+    view.setUint16(10, time, true);
+    view.setUint16(12, date, true);
+    view.setUint32(14, crc, true);
+    view.setUint32(18, data.length, true);
+    view.setUint32(22, data.length, true);
+    view.setUint16(26, name.length, true);
+    view.setUint16(28, 0, true);
+    header.set(name, 30);
+
+    write(header);
+    write(data);
+    written.push({ name, size: data.length, crc, offset });
+    offset += header.length + data.length;
+  };
+
+  const finish = () => {
+    const centralSize = written.reduce((sum, f) => sum + 46 + f.name.length, 0);
+    const output = new Uint8Array(centralSize + 22);
+    const view = new DataView(output.buffer);
+    let position = 0;
+
+    for (const file of written) {
+      view.setUint32(position, CENTRAL_HEADER, true);
+      view.setUint16(position + 4, 20, true); // Version made by
+      view.setUint16(position + 6, 20, true);
+      view.setUint16(position + 8, UTF8_FLAG, true);
+      view.setUint16(position + 10, 0, true);
+      view.setUint16(position + 12, time, true);
+      view.setUint16(position + 14, date, true);
+      view.setUint32(position + 16, file.crc, true);
+      view.setUint32(position + 20, file.size, true);
+      view.setUint32(position + 24, file.size, true);
+      view.setUint16(position + 28, file.name.length, true);
+      // Extra, comment, disk, attributes all zero
+      view.setUint32(position + 42, file.offset, true);
+      output.set(file.name, position + 46);
+      position += 46 + file.name.length;
+    }
+
+    view.setUint32(position, END_OF_CENTRAL_DIRECTORY, true);
+    view.setUint16(position + 8, written.length, true);
+    view.setUint16(position + 10, written.length, true);
+    view.setUint32(position + 12, centralSize, true);
+    view.setUint32(position + 16, offset, true);
+
+    write(output);
+  };
+
+  return { add, finish };
+};
+
+export const createZip = (entries: ZipEntry[], modified: Date = new Date()): Uint8Array => {
+  const chunks: Uint8Array[] = [];
+  const writer = createZipWriter((chunk) => chunks.push(chunk), modified);
+  entries.forEach((entry) => writer.add(entry.name, entry.data));
+  writer.finish();
+
+  const output = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+};
+
+// Reads length bytes starting at offset
+export type ZipSource = (offset: number, length: number) => Uint8Array;
+
+export interface ZipDirectoryEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localOffset: number;
+}
+
+/**
+ * List a ZIP's entries without reading their contents
+ * Only the end of the file and the central directory are read
+ */
+export const readZipDirectory = (read: ZipSource, totalSize: number): ZipDirectoryEntry[] => {
+  const decoder = new TextDecoder();
+
+  // The end record sits in the last 22 bytes plus an optional comment
+  const tailStart = Math.max(0, totalSize - 22 - 0xffff);
+  const tail = read(tailStart, totalSize - tailStart);
+  const tailView = new DataView(tail.buffer, tail.byteOffset, tail.byteLength);
+  let end = -1;
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tailView.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error("Not a ZIP file");
+
+  const count = tailView.getUint16(end + 10, true);
+  const directorySize = tailView.getUint32(end + 12, true);
+  const directoryStart = tailView.getUint32(end + 16, true);
+  if (directoryStart + directorySize > totalSize) throw new Error("Damaged ZIP file");
+
+  const directory = read(directoryStart, directorySize);
+  const view = new DataView(directory.buffer, directory.byteOffset, directory.byteLength);
+  const entries: ZipDirectoryEntry[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > directory.length || view.getUint32(offset, true) !== CENTRAL_HEADER) {
+      throw new Error("Damaged ZIP file");
+    }
+
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    entries.push({
+      name: decoder.decode(directory.subarray(offset + 46, offset + 46 + nameLength)),
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      size: view.getUint32(offset + 24, true),
+      localOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+/**
+ * Read one entry's contents
+ */
+export const readZipEntry = (read: ZipSource, entry: ZipDirectoryEntry): Uint8Array => {
+  // Sizes come from the central directory - local headers may defer them
+  const header = read(entry.localOffset, 30);
+  const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+  if (header.length < 30 || view.getUint32(0, true) !== LOCAL_HEADER) {
+    throw new Error("Damaged ZIP file");
+  }
+
+  const dataStart =
+    entry.localOffset + 30 + view.getUint16(26, true) + view.getUint16(28, true);
+  const raw = read(dataStart, entry.compressedSize);
+  if (raw.length !== entry.compressedSize) throw new Error("Damaged ZIP file");
+
+  if (entry.method === 0) return raw.slice();
+  if (entry.method === 8) return inflateRaw(raw, entry.size);
+  throw new Error(`Unsupported ZIP compression method ${entry.method}`);
+};
+
+export const readZip = (bytes: Uint8Array): ZipEntry[] => {
+  const read: ZipSource = (offset, length) => bytes.subarray(offset, offset + length);
+
+  return readZipDirectory(read, bytes.length)
+    .filter((entry) => !entry.name.endsWith("/"))
+    .map((entry) => ({ name: entry.name, data: readZipEntry(read, entry) }));
+};
+
+// DEFLATE decoding (RFC 1951)
+
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67,
+  83, 99, 115, 131, 163, 195, 227, 258,
+];
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5,
+  5, 5, 0,
+];
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769,
+  1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+const DISTANCE_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11,
+  11, 12, 12, 13, 13,
+];
+const CODE_LENGTH_ORDER = [
+  16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15,
+];
+
+interface Huffman {
+  counts: Uint16Array; // Codes of each bit length
+  symbols: Uint16Array; // Symbols ordered by code
+}
+
+const buildHuffman = (lengths: ArrayLike<number>): Huffman => {
+  const counts = new Uint16Array(16);
+  for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++;
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(16);
+  for (let len = 1; len < 16; len++) offsets[len] = offsets[len - 1] + counts[len - 1];
+
+  const symbols = new Uint16Array(lengths.length);
+  for (let i = 0; i < lengths.length; i++) {
+    if (lengths[i]) symbols[offsets[lengths[i]]++] = i;
+  }
+
+  return { counts, symbols };
+};
+
+const FIXED_LITERALS = buildHuffman(
+  Array.from({ length: 288 }, (_, i) => (i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8))
+);
+const FIXED_DISTANCES = buildHuffman(new Array(30).fill(5));
+
+export const inflateRaw = (input: Uint8Array, expectedSize: number = input.length * 4): Uint8Array => {
+  let output = new Uint8Array(Math.max(expectedSize, 1024));
+  let outLength = 0;
+  let position = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const ensure = (extra: number) => {
+    if (outLength + extra <= output.length) return;
+    const grown = new Uint8Array(Math.max(output.length * 2, outLength + extra));
+    grown.set(output.subarray(0, outLength));
+    output = grown;
+  };
+
+  const bits = (count: number): number => {
+    while (bitCount < count) {
+      if (position >= input.length) throw new Error("Unexpected end of compressed data");
+      bitBuffer |= input[position++] << bitCount;
+      bitCount += 8;
+    }
+    const value = bitBuffer & ((1 << count) - 1);
+    bitBuffer >>>= count;
+    bitCount -= count;
+    return value;
+  };
+
+  const decodeSymbol = (huffman: Huffman): number => {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let len = 1; len < 16; len++) {
+      code |= bits(1);
+      const count = huffman.counts[len];
+      if (code - first < count) return huffman.symbols[index + code - first];
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error("Invalid compressed data");
+  };
+
+  let last = 0;
+  while (!last) {
+    last = bits(1);
+    const type = bits(2);
+
+    if (type === 0) {
+      // Stored block - skip to the byte boundary
+      bitBuffer = 0;
+      bitCount = 0;
+      if (position + 4 > input.length) throw new Error("Unexpected end of compressed data");
+      const length = input[position] | (input[position + 1] << 8);
+      position += 4;
+      ensure(length);
+      output.set(input.subarray(position, position + length), outLength);
+      outLength += length;
+      position += length;
+      continue;
+    }
+
+    let literals = FIXED_LITERALS;
+    let distances = FIXED_DISTANCES;
+
+    if (type === 2) {
+      const literalCount = bits(5) + 257;
+      const distanceCount = bits(5) + 1;
+      const codeLengthCount = bits(4) + 4;
+
+      const codeLengths = new Uint8Array(19);
+      for (let i = 0; i < codeLengthCount; i++) codeLengths[CODE_LENGTH_ORDER[i]] = bits(3);
+      const codeLengthHuffman = buildHuffman(codeLengths);
+
+      const lengths = new Uint8Array(literalCount + distanceCount);
+      for (let i = 0; i < lengths.length; ) {
+        const symbol = decodeSymbol(codeLengthHuffman);
+        if (symbol < 16) {
+          lengths[i++] = symbol;
+        } else {
+          let repeat = 0;
+          let value = 0;
+          if (symbol === 16) {
+            if (i === 0) throw new Error("Invalid compressed data");
+            value = lengths[i - 1];
+            repeat = 3 + bits(2);
+          } else if (symbol === 17) {
+            repeat = 3 + bits(3);
+          } else {
+            repeat = 11 + bits(7);
+          }
+          if (i + repeat > lengths.length) throw new Error("Invalid compressed data");
+          lengths.fill(value, i, i + repeat);
+          i += repeat;
+        }
+      }
+
+      literals = buildHuffman(lengths.subarray(0, literalCount));
+      distances = buildHuffman(lengths.subarray(literalCount));
+    } else if (type !== 1) {
+      throw new Error("Invalid compressed data");
+    }
+
+    for (;;) {
+      const symbol = decodeSymbol(literals);
+      if (symbol < 256) {
+        ensure(1);
+        output[outLength++] = symbol;
+      } else if (symbol === 256) {
+        break;
+      } else {
+        const lengthIndex = symbol - 257;
+        if (lengthIndex >= LENGTH_BASE.length) throw new Error("Invalid compressed data");
+        const length = LENGTH_BASE[lengthIndex] + bits(LENGTH_EXTRA[lengthIndex]);
+
+        const distanceIndex = decodeSymbol(distances);
+        if (distanceIndex >= DISTANCE_BASE.length) throw new Error("Invalid compressed data");
+        const distance = DISTANCE_BASE[distanceIndex] + bits(DISTANCE_EXTRA[distanceIndex]);
+        if (distance > outLength) throw new Error("Invalid compressed data");
+
+        // Byte by byte - the copy may overlap what it's writing
+        ensure(length);
+        for (let i = 0; i < length; i++) {
+          output[outLength] = output[outLength - distance];
+          outLength++;
+        }
+      }
+    }
+  }
+
+  return output.slice(0, outLength);
+};